@@ -0,0 +1,59 @@
+import 'dotenv/config';
+import { runWaveAnalysisJob } from '../lib/waveAnalysisJob';
+import { getHistoryBars } from '../lib/barStore';
+import type { SourceInterval } from '../lib/marketData';
+
+/**
+ * The worker's scheduled wave analysis, run from Node (a system cron, CI, or by hand):
+ *
+ *   npm run analyze-waves
+ *   npm run analyze-waves -- --timeframes=1d,1wk --limit=100
+ *   npm run analyze-waves -- --symbols=AAPL,MSFT
+ *
+ * Reads the worker's settings (SUPABASE_URL, SUPABASE_SERVICE_KEY, MARKET_DATA_PROVIDER, ...)
+ * from the environment or a .env file. There's no CPU limit here, so everything due is counted
+ * unless --limit says otherwise. 4h isn't offered: the worker builds it from 1h bars.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lookback when the job doesn't ask for one (intraday timeframes); the worker's defaults
+const DEFAULT_LOOKBACK_DAYS: Record<SourceInterval, number> = {
+  '1m': 5,
+  '5m': 30,
+  '15m': 60,
+  '1h': 180,
+  '1d': 180,
+  '1wk': 365 * 5,
+  '1mo': 365 * 20
+};
+
+// A comma-separated --name=value argument
+const listArg = (name: string): string[] | undefined => {
+  const value = process.argv.find(item => item.startsWith(`--${name}=`))?.slice(name.length + 3);
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+};
+
+async function main() {
+  const env = process.env;
+  const limit = Number(listArg('limit')?.[0]) || Infinity;
+
+  const summary = await runWaveAnalysisJob(env, {
+    getBars: (symbol, timeframe, lookbackDays) => {
+      if (!(timeframe in DEFAULT_LOOKBACK_DAYS)) {
+        throw new Error(`Unsupported timeframe: ${timeframe}`);
+      }
+      const interval = timeframe as SourceInterval;
+      return getHistoryBars(env, symbol, interval, Date.now() - (lookbackDays || DEFAULT_LOOKBACK_DAYS[interval]) * DAY_MS);
+    }
+  }, { symbols: listArg('symbols'), timeframes: listArg('timeframes'), limit });
+
+  console.log(JSON.stringify(summary, null, 2));
+  // Individual symbols failing (delisted, no data) is normal; nothing succeeding isn't
+  if (summary.analyzed === 0 && summary.errors.length > 0) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+import { getSupabaseClient } from './supabase';
+
+// Compare without returning early, so response times don't reveal how much of a key matched
+function constantTimeEquals(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+/**
+ * Whether a request may call the admin-only routes (ADMIN_ROUTES in worker.js), which start server jobs
+ * Takes a bearer token: the ADMIN_API_KEY secret (cron hosts, scripts), or the Supabase
+ * session of a user whose profile role is admin (the Admin page).
+ */
+export async function isAdminRequest(request: Request, env: any): Promise<boolean> {
+  const token = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return false;
+
+  if (env.ADMIN_API_KEY && constantTimeEquals(token, env.ADMIN_API_KEY)) return true;
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_KEY) return false;
+
+  const supabase = getSupabaseClient(env);
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) return false;
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+  return profile?.role === 'admin';
+}
@@ -0,0 +1,78 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AlertChannelType } from '../../src/types/shared';
+import { sendTelegramMessage } from './telegramApi';
+
+// What every channel receives when an alert fires
+export interface AlertDelivery {
+  userId: string;
+  ruleName: string;
+  symbol: string;
+  timeframe: string;
+  condition: string;
+  message: string;
+  price?: number | null;
+  firedAt: string;
+}
+
+export interface AlertChannelContext {
+  env: any;
+  supabase: SupabaseClient;
+  config: Record<string, string>;  // The user's settings for this channel
+}
+
+/**
+ * A way of delivering alerts. Add new channels to ALERT_CHANNELS.
+ * send() throws if the alert couldn't be delivered.
+ */
+export interface AlertChannel {
+  type: AlertChannelType;
+  send(delivery: AlertDelivery, context: AlertChannelContext): Promise<void>;
+}
+
+const telegramChannel: AlertChannel = {
+  type: 'telegram',
+  async send(delivery, { env, supabase }) {
+    // Only ever the user's own verified link - private chats share the user's Telegram id
+    const { data } = await supabase
+      .from('telegram_users')
+      .select('telegram_id')
+      .eq('user_id', delivery.userId)
+      .eq('is_verified', true)
+      .limit(1)
+      .maybeSingle();
+    const chatId = data?.telegram_id;
+    if (!chatId) {
+      throw new Error('No verified Telegram account linked');
+    }
+
+    await sendTelegramMessage(env, chatId, `🔔 ${delivery.ruleName}\n${delivery.message}`);
+  }
+};
+
+const webhookChannel: AlertChannel = {
+  type: 'webhook',
+  async send(delivery, { config }) {
+    if (!config.url) {
+      throw new Error('No webhook URL configured');
+    }
+
+    const { userId, ...body } = delivery;
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.secret ? { 'X-Alert-Secret': config.secret } : {})
+      },
+      body: JSON.stringify({ type: 'wave-alert', ...body })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook returned status ${response.status}`);
+    }
+  }
+};
+
+export const ALERT_CHANNELS: Record<AlertChannelType, AlertChannel> = {
+  telegram: telegramChannel,
+  webhook: webhookChannel
+};
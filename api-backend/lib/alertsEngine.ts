@@ -0,0 +1,356 @@
+import { getSupabaseClient } from './supabase';
+import { ALERT_CHANNELS, AlertDelivery } from './alertChannels';
+import { formatPriceLabel } from '../../src/utils/assetClasses';
+import type {
+  AlertChannelType,
+  AlertCondition,
+  AlertRuleParams,
+  FibTarget,
+  Wave
+} from '../../src/types/shared';
+
+// Default distance from a Fibonacci target that counts as touching it (0.5%, as in ReversalsList)
+const DEFAULT_FIB_TOLERANCE = 0.005;
+
+// Invalidations older than this are history, not news
+const INVALIDATION_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Conditions that report a change. A rule's first evaluation only records where things
+// stand (the current wave, which side of the level the price is on), so only later changes fire.
+const CHANGE_CONDITIONS: AlertCondition[] = ['wave_changed', 'price_above', 'price_below'];
+
+// The parts of a cached wave analysis (wave_analysis_SYMBOL_TIMEFRAME) the rules look at
+interface CachedWaveAnalysis {
+  currentWave?: Wave;
+  invalidWaves?: Wave[];
+  fibTargets?: FibTarget[];
+}
+
+interface AlertRuleRow {
+  id: string;
+  user_id: string;
+  name: string;
+  symbol: string | null;
+  watchlist_id: string | null;
+  timeframe: string;
+  condition: AlertCondition;
+  params: AlertRuleParams | null;
+  channels: AlertChannelType[] | null;
+  cooldown_minutes: number;
+}
+
+interface AlertStateRow {
+  rule_id: string;
+  symbol: string;
+  fingerprint: string | null;
+  last_fired_at: string | null;
+}
+
+// A condition that currently holds. The fingerprint identifies the event, so the
+// same wave or crossing doesn't fire again on the next run.
+export interface AlertMatch {
+  fingerprint: string;
+  message: string;
+  payload?: Record<string, unknown>;
+}
+
+export interface AlertRunOptions {
+  symbols?: string[];                                  // Only evaluate these symbols (default: all)
+  getPrice?: (symbol: string) => Promise<number | null>;
+}
+
+export interface AlertRunSummary {
+  rules: number;
+  checked: number;   // Rule/symbol pairs evaluated
+  fired: number;
+  errors: string[];
+}
+
+/**
+ * Check one rule against a symbol's latest analysis and price
+ *
+ * @returns The match if the condition holds, otherwise null
+ */
+export function evaluateAlertCondition(
+  condition: AlertCondition,
+  params: AlertRuleParams,
+  symbol: string,
+  timeframe: string,
+  analysis: CachedWaveAnalysis | null,
+  price: number | null,
+  now: number = Date.now()
+): AlertMatch | null {
+  const currentWave = analysis?.currentWave;
+
+  switch (condition) {
+    case 'wave_entered': {
+      if (!currentWave || params.wave === undefined) return null;
+      if (String(currentWave.number) !== String(params.wave)) return null;
+      return {
+        fingerprint: `wave:${currentWave.number}:${currentWave.startTimestamp}`,
+        message: `${symbol} entered wave ${currentWave.number} on the ${timeframe} chart` +
+          (price !== null ? ` at ${formatPriceLabel(price, symbol)}` : ''),
+        payload: { wave: currentWave.number, startPrice: currentWave.startPrice }
+      };
+    }
+
+    case 'wave_changed': {
+      if (!currentWave) return null;
+      return {
+        fingerprint: `wave:${currentWave.number}:${currentWave.startTimestamp}`,
+        message: `${symbol} is now in wave ${currentWave.number} on the ${timeframe} chart` +
+          (price !== null ? ` at ${formatPriceLabel(price, symbol)}` : ''),
+        payload: { wave: currentWave.number, startPrice: currentWave.startPrice }
+      };
+    }
+
+    case 'wave_invalidated': {
+      // The current wave itself, or the most recent wave the engine had to drop
+      const invalidated = [
+        ...(currentWave?.isInvalidated ? [currentWave] : []),
+        ...(analysis?.invalidWaves || [])
+      ]
+        .filter(wave => wave.invalidationTimestamp && now - wave.invalidationTimestamp <= INVALIDATION_WINDOW_MS)
+        .sort((a, b) => b.invalidationTimestamp - a.invalidationTimestamp)[0];
+
+      if (!invalidated) return null;
+      return {
+        fingerprint: `invalidated:${invalidated.number}:${invalidated.invalidationTimestamp}`,
+        message: `${symbol} wave ${invalidated.number} was invalidated on the ${timeframe} chart` +
+          (invalidated.invalidationPrice ? ` at ${formatPriceLabel(invalidated.invalidationPrice, symbol)}` : '') +
+          (invalidated.invalidationRule ? ` (${invalidated.invalidationRule})` : ''),
+        payload: { wave: invalidated.number, invalidationPrice: invalidated.invalidationPrice }
+      };
+    }
+
+    case 'fib_target_touched': {
+      if (price === null || !analysis?.fibTargets?.length) return null;
+      const tolerance = params.tolerance ?? DEFAULT_FIB_TOLERANCE;
+      const target = analysis.fibTargets
+        .filter(fib => params.level === undefined || fib.level === params.level)
+        .find(fib => fib.price > 0 && Math.abs(price - fib.price) / fib.price <= tolerance);
+
+      if (!target) return null;
+      return {
+        fingerprint: `fib:${target.level}:${target.price.toFixed(2)}`,
+        message: `${symbol} at ${formatPriceLabel(price, symbol)} is touching the ${target.label || target.level} target ` +
+          `(${formatPriceLabel(target.price, symbol)}) on the ${timeframe} chart`,
+        payload: { level: target.level, targetPrice: target.price }
+      };
+    }
+
+    case 'price_above':
+    case 'price_below': {
+      if (price === null || params.price === undefined) return null;
+      const above = condition === 'price_above';
+      if (above ? price <= params.price : price >= params.price) return null;
+      return {
+        fingerprint: `${above ? 'above' : 'below'}:${params.price}`,
+        message: `${symbol} crossed ${above ? 'above' : 'below'} ${formatPriceLabel(params.price, symbol)} (now ${formatPriceLabel(price, symbol)})`,
+        payload: { level: params.price }
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluate every enabled alert rule, record the ones that fire in alert_events
+ * (the in-app inbox) and deliver them through each rule's channels
+ */
+export async function runAlertRules(env: any, options: AlertRunOptions = {}): Promise<AlertRunSummary> {
+  const supabase = getSupabaseClient(env);
+  const summary: AlertRunSummary = { rules: 0, checked: 0, fired: 0, errors: [] };
+  const onlySymbols = options.symbols ? new Set(options.symbols.map(s => s.toUpperCase())) : null;
+
+  const { data: ruleRows, error: rulesError } = await supabase
+    .from('alert_rules')
+    .select('id, user_id, name, symbol, watchlist_id, timeframe, condition, params, channels, cooldown_minutes')
+    .eq('enabled', true);
+
+  if (rulesError) throw rulesError;
+  const rules = (ruleRows || []) as AlertRuleRow[];
+  summary.rules = rules.length;
+  if (rules.length === 0) return summary;
+
+  // Expand watchlist rules into one target per symbol, keyed by the watchlist's owner so a
+  // rule only ever expands a watchlist belonging to the same user
+  const watchlistIds = [...new Set(rules.map(rule => rule.watchlist_id).filter(Boolean))];
+  const watchlistSymbols: Record<string, string[]> = {};
+  if (watchlistIds.length > 0) {
+    const { data: items, error } = await supabase
+      .from('watchlist_items')
+      .select('watchlist_id, symbol, watchlists!inner(user_id)')
+      .in('watchlist_id', watchlistIds);
+    if (error) throw error;
+    (items || []).forEach((item: any) => {
+      const ownerId = Array.isArray(item.watchlists) ? item.watchlists[0]?.user_id : item.watchlists?.user_id;
+      (watchlistSymbols[`${item.watchlist_id}:${ownerId}`] ||= []).push(item.symbol);
+    });
+  }
+
+  const targets = rules.flatMap(rule =>
+    (rule.symbol ? [rule.symbol.toUpperCase()] : watchlistSymbols[`${rule.watchlist_id}:${rule.user_id}`] || [])
+      .filter(symbol => !onlySymbols || onlySymbols.has(symbol))
+      .map(symbol => ({ rule, symbol }))
+  );
+  if (targets.length === 0) return summary;
+
+  // Latest analyses, as saved by the app after each analysis run
+  const analysisKeys = [...new Set(targets.map(({ rule, symbol }) => `wave_analysis_${symbol}_${rule.timeframe}`))];
+  const { data: cacheRows, error: cacheError } = await supabase
+    .from('cache')
+    .select('key, data')
+    .in('key', analysisKeys);
+  if (cacheError) throw cacheError;
+
+  const analyses: Record<string, CachedWaveAnalysis> = {};
+  (cacheRows || []).forEach(row => {
+    try {
+      analyses[row.key] = typeof row.data === 'string' ? JSON.parse(row.data) : row.data;
+    } catch (error) {
+      summary.errors.push(`${row.key}: unreadable analysis`);
+    }
+  });
+
+  // One quote per symbol; without one, fall back to where the current wave last ended
+  const prices: Record<string, number | null> = {};
+  for (const symbol of new Set(targets.map(target => target.symbol))) {
+    try {
+      prices[symbol] = options.getPrice ? await options.getPrice(symbol) : null;
+    } catch (error) {
+      console.warn(`Alerts: no quote for ${symbol}:`, error.message);
+      prices[symbol] = null;
+    }
+  }
+
+  const ruleIds = rules.map(rule => rule.id);
+  const { data: stateRows, error: stateError } = await supabase
+    .from('alert_rule_state')
+    .select('rule_id, symbol, fingerprint, last_fired_at')
+    .in('rule_id', ruleIds);
+  // Without the state every rule would look new and record a baseline instead of firing
+  if (stateError) throw stateError;
+  const states: Record<string, AlertStateRow> = {};
+  ((stateRows || []) as AlertStateRow[]).forEach(state => {
+    states[`${state.rule_id}:${state.symbol}`] = state;
+  });
+
+  const userIds = [...new Set(rules.map(rule => rule.user_id))];
+  const { data: channelRows } = await supabase
+    .from('alert_channels')
+    .select('user_id, type, config, enabled')
+    .in('user_id', userIds)
+    .eq('enabled', true);
+  const userChannels: Record<string, Record<string, Record<string, string>>> = {};
+  (channelRows || []).forEach(row => {
+    (userChannels[row.user_id] ||= {})[row.type] = row.config || {};
+  });
+
+  for (const { rule, symbol } of targets) {
+    summary.checked++;
+    const state = states[`${rule.id}:${symbol}`];
+
+    try {
+      const analysis = analyses[`wave_analysis_${symbol}_${rule.timeframe}`] || null;
+      const price = prices[symbol] ?? analysis?.currentWave?.endPrice ?? null;
+      const match = evaluateAlertCondition(rule.condition, rule.params || {}, symbol, rule.timeframe, analysis, price);
+
+      if (!state && CHANGE_CONDITIONS.includes(rule.condition)) {
+        // Nothing to compare with until there's a wave (or a price) to start from
+        const observed = rule.condition === 'wave_changed' ? !!analysis?.currentWave : price !== null;
+        if (observed) {
+          await supabase
+            .from('alert_rule_state')
+            .upsert({ rule_id: rule.id, symbol, fingerprint: match?.fingerprint ?? null, updated_at: new Date().toISOString() });
+        }
+        continue;
+      }
+
+      if (!match) {
+        // Condition no longer holds: re-arm so the next crossing fires again
+        if (state?.fingerprint) {
+          await supabase
+            .from('alert_rule_state')
+            .upsert({ rule_id: rule.id, symbol, fingerprint: null, updated_at: new Date().toISOString() });
+        }
+        continue;
+      }
+
+      if (state?.fingerprint === match.fingerprint) continue;
+
+      const now = new Date();
+      const inCooldown = state?.last_fired_at &&
+        now.getTime() - new Date(state.last_fired_at).getTime() < rule.cooldown_minutes * 60 * 1000;
+
+      // Remember the event either way, so it doesn't fire once the cooldown ends
+      await supabase
+        .from('alert_rule_state')
+        .upsert({
+          rule_id: rule.id,
+          symbol,
+          fingerprint: match.fingerprint,
+          last_fired_at: inCooldown ? state.last_fired_at : now.toISOString(),
+          updated_at: now.toISOString()
+        });
+      if (inCooldown) continue;
+
+      const { data: event, error: eventError } = await supabase
+        .from('alert_events')
+        .insert({
+          rule_id: rule.id,
+          user_id: rule.user_id,
+          symbol,
+          timeframe: rule.timeframe,
+          condition: rule.condition,
+          message: match.message,
+          price,
+          payload: match.payload || null,
+          fired_at: now.toISOString()
+        })
+        .select('id')
+        .single();
+      if (eventError) throw eventError;
+      summary.fired++;
+
+      const delivery: AlertDelivery = {
+        userId: rule.user_id,
+        ruleName: rule.name,
+        symbol,
+        timeframe: rule.timeframe,
+        condition: rule.condition,
+        message: match.message,
+        price,
+        firedAt: now.toISOString()
+      };
+
+      const deliveries: Partial<Record<AlertChannelType, string>> = {};
+      for (const type of rule.channels || []) {
+        const channel = ALERT_CHANNELS[type];
+        const config = userChannels[rule.user_id]?.[type];
+        if (!channel || !config) {
+          deliveries[type] = 'not configured';
+          continue;
+        }
+        try {
+          await channel.send(delivery, { env, supabase, config });
+          deliveries[type] = 'sent';
+        } catch (error) {
+          console.error(`Alerts: ${type} delivery failed for rule ${rule.id}:`, error);
+          deliveries[type] = error.message;
+        }
+      }
+
+      if (Object.keys(deliveries).length > 0) {
+        await supabase.from('alert_events').update({ deliveries }).eq('id', event.id);
+      }
+    } catch (error) {
+      console.error(`Alerts: error evaluating rule ${rule.id} for ${symbol}:`, error);
+      summary.errors.push(`${rule.name} (${symbol}): ${error.message}`);
+    }
+  }
+
+  return summary;
+}
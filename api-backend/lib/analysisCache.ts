@@ -0,0 +1,50 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FibTarget, PriceDiscontinuity, Wave } from '../../src/types/shared';
+
+// The parts of a cached wave analysis (wave_analysis_SYMBOL_TIMEFRAME) the API reads.
+// The app and the scheduled wave analysis job (lib/waveAnalysisJob.ts) save these; reads never recount.
+export interface CachedWaveAnalysis {
+  waves?: Wave[];
+  invalidWaves?: Wave[];
+  currentWave?: Wave | null;
+  fibTargets?: FibTarget[];
+  trend?: 'bullish' | 'bearish' | 'neutral';
+  confidence?: number;
+  confidenceLevel?: 'high' | 'medium' | 'low';
+  discontinuities?: PriceDiscontinuity[];
+}
+
+export async function getCachedAnalysis(
+  supabase: SupabaseClient,
+  symbol: string,
+  timeframe: string
+): Promise<CachedWaveAnalysis | null> {
+  const { data, error } = await supabase
+    .from('cache')
+    .select('data')
+    .eq('key', `wave_analysis_${symbol}_${timeframe}`)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data?.data) return null;
+  return typeof data.data === 'string' ? JSON.parse(data.data) : data.data;
+}
+
+/**
+ * Find a wave in an analysis by its start time, or the latest wave with the given number
+ */
+export function findAnalysisWave(
+  analysis: CachedWaveAnalysis,
+  waveNumber?: string | null,
+  startTimestamp?: number | null
+): Wave | null {
+  const waves = [...(analysis.waves || []), ...(analysis.invalidWaves || [])];
+  if (startTimestamp) {
+    return waves.find(wave => wave.startTimestamp === startTimestamp &&
+      (!waveNumber || String(wave.number) === waveNumber)) || null;
+  }
+  if (waveNumber) {
+    return (analysis.waves || []).filter(wave => String(wave.number) === waveNumber).pop() || null;
+  }
+  return null;
+}
@@ -0,0 +1,283 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from './supabase';
+import { getMarketDataProvider, type MarketDataProvider, type SourceInterval } from './marketData';
+import type { StockHistoricalData } from '../../src/types/shared';
+
+/**
+ * Persistent OHLCV store (price_bars / price_series in src/sql/price_bars.sql)
+ *
+ * Each symbol and interval keeps its full history. A refresh asks the provider only for the bars
+ * since the last stored one, plus a few before it: if those come back with different prices,
+ * the provider has re-adjusted its history (a split or dividend) and the series is adjusted to match.
+ * Requests reaching further back than the store covers are backfilled once.
+ */
+
+// How long a series is served from the store before the provider is asked for new bars
+const REFRESH_AFTER_MS: Record<SourceInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 15 * 60 * 1000,
+  '1d': 15 * 60 * 1000,
+  '1wk': 60 * 60 * 1000,
+  '1mo': 6 * 60 * 60 * 1000
+};
+
+// Stored bars fetched again on each refresh to spot re-adjusted history.
+// The newest one is also overwritten, since it may have been stored while still forming.
+const OVERLAP_BARS = 5;
+
+// Relative close difference treated as a re-adjustment rather than rounding
+const ADJUSTMENT_TOLERANCE = 1e-4;
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+interface SeriesRow {
+  symbol: string;
+  interval: string;
+  provider: string;
+  covered_from: number;
+  last_timestamp: number | null;
+  refreshed_at: string;
+  adjusted_at: string | null;
+}
+
+export interface StoredBarsOptions {
+  to?: number;               // Last timestamp (ms) to return; defaults to the newest bar
+  refresh?: boolean;         // Ask the provider for new bars even if the series was refreshed recently
+  earliestAvailable?: number; // Oldest timestamp the provider serves for the interval (e.g. weeks for minute bars)
+}
+
+const toBar = (row: any): StockHistoricalData => ({
+  timestamp: Number(row.timestamp),
+  open: Number(row.open),
+  high: Number(row.high),
+  low: Number(row.low),
+  close: Number(row.close),
+  volume: Number(row.volume || 0)
+});
+
+const toRow = (symbol: string, interval: SourceInterval, bar: StockHistoricalData) => ({
+  symbol,
+  interval,
+  timestamp: bar.timestamp,
+  open: bar.open,
+  high: bar.high,
+  low: bar.low,
+  close: bar.close,
+  volume: bar.volume || 0
+});
+
+async function readBars(
+  supabase: SupabaseClient,
+  symbol: string,
+  interval: SourceInterval,
+  from: number,
+  to?: number
+): Promise<StockHistoricalData[]> {
+  const bars: StockHistoricalData[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('price_bars')
+      .select('timestamp, open, high, low, close, volume')
+      .eq('symbol', symbol)
+      .eq('interval', interval)
+      .gte('timestamp', from);
+    if (to !== undefined) query = query.lte('timestamp', to);
+
+    const { data, error } = await query
+      .order('timestamp', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    bars.push(...(data || []).map(toBar));
+    if (!data || data.length < PAGE_SIZE) return bars;
+  }
+}
+
+async function writeBars(
+  supabase: SupabaseClient,
+  symbol: string,
+  interval: SourceInterval,
+  bars: StockHistoricalData[]
+): Promise<void> {
+  for (let i = 0; i < bars.length; i += PAGE_SIZE) {
+    const { error } = await supabase
+      .from('price_bars')
+      .upsert(bars.slice(i, i + PAGE_SIZE).map(bar => toRow(symbol, interval, bar)), { onConflict: 'symbol,interval,timestamp' });
+    if (error) throw error;
+  }
+}
+
+/**
+ * The factor the provider's prices now differ from the stored ones by, or null if they match
+ * Compares closes at the timestamps both have, leaving out the newest stored bar (it may have been forming).
+ */
+function findAdjustment(stored: StockHistoricalData[], fresh: StockHistoricalData[]): number | null {
+  const freshByTimestamp = new Map(fresh.map(bar => [bar.timestamp, bar]));
+  const ratios = stored.slice(0, -1)
+    .map(bar => {
+      const match = freshByTimestamp.get(bar.timestamp);
+      return match && bar.close ? match.close / bar.close : null;
+    })
+    .filter((ratio): ratio is number => ratio !== null && isFinite(ratio) && ratio > 0)
+    .sort((a, b) => a - b);
+
+  if (ratios.length === 0) return null;
+  const median = ratios[Math.floor(ratios.length / 2)];
+  return Math.abs(median - 1) > ADJUSTMENT_TOLERANCE ? median : null;
+}
+
+/**
+ * Bring a series up to date with the provider, starting it or backfilling it from `from` if needed
+ */
+async function refreshSeries(
+  supabase: SupabaseClient,
+  provider: MarketDataProvider,
+  symbol: string,
+  interval: SourceInterval,
+  series: SeriesRow | null,
+  from: number
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  // A new series, or one filled by another provider: load it from scratch
+  if (!series || series.provider !== provider.name) {
+    const bars = await provider.getHistory(symbol, interval, new Date(from));
+    if (series) {
+      const { error } = await supabase.from('price_bars').delete().eq('symbol', symbol).eq('interval', interval);
+      if (error) throw error;
+    }
+    await writeBars(supabase, symbol, interval, bars);
+    await saveSeries(supabase, {
+      symbol,
+      interval,
+      provider: provider.name,
+      covered_from: from,
+      last_timestamp: bars.length ? bars[bars.length - 1].timestamp : null,
+      refreshed_at: now,
+      adjusted_at: null
+    });
+    return;
+  }
+
+  const coveredFrom = Math.min(from, Number(series.covered_from));
+
+  // The newest stored bars, oldest first
+  const { data: tailRows, error: tailError } = await supabase
+    .from('price_bars')
+    .select('timestamp, open, high, low, close, volume')
+    .eq('symbol', symbol)
+    .eq('interval', interval)
+    .order('timestamp', { ascending: false })
+    .limit(OVERLAP_BARS + 1);
+  if (tailError) throw tailError;
+  const tail = (tailRows || []).map(toBar).reverse();
+
+  // Backfills fetch everything from the new start; otherwise just the overlap onwards
+  const backfill = coveredFrom < Number(series.covered_from);
+  const fetchFrom = backfill || tail.length === 0 ? coveredFrom : tail[0].timestamp;
+  const fresh = await provider.getHistory(symbol, interval, new Date(fetchFrom));
+
+  const factor = findAdjustment(tail, fresh);
+  let adjustedAt = series.adjusted_at;
+  if (factor !== null) {
+    // Bars older than the provider still serves are scaled by the same factor,
+    // so the stored series stays continuous (volume inversely, as for a split)
+    const firstFresh = fresh.length ? fresh[0].timestamp : Infinity;
+    const older = (await readBars(supabase, symbol, interval, 0, firstFresh - 1)).map(bar => ({
+      ...bar,
+      open: bar.open * factor,
+      high: bar.high * factor,
+      low: bar.low * factor,
+      close: bar.close * factor,
+      volume: bar.volume / factor
+    }));
+    // The fresh bars only cover the overlap; the rest of the provider's history is fetched again
+    const refetched = backfill ? fresh : await provider.getHistory(symbol, interval, new Date(coveredFrom));
+    const refetchedFrom = refetched.length ? refetched[0].timestamp : Infinity;
+    await writeBars(supabase, symbol, interval, [...older.filter(bar => bar.timestamp < refetchedFrom), ...refetched]);
+    adjustedAt = now;
+    console.log(`Re-adjusted stored ${interval} bars for ${symbol} by a factor of ${factor.toFixed(6)}`);
+  } else {
+    await writeBars(supabase, symbol, interval, fresh);
+  }
+
+  const lastFresh = fresh.length ? fresh[fresh.length - 1].timestamp : null;
+  await saveSeries(supabase, {
+    ...series,
+    covered_from: coveredFrom,
+    last_timestamp: Math.max(lastFresh ?? 0, Number(series.last_timestamp ?? 0)) || null,
+    refreshed_at: now,
+    adjusted_at: adjustedAt
+  });
+}
+
+async function saveSeries(supabase: SupabaseClient, series: SeriesRow): Promise<void> {
+  const { error } = await supabase
+    .from('price_series')
+    .upsert(series, { onConflict: 'symbol,interval' });
+  if (error) throw error;
+}
+
+/**
+ * Bars for a symbol and interval from `from` on, refreshing the stored series first if it's due
+ * If the provider fails, whatever is stored is served rather than failing the request.
+ */
+export async function getStoredBars(
+  supabase: SupabaseClient,
+  provider: MarketDataProvider,
+  symbol: string,
+  interval: SourceInterval,
+  from: number,
+  options: StoredBarsOptions = {}
+): Promise<StockHistoricalData[]> {
+  const { data: series, error } = await supabase
+    .from('price_series')
+    .select('*')
+    .eq('symbol', symbol)
+    .eq('interval', interval)
+    .maybeSingle();
+  if (error) throw error;
+
+  // The provider can't be asked for more than it keeps; anything older comes from the store alone
+  const fetchFrom = Math.max(from, options.earliestAvailable ?? -Infinity);
+  const due = !series
+    || series.provider !== provider.name
+    || fetchFrom < Number(series.covered_from)
+    || options.refresh
+    || Date.now() - Date.parse(series.refreshed_at) > REFRESH_AFTER_MS[interval];
+
+  if (due) {
+    try {
+      await refreshSeries(supabase, provider, symbol, interval, series as SeriesRow | null, fetchFrom);
+    } catch (err) {
+      if (!series) throw err;
+      console.warn(`Serving stored ${interval} bars for ${symbol}; refresh failed: ${err.message}`);
+    }
+  }
+
+  return readBars(supabase, symbol, interval, from, options.to);
+}
+
+/**
+ * Bars for a symbol and interval, through the store when the deployment has one (Supabase is configured)
+ * and straight from the provider otherwise
+ */
+export async function getHistoryBars(
+  env: any,
+  symbol: string,
+  interval: SourceInterval,
+  from: number,
+  options: StoredBarsOptions = {}
+): Promise<StockHistoricalData[]> {
+  const provider = getMarketDataProvider(env);
+
+  if (!env?.SUPABASE_URL || !env?.SUPABASE_SERVICE_KEY) {
+    const bars = await provider.getHistory(symbol, interval, new Date(Math.max(from, options.earliestAvailable ?? -Infinity)));
+    return options.to === undefined ? bars : bars.filter(bar => bar.timestamp <= options.to);
+  }
+
+  return getStoredBars(getSupabaseClient(env), provider, symbol, interval, from, options);
+}
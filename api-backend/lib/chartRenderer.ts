@@ -0,0 +1,288 @@
+import { initWasm, Resvg } from '@resvg/resvg-wasm';
+import resvgWasm from '@resvg/resvg-wasm/index_bg.wasm';
+import { WAVE_COLORS } from '../../src/types/chart';
+import {
+  CURRENT_PRICE_COLOR,
+  FIB_EXTENSION_COLOR,
+  FIB_RETRACEMENT_COLOR,
+  FIB_TARGET_SPAN_BARS,
+  INVALID_WAVE_COLOR
+} from '../../src/components/chart/chartConstants';
+import { formatWaveLabel } from '../../src/components/chart/waveChartUtils';
+import { formatPriceLabel, formatPriceValue } from '../../src/utils/assetClasses';
+import { removeDiscontinuities } from '../../src/utils/priceAdjustment';
+import type { FibTarget, PriceDiscontinuity, StockHistoricalData, Wave } from '../../src/types/shared';
+
+// resvg has no system fonts, so labels need a font file. Fetched once per isolate.
+// DejaVu Sans covers the circled numerals used for Primary degree labels.
+const DEFAULT_FONT_URL = 'https://cdn.jsdelivr.net/npm/dejavu-fonts-ttf@2.37.3/ttf/DejaVuSans.ttf';
+const FONT_FAMILY = 'DejaVu Sans';
+
+// Colors match the dark chart on the stock details page
+const BACKGROUND_COLOR = '#1a1a1a';
+const GRID_COLOR = 'rgba(45, 55, 72, 0.6)';
+const AXIS_TEXT_COLOR = '#d1d5db';
+const BULLISH_CANDLE_COLOR = '#22c55e';
+const BEARISH_CANDLE_COLOR = '#ef4444';
+
+// Enough bars to show the count without candles turning into hairlines
+const MAX_CHART_BARS = 250;
+
+export interface ChartRenderInput {
+  symbol: string;
+  timeframe: string;
+  bars: StockHistoricalData[];
+  waves: Wave[];
+  invalidWaves?: Wave[];
+  currentWave?: Wave | null;
+  fibTargets?: FibTarget[];     // Drawn from the current wave's start
+  selectedWave?: Wave | null;   // Highlighted, with its subwaves labeled
+  currentPrice?: number | null;
+  discontinuities?: PriceDiscontinuity[];  // Unadjusted splits the count rescaled the bars around
+}
+
+export interface ChartRenderOptions {
+  width?: number;
+  height?: number;
+}
+
+interface ChartLayout {
+  symbol: string;      // Sets the price precision
+  width: number;
+  height: number;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  minPrice: number;
+  maxPrice: number;
+  bars: StockHistoricalData[];
+  barWidth: number;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const isSameWave = (a: Wave | null | undefined, b: Wave) =>
+  !!a && a.number === b.number && a.startTimestamp === b.startTimestamp;
+
+// Waves other than the focused one are drawn at 70% opacity, as on the stock details chart
+function waveColor(wave: Wave, isFocused: boolean): string {
+  const color = WAVE_COLORS[wave.number] || '#FFFFFF';
+  if (isFocused || !color.startsWith('#')) return color;
+  const r = parseInt(color.slice(1, 3), 16);
+  const g = parseInt(color.slice(3, 5), 16);
+  const b = parseInt(color.slice(5, 7), 16);
+  return `rgba(${r}, ${g}, ${b}, 0.7)`;
+}
+
+function xFor(layout: ChartLayout, timestamp: number): number {
+  const first = layout.bars[0].timestamp;
+  const span = layout.bars[layout.bars.length - 1].timestamp - first || 1;
+  return layout.left + ((timestamp - first) / span) * (layout.width - layout.left - layout.right);
+}
+
+function yFor(layout: ChartLayout, price: number): number {
+  const span = layout.maxPrice - layout.minPrice || 1;
+  return layout.top + (1 - (price - layout.minPrice) / span) * (layout.height - layout.top - layout.bottom);
+}
+
+// Index of the first bar at or after the timestamp, or -1
+const barIndexAt = (layout: ChartLayout, timestamp: number) =>
+  layout.bars.findIndex(bar => bar.timestamp >= timestamp);
+
+function renderGrid(layout: ChartLayout): string {
+  const lines: string[] = [];
+  const steps = 5;
+  for (let i = 0; i <= steps; i++) {
+    const price = layout.minPrice + ((layout.maxPrice - layout.minPrice) * i) / steps;
+    const y = round(yFor(layout, price));
+    lines.push(
+      `<line x1="${layout.left}" y1="${y}" x2="${layout.width - layout.right}" y2="${y}" stroke="${GRID_COLOR}" stroke-width="1"/>`,
+      `<text x="${layout.width - layout.right + 6}" y="${y + 4}" fill="${AXIS_TEXT_COLOR}" font-size="11">${formatPriceValue(price, layout.symbol)}</text>`
+    );
+  }
+  return lines.join('');
+}
+
+function renderCandles(layout: ChartLayout): string {
+  return layout.bars.map(bar => {
+    const x = round(xFor(layout, bar.timestamp));
+    const color = bar.close >= bar.open ? BULLISH_CANDLE_COLOR : BEARISH_CANDLE_COLOR;
+    const bodyTop = round(yFor(layout, Math.max(bar.open, bar.close)));
+    const bodyHeight = Math.max(1, round(yFor(layout, Math.min(bar.open, bar.close)) - bodyTop));
+    return `<line x1="${x}" y1="${round(yFor(layout, bar.high))}" x2="${x}" y2="${round(yFor(layout, bar.low))}" stroke="${color}" stroke-width="1"/>` +
+      `<rect x="${round(x - layout.barWidth / 2)}" y="${bodyTop}" width="${round(layout.barWidth)}" height="${bodyHeight}" fill="${color}"/>`;
+  }).join('');
+}
+
+// Shade the selected wave's time span behind the candles
+function renderSelection(layout: ChartLayout, wave: Wave): string {
+  const lastTimestamp = layout.bars[layout.bars.length - 1].timestamp;
+  const x1 = round(xFor(layout, Math.max(wave.startTimestamp, layout.bars[0].timestamp)));
+  const x2 = round(xFor(layout, Math.min(wave.endTimestamp ?? lastTimestamp, lastTimestamp)));
+  return `<rect x="${x1}" y="${layout.top}" width="${Math.max(1, x2 - x1)}" height="${layout.height - layout.top - layout.bottom}" ` +
+    `fill="${WAVE_COLORS[wave.number] || '#FFFFFF'}" fill-opacity="0.1"/>`;
+}
+
+function renderWaveLine(layout: ChartLayout, wave: Wave, isFocused: boolean, isSubwave = false): string {
+  const color = waveColor(wave, isFocused);
+  const endTimestamp = wave.endTimestamp ?? layout.bars[layout.bars.length - 1].timestamp;
+  const endPrice = wave.endPrice ?? wave.startPrice;
+  const x1 = round(xFor(layout, Math.max(wave.startTimestamp, layout.bars[0].timestamp)));
+  const x2 = round(xFor(layout, endTimestamp));
+  const y1 = round(yFor(layout, wave.startPrice));
+  const y2 = round(yFor(layout, endPrice));
+  const strokeWidth = isSubwave ? 1 : isFocused ? 3.5 : 2.5;
+  const fontSize = isSubwave ? 10 : 14;
+  // Label the end of the wave, above peaks and below troughs
+  const labelY = endPrice >= wave.startPrice ? y2 - 8 : y2 + fontSize + 4;
+  return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${color}" stroke-width="${strokeWidth}"${wave.isComplete ? '' : ' stroke-dasharray="6 4"'}/>` +
+    `<text x="${x2}" y="${labelY}" fill="${color}" font-size="${fontSize}" font-weight="bold" text-anchor="middle">` +
+    `${escapeXml(formatWaveLabel(wave.number, wave.degree))}</text>`;
+}
+
+function renderWaves(layout: ChartLayout, waves: Wave[], focusWave: Wave | null): string {
+  return waves.map(wave => {
+    const isFocused = isSameWave(focusWave, wave);
+    // Subwaves are only labeled inside the focused wave, as on the stock details chart
+    const subwaves = isFocused
+      ? (wave.subwaves || []).filter(subwave => subwave.endTimestamp && subwave.endPrice !== undefined)
+      : [];
+    return renderWaveLine(layout, wave, isFocused) +
+      subwaves.map(subwave => renderWaveLine(layout, subwave, false, true)).join('');
+  }).join('');
+}
+
+// A red ✖ where each invalid wave broke its rule
+function renderInvalidWaves(layout: ChartLayout, invalidWaves: Wave[]): string {
+  return invalidWaves.map(wave => {
+    const timestamp = wave.invalidationTimestamp || wave.endTimestamp;
+    const price = wave.invalidationPrice || wave.endPrice;
+    if (!timestamp || price === undefined || barIndexAt(layout, timestamp) === -1) return '';
+    const x = round(xFor(layout, Math.max(timestamp, layout.bars[0].timestamp)));
+    const y = round(yFor(layout, price));
+    return `<circle cx="${x}" cy="${y}" r="8" fill="${INVALID_WAVE_COLOR}"/>` +
+      `<text x="${x}" y="${y + 4}" fill="#ffffff" font-size="11" font-weight="bold" text-anchor="middle">✖</text>`;
+  }).join('');
+}
+
+// Dashed lines from the current wave's start to each target, labeled with the target price
+function renderFibTargets(layout: ChartLayout, currentWave: Wave, fibTargets: FibTarget[]): string {
+  const startIndex = barIndexAt(layout, currentWave.startTimestamp);
+  const endIndex = Math.min(startIndex + FIB_TARGET_SPAN_BARS, layout.bars.length - 1);
+  if (startIndex === -1 || endIndex <= startIndex) return '';
+
+  const x1 = round(xFor(layout, layout.bars[startIndex].timestamp));
+  const x2 = round(xFor(layout, layout.bars[endIndex].timestamp));
+  const y1 = round(yFor(layout, currentWave.startPrice));
+
+  return fibTargets
+    .filter(target => !target.label.includes('Wave 3 High'))
+    .map(target => {
+      const color = target.isExtension ? FIB_EXTENSION_COLOR : FIB_RETRACEMENT_COLOR;
+      const y2 = round(yFor(layout, target.price));
+      return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${color}" stroke-width="2" stroke-dasharray="5 5"/>` +
+        `<text x="${x2 + 6}" y="${y2 + 4}" fill="${color}" font-size="11" font-weight="bold">` +
+        `${escapeXml(`${target.label} ${formatPriceLabel(target.price, layout.symbol)}`)}</text>`;
+    }).join('');
+}
+
+function renderCurrentPrice(layout: ChartLayout, price: number): string {
+  const y = round(yFor(layout, price));
+  return `<line x1="${layout.left}" y1="${y}" x2="${layout.width - layout.right}" y2="${y}" stroke="${CURRENT_PRICE_COLOR}" stroke-width="1" stroke-dasharray="3 3"/>`;
+}
+
+/**
+ * Draw a wave count over its price history as an SVG document
+ */
+export function renderWaveChartSvg(input: ChartRenderInput, options: ChartRenderOptions = {}): string {
+  const width = options.width ?? 800;
+  const height = options.height ?? 450;
+  // Rescaled as the engine did, so the waves sit on the candles they were counted from
+  const bars = removeDiscontinuities(input.bars, input.discontinuities || []).slice(-MAX_CHART_BARS);
+
+  if (bars.length === 0) {
+    throw new Error(`No price data to chart for ${input.symbol}`);
+  }
+
+  // Waves that started before the visible bars are clipped to the left edge
+  const isVisible = (wave: Wave) => (wave.endTimestamp ?? Infinity) >= bars[0].timestamp;
+  const waves = input.waves.filter(isVisible);
+  const invalidWaves = (input.invalidWaves || []).filter(isVisible);
+  const currentWave = input.currentWave && isVisible(input.currentWave) ? input.currentWave : null;
+  const fibTargets = currentWave ? input.fibTargets || [] : [];
+  const focusWave = input.selectedWave || currentWave;
+
+  const prices = [
+    ...bars.flatMap(bar => [bar.high, bar.low]),
+    ...waves.flatMap(wave => [wave.startPrice, wave.endPrice].filter(price => price !== undefined)),
+    ...fibTargets.map(target => target.price),
+    ...(input.currentPrice ? [input.currentPrice] : [])
+  ];
+  const padding = (Math.max(...prices) - Math.min(...prices)) * 0.05;
+
+  // Extra room on the right for Fibonacci labels
+  const right = fibTargets.length > 0 ? 150 : 64;
+  const layout: ChartLayout = {
+    symbol: input.symbol,
+    width,
+    height,
+    left: 12,
+    right,
+    top: 36,
+    bottom: 16,
+    minPrice: Math.min(...prices) - padding,
+    maxPrice: Math.max(...prices) + padding,
+    bars,
+    barWidth: Math.max(1, ((width - 12 - right) / bars.length) * 0.6)
+  };
+
+  const title = `${input.symbol} · ${input.timeframe}` +
+    (input.selectedWave ? ` · Wave ${formatWaveLabel(input.selectedWave.number, input.selectedWave.degree)}` : '');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}, sans-serif">` +
+    `<rect width="100%" height="100%" fill="${BACKGROUND_COLOR}"/>` +
+    (input.selectedWave && isVisible(input.selectedWave) ? renderSelection(layout, input.selectedWave) : '') +
+    renderGrid(layout) +
+    renderCandles(layout) +
+    renderWaves(layout, waves, focusWave) +
+    renderInvalidWaves(layout, invalidWaves) +
+    (currentWave ? renderFibTargets(layout, currentWave, fibTargets) : '') +
+    (input.currentPrice ? renderCurrentPrice(layout, input.currentPrice) : '') +
+    `<text x="${layout.left}" y="22" fill="#ffffff" font-size="16" font-weight="bold">${escapeXml(title)}</text>` +
+    `</svg>`;
+}
+
+let wasmReady: Promise<void> | null = null;
+let fontBuffer: Promise<Uint8Array> | null = null;
+
+function loadFont(env: any): Promise<Uint8Array> {
+  fontBuffer ||= fetch(env.CHART_FONT_URL || DEFAULT_FONT_URL)
+    .then(response => {
+      if (!response.ok) throw new Error(`Chart font request failed: ${response.status}`);
+      return response.arrayBuffer();
+    })
+    .then(buffer => new Uint8Array(buffer))
+    .catch(error => {
+      // Let the next render try again
+      fontBuffer = null;
+      throw error;
+    });
+  return fontBuffer;
+}
+
+/**
+ * Rasterize an SVG chart to PNG (Telegram and most mail clients don't display SVG)
+ */
+export async function renderSvgToPng(svg: string, env: any): Promise<Uint8Array> {
+  await (wasmReady ||= initWasm(resvgWasm));
+  const font = await loadFont(env);
+
+  const resvg = new Resvg(svg, {
+    font: { fontBuffers: [font], defaultFontFamily: FONT_FAMILY, loadSystemFonts: false }
+  });
+  return resvg.render().asPng();
+}
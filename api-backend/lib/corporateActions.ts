@@ -0,0 +1,23 @@
+import { getMarketDataProvider } from './marketData';
+import type { CorporateAction } from '../../src/types/shared';
+
+// Splits and dividends change rarely; each isolate asks the provider at most this often per symbol
+const ACTIONS_TTL_MS = 6 * 60 * 60 * 1000;
+
+const cache = new Map<string, { loadedAt: number; actions: Promise<CorporateAction[]> }>();
+
+/**
+ * Every split and dividend the provider knows for a symbol, oldest first
+ */
+export function getCorporateActions(env: any, symbol: string): Promise<CorporateAction[]> {
+  const provider = getMarketDataProvider(env);
+  const key = `${provider.name}:${symbol}`;
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.loadedAt < ACTIONS_TTL_MS) return cached.actions;
+
+  const actions = provider.getCorporateActions(symbol, new Date(0));
+  cache.set(key, { loadedAt: Date.now(), actions });
+  // A failed lookup shouldn't stick for the whole TTL
+  actions.catch(() => cache.delete(key));
+  return actions;
+}
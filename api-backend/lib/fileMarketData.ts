@@ -0,0 +1,314 @@
+import { parquetReadObjects } from 'hyparquet';
+import type { CorporateAction, StockHistoricalData } from '../../src/types/shared';
+import type { MarketDataProvider, MarketQuote, SourceInterval } from './marketData';
+
+/**
+ * Market data from OHLCV files, for vendor data and offline environments
+ *
+ * Files live in the MARKET_DATA_BUCKET R2 binding or under the MARKET_DATA_URL base URL
+ * (any static file server will do locally), laid out as:
+ *
+ *   {interval}/{SYMBOL}.parquet  or  {interval}/{SYMBOL}.csv   e.g. 1d/AAPL.csv, 1h/EURUSD=X.parquet
+ *   symbols.csv                                                  symbol,name[,exchange] - optional
+ *   actions/{SYMBOL}.csv                                         date,type,value - optional splits and dividends
+ *
+ * Columns are matched by name, case-insensitively: a timestamp (timestamp, date, datetime or time;
+ * ISO dates or epoch seconds/milliseconds), open, high, low, close and an optional volume.
+ * Bars are expected split-adjusted, as Yahoo serves them; a series that isn't is caught by the bar store
+ * and the wave engine. In actions files, type is split or dividend and value the ratio (4, 4:1 or 4/1
+ * for a 4-for-1 split) or the cash amount per share.
+ * Quotes are derived from the daily file. Search and the screener need symbols.csv.
+ */
+
+const FILE_FORMATS = ['parquet', 'csv'] as const;
+
+const COLUMN_ALIASES = {
+  timestamp: ['timestamp', 'date', 'datetime', 'time', 'ts'],
+  open: ['open', 'o'],
+  high: ['high', 'h'],
+  low: ['low', 'l'],
+  close: ['close', 'c'],
+  volume: ['volume', 'vol', 'v']
+};
+
+// Daily bars in the 52-week range and in the average volume (about three months)
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const AVERAGE_VOLUME_BARS = 63;
+
+// How long the symbol list is kept before it's read again
+const INDEX_TTL_MS = 5 * 60 * 1000;
+
+interface SymbolIndexEntry {
+  symbol: string;
+  name: string;
+  exchange?: string;
+}
+
+/**
+ * Turn a timestamp in any of the usual encodings into milliseconds
+ * Epoch numbers are told apart by size: seconds, milliseconds, micro- or nanoseconds.
+ */
+function toTimestamp(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'bigint') value = Number(value);
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+      value = Number(trimmed);
+    } else {
+      // Bare dates (2024-01-31) parse as UTC midnight
+      return Date.parse(trimmed);
+    }
+  }
+  if (typeof value !== 'number' || !isFinite(value)) return NaN;
+  if (value < 4e9) return value * 1000;
+  if (value < 1e14) return value;
+  if (value < 1e17) return value / 1000;
+  return value / 1e6;
+}
+
+// Find a column by its aliases in a row whose keys have been lower-cased
+const pick = (row: Record<string, unknown>, aliases: string[]): unknown => {
+  for (const alias of aliases) {
+    if (row[alias] !== undefined && row[alias] !== null && row[alias] !== '') return row[alias];
+  }
+  return undefined;
+};
+
+/**
+ * Normalize OHLCV records into bars, sorted by time with duplicate timestamps dropped
+ * Rows without a usable timestamp or close are skipped.
+ */
+export function rowsToBars(rows: Record<string, unknown>[]): StockHistoricalData[] {
+  const byTimestamp = new Map<number, StockHistoricalData>();
+
+  for (const raw of rows) {
+    const row: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(raw)) row[key.trim().toLowerCase()] = value;
+
+    const timestamp = toTimestamp(pick(row, COLUMN_ALIASES.timestamp));
+    const close = Number(pick(row, COLUMN_ALIASES.close));
+    if (!isFinite(timestamp) || !isFinite(close)) continue;
+
+    // Files with only a close get flat bars
+    const number = (aliases: string[]) => {
+      const value = Number(pick(row, aliases));
+      return isFinite(value) ? value : close;
+    };
+    const volume = Number(pick(row, COLUMN_ALIASES.volume));
+
+    byTimestamp.set(timestamp, {
+      timestamp,
+      open: number(COLUMN_ALIASES.open),
+      high: number(COLUMN_ALIASES.high),
+      low: number(COLUMN_ALIASES.low),
+      close,
+      volume: isFinite(volume) ? volume : 0
+    });
+  }
+
+  return [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// A split ratio written as 4, 4:1 or 4/1
+const parseRatio = (value: string): number => {
+  const [numerator, denominator = '1'] = value.split(/[:/]/);
+  return Number(numerator) / Number(denominator);
+};
+
+/**
+ * Parse a CSV file into records keyed by its header row
+ * Handles comma, semicolon or tab delimiters and double-quoted fields.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const delimiter = [',', ';', '\t'].find(candidate => lines[0].includes(candidate)) || ',';
+  const splitLine = (line: string): string[] => {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === delimiter) {
+        fields.push(field);
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    fields.push(field);
+    return fields.map(value => value.trim());
+  };
+
+  const header = splitLine(lines[0]);
+  return lines.slice(1).map(line => {
+    const fields = splitLine(line);
+    return Object.fromEntries(header.map((column, index) => [column, fields[index] ?? '']));
+  });
+}
+
+/**
+ * Market data read from CSV/Parquet OHLCV files
+ */
+export function createFileProvider(env: any): MarketDataProvider {
+  const bucket = env?.MARKET_DATA_BUCKET;
+  const baseUrl = (env?.MARKET_DATA_URL || '').replace(/\/+$/, '');
+  if (!bucket && !baseUrl) {
+    throw new Error('The file market data provider needs a MARKET_DATA_BUCKET binding or a MARKET_DATA_URL');
+  }
+
+  let index: { loadedAt: number; entries: Promise<SymbolIndexEntry[]> } | null = null;
+
+  // A file's contents, or null if it doesn't exist
+  const readFile = async (path: string): Promise<ArrayBuffer | null> => {
+    if (bucket) {
+      const object = await bucket.get(path);
+      return object ? object.arrayBuffer() : null;
+    }
+    const url = `${baseUrl}/${path.split('/').map(encodeURIComponent).join('/')}`;
+    const response = await fetch(url);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Reading ${path} failed with status ${response.status}`);
+    }
+    return response.arrayBuffer();
+  };
+
+  const readBars = async (symbol: string, interval: SourceInterval): Promise<StockHistoricalData[]> => {
+    for (const format of FILE_FORMATS) {
+      const file = await readFile(`${interval}/${symbol}.${format}`);
+      if (!file) continue;
+
+      const rows = format === 'parquet'
+        ? await parquetReadObjects({ file })
+        : parseCsv(new TextDecoder().decode(file));
+      const bars = rowsToBars(rows as Record<string, unknown>[]);
+      if (bars.length === 0) {
+        throw new Error(`${interval}/${symbol}.${format} has no usable OHLCV rows`);
+      }
+      return bars;
+    }
+    throw new Error(`No ${interval} data file for ${symbol}`);
+  };
+
+  const getIndex = (): Promise<SymbolIndexEntry[]> => {
+    if (!index || Date.now() - index.loadedAt > INDEX_TTL_MS) {
+      const entries = readFile('symbols.csv').then(file => file
+        ? parseCsv(new TextDecoder().decode(file))
+          .map(row => {
+            const entry = Object.fromEntries(Object.entries(row).map(([key, value]) => [key.toLowerCase(), value]));
+            return { symbol: (entry.symbol || '').toUpperCase(), name: entry.name || entry.symbol, exchange: entry.exchange || undefined };
+          })
+          .filter(entry => entry.symbol)
+        : []);
+      index = { loadedAt: Date.now(), entries };
+      // A failed read shouldn't stick for the whole TTL
+      entries.catch(() => { index = null; });
+    }
+    return index.entries;
+  };
+
+  const readActions = async (symbol: string): Promise<CorporateAction[]> => {
+    const file = await readFile(`actions/${symbol}.csv`);
+    if (!file) return [];
+
+    return parseCsv(new TextDecoder().decode(file))
+      .map(raw => {
+        const row: Record<string, string> = {};
+        for (const [key, value] of Object.entries(raw)) row[key.trim().toLowerCase()] = value;
+        const timestamp = toTimestamp(pick(row, COLUMN_ALIASES.timestamp));
+        const type = (row.type || '').toLowerCase();
+        const value = row.value || row.ratio || row.amount || '';
+        if (type === 'split') return { type: 'split' as const, timestamp, ratio: parseRatio(value) };
+        if (type === 'dividend') return { type: 'dividend' as const, timestamp, amount: Number(value) };
+        return null;
+      })
+      .filter(action => action && isFinite(action.timestamp) && (action.type === 'split' ? action.ratio > 0 : action.amount > 0))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  };
+
+  const getQuote = async (symbol: string): Promise<MarketQuote | null> => {
+    let bars: StockHistoricalData[];
+    try {
+      bars = await readBars(symbol, '1d');
+    } catch {
+      return null;
+    }
+
+    const last = bars[bars.length - 1];
+    const previous = bars.length > 1 ? bars[bars.length - 2] : null;
+    const lastYear = bars.filter(bar => bar.timestamp > last.timestamp - YEAR_MS);
+    const recent = bars.slice(-AVERAGE_VOLUME_BARS);
+    const entry = (await getIndex().catch(() => [] as SymbolIndexEntry[])).find(item => item.symbol === symbol);
+
+    return {
+      symbol,
+      name: entry?.name || symbol,
+      shortName: entry?.name,
+      price: last.close,
+      change: previous ? last.close - previous.close : undefined,
+      changePercent: previous ? (last.close - previous.close) / previous.close * 100 : undefined,
+      volume: last.volume,
+      averageVolume: recent.reduce((sum, bar) => sum + bar.volume, 0) / recent.length,
+      fiftyTwoWeekLow: Math.min(...lastYear.map(bar => bar.low)),
+      fiftyTwoWeekHigh: Math.max(...lastYear.map(bar => bar.high))
+    };
+  };
+
+  const getQuotes = async (symbols: string[]): Promise<MarketQuote[]> => {
+    const quotes = await Promise.all(symbols.map(symbol => getQuote(symbol.toUpperCase())));
+    return quotes.filter(Boolean);
+  };
+
+  return {
+    name: 'file',
+
+    getQuote: symbol => getQuote(symbol.toUpperCase()),
+
+    getQuotes,
+
+    async getHistory(symbol, interval, period1) {
+      const bars = await readBars(symbol.toUpperCase(), interval);
+      return bars.filter(bar => bar.timestamp >= period1.getTime());
+    },
+
+    async getCorporateActions(symbol, period1) {
+      const actions = await readActions(symbol.toUpperCase());
+      return actions.filter(action => action.timestamp >= period1.getTime());
+    },
+
+    async search(query) {
+      const needle = query.trim().toLowerCase();
+      const entries = await getIndex();
+      return {
+        symbols: entries.filter(entry =>
+          entry.symbol.toLowerCase().startsWith(needle) || entry.name.toLowerCase().includes(needle)
+        ),
+        // Files carry prices only
+        news: []
+      };
+    },
+
+    async getMostActive(count) {
+      const entries = await getIndex();
+      if (entries.length === 0) {
+        throw new Error('The file market data provider needs symbols.csv to list symbols');
+      }
+      const quotes = await getQuotes(entries.map(entry => entry.symbol));
+      return quotes.sort((a, b) => (b.volume || 0) - (a.volume || 0)).slice(0, count);
+    }
+  };
+}
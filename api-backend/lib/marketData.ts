@@ -0,0 +1,69 @@
+import type { CorporateAction, StockHistoricalData } from '../../src/types/shared';
+import { createYahooProvider } from './yahooMarketData';
+import { createFileProvider } from './fileMarketData';
+
+// Bar intervals a provider serves directly. 4h is built from 1h bars by the worker.
+export type SourceInterval = '1m' | '5m' | '15m' | '1h' | '1d' | '1wk' | '1mo';
+
+// A quote in the shape the API returns (StockData in src/types/shared).
+// Fields a provider can't fill are left undefined.
+export interface MarketQuote {
+  symbol: string;
+  name: string;
+  shortName?: string;
+  price: number;
+  change?: number;
+  changePercent?: number;
+  volume?: number;
+  averageVolume?: number;
+  marketCap?: number;
+  fiftyTwoWeekLow?: number;
+  fiftyTwoWeekHigh?: number;
+}
+
+export interface MarketSearchResult {
+  symbols: { symbol: string; name: string; exchange?: string }[];
+  news: { title: string; publisher?: string; link?: string; providerPublishTime?: number; summary?: string }[];
+}
+
+/**
+ * Where the API gets prices from. Selected per deployment by MARKET_DATA_PROVIDER.
+ * Providers throw when they can't serve a request; they never make data up.
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+  getQuote(symbol: string): Promise<MarketQuote | null>;
+  // Unknown symbols are left out rather than failing the batch
+  getQuotes(symbols: string[]): Promise<MarketQuote[]>;
+  // Split-adjusted bars from `period1` on, sorted by timestamp
+  getHistory(symbol: string, interval: SourceInterval, period1: Date): Promise<StockHistoricalData[]>;
+  // Splits and dividends from `period1` on, oldest first
+  getCorporateActions(symbol: string, period1: Date): Promise<CorporateAction[]>;
+  search(query: string, options?: { newsCount?: number }): Promise<MarketSearchResult>;
+  // The screener: most actively traded symbols first
+  getMostActive(count: number): Promise<MarketQuote[]>;
+}
+
+export const MARKET_DATA_PROVIDERS = ['yahoo', 'file'] as const;
+export type MarketDataProviderName = typeof MARKET_DATA_PROVIDERS[number];
+
+// One provider per isolate and configuration
+let cachedProvider: { key: string; provider: MarketDataProvider } | null = null;
+
+/**
+ * The deployment's market data provider
+ * MARKET_DATA_PROVIDER is 'yahoo' (the default) or 'file', which reads CSV/Parquet OHLCV
+ * from the MARKET_DATA_BUCKET R2 binding or the MARKET_DATA_URL base URL.
+ */
+export function getMarketDataProvider(env: any): MarketDataProvider {
+  const name = (env?.MARKET_DATA_PROVIDER || 'yahoo') as MarketDataProviderName;
+  if (!MARKET_DATA_PROVIDERS.includes(name)) {
+    throw new Error(`Unknown MARKET_DATA_PROVIDER: ${name} (expected ${MARKET_DATA_PROVIDERS.join(' or ')})`);
+  }
+
+  const key = `${name}:${env?.MARKET_DATA_URL || ''}:${env?.MARKET_DATA_BUCKET ? 'bucket' : ''}`;
+  if (cachedProvider?.key !== key) {
+    cachedProvider = { key, provider: name === 'file' ? createFileProvider(env) : createYahooProvider() };
+  }
+  return cachedProvider.provider;
+}
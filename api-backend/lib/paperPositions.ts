@@ -0,0 +1,74 @@
+import { getSupabaseClient } from './supabase';
+import { getPositionExit } from '../../src/utils/paperTrading';
+
+interface PaperPositionRow {
+  id: string;
+  symbol: string;
+  direction: 'long' | 'short';
+  stop_price: number | null;
+  target_price: number | null;
+}
+
+export interface PaperMarkDeps {
+  // Latest price per symbol; symbols without a quote are left out
+  getPrices: (symbols: string[]) => Promise<Record<string, number>>;
+}
+
+export interface PaperMarkSummary {
+  open: number;      // Open positions loaded
+  marked: number;
+  closed: number;    // Closed on their stop or target this run
+  errors: string[];
+}
+
+/**
+ * Mark every open paper position to the latest price, closing those whose stop or target was reached
+ */
+export async function markOpenPaperPositions(env: any, deps: PaperMarkDeps): Promise<PaperMarkSummary> {
+  const supabase = getSupabaseClient(env);
+  const summary: PaperMarkSummary = { open: 0, marked: 0, closed: 0, errors: [] };
+
+  const { data, error } = await supabase
+    .from('paper_positions')
+    .select('id, symbol, direction, stop_price, target_price')
+    .eq('status', 'open');
+
+  if (error) throw error;
+  const positions = (data || []) as PaperPositionRow[];
+  summary.open = positions.length;
+  if (positions.length === 0) return summary;
+
+  const prices = await deps.getPrices([...new Set(positions.map(position => position.symbol))]);
+  const now = new Date().toISOString();
+
+  for (const position of positions) {
+    const price = prices[position.symbol];
+    if (!price) continue;
+
+    const exit = getPositionExit({
+      direction: position.direction,
+      stopPrice: position.stop_price === null ? null : Number(position.stop_price),
+      targetPrice: position.target_price === null ? null : Number(position.target_price)
+    }, price);
+
+    const changes = exit
+      ? { status: 'closed', exit_price: price, exit_reason: exit, closed_at: now, last_price: price, last_marked_at: now }
+      : { last_price: price, last_marked_at: now };
+
+    // Only touch positions that are still open, in case the owner closed one meanwhile
+    const { error: updateError } = await supabase
+      .from('paper_positions')
+      .update(changes)
+      .eq('id', position.id)
+      .eq('status', 'open');
+
+    if (updateError) {
+      summary.errors.push(`${position.symbol} ${position.id}: ${updateError.message}`);
+      continue;
+    }
+    summary.marked++;
+    if (exit) summary.closed++;
+  }
+
+  return summary;
+}
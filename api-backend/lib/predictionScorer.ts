@@ -0,0 +1,111 @@
+import { getSupabaseClient } from './supabase';
+import { scorePrediction } from '../../src/utils/predictionScoring';
+import type { StockHistoricalData } from '../../src/types/shared';
+
+// Predictions scored per run; the oldest-scored go first so all of them get a turn
+const MAX_PREDICTIONS_PER_RUN = 200;
+
+interface PredictionRow {
+  id: string;
+  symbol: string;
+  timeframe: string;
+  as_of: number;
+  price: number;
+  stop_loss: number | null;
+  wave_prediction_targets: { id: string; target_price: number; status: string }[];
+}
+
+export interface PredictionScorerDeps {
+  // Bars covering at least the given number of days back from now
+  getBars: (symbol: string, timeframe: string, lookbackDays: number) => Promise<StockHistoricalData[]>;
+}
+
+export interface PredictionScoreSummary {
+  open: number;      // Open predictions loaded
+  scored: number;
+  closed: number;    // Predictions that finished scoring this run
+  errors: string[];
+}
+
+const toIso = (timestamp: number | null) => timestamp ? new Date(timestamp).toISOString() : null;
+
+/**
+ * Score open wave predictions against the bars that followed them
+ * Each run rescores from the snapshot onwards, so late or corrected bars are picked up.
+ */
+export async function scoreOpenPredictions(env: any, deps: PredictionScorerDeps): Promise<PredictionScoreSummary> {
+  const supabase = getSupabaseClient(env);
+  const summary: PredictionScoreSummary = { open: 0, scored: 0, closed: 0, errors: [] };
+
+  const { data, error } = await supabase
+    .from('wave_predictions')
+    .select('id, symbol, timeframe, as_of, price, stop_loss, wave_prediction_targets(id, target_price, status)')
+    .eq('status', 'open')
+    .order('scored_at', { ascending: true, nullsFirst: true })
+    .limit(MAX_PREDICTIONS_PER_RUN);
+
+  if (error) throw error;
+  const predictions = (data || []) as unknown as PredictionRow[];
+  summary.open = predictions.length;
+
+  // One history fetch per symbol and timeframe, reaching back to the oldest open prediction
+  const groups = new Map<string, PredictionRow[]>();
+  for (const prediction of predictions) {
+    const key = `${prediction.symbol}|${prediction.timeframe}`;
+    groups.set(key, [...(groups.get(key) || []), prediction]);
+  }
+
+  for (const group of groups.values()) {
+    const { symbol, timeframe } = group[0];
+    const oldest = Math.min(...group.map(prediction => Number(prediction.as_of)));
+    const lookbackDays = Math.ceil((Date.now() - oldest) / (24 * 60 * 60 * 1000)) + 1;
+
+    let bars: StockHistoricalData[];
+    try {
+      bars = await deps.getBars(symbol, timeframe, lookbackDays);
+    } catch (err) {
+      summary.errors.push(`${symbol} ${timeframe}: ${err.message}`);
+      continue;
+    }
+
+    for (const prediction of group) {
+      const targets = prediction.wave_prediction_targets || [];
+      const score = scorePrediction({
+        asOf: Number(prediction.as_of),
+        price: Number(prediction.price),
+        stopLoss: prediction.stop_loss === null ? null : Number(prediction.stop_loss),
+        targets: targets.map(target => ({ targetPrice: Number(target.target_price) }))
+      }, bars);
+
+      try {
+        for (let i = 0; i < targets.length; i++) {
+          const result = score.targets[i];
+          if (result.status === 'pending' && targets[i].status === 'pending') continue;
+          const { error: targetError } = await supabase
+            .from('wave_prediction_targets')
+            .update({ status: result.status, hit_at: toIso(result.hitAt), bars_to_hit: result.barsToHit })
+            .eq('id', targets[i].id);
+          if (targetError) throw targetError;
+        }
+
+        const { error: predictionError } = await supabase
+          .from('wave_predictions')
+          .update({
+            status: score.closed ? 'closed' : 'open',
+            stop_hit_at: toIso(score.stopHitAt),
+            bars_scored: score.barsScored,
+            scored_at: new Date().toISOString()
+          })
+          .eq('id', prediction.id);
+        if (predictionError) throw predictionError;
+
+        summary.scored++;
+        if (score.closed) summary.closed++;
+      } catch (err) {
+        summary.errors.push(`${symbol} ${timeframe} ${prediction.id}: ${err.message}`);
+      }
+    }
+  }
+
+  return summary;
+}
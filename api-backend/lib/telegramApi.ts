@@ -0,0 +1,67 @@
+// Thin wrappers around the Telegram Bot API used by the bot webhook and alert delivery
+
+const TELEGRAM_API_BASE = 'https://api.telegram.org/bot';
+
+// Telegram rejects captions longer than this
+const MAX_CAPTION_LENGTH = 1024;
+
+function botUrl(env: any, method: string): string {
+  if (!env.TELEGRAM_BOT_TOKEN) {
+    throw new Error('TELEGRAM_BOT_TOKEN not configured');
+  }
+  return `${TELEGRAM_API_BASE}${env.TELEGRAM_BOT_TOKEN}/${method}`;
+}
+
+async function checkResponse(response: Response, method: string): Promise<any> {
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.ok) {
+    throw new Error(`Telegram ${method} failed: ${result?.description || `status ${response.status}`}`);
+  }
+  return result.result;
+}
+
+export async function sendTelegramMessage(
+  env: any,
+  chatId: string | number,
+  text: string,
+  extra: Record<string, unknown> = {}
+): Promise<any> {
+  const response = await fetch(botUrl(env, 'sendMessage'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chat_id: chatId, text, disable_web_page_preview: true, ...extra })
+  });
+  return checkResponse(response, 'sendMessage');
+}
+
+/**
+ * Send an image (PNG bytes) with an optional caption
+ */
+export async function sendTelegramPhoto(
+  env: any,
+  chatId: string | number,
+  photo: Uint8Array,
+  caption?: string,
+  filename = 'chart.png'
+): Promise<any> {
+  const form = new FormData();
+  form.append('chat_id', String(chatId));
+  form.append('photo', new Blob([photo], { type: 'image/png' }), filename);
+  if (caption) form.append('caption', caption.slice(0, MAX_CAPTION_LENGTH));
+
+  const response = await fetch(botUrl(env, 'sendPhoto'), { method: 'POST', body: form });
+  return checkResponse(response, 'sendPhoto');
+}
+
+export async function setTelegramCommands(
+  env: any,
+  commands: { command: string; description: string }[]
+): Promise<void> {
+  const response = await fetch(botUrl(env, 'setMyCommands'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    // Telegram wants command names without the leading slash
+    body: JSON.stringify({ commands: commands.map(c => ({ ...c, command: c.command.replace(/^\//, '') })) })
+  });
+  await checkResponse(response, 'setMyCommands');
+}
@@ -0,0 +1,375 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from './supabase';
+import { sendTelegramMessage, sendTelegramPhoto } from './telegramApi';
+import { renderWaveChartSvg, renderSvgToPng } from './chartRenderer';
+import { getCachedAnalysis, type CachedWaveAnalysis } from './analysisCache';
+import { findReversalCandidates } from '../../src/utils/reversals';
+import { formatPriceLabel } from '../../src/utils/assetClasses';
+import {
+  HISTORY_INTERVAL_NAMES,
+  TELEGRAM_BOT_COMMANDS,
+  type HistoryInterval,
+  type StockHistoricalData,
+  type Wave
+} from '../../src/types/shared';
+
+// Commands anyone may use; everything else needs a linked, verified account
+const PUBLIC_COMMANDS = ['/start', '/help'];
+
+// Longest lists the bot sends in one message
+const MAX_REVERSALS = 20;
+const MAX_WATCHLIST_SYMBOLS = 40;
+
+export interface TelegramBotDeps {
+  getBars: (symbol: string, timeframe: HistoryInterval) => Promise<StockHistoricalData[]>;
+  getPrice: (symbol: string) => Promise<number | null>;
+}
+
+interface CommandContext {
+  env: any;
+  deps: TelegramBotDeps;
+  supabase: SupabaseClient;
+  chatId: number;
+  userId: string;      // Linked app account
+  args: string[];
+}
+
+const formatPrice = (price: number | undefined | null, symbol: string) =>
+  price === undefined || price === null ? '—' : formatPriceLabel(price, symbol);
+
+const formatDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+const parseTimeframe = (arg: string | undefined): HistoryInterval | null => {
+  if (!arg) return '1d';
+  return arg in HISTORY_INTERVAL_NAMES ? (arg as HistoryInterval) : null;
+};
+
+function describeWave(wave: Wave, symbol: string): string {
+  const direction = wave.endPrice === undefined ? '' : wave.endPrice >= wave.startPrice ? '↑' : '↓';
+  return `${wave.number}${direction} ${formatPrice(wave.startPrice, symbol)}→${formatPrice(wave.endPrice, symbol)}`;
+}
+
+// Reply with the chart when it renders, falling back to text alone
+async function replyWithChart(
+  ctx: CommandContext,
+  symbol: string,
+  timeframe: HistoryInterval,
+  analysis: CachedWaveAnalysis,
+  text: string
+): Promise<void> {
+  try {
+    const bars = await ctx.deps.getBars(symbol, timeframe);
+    const svg = renderWaveChartSvg({
+      symbol,
+      timeframe,
+      bars,
+      waves: analysis.waves || [],
+      invalidWaves: analysis.invalidWaves,
+      currentWave: analysis.currentWave,
+      fibTargets: analysis.fibTargets,
+      currentPrice: bars[bars.length - 1]?.close,
+      discontinuities: analysis.discontinuities
+    });
+    const png = await renderSvgToPng(svg, ctx.env);
+    await sendTelegramPhoto(ctx.env, ctx.chatId, png, text, `${symbol}-${timeframe}.png`);
+  } catch (error) {
+    console.error(`Telegram bot: chart for ${symbol} failed:`, error);
+    await sendTelegramMessage(ctx.env, ctx.chatId, text);
+  }
+}
+
+async function handleWave(ctx: CommandContext): Promise<void> {
+  const symbol = ctx.args[0]?.toUpperCase();
+  const timeframe = parseTimeframe(ctx.args[1]);
+  if (!symbol || !timeframe) {
+    await sendTelegramMessage(ctx.env, ctx.chatId, 'Usage: /wave SYMBOL [timeframe], e.g. /wave AAPL or /wave AAPL 4h');
+    return;
+  }
+
+  const analysis = await getCachedAnalysis(ctx.supabase, symbol, timeframe);
+  const currentWave = analysis?.currentWave;
+  if (!currentWave) {
+    await sendTelegramMessage(ctx.env, ctx.chatId,
+      `No wave count for ${symbol} (${HISTORY_INTERVAL_NAMES[timeframe]}) yet. Open it in the app to run one.`);
+    return;
+  }
+
+  const lines = [
+    `${symbol} · ${HISTORY_INTERVAL_NAMES[timeframe]}`,
+    `Wave ${currentWave.number} (${currentWave.type}${currentWave.isComplete ? '' : ', in progress'}) since ${formatDate(currentWave.startTimestamp)} at ${formatPrice(currentWave.startPrice, symbol)}`,
+    `Trend: ${analysis.trend || 'neutral'}` +
+      (analysis.confidence !== undefined ? ` · Confidence ${analysis.confidence}/100 (${analysis.confidenceLevel})` : '')
+  ];
+
+  const recentWaves = (analysis.waves || []).slice(-5);
+  if (recentWaves.length > 0) {
+    lines.push(`Recent waves: ${recentWaves.map(wave => describeWave(wave, symbol)).join(', ')}`);
+  }
+  if (currentWave.isInvalidated) {
+    lines.push(`⚠ Invalidated${currentWave.invalidationRule ? `: ${currentWave.invalidationRule}` : ''}`);
+  }
+
+  await replyWithChart(ctx, symbol, timeframe, analysis, lines.join('\n'));
+}
+
+async function handleTargets(ctx: CommandContext): Promise<void> {
+  const symbol = ctx.args[0]?.toUpperCase();
+  const timeframe = parseTimeframe(ctx.args[1]);
+  if (!symbol || !timeframe) {
+    await sendTelegramMessage(ctx.env, ctx.chatId, 'Usage: /targets SYMBOL [timeframe], e.g. /targets AAPL');
+    return;
+  }
+
+  const analysis = await getCachedAnalysis(ctx.supabase, symbol, timeframe);
+  if (!analysis?.fibTargets?.length) {
+    await sendTelegramMessage(ctx.env, ctx.chatId, `No Fibonacci targets for ${symbol} (${HISTORY_INTERVAL_NAMES[timeframe]}) yet.`);
+    return;
+  }
+
+  const price = await ctx.deps.getPrice(symbol).catch(() => null) ?? analysis.currentWave?.endPrice ?? null;
+  const targets = [...analysis.fibTargets].sort((a, b) => b.price - a.price);
+
+  const lines = [
+    `${symbol} · ${HISTORY_INTERVAL_NAMES[timeframe]} · Wave ${analysis.currentWave?.number ?? '?'} · Price ${formatPrice(price, symbol)}`,
+    ...targets.map(target => {
+      const distance = price ? ` (${((target.price - price) / price * 100).toFixed(1)}%)` : '';
+      return `${target.label || target.level}: ${formatPrice(target.price, symbol)}${distance}${target.isCritical ? ' ⚠' : ''}`;
+    })
+  ];
+
+  await replyWithChart(ctx, symbol, timeframe, analysis, lines.join('\n'));
+}
+
+async function handleReversals(ctx: CommandContext): Promise<void> {
+  // Only the fields the reversal check needs, not whole analyses
+  const { data, error } = await ctx.supabase
+    .from('cache')
+    .select('key, currentWave:data->currentWave, fibTargets:data->fibTargets')
+    // Underscores are LIKE wildcards, so the literal ones are escaped
+    .like('key', 'wave\\_analysis\\_%\\_1d');
+  if (error) throw error;
+
+  const reversals = (data || []).flatMap(row => {
+    const symbol = row.key.slice('wave_analysis_'.length, -'_1d'.length);
+    return findReversalCandidates(symbol, row as unknown as CachedWaveAnalysis);
+  });
+
+  if (reversals.length === 0) {
+    await sendTelegramMessage(ctx.env, ctx.chatId, 'No reversal signals right now.');
+    return;
+  }
+
+  const lines = reversals.slice(0, MAX_REVERSALS).map(reversal =>
+    `${reversal.isBearish ? '🔻' : '🔺'} ${reversal.symbol} wave ${reversal.waveNumber} → ${reversal.nextWave} · ` +
+    `${reversal.targetLevel} ${formatPrice(reversal.targetPrice, reversal.symbol)} (${reversal.exceededBy})`
+  );
+  if (reversals.length > MAX_REVERSALS) {
+    lines.push(`…and ${reversals.length - MAX_REVERSALS} more`);
+  }
+
+  await sendTelegramMessage(ctx.env, ctx.chatId, `Possible reversals (daily)\n${lines.join('\n')}`);
+}
+
+async function handleWatchlist(ctx: CommandContext): Promise<void> {
+  const { data: lists, error } = await ctx.supabase
+    .from('watchlists')
+    .select('id, name, watchlist_items(symbol, position)')
+    .eq('user_id', ctx.userId)
+    .order('position', { ascending: true });
+  if (error) throw error;
+
+  if (!lists?.length) {
+    await sendTelegramMessage(ctx.env, ctx.chatId, 'You have no watchlists yet. Create one on your profile page in the app.');
+    return;
+  }
+
+  const name = ctx.args.join(' ').trim().toLowerCase();
+  const list = name ? lists.find(l => l.name.toLowerCase() === name) : lists[0];
+  if (!list) {
+    await sendTelegramMessage(ctx.env, ctx.chatId, `No watchlist called "${ctx.args.join(' ')}". Yours: ${lists.map(l => l.name).join(', ')}`);
+    return;
+  }
+
+  const symbols = ((list.watchlist_items || []) as { symbol: string; position: number }[])
+    .sort((a, b) => a.position - b.position)
+    .map(item => item.symbol)
+    .slice(0, MAX_WATCHLIST_SYMBOLS);
+
+  const { data: rows } = symbols.length > 0
+    ? await ctx.supabase
+      .from('cache')
+      .select('key, currentWave:data->currentWave, trend:data->trend')
+      .in('key', symbols.map(symbol => `wave_analysis_${symbol}_1d`))
+    : { data: [] };
+  const bySymbol = Object.fromEntries((rows || []).map(row => [row.key.slice('wave_analysis_'.length, -'_1d'.length), row]));
+
+  const lines = symbols.map(symbol => {
+    const row = bySymbol[symbol];
+    return row?.currentWave
+      ? `${symbol}: wave ${row.currentWave.number} (${row.trend || 'neutral'})`
+      : `${symbol}: not analyzed yet`;
+  });
+  const others = lists.filter(l => l.id !== list.id).map(l => l.name);
+
+  await sendTelegramMessage(ctx.env, ctx.chatId, [
+    `${list.name} (${symbols.length})`,
+    ...(lines.length > 0 ? lines : ['No symbols yet']),
+    ...(others.length > 0 ? ['', `Other lists: ${others.join(', ')} — /watchlist NAME`] : [])
+  ].join('\n'));
+}
+
+async function handleSubscribe(ctx: CommandContext): Promise<void> {
+  const symbol = ctx.args[0]?.toUpperCase();
+  const timeframe = parseTimeframe(ctx.args[1]);
+  if (!symbol || !timeframe) {
+    await sendTelegramMessage(ctx.env, ctx.chatId, 'Usage: /subscribe SYMBOL [timeframe], e.g. /subscribe AAPL');
+    return;
+  }
+
+  // Only rules that already deliver here - rules the user set up for other channels are left alone
+  const { data: existingRules, error: existingError } = await ctx.supabase
+    .from('alert_rules')
+    .select('id')
+    .eq('user_id', ctx.userId)
+    .eq('symbol', symbol)
+    .eq('timeframe', timeframe)
+    .eq('condition', 'wave_changed')
+    .contains('channels', ['telegram'])
+    .limit(1);
+  if (existingError) throw existingError;
+  const existing = existingRules?.[0];
+
+  if (existing) {
+    const { error } = await ctx.supabase.from('alert_rules').update({ enabled: true }).eq('id', existing.id);
+    if (error) throw error;
+  } else {
+    const { error } = await ctx.supabase.from('alert_rules').insert({
+      user_id: ctx.userId,
+      name: `${symbol} wave changes`,
+      symbol,
+      timeframe,
+      condition: 'wave_changed',
+      channels: ['telegram'],
+      cooldown_minutes: 0
+    });
+    if (error) throw error;
+  }
+
+  // Make sure Telegram delivery is switched on, keeping any existing settings
+  const { data: channel } = await ctx.supabase
+    .from('alert_channels')
+    .select('id, enabled')
+    .eq('user_id', ctx.userId)
+    .eq('type', 'telegram')
+    .maybeSingle();
+  if (!channel) {
+    await ctx.supabase.from('alert_channels').insert({ user_id: ctx.userId, type: 'telegram', config: {}, enabled: true });
+  } else if (!channel.enabled) {
+    await ctx.supabase.from('alert_channels').update({ enabled: true }).eq('id', channel.id);
+  }
+
+  await sendTelegramMessage(ctx.env, ctx.chatId,
+    `Subscribed. I'll message you when ${symbol} starts a new wave (${HISTORY_INTERVAL_NAMES[timeframe]}).`);
+}
+
+async function handleUnsubscribe(ctx: CommandContext): Promise<void> {
+  const symbol = ctx.args[0]?.toUpperCase();
+  if (!symbol) {
+    await sendTelegramMessage(ctx.env, ctx.chatId, 'Usage: /unsubscribe SYMBOL');
+    return;
+  }
+
+  const { data: rules, error } = await ctx.supabase
+    .from('alert_rules')
+    .select('id, channels')
+    .eq('user_id', ctx.userId)
+    .eq('symbol', symbol)
+    .eq('condition', 'wave_changed')
+    .contains('channels', ['telegram']);
+  if (error) throw error;
+
+  // Rules that also deliver elsewhere just stop messaging here
+  for (const rule of rules || []) {
+    const channels = (rule.channels as string[]).filter(channel => channel !== 'telegram');
+    const { error: updateError } = channels.length > 0
+      ? await ctx.supabase.from('alert_rules').update({ channels }).eq('id', rule.id)
+      : await ctx.supabase.from('alert_rules').delete().eq('id', rule.id);
+    if (updateError) throw updateError;
+  }
+
+  await sendTelegramMessage(ctx.env, ctx.chatId,
+    rules?.length ? `Unsubscribed from ${symbol}.` : `You weren't subscribed to ${symbol}.`);
+}
+
+const COMMAND_HANDLERS: Record<string, (ctx: CommandContext) => Promise<void>> = {
+  '/wave': handleWave,
+  '/targets': handleTargets,
+  '/reversals': handleReversals,
+  '/watchlist': handleWatchlist,
+  '/subscribe': handleSubscribe,
+  '/unsubscribe': handleUnsubscribe
+};
+
+function helpText(env: any, isLinked: boolean): string {
+  const lines = [
+    'Wave Analyzer bot',
+    ...TELEGRAM_BOT_COMMANDS.map(c => `${c.command} - ${c.description}`)
+  ];
+  if (!isLinked) {
+    lines.push('', linkInstructions(env));
+  }
+  return lines.join('\n');
+}
+
+function linkInstructions(env: any): string {
+  return 'Link your Telegram account first: open the Wave Analyzer mini app' +
+    (env.APP_URL ? ` (${env.APP_URL}/telegram)` : '') + ' and sign in.';
+}
+
+/**
+ * Answer one update from the Telegram webhook
+ * Only commands are handled; other messages (e.g. group chatter) are ignored
+ */
+export async function handleTelegramUpdate(update: any, env: any, deps: TelegramBotDeps): Promise<void> {
+  const message = update?.message;
+  const text: string = message?.text?.trim() || '';
+  if (!message || !text.startsWith('/')) return;
+
+  const chatId = message.chat.id;
+  // In groups commands arrive as /wave@BotName
+  const [rawCommand, ...args] = text.split(/\s+/);
+  const command = rawCommand.split('@')[0].toLowerCase();
+
+  const supabase = getSupabaseClient(env);
+
+  try {
+    const { data: link } = await supabase
+      .from('telegram_users')
+      .select('user_id')
+      .eq('telegram_id', String(message.from?.id))
+      .eq('is_verified', true)
+      .maybeSingle();
+    const userId: string | undefined = link?.user_id;
+
+    if (PUBLIC_COMMANDS.includes(command)) {
+      await sendTelegramMessage(env, chatId, helpText(env, !!userId));
+      return;
+    }
+
+    const handler = COMMAND_HANDLERS[command];
+    if (!handler) {
+      await sendTelegramMessage(env, chatId, 'Unknown command. Use /help to see available commands.');
+      return;
+    }
+
+    if (!userId) {
+      await sendTelegramMessage(env, chatId, linkInstructions(env));
+      return;
+    }
+
+    await handler({ env, deps, supabase, chatId, userId, args });
+  } catch (error) {
+    console.error(`Telegram bot: error handling ${command}:`, error);
+    await sendTelegramMessage(env, chatId, 'Sorry, something went wrong. Please try again later.').catch(() => {});
+  }
+}
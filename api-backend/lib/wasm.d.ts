@@ -0,0 +1,5 @@
+// Wrangler compiles imported .wasm files into WebAssembly modules
+declare module '*.wasm' {
+  const module: WebAssembly.Module;
+  export default module;
+}
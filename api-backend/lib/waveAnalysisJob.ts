@@ -0,0 +1,194 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from './supabase';
+import { getCorporateActions } from './corporateActions';
+import { analyzeElliottWaves } from '../../src/utils/elliottWaveAnalysis';
+import { buildPredictionSnapshot, type PredictionSnapshot } from '../../src/utils/predictionScoring';
+import { ASSET_UNIVERSES } from '../../src/utils/assetClasses';
+import type { CorporateAction, StockHistoricalData } from '../../src/types/shared';
+
+// Counts per run; the stalest go first so the whole universe gets a turn across runs
+const MAX_ANALYSES_PER_RUN = 20;
+
+// Scheduled runs leave counts younger than this alone
+const REANALYZE_AFTER_MS = 12 * 60 * 60 * 1000;
+
+// How long the app treats a stored count as current (same as DataRefreshManager)
+const ANALYSIS_CACHE_DURATION = 7 * 24 * 60 * 60 * 1000;
+
+// The engine needs at least this many bars
+const MIN_BARS = 50;
+
+// Days of history analyzed, the same as the app fetches (HISTORY_LOOKBACK_DAYS in yahooFinanceService).
+// Intraday timeframes use the API's default lookback.
+const ANALYSIS_LOOKBACK_DAYS: Record<string, number> = {
+  '1d': 365,
+  '1wk': 365 * 5,
+  '1mo': 365 * 20
+};
+
+// Keys per .in() filter, to keep request URLs short
+const KEY_CHUNK_SIZE = 200;
+
+export interface WaveAnalysisJobDeps {
+  // Bars for a symbol and timeframe, covering the given number of days (or the timeframe's default)
+  getBars: (symbol: string, timeframe: string, lookbackDays?: number) => Promise<StockHistoricalData[]>;
+}
+
+export interface WaveAnalysisJobOptions {
+  symbols?: string[];     // Analyze these, however recently they were counted, instead of the universe
+  timeframes?: string[];  // Default: WAVE_ANALYSIS_TIMEFRAMES (comma-separated), or 1d
+  limit?: number;         // Counts this run (default MAX_ANALYSES_PER_RUN)
+}
+
+export interface WaveAnalysisJobSummary {
+  due: number;           // Symbol and timeframe pairs due for a count
+  analyzed: number;
+  predictions: number;   // New prediction snapshots recorded
+  remaining: number;     // Due pairs left for the next run
+  symbols: string[];     // Symbols counted this run
+  errors: string[];
+}
+
+const analysisKey = (symbol: string, timeframe: string) => `wave_analysis_${symbol}_${timeframe}`;
+
+/**
+ * Every symbol the dashboard covers: the stocks it lists (stock_ cache entries) plus the crypto and forex universes
+ */
+async function getUniverse(supabase: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('cache')
+    .select('key')
+    .like('key', 'stock_%');
+
+  if (error) throw error;
+  const stocks = (data || []).map(row => row.key.replace(/^stock_/, '')).filter(Boolean);
+  return [...new Set([...stocks, ...ASSET_UNIVERSES.crypto, ...ASSET_UNIVERSES.forex])];
+}
+
+/**
+ * When each stored count was made, by cache key
+ */
+async function getAnalyzedAt(supabase: SupabaseClient, keys: string[]): Promise<Map<string, number>> {
+  const analyzedAt = new Map<string, number>();
+  for (let i = 0; i < keys.length; i += KEY_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('cache')
+      .select('key, timestamp')
+      .in('key', keys.slice(i, i + KEY_CHUNK_SIZE));
+
+    if (error) throw error;
+    for (const row of data || []) analyzedAt.set(row.key, Number(row.timestamp));
+  }
+  return analyzedAt;
+}
+
+/**
+ * Store a prediction snapshot unless the same prediction is already stored
+ * Snapshots from the job have no creator; the service role bypasses RLS.
+ */
+async function recordPrediction(supabase: SupabaseClient, snapshot: PredictionSnapshot): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('wave_predictions')
+    .upsert({
+      symbol: snapshot.symbol,
+      timeframe: snapshot.timeframe,
+      created_by: null,
+      as_of: snapshot.asOf,
+      price: snapshot.price,
+      trend: snapshot.trend || null,
+      wave_number: snapshot.waveNumber,
+      wave_start_price: snapshot.waveStartPrice,
+      wave_start_timestamp: snapshot.waveStartTimestamp,
+      confidence: snapshot.confidence ?? null,
+      stop_loss: snapshot.stopLoss,
+      fingerprint: snapshot.fingerprint
+    }, { onConflict: 'symbol,timeframe,fingerprint', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw error;
+  const predictionId = data?.[0]?.id;
+  if (!predictionId) return false;
+
+  const { error: targetsError } = await supabase
+    .from('wave_prediction_targets')
+    .insert(snapshot.targets.map(target => ({
+      prediction_id: predictionId,
+      level: target.level,
+      label: target.label,
+      target_price: target.targetPrice,
+      is_extension: target.isExtension
+    })));
+
+  if (targetsError) throw targetsError;
+  return true;
+}
+
+/**
+ * Count waves server-side and store the results where the app reads them (wave_analysis_ cache entries)
+ * Without explicit symbols, the counts due across the universe are made, stalest first, up to the run's limit.
+ * Each count also records a prediction snapshot, as the app does after its own runs.
+ */
+export async function runWaveAnalysisJob(
+  env: any,
+  deps: WaveAnalysisJobDeps,
+  options: WaveAnalysisJobOptions = {}
+): Promise<WaveAnalysisJobSummary> {
+  const supabase = getSupabaseClient(env);
+  const summary: WaveAnalysisJobSummary = { due: 0, analyzed: 0, predictions: 0, remaining: 0, symbols: [], errors: [] };
+
+  const timeframes = options.timeframes?.length
+    ? options.timeframes
+    : (env.WAVE_ANALYSIS_TIMEFRAMES || '1d').split(',').map(timeframe => timeframe.trim()).filter(Boolean);
+  const explicit = !!options.symbols?.length;
+  const symbols = explicit ? options.symbols : await getUniverse(supabase);
+
+  const pairs = symbols.flatMap(symbol => timeframes.map(timeframe => ({ symbol, timeframe, key: analysisKey(symbol, timeframe) })));
+  const analyzedAt = await getAnalyzedAt(supabase, pairs.map(pair => pair.key));
+  const now = Date.now();
+
+  const due = pairs
+    .filter(pair => explicit || !analyzedAt.has(pair.key) || now - analyzedAt.get(pair.key) > REANALYZE_AFTER_MS)
+    .sort((a, b) => (analyzedAt.get(a.key) ?? 0) - (analyzedAt.get(b.key) ?? 0));
+  const batch = due.slice(0, options.limit ?? MAX_ANALYSES_PER_RUN);
+  summary.due = due.length;
+  summary.remaining = due.length - batch.length;
+
+  for (const { symbol, timeframe, key } of batch) {
+    try {
+      const bars = await deps.getBars(symbol, timeframe, ANALYSIS_LOOKBACK_DAYS[timeframe]);
+      if (bars.length < MIN_BARS) {
+        throw new Error(`only ${bars.length} bars`);
+      }
+
+      // Known splits let the engine recognise their jumps rather than guess at them.
+      // Without them (the lookup failed) the count still goes ahead.
+      const corporateActions = await getCorporateActions(env, symbol).catch((err): CorporateAction[] => {
+        console.warn(`Wave analysis job: no corporate actions for ${symbol}: ${err.message}`);
+        return [];
+      });
+
+      const analysis = await analyzeElliottWaves(symbol, bars, undefined, undefined, false, undefined, { corporateActions });
+
+      const { error } = await supabase
+        .from('cache')
+        .upsert({
+          key,
+          data: { ...analysis, symbol },
+          timestamp: Date.now(),
+          duration: ANALYSIS_CACHE_DURATION,
+          is_string: false
+        }, { onConflict: 'key' });
+      if (error) throw error;
+
+      summary.analyzed++;
+      if (!summary.symbols.includes(symbol)) summary.symbols.push(symbol);
+
+      const snapshot = buildPredictionSnapshot(symbol, timeframe, analysis, bars[bars.length - 1]);
+      if (snapshot && await recordPrediction(supabase, snapshot)) summary.predictions++;
+    } catch (err) {
+      summary.errors.push(`${symbol} ${timeframe}: ${err.message}`);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,90 @@
+import yahooFinance from 'yahoo-finance2';
+import type { MarketDataProvider, MarketQuote } from './marketData';
+
+const toMarketQuote = (quote: any): MarketQuote => ({
+  symbol: quote.symbol,
+  name: quote.shortName || quote.longName || quote.symbol,
+  shortName: quote.shortName,
+  price: quote.regularMarketPrice,
+  change: quote.regularMarketChange,
+  changePercent: quote.regularMarketChangePercent,
+  volume: quote.regularMarketVolume,
+  averageVolume: quote.averageDailyVolume3Month ?? quote.averageDailyVolume10Day ?? quote.averageVolume,
+  marketCap: quote.marketCap,
+  fiftyTwoWeekLow: quote.fiftyTwoWeekLow,
+  fiftyTwoWeekHigh: quote.fiftyTwoWeekHigh
+});
+
+/**
+ * Market data from Yahoo Finance (yahoo-finance2)
+ */
+export function createYahooProvider(): MarketDataProvider {
+  return {
+    name: 'yahoo',
+
+    async getQuote(symbol) {
+      const quote = await yahooFinance.quote(symbol);
+      return quote ? toMarketQuote(quote) : null;
+    },
+
+    async getQuotes(symbols) {
+      if (symbols.length === 0) return [];
+      const quotes = await yahooFinance.quote(symbols, { return: 'array' }, { validateResult: false });
+      return ((quotes || []) as any[]).filter(quote => quote?.symbol).map(toMarketQuote);
+    },
+
+    async getHistory(symbol, interval, period1) {
+      const chartResult = await yahooFinance.chart(symbol, { period1, interval });
+
+      if (!chartResult?.quotes || !Array.isArray(chartResult.quotes) || chartResult.quotes.length === 0) {
+        throw new Error(`No historical data available for ${symbol}`);
+      }
+
+      // Intraday responses include empty bars for the minutes nothing traded
+      return chartResult.quotes
+        .filter(item => item.close !== null && item.close !== undefined)
+        .map(item => ({
+          timestamp: new Date(item.date).getTime(),
+          open: Number(item.open),
+          high: Number(item.high),
+          low: Number(item.low),
+          close: Number(item.close),
+          volume: Number(item.volume || 0)
+        }));
+    },
+
+    async getCorporateActions(symbol, period1) {
+      // Events come with any interval; monthly bars keep the response small
+      const chartResult: any = await yahooFinance.chart(symbol, { period1, interval: '1mo', events: 'div|split' });
+      const splits = (chartResult?.events?.splits || [])
+        .filter(split => split.numerator > 0 && split.denominator > 0)
+        .map(split => ({ type: 'split' as const, timestamp: new Date(split.date).getTime(), ratio: split.numerator / split.denominator }));
+      const dividends = (chartResult?.events?.dividends || [])
+        .filter(dividend => dividend.amount > 0)
+        .map(dividend => ({ type: 'dividend' as const, timestamp: new Date(dividend.date).getTime(), amount: Number(dividend.amount) }));
+      return [...splits, ...dividends].sort((a, b) => a.timestamp - b.timestamp);
+    },
+
+    async search(query, options = {}) {
+      const result: any = await yahooFinance.search(query, {
+        lang: 'en-US',
+        region: 'US',
+        newsCount: options.newsCount ?? 5
+      });
+      return {
+        symbols: (result?.quotes || [])
+          .filter(quote => quote?.symbol)
+          .map(quote => ({ symbol: quote.symbol, name: quote.shortname || quote.longname || quote.symbol, exchange: quote.exchange })),
+        news: result?.news || []
+      };
+    },
+
+    async getMostActive(count) {
+      const result: any = await yahooFinance.screener({ scrIds: 'most_actives', count });
+      if (!result?.quotes || !Array.isArray(result.quotes)) {
+        throw new Error('No valid stock data received from screener');
+      }
+      return result.quotes.filter(quote => quote?.symbol).map(toMarketQuote);
+    }
+  };
+}
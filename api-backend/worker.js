@@ -1,12 +1,31 @@
 // Import URL patches for node:url compatibility
 import { URL, URLSearchParams } from 'node:url';
-import yahooFinance from 'yahoo-finance2';
 import { getDeepSeekWaveAnalysis } from './lib/deepseekApi';
 import OpenAI from 'openai';
 import { getSupabaseClient } from './lib/supabase';
+import { runAlertRules } from './lib/alertsEngine';
+import { scoreOpenPredictions } from './lib/predictionScorer';
+import { markOpenPaperPositions } from './lib/paperPositions';
+import { runWaveAnalysisJob } from './lib/waveAnalysisJob';
+import { isAdminRequest } from './lib/adminAuth';
+import { handleTelegramUpdate } from './lib/telegramBot';
+import { setTelegramCommands } from './lib/telegramApi';
+import { renderWaveChartSvg, renderSvgToPng } from './lib/chartRenderer';
+import { getCachedAnalysis, findAnalysisWave } from './lib/analysisCache';
+import { getMarketDataProvider } from './lib/marketData';
+import { getHistoryBars } from './lib/barStore';
+import { getCorporateActions } from './lib/corporateActions';
+import { TELEGRAM_BOT_COMMANDS, PRICE_ADJUSTMENT_NAMES } from '../src/types/shared';
+import { ASSET_UNIVERSES, tradesAroundTheClock } from '../src/utils/assetClasses';
+import { adjustBars } from '../src/utils/priceAdjustment';
+import { assessBarQuality } from '../src/utils/barQuality';
 
 // Constants
 const APP_VERSION = '0.0.9';
+
+// Routes that start server jobs; only admins may call them (see lib/adminAuth.ts)
+// The cron trigger runs the same jobs without going through fetch.
+const ADMIN_ROUTES = ['/alerts/evaluate', '/telegram/commands', '/predictions/score', '/paper/mark', '/analysis/run'];
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, HEAD, POST, OPTIONS',
@@ -20,6 +39,24 @@ const CACHE = {};
 // Set this to true to always bypass cache
 const DISABLE_ALL_CACHING = true;
 
+// Bar intervals served by the history endpoint. Yahoo only keeps intraday bars
+// for a limited window, so each interval has its own default and maximum lookback (days).
+// Bars the store kept from before that window are still served to `from` requests.
+// 4h isn't offered by Yahoo and is built from 1h bars.
+const HISTORY_INTERVALS = {
+  '1m':  { source: '1m',  defaultLookback: 5,    maxLookback: 7 },
+  '5m':  { source: '5m',  defaultLookback: 30,   maxLookback: 60 },
+  '15m': { source: '15m', defaultLookback: 60,   maxLookback: 60 },
+  '1h':  { source: '1h',  defaultLookback: 180,  maxLookback: 730 },
+  '4h':  { source: '1h',  defaultLookback: 365,  maxLookback: 730, barsPerBucket: 4 },
+  '1d':  { source: '1d',  defaultLookback: 180,  maxLookback: 365 * 30 },
+  '1wk': { source: '1wk', defaultLookback: 365 * 5,  maxLookback: 365 * 30 },
+  '1mo': { source: '1mo', defaultLookback: 365 * 20, maxLookback: 365 * 50 }
+};
+
+// Most symbols quoted in one Yahoo request
+const MAX_BATCH_QUOTES = 200;
+
 export default {
   async fetch(request, env, ctx) {
     const url = new URL(request.url);
@@ -38,6 +75,17 @@ export default {
     }
 
     try {
+      // Server jobs - admins only
+      if (ADMIN_ROUTES.includes(path) && request.method === 'POST' && !(await isAdminRequest(request, env))) {
+        return new Response(JSON.stringify({
+          status: 'error',
+          message: 'Unauthorized'
+        }), {
+          status: 401,
+          headers
+        });
+      }
+
       // Health check endpoint
       if (path === '/health' || path === '/') {
         return new Response(JSON.stringify({
@@ -45,7 +93,8 @@ export default {
           message: 'API server is running',
           version: APP_VERSION,
           timestamp: new Date().toISOString(),
-          cachingDisabled: DISABLE_ALL_CACHING
+          cachingDisabled: DISABLE_ALL_CACHING,
+          marketDataProvider: env.MARKET_DATA_PROVIDER || 'yahoo'
         }), { 
           headers: {
             ...headers,
@@ -64,6 +113,12 @@ export default {
 
       // Market data endpoints
       if (path === '/stocks/top') {
+        // Crypto and forex have fixed universes rather than a most-active screener
+        const assetClass = url.searchParams.get('assetClass');
+        if (assetClass && assetClass !== 'stocks') {
+          return await handleTopAssets(assetClass, env);
+        }
+
         try {
           const cacheKey = 'top_stocks';
           const now = Date.now();
@@ -73,25 +128,18 @@ export default {
             return new Response(JSON.stringify(CACHE[cacheKey].data), { headers });
           }
           
-          // Get fresh data from Yahoo Finance
-          const result = await yahooFinance.screener({
-            scrIds: 'most_actives',
-            count: 100
-          });
+          // Get fresh data from the market data provider's screener
+          const quotes = await getMarketDataProvider(env).getMostActive(100);
           
-          if (!result?.quotes || !Array.isArray(result.quotes)) {
-            throw new Error("No valid stock data received from screener");
-          }
-          
-          const topStocks = result.quotes.map(quote => ({
+          const topStocks = quotes.map(quote => ({
             symbol: quote.symbol,
-            price: quote.regularMarketPrice,
-            change: quote.regularMarketChange,
-            changePercent: quote.regularMarketChangePercent,
-            volume: quote.regularMarketVolume,
+            price: quote.price,
+            change: quote.change,
+            changePercent: quote.changePercent,
+            volume: quote.volume,
             avgVolume: quote.averageVolume,
             marketCap: quote.marketCap,
-            name: quote.shortName || quote.longName || quote.symbol
+            name: quote.name
           })).filter(stock => stock.symbol && stock.symbol.length > 0);
           
           // Cache only if caching is enabled
@@ -115,46 +163,80 @@ export default {
         }
       }
 
-      // Historical data endpoint - never use cache for historical data
+      // Historical data endpoint - served from the bar store, not the response cache
       if (path.match(/^\/stocks\/[^/]+\/history/)) {
-        const symbol = path.split('/')[2];
+        const symbol = decodeURIComponent(path.split('/')[2]);
         console.log(`Processing history request for symbol: ${symbol}`);
         
+        // Parse query parameters
+        const params = new URLSearchParams(url.search);
+        // Accepts /history/{timeframe} as well as ?timeframe=
+        const interval = path.split('/')[4] || params.get('timeframe') || params.get('interval') || '1d';
+        const intervalConfig = HISTORY_INTERVALS[interval];
+        
+        if (!intervalConfig) {
+          return new Response(JSON.stringify({
+            status: 'error',
+            error: `Unsupported timeframe: ${interval}`,
+            supportedTimeframes: Object.keys(HISTORY_INTERVALS)
+          }), { 
+            status: 400,
+            headers
+          });
+        }
+        
+        // Bars are split-adjusted unless asked otherwise: 'all' adds dividends, 'none' undoes splits
+        const adjustment = params.get('adjust') || 'split';
+        if (!Object.keys(PRICE_ADJUSTMENT_NAMES).includes(adjustment)) {
+          return new Response(JSON.stringify({
+            status: 'error',
+            error: `Unsupported adjustment: ${adjustment}`,
+            supportedAdjustments: Object.keys(PRICE_ADJUSTMENT_NAMES)
+          }), { 
+            status: 400,
+            headers
+          });
+        }
+        
         try {
-          // Parse query parameters
-          const params = new URLSearchParams(url.search);
-          const lookbackParam = params.get('lookback');
-          const lookbackDays = lookbackParam ? parseInt(lookbackParam) : 180; // Default to 6 months instead of 2 years
+          // Requests beyond what Yahoo keeps for the interval are trimmed rather than rejected
+          const lookbackParam = parseInt(params.get('lookback'));
+          const lookbackDays = Math.min(
+            lookbackParam > 0 ? lookbackParam : intervalConfig.defaultLookback,
+            intervalConfig.maxLookback
+          );
           
-          // Get data using chart() instead of deprecated historical() method
-          const period1 = new Date();
-          period1.setDate(period1.getDate() - lookbackDays); // Use lookback parameter or default to 180 days
+          // A from/to range (ms timestamps or ISO dates) takes precedence over the lookback
+          const parseTime = value => {
+            if (!value) return undefined;
+            const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+            return isNaN(time) ? undefined : time;
+          };
+          const range = {
+            from: parseTime(params.get('from')),
+            to: parseTime(params.get('to')),
+            refresh: params.get('refresh') === 'true'
+          };
           
-          const chartResult = await yahooFinance.chart(symbol, {
-            period1,
-            interval: '1d'
-          });
+          const bars = await fetchHistoryBars(env, symbol, interval, lookbackDays, range);
           
-          // Validate the chart data
-          if (!chartResult?.quotes || !Array.isArray(chartResult.quotes) || chartResult.quotes.length === 0) {
-            throw new Error(`No historical data available for ${symbol}`);
-          }
-
-          // Format the data consistently - chart() returns a different structure than historical()
-          const formattedData = chartResult.quotes.map(item => ({
-            timestamp: new Date(item.date || item.timestamp).getTime(),
-            open: Number(item.open),
-            high: Number(item.high),
-            low: Number(item.low),
-            close: Number(item.close),
-            volume: Number(item.volume || 0)
-          }));
+          // Splits and dividends are only looked up when they're needed or asked for (?events=true)
+          const corporateActions = adjustment !== 'split' || params.get('events') === 'true'
+            ? await getCorporateActions(env, symbol)
+            : undefined;
+          const formattedData = adjustBars(bars, corporateActions || [], adjustment);
           
-          console.log(`Returning ${formattedData.length} historical data points for ${symbol} from ${new Date(formattedData[0].timestamp).toISOString()} to ${new Date(formattedData[formattedData.length-1].timestamp).toISOString()}`);
+          console.log(`Returning ${formattedData.length} ${interval} data points for ${symbol} from ${new Date(formattedData[0].timestamp).toISOString()} to ${new Date(formattedData[formattedData.length-1].timestamp).toISOString()}`);
           
           return new Response(JSON.stringify({
             status: 'success',
-            data: formattedData
+            interval,
+            lookbackDays,
+            adjustment,
+            data: formattedData,
+            corporateActions,
+            // Gaps, a stale newest bar and unadjusted split jumps
+            quality: assessBarQuality(formattedData, symbol, interval, corporateActions)
           }), { 
             headers: {
               ...headers,
@@ -177,13 +259,23 @@ export default {
         }
       }
 
+      // Chart image of a symbol's cached wave count, for reports and notifications
+      if (path.match(/^\/chart\/[^/]+$/) && request.method === 'GET') {
+        return await handleChartImage(decodeURIComponent(path.split('/')[2]), url, env, ctx);
+      }
+
+      // Quotes for several symbols at once (screener) - must come before the single quote route
+      if (path === '/stocks/quotes' && request.method === 'GET') {
+        return await handleBatchQuotes(url, env);
+      }
+
       // Single stock quote endpoint - never use cache for quotes
       if (path.match(/^\/stocks\/[^/]+\/quote/) || path.match(/^\/stocks\/[^/]+$/)) {
-        const symbol = path.split('/')[2];
+        const symbol = decodeURIComponent(path.split('/')[2]);
         console.log(`Processing quote request for symbol: ${symbol}`);
         
         try {
-          const quote = await yahooFinance.quote(symbol);
+          const quote = await getMarketDataProvider(env).getQuote(symbol);
           
           if (!quote) {
             throw new Error(`No quote data available for ${symbol}`);
@@ -192,13 +284,13 @@ export default {
           const formattedQuote = {
             symbol: quote.symbol,
             shortName: quote.shortName,
-            price: quote.regularMarketPrice,
-            change: quote.regularMarketChange,
-            changePercent: quote.regularMarketChangePercent,
-            volume: quote.regularMarketVolume,
+            price: quote.price,
+            change: quote.change,
+            changePercent: quote.changePercent,
+            volume: quote.volume,
             avgVolume: quote.averageVolume,
             marketCap: quote.marketCap,
-            name: quote.shortName || quote.longName || quote.symbol
+            name: quote.name
           };
           
           return new Response(JSON.stringify({
@@ -228,6 +320,36 @@ export default {
         return await handleAnalyzeWaves(request, env, ctx);
       }
 
+      // Server-side wave counts - also run by the cron trigger
+      if (path === '/analysis/run' && request.method === 'POST') {
+        return await handleRunWaveAnalysis(request, env, ctx);
+      }
+
+      // Alert rules - evaluated after each scheduled analysis run
+      if (path === '/alerts/evaluate' && request.method === 'POST') {
+        return await handleEvaluateAlerts(request, env, ctx);
+      }
+
+      // Wave predictions - scored after each scheduled analysis run
+      if (path === '/predictions/score' && request.method === 'POST') {
+        return await handleScorePredictions(request, env, ctx);
+      }
+
+      // Paper portfolios - marked to market after each scheduled analysis run
+      if (path === '/paper/mark' && request.method === 'POST') {
+        return await handleMarkPaperPositions(request, env, ctx);
+      }
+
+      // Telegram bot - updates pushed by Telegram (see setWebhook)
+      if (path === '/telegram/webhook' && request.method === 'POST') {
+        return await handleTelegramWebhook(request, env, ctx);
+      }
+
+      // Register the bot's command list with Telegram
+      if (path === '/telegram/commands' && request.method === 'POST') {
+        return await handleSetTelegramCommands(request, env, ctx);
+      }
+
       // Update the market sentiment endpoint - never use cache
       if (path === '/market/sentiment') {
         try {
@@ -239,19 +361,10 @@ export default {
           // If we have wave analysis data, use it to generate sentiment
           if (Object.keys(waveAnalysis).length > 0) {
             // Get current quotes for price movement analysis
-            const result = await yahooFinance.screener({
-              scrIds: 'most_actives',
-              count: 30,
-              region: 'US',
-              lang: 'en-US'
-            });
-            
-            if (!result?.quotes || !Array.isArray(result.quotes)) {
-              throw new Error("No valid stock data received from screener");
-            }
+            const quotes = await getMarketDataProvider(env).getMostActive(30);
             
             // Generate AI market sentiment using wave analysis
-            const marketData = await generateMarketAISentiment(waveAnalysis, result.quotes, env);
+            const marketData = await generateMarketAISentiment(waveAnalysis, quotes, env);
             
             // We no longer cache the result
             return new Response(JSON.stringify(marketData), { headers });
@@ -280,12 +393,11 @@ export default {
           const targetSymbols = symbols.length > 0 ? symbols : ['^GSPC', '^DJI', '^IXIC', '^RUT'];
           console.log(`Fetching market news for: ${targetSymbols.join(', ')}`);
 
-          // Get fresh news data using Yahoo Finance search
+          // Get fresh news data using the market data provider's search
           // Get news for all the major indices plus any additional symbols
+          const marketData = getMarketDataProvider(env);
           const newsPromises = targetSymbols.map(symbol => 
-            yahooFinance.search(symbol, {
-              lang: 'en-US',
-              region: 'US',
+            marketData.search(symbol, {
               newsCount: 5 // Reduced per-symbol count to avoid overwhelming results
             }).catch(err => {
               console.warn(`Error fetching news for ${symbol}:`, err.message);
@@ -353,9 +465,17 @@ export default {
           '/health',
           '/version',
           '/stocks/top',
+          '/stocks/quotes',
           '/stocks/{symbol}/history',
+          '/chart/{symbol}',
           '/clear-cache',
-          '/analyze-waves'
+          '/analyze-waves',
+          '/analysis/run',
+          '/alerts/evaluate',
+          '/predictions/score',
+          '/paper/mark',
+          '/telegram/webhook',
+          '/telegram/commands'
         ],
         requestedPath: path
       }), { 
@@ -377,9 +497,94 @@ export default {
         }
       });
     }
+  },
+
+  // Cron trigger (see [triggers] in wrangler.toml), so counts stay fresh without the Admin page open
+  async scheduled(event, env, ctx) {
+    ctx.waitUntil(runScheduledJobs(env));
   }
 };
 
+/**
+ * Fetch OHLCV bars for a symbol from the bar store, resampled where the interval needs it
+ * Used by the history endpoint, the Telegram bot's charts and prediction scoring
+ * 
+ * @param {object} env - Worker environment (selects the provider and the store)
+ * @param {string} symbol - Stock symbol
+ * @param {string} interval - One of HISTORY_INTERVALS
+ * @param {number} [lookbackDays] - Defaults to the interval's default lookback
+ * @param {object} [range] - `from`/`to` timestamps (ms) instead of the lookback, and `refresh` to skip the store's refresh interval
+ * @returns {Promise<Array>} Bars sorted by timestamp
+ */
+async function fetchHistoryBars(env, symbol, interval, lookbackDays, range = {}) {
+  const intervalConfig = HISTORY_INTERVALS[interval];
+  if (!intervalConfig) {
+    throw new Error(`Unsupported timeframe: ${interval}`);
+  }
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  const from = range.from ?? Date.now() - (lookbackDays || intervalConfig.defaultLookback) * dayMs;
+
+  // Bars come from the bar store, which only asks the provider for what it doesn't have yet
+  let bars = await getHistoryBars(env, symbol, intervalConfig.source, from, {
+    to: range.to,
+    refresh: range.refresh,
+    earliestAvailable: Date.now() - intervalConfig.maxLookback * dayMs
+  });
+
+  if (intervalConfig.barsPerBucket) {
+    bars = resampleBars(bars, intervalConfig.barsPerBucket, tradesAroundTheClock(symbol));
+  }
+
+  if (bars.length === 0) {
+    throw new Error(`No historical data available for ${symbol}`);
+  }
+
+  return bars;
+}
+
+/**
+ * Merge consecutive bars into larger ones (e.g. 1h into 4h)
+ * For stocks, buckets start at each day's first bar, so 4h bars follow the trading session
+ * (09:30-13:30, 13:30-16:00 for US stocks) rather than clock time.
+ * Crypto and forex trade around the clock, so their buckets follow UTC clock time
+ * (00:00, 04:00, ...) and a missing source bar doesn't shift the rest of the day.
+ * 
+ * @param {Array} bars - Bars sorted by timestamp
+ * @param {number} barsPerBucket - How many source bars make up one output bar
+ * @param {boolean} [clockAligned] - Bucket by UTC clock time instead of the session
+ * @returns {Array} Resampled bars
+ */
+function resampleBars(bars, barsPerBucket, clockAligned = false) {
+  const resampled = [];
+  let bucket = null;
+  let bucketKey = null;
+  let barsInBucket = 0;
+  // Source bars are hourly wherever resampling is used
+  const bucketMs = barsPerBucket * 60 * 60 * 1000;
+  
+  for (const bar of bars) {
+    const key = clockAligned
+      ? Math.floor(bar.timestamp / bucketMs)
+      : new Date(bar.timestamp).toISOString().slice(0, 10);
+    
+    if (!bucket || key !== bucketKey || (!clockAligned && barsInBucket === barsPerBucket)) {
+      bucket = { ...bar, timestamp: clockAligned ? key * bucketMs : bar.timestamp };
+      bucketKey = key;
+      barsInBucket = 0;
+      resampled.push(bucket);
+    } else {
+      bucket.high = Math.max(bucket.high, bar.high);
+      bucket.low = Math.min(bucket.low, bar.low);
+      bucket.close = bar.close;
+      bucket.volume += bar.volume;
+    }
+    barsInBucket++;
+  }
+  
+  return resampled;
+}
+
 // Helper function to handle clearing cache
 async function handleClearCache(request, env, ctx) {
   const headers = { ...corsHeaders };
@@ -504,6 +709,422 @@ async function handleAnalyzeWaves(request, env, ctx) {
   }
 }
 
+// Bars for the server-side jobs, trimmed to what the interval allows
+function getJobBars(env, symbol, timeframe, lookbackDays) {
+  const intervalConfig = HISTORY_INTERVALS[timeframe];
+  if (!intervalConfig) {
+    throw new Error(`Unsupported timeframe: ${timeframe}`);
+  }
+  return fetchHistoryBars(env, symbol, timeframe, Math.min(lookbackDays || intervalConfig.defaultLookback, intervalConfig.maxLookback));
+}
+
+// Dependencies of the server-side jobs, shared by their endpoints and the cron trigger
+function waveAnalysisJobDeps(env) {
+  return {
+    getBars: (symbol, timeframe, lookbackDays) => getJobBars(env, symbol, timeframe, lookbackDays)
+  };
+}
+
+function alertRuleDeps(env, symbols) {
+  return {
+    symbols,
+    getPrice: async (symbol) => {
+      const quote = await getMarketDataProvider(env).getQuote(symbol);
+      return quote?.price ?? null;
+    }
+  };
+}
+
+function predictionScorerDeps(env) {
+  return {
+    getBars: (symbol, timeframe, lookbackDays) => getJobBars(env, symbol, timeframe, lookbackDays)
+  };
+}
+
+function paperMarkDeps(env) {
+  return {
+    getPrices: async (symbols) => {
+      const prices = {};
+      for (let i = 0; i < symbols.length; i += MAX_BATCH_QUOTES) {
+        const quotes = await getMarketDataProvider(env).getQuotes(symbols.slice(i, i + MAX_BATCH_QUOTES));
+        for (const quote of quotes) {
+          if (quote.price) prices[quote.symbol] = quote.price;
+        }
+      }
+      return prices;
+    }
+  };
+}
+
+/**
+ * Everything the cron trigger runs: the wave counts due, then the jobs that follow each analysis run
+ * Each job runs even if an earlier one failed.
+ */
+async function runScheduledJobs(env) {
+  const jobs = [
+    ['wave analysis', () => runWaveAnalysisJob(env, waveAnalysisJobDeps(env))],
+    ['alert rules', () => runAlertRules(env, alertRuleDeps(env))],
+    ['wave predictions', () => scoreOpenPredictions(env, predictionScorerDeps(env))],
+    ['paper positions', () => markOpenPaperPositions(env, paperMarkDeps(env))]
+  ];
+
+  for (const [name, run] of jobs) {
+    try {
+      const summary = await run();
+      console.log(`Scheduled ${name} run: ${JSON.stringify(summary)}`);
+    } catch (error) {
+      console.error(`Scheduled ${name} run failed:`, error);
+    }
+  }
+}
+
+// Helper function to count waves server-side and store them for the app
+async function handleRunWaveAnalysis(request, env, ctx) {
+  const headers = { ...corsHeaders };
+
+  try {
+    // Optional body: { symbols: [...], timeframes: [...] } to count those now instead of what's due
+    const body = await request.json().catch(() => ({}));
+    const symbols = Array.isArray(body.symbols) && body.symbols.length > 0 ? body.symbols : undefined;
+    const timeframes = Array.isArray(body.timeframes) && body.timeframes.length > 0 ? body.timeframes : undefined;
+
+    const unsupported = (timeframes || []).filter(timeframe => !HISTORY_INTERVALS[timeframe]);
+    if (unsupported.length > 0) {
+      return new Response(JSON.stringify({
+        status: 'error',
+        message: `Unsupported timeframes: ${unsupported.join(', ')}`
+      }), {
+        status: 400,
+        headers
+      });
+    }
+
+    const summary = await runWaveAnalysisJob(env, waveAnalysisJobDeps(env), { symbols, timeframes });
+
+    console.log(`Counted waves for ${summary.analyzed} of ${summary.due} due symbol/timeframe pairs, ${summary.remaining} left`);
+
+    return new Response(JSON.stringify({
+      status: 'success',
+      data: summary
+    }), { headers });
+  } catch (error) {
+    console.error('Error in handleRunWaveAnalysis:', error);
+    return new Response(JSON.stringify({
+      status: 'error',
+      message: `Failed to run wave analysis: ${error.message}`
+    }), {
+      status: 500,
+      headers
+    });
+  }
+}
+
+// Helper function to evaluate alert rules against the latest analyses and quotes
+async function handleEvaluateAlerts(request, env, ctx) {
+  const headers = { ...corsHeaders };
+
+  try {
+    // Optional body: { symbols: [...] } to limit the run to the symbols just analyzed
+    const body = await request.json().catch(() => ({}));
+    const symbols = Array.isArray(body.symbols) && body.symbols.length > 0 ? body.symbols : undefined;
+
+    console.log(`Evaluating alert rules${symbols ? ` for ${symbols.length} symbols` : ''}`);
+
+    const summary = await runAlertRules(env, alertRuleDeps(env, symbols));
+
+    return new Response(JSON.stringify({
+      status: 'success',
+      data: summary
+    }), { headers });
+  } catch (error) {
+    console.error('Error in handleEvaluateAlerts:', error);
+    return new Response(JSON.stringify({
+      status: 'error',
+      message: `Failed to evaluate alerts: ${error.message}`
+    }), {
+      status: 500,
+      headers
+    });
+  }
+}
+
+// Helper function to mark open paper positions to market, closing them on their stop or target
+async function handleMarkPaperPositions(request, env, ctx) {
+  const headers = { ...corsHeaders };
+
+  try {
+    const summary = await markOpenPaperPositions(env, paperMarkDeps(env));
+
+    console.log(`Marked ${summary.marked} of ${summary.open} open paper positions, ${summary.closed} closed`);
+
+    return new Response(JSON.stringify({
+      status: 'success',
+      data: summary
+    }), { headers });
+  } catch (error) {
+    console.error('Error in handleMarkPaperPositions:', error);
+    return new Response(JSON.stringify({
+      status: 'error',
+      message: `Failed to mark paper positions: ${error.message}`
+    }), {
+      status: 500,
+      headers
+    });
+  }
+}
+
+// Helper function to quote a crypto or forex universe, in the same shape as the most-active stocks
+async function handleTopAssets(assetClass, env) {
+  const headers = { ...corsHeaders };
+  const symbols = ASSET_UNIVERSES[assetClass];
+
+  if (!symbols) {
+    return new Response(JSON.stringify({
+      status: 'error',
+      message: `Unsupported asset class: ${assetClass}`,
+      supportedAssetClasses: ['stocks', ...Object.keys(ASSET_UNIVERSES)]
+    }), {
+      status: 400,
+      headers
+    });
+  }
+
+  try {
+    const quotes = await getMarketDataProvider(env).getQuotes(symbols);
+
+    const topAssets = quotes.map(quote => ({
+      symbol: quote.symbol,
+      price: quote.price,
+      change: quote.change,
+      changePercent: quote.changePercent,
+      volume: quote.volume,
+      avgVolume: quote.averageVolume,
+      marketCap: quote.marketCap,
+      name: quote.name
+    }));
+
+    return new Response(JSON.stringify(topAssets), { headers });
+  } catch (error) {
+    console.error(`Error getting top ${assetClass}: ${error.message}`);
+    return new Response(JSON.stringify({
+      error: `Failed to get top ${assetClass}`,
+      message: error.message
+    }), {
+      status: 500,
+      headers
+    });
+  }
+}
+
+// Helper function to quote several symbols in one request
+// Query: symbols=AAPL,MSFT,... (at most MAX_BATCH_QUOTES)
+async function handleBatchQuotes(url, env) {
+  const headers = { ...corsHeaders };
+  const symbols = [...new Set((url.searchParams.get('symbols') || '')
+    .split(',')
+    .map(symbol => symbol.trim().toUpperCase())
+    .filter(Boolean))];
+
+  if (symbols.length === 0 || symbols.length > MAX_BATCH_QUOTES) {
+    return new Response(JSON.stringify({
+      status: 'error',
+      message: `Pass between 1 and ${MAX_BATCH_QUOTES} comma-separated symbols`
+    }), {
+      status: 400,
+      headers
+    });
+  }
+
+  try {
+    // Unknown symbols are left out of the result rather than failing the batch
+    const data = await getMarketDataProvider(env).getQuotes(symbols);
+
+    return new Response(JSON.stringify({
+      status: 'success',
+      data
+    }), { headers });
+  } catch (error) {
+    console.error('Error in handleBatchQuotes:', error);
+    return new Response(JSON.stringify({
+      status: 'error',
+      message: `Failed to get quotes: ${error.message}`
+    }), {
+      status: 500,
+      headers
+    });
+  }
+}
+
+// Helper function to score open wave predictions against the bars since they were made
+async function handleScorePredictions(request, env, ctx) {
+  const headers = { ...corsHeaders };
+
+  try {
+    const summary = await scoreOpenPredictions(env, predictionScorerDeps(env));
+
+    console.log(`Scored ${summary.scored} of ${summary.open} open wave predictions, ${summary.closed} closed`);
+
+    return new Response(JSON.stringify({
+      status: 'success',
+      data: summary
+    }), { headers });
+  } catch (error) {
+    console.error('Error in handleScorePredictions:', error);
+    return new Response(JSON.stringify({
+      status: 'error',
+      message: `Failed to score predictions: ${error.message}`
+    }), {
+      status: 500,
+      headers
+    });
+  }
+}
+
+// Helper function to render a symbol's wave count as a PNG or SVG image
+// Query: timeframe (default 1d), format png|svg, wave / waveStart to highlight a wave, width, height
+async function handleChartImage(symbol, url, env, ctx) {
+  const headers = { ...corsHeaders };
+  const params = new URLSearchParams(url.search);
+  symbol = symbol.toUpperCase();
+
+  const timeframe = params.get('timeframe') || '1d';
+  const format = params.get('format') || 'png';
+  if (!HISTORY_INTERVALS[timeframe] || !['png', 'svg'].includes(format)) {
+    return new Response(JSON.stringify({
+      status: 'error',
+      message: `Unsupported ${HISTORY_INTERVALS[timeframe] ? 'format' : 'timeframe'}`,
+      supportedTimeframes: Object.keys(HISTORY_INTERVALS),
+      supportedFormats: ['png', 'svg']
+    }), {
+      status: 400,
+      headers
+    });
+  }
+
+  // Keep images a sensible size whatever is asked for
+  const clamp = (value, min, max, fallback) => {
+    const number = parseInt(value);
+    return number > 0 ? Math.min(Math.max(number, min), max) : fallback;
+  };
+  const width = clamp(params.get('width'), 400, 1600, 800);
+  const height = clamp(params.get('height'), 250, 1000, 450);
+
+  try {
+    const analysis = await getCachedAnalysis(getSupabaseClient(env), symbol, timeframe);
+    if (!analysis) {
+      return new Response(JSON.stringify({
+        status: 'error',
+        message: `No wave analysis for ${symbol} (${timeframe}) yet`
+      }), {
+        status: 404,
+        headers
+      });
+    }
+
+    const selectedWave = findAnalysisWave(analysis, params.get('wave'), parseInt(params.get('waveStart')) || null);
+    const bars = await fetchHistoryBars(env, symbol, timeframe);
+
+    const svg = renderWaveChartSvg({
+      symbol,
+      timeframe,
+      bars,
+      waves: analysis.waves || [],
+      invalidWaves: analysis.invalidWaves,
+      currentWave: analysis.currentWave,
+      fibTargets: analysis.fibTargets,
+      selectedWave,
+      currentPrice: bars[bars.length - 1].close,
+      discontinuities: analysis.discontinuities
+    }, { width, height });
+
+    const imageHeaders = {
+      'Access-Control-Allow-Origin': '*',
+      'Content-Disposition': `inline; filename="${symbol}-${timeframe}.${format}"`,
+      'Cache-Control': 'public, max-age=300'
+    };
+
+    if (format === 'svg') {
+      return new Response(svg, { headers: { ...imageHeaders, 'Content-Type': 'image/svg+xml' } });
+    }
+    return new Response(await renderSvgToPng(svg, env), { headers: { ...imageHeaders, 'Content-Type': 'image/png' } });
+  } catch (error) {
+    console.error(`Error rendering chart for ${symbol}:`, error);
+    return new Response(JSON.stringify({
+      status: 'error',
+      message: `Failed to render chart for ${symbol}: ${error.message}`
+    }), {
+      status: 500,
+      headers
+    });
+  }
+}
+
+// Helper function to answer Telegram bot commands
+async function handleTelegramWebhook(request, env, ctx) {
+  const headers = { ...corsHeaders };
+
+  // Telegram echoes the secret given to setWebhook, so others can't post fake updates.
+  // Updates name the user they come from, so without a secret configured none are accepted.
+  if (!env.TELEGRAM_WEBHOOK_SECRET) {
+    console.error('Rejected Telegram update: TELEGRAM_WEBHOOK_SECRET not configured');
+    return new Response(JSON.stringify({ status: 'error', message: 'Webhook secret not configured' }), {
+      status: 503,
+      headers
+    });
+  }
+  if (request.headers.get('X-Telegram-Bot-Api-Secret-Token') !== env.TELEGRAM_WEBHOOK_SECRET) {
+    return new Response(JSON.stringify({ status: 'error', message: 'Unauthorized' }), {
+      status: 401,
+      headers
+    });
+  }
+
+  let update;
+  try {
+    update = await request.json();
+  } catch (error) {
+    return new Response(JSON.stringify({ status: 'error', message: 'Invalid update' }), {
+      status: 400,
+      headers
+    });
+  }
+
+  // Reply after acknowledging - Telegram retries updates that take too long to answer
+  ctx.waitUntil(
+    handleTelegramUpdate(update, env, {
+      getBars: (symbol, timeframe) => fetchHistoryBars(env, symbol, timeframe),
+      getPrice: async (symbol) => {
+        const quote = await getMarketDataProvider(env).getQuote(symbol);
+        return quote?.price ?? null;
+      }
+    }).catch(error => console.error('Error in handleTelegramWebhook:', error))
+  );
+
+  return new Response(JSON.stringify({ status: 'success' }), { headers });
+}
+
+// Helper function to publish the bot's command list (shown in Telegram's command menu)
+async function handleSetTelegramCommands(request, env, ctx) {
+  const headers = { ...corsHeaders };
+
+  try {
+    await setTelegramCommands(env, TELEGRAM_BOT_COMMANDS);
+    return new Response(JSON.stringify({
+      status: 'success',
+      data: TELEGRAM_BOT_COMMANDS
+    }), { headers });
+  } catch (error) {
+    console.error('Error in handleSetTelegramCommands:', error);
+    return new Response(JSON.stringify({
+      status: 'error',
+      message: `Failed to set Telegram commands: ${error.message}`
+    }), {
+      status: 500,
+      headers
+    });
+  }
+}
+
 // Updated function to get wave analysis from Supabase cache with option to bypass
 async function getWaveAnalysisFromCache(env, bypassCache = DISABLE_ALL_CACHING) {
   try {
@@ -585,8 +1206,8 @@ async function generateMarketAISentiment(waveAnalysis, stockQuotes, env) {
     
     // Get current market stats from quotes
     const marketStats = stockQuotes.reduce((stats, quote) => {
-      if (quote.regularMarketChangePercent > 0) stats.bullishCount++;
-      else if (quote.regularMarketChangePercent < 0) stats.bearishCount++;
+      if (quote.changePercent > 0) stats.bullishCount++;
+      else if (quote.changePercent < 0) stats.bearishCount++;
       else stats.neutralCount++;
       return stats;
     }, { bullishCount: 0, bearishCount: 0, neutralCount: 0 });
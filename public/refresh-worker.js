@@ -209,14 +209,11 @@ async function loadHistoricalDataForSymbol(symbol) {
 
 /**
  * Analyze waves for a specific symbol
+ * The API worker loads the bars, counts the waves and stores the result
  */
 async function analyzeWavesForSymbol(symbol) {
   try {
-    // First get historical data
-    const historicalData = await loadHistoricalDataForSymbol(symbol);
-    
-    // Then analyze waves
-    const apiUrl = `${apiEndpoint}/analyze-waves`.replace(/\/+/g, '/').replace('http:/', 'http://').replace('https:/', 'https://');
+    const apiUrl = `${apiEndpoint}/analysis/run`.replace(/\/+/g, '/').replace('http:/', 'http://').replace('https:/', 'https://');
     const response = await fetch(apiUrl, {
       method: 'POST',
       headers: {
@@ -224,10 +221,8 @@ async function analyzeWavesForSymbol(symbol) {
         'Authorization': `Bearer ${refreshToken}`
       },
       body: JSON.stringify({
-        symbol,
-        timeframe: '1d',
-        historicalData,
-        force: true
+        symbols: [symbol],
+        timeframes: ['1d']
       })
     });
     
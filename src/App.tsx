@@ -63,8 +63,13 @@ import AuthCallback from './components/auth/AuthCallback';
 import LoginPage from './pages/LoginPage';
 import SignupPage from './pages/SignupPage';
 import ProfilePage from './pages/ProfilePage';
+import AlertsPage from './pages/AlertsPage';
+import ScreenerPage from './pages/ScreenerPage';
+import JournalPage from './pages/JournalPage';
+import PortfolioPage from './pages/PortfolioPage';
 import SemiProtectedRoute from './components/auth/SemiProtectedRoute';
 import { PreviewProvider } from '@/context/PreviewContext';
+import { WatchlistProvider } from '@/context/WatchlistContext';
 import { TelegramProvider } from './context/TelegramContext';
 import TelegramEntryPoint from './pages/TelegramEntryPoint';
 
@@ -251,46 +256,68 @@ const App = () => {
                     <AdminSettingsProvider>
                       <AnalysisStatusTracker />
                       <AuthProvider>
-                        <PreviewProvider>
-                          <TelegramProvider>
-                            <Router>
-                              <Routes>
-                                {/* Public routes - accessible without authentication */}
-                                <Route path="/" element={<Index />} />
-                                <Route path="/telegram" element={<TelegramEntryPoint />} />
-                                <Route path="/stocks/:symbol" element={
-                                  <SemiProtectedRoute>
-                                    <StockDetails />
-                                  </SemiProtectedRoute>
-                                } />
+                        <WatchlistProvider>
+                          <PreviewProvider>
+                            <TelegramProvider>
+                              <Router>
+                                <Routes>
+                                  {/* Public routes - accessible without authentication */}
+                                  <Route path="/" element={<Index />} />
+                                  <Route path="/telegram" element={<TelegramEntryPoint />} />
+                                  <Route path="/stocks/:symbol" element={
+                                    <SemiProtectedRoute>
+                                      <StockDetails />
+                                    </SemiProtectedRoute>
+                                  } />
                                 
-                                {/* Auth callback route */}
-                                <Route path="/auth/callback" element={<AuthCallback />} />
+                                  {/* Auth callback route */}
+                                  <Route path="/auth/callback" element={<AuthCallback />} />
                                 
-                                {/* Login/Signup routes */}
-                                <Route path="/login" element={<LoginPage />} />
-                                <Route path="/signup" element={<SignupPage />} />
+                                  {/* Login/Signup routes */}
+                                  <Route path="/login" element={<LoginPage />} />
+                                  <Route path="/signup" element={<SignupPage />} />
                                 
-                                {/* Protected routes - require login */}
-                                <Route path="/profile" element={
-                                  <ProtectedRoute>
-                                    <ProfilePage />
-                                  </ProtectedRoute>
-                                } />
+                                  {/* Protected routes - require login */}
+                                  <Route path="/profile" element={
+                                    <ProtectedRoute>
+                                      <ProfilePage />
+                                    </ProtectedRoute>
+                                  } />
+                                  <Route path="/alerts" element={
+                                    <ProtectedRoute>
+                                      <AlertsPage />
+                                    </ProtectedRoute>
+                                  } />
+                                  <Route path="/screener" element={
+                                    <ProtectedRoute>
+                                      <ScreenerPage />
+                                    </ProtectedRoute>
+                                  } />
+                                  <Route path="/journal" element={
+                                    <ProtectedRoute>
+                                      <JournalPage />
+                                    </ProtectedRoute>
+                                  } />
+                                  <Route path="/portfolio" element={
+                                    <ProtectedRoute>
+                                      <PortfolioPage />
+                                    </ProtectedRoute>
+                                  } />
                                 
-                                {/* Admin routes - require admin role */}
-                                <Route path="/admin" element={
-                                  <ProtectedRoute requireAdmin>
-                                    <AdminDashboard />
-                                  </ProtectedRoute>
-                                } />
+                                  {/* Admin routes - require admin role */}
+                                  <Route path="/admin" element={
+                                    <ProtectedRoute requireAdmin>
+                                      <AdminDashboard />
+                                    </ProtectedRoute>
+                                  } />
                                 
-                                {/* Fallback route */}
-                                <Route path="*" element={<Navigate to="/" replace />} />
-                              </Routes>
-                            </Router>
-                          </TelegramProvider>
-                        </PreviewProvider>
+                                  {/* Fallback route */}
+                                  <Route path="*" element={<Navigate to="/" replace />} />
+                                </Routes>
+                              </Router>
+                            </TelegramProvider>
+                          </PreviewProvider>
+                        </WatchlistProvider>
                       </AuthProvider>
                       <DataInitializer 
                         onDataLoaded={() => {
@@ -0,0 +1,43 @@
+import React from 'react';
+import { ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { ASSET_CLASS_NAMES, type AssetClass } from "@/types/shared";
+
+interface AssetClassSwitchProps {
+  assetType: AssetClass;
+  onAssetTypeChange: (type: AssetClass) => void;
+  size?: 'default' | 'sm';
+}
+
+const MENU_LABELS: Record<AssetClass, string> = {
+  stocks: 'Stocks',
+  crypto: 'Cryptocurrency',
+  forex: 'Forex'
+};
+
+// Switches the dashboard between stocks, crypto and forex
+const AssetClassSwitch: React.FC<AssetClassSwitchProps> = ({ assetType, onAssetTypeChange, size = 'default' }) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="outline" size={size} className={`flex items-center gap-2 ${size === 'sm' ? 'h-8 text-xs' : ''}`}>
+        {ASSET_CLASS_NAMES[assetType]}
+        <ChevronDown className="h-4 w-4" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="start">
+      {(Object.keys(MENU_LABELS) as AssetClass[]).map(type => (
+        <DropdownMenuItem key={type} onClick={() => onAssetTypeChange(type)}>
+          {MENU_LABELS[type]}
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default AssetClassSwitch;
@@ -12,6 +12,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { supabase } from '@/lib/supabase';
 import { toast } from '@/lib/toast';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ASSET_CLASS_NAMES, type AssetClass } from '@/types/shared';
 
 // Create a custom event to notify other components when refresh is complete
 export const REFRESH_COMPLETED_EVENT = 'background-refresh-completed';
@@ -49,6 +50,7 @@ function BackgroundRefreshControl() {
   const [processedStocks, setProcessedStocks] = useState<number>(0);
   const [debugLogEnabled, setDebugLogEnabled] = useState<boolean>(false);
   const [ignoreCache, setIgnoreCache] = useState<boolean>(false);
+  const [assetClass, setAssetClass] = useState<AssetClass | 'all'>('all');
   
   // Schedule state
   const [scheduledRefreshEnabled, setScheduledRefreshEnabled] = useState<boolean>(false);
@@ -385,7 +387,8 @@ function BackgroundRefreshControl() {
       
       const success = await refreshElliottWaveAnalysis({ 
         isScheduled: true,
-        ignoreCache
+        ignoreCache,
+        assetClass: assetClass === 'all' ? undefined : assetClass
       });
       
       console.log(`DEBUG: refreshElliottWaveAnalysis returned: ${success}`);
@@ -464,7 +467,8 @@ function BackgroundRefreshControl() {
       
       // Call our refreshElliottWaveAnalysis function directly
       const result = await refreshElliottWaveAnalysis({
-        ignoreCache
+        ignoreCache,
+        assetClass: assetClass === 'all' ? undefined : assetClass
       });
       
       console.log('🔄 refreshElliottWaveAnalysis completed with result:', result);
@@ -718,6 +722,22 @@ function BackgroundRefreshControl() {
                     </RadioGroup>
                   </div>
                   
+                  {/* Markets to analyze */}
+                  <div className="space-y-2">
+                    <Label className="text-sm">Asset Class</Label>
+                    <Select value={assetClass} onValueChange={(value) => setAssetClass(value as AssetClass | 'all')}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All cached symbols</SelectItem>
+                        {(Object.keys(ASSET_CLASS_NAMES) as AssetClass[]).map(type => (
+                          <SelectItem key={type} value={type}>{ASSET_CLASS_NAMES[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  
                   {/* Run Now button */}
                   <Button 
                     variant="secondary" 
@@ -1,15 +1,34 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { SlidersHorizontal } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import MarketOverview from './MarketOverview';
 import UserMenu from './UserMenu';
+import WatchlistSelector from './WatchlistSelector';
+import AssetClassSwitch from './AssetClassSwitch';
 import TelegramLayout from './layout/TelegramLayout';
 import { useTelegram } from '@/context/TelegramContext';
+import { ASSET_CLASS_NAMES, type AssetClass } from '@/types/shared';
+
+// The chosen market is remembered between visits
+const ASSET_CLASS_KEY = 'dashboard_asset_class';
+
+const loadAssetClass = (): AssetClass => {
+  const stored = localStorage.getItem(ASSET_CLASS_KEY);
+  return stored && stored in ASSET_CLASS_NAMES ? (stored as AssetClass) : 'stocks';
+};
 
 /**
  * Dashboard component - primary overview display showing market data
  */
 const Dashboard: React.FC = () => {
   const { isTelegram } = useTelegram();
+  const [assetClass, setAssetClass] = useState<AssetClass>(loadAssetClass);
+
+  useEffect(() => {
+    localStorage.setItem(ASSET_CLASS_KEY, assetClass);
+  }, [assetClass]);
 
   const dashboardContent = (
     <div className="space-y-6">
@@ -19,10 +38,19 @@ const Dashboard: React.FC = () => {
             <div className="flex items-center gap-2">
               <CardTitle>Market Overview</CardTitle>
               {!isTelegram && <UserMenu />}
+              <div className="ml-auto flex items-center gap-2">
+                <AssetClassSwitch assetType={assetClass} onAssetTypeChange={setAssetClass} size="sm" />
+                {!isTelegram && (
+                  <Button variant="outline" size="sm" className="h-8 text-xs" asChild>
+                    <Link to="/screener"><SlidersHorizontal className="h-3.5 w-3.5 mr-1" />Screener</Link>
+                  </Button>
+                )}
+                <WatchlistSelector />
+              </div>
             </div>
           </CardHeader>
           <CardContent>
-            <MarketOverview />
+            <MarketOverview assetClass={assetClass} />
           </CardContent>
         </Card>
       </div>
@@ -1,23 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { Search, RefreshCw, Database, ChevronDown } from "lucide-react";
+import { Search, RefreshCw, Database } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { 
-  DropdownMenu, 
-  DropdownMenuContent, 
-  DropdownMenuItem, 
-  DropdownMenuTrigger
-} from "@/components/ui/dropdown-menu";
 import { invalidateCache } from "@/services/yahooFinanceService";
 import { clearAllAnalyses } from "@/services/databaseService";
 import { toast } from "@/lib/toast";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import AssetClassSwitch from "@/components/AssetClassSwitch";
+import type { AssetClass } from "@/types/shared";
 
 interface DashboardHeaderProps {
   onSearch: (query: string) => void;
   onRefresh: () => void;
-  onAssetTypeChange: (type: 'stocks' | 'crypto' | 'forex') => void;
-  assetType: 'stocks' | 'crypto' | 'forex';
+  onAssetTypeChange: (type: AssetClass) => void;
+  assetType: AssetClass;
 }
 
 const DashboardHeader: React.FC<DashboardHeaderProps> = ({
@@ -57,36 +53,12 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
     }
   };
   
-  const assetTypeLabels = {
-    stocks: 'Stocks',
-    crypto: 'Crypto',
-    forex: 'Forex'
-  };
-  
   return (
     <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mb-6 w-full">
       <div className="flex items-center">
         <h1 className="text-2xl font-bold mr-4">Wave Analysis Dashboard</h1>
         
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="outline" className="flex items-center gap-2">
-              {assetTypeLabels[assetType]}
-              <ChevronDown className="h-4 w-4" />
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="start">
-            <DropdownMenuItem onClick={() => onAssetTypeChange('stocks')}>
-              Stocks
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => onAssetTypeChange('crypto')}>
-              Cryptocurrency
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => onAssetTypeChange('forex')}>
-              Forex
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
+        <AssetClassSwitch assetType={assetType} onAssetTypeChange={onAssetTypeChange} />
       </div>
       
       <div className="flex items-center gap-2 w-full sm:w-auto">
@@ -0,0 +1,59 @@
+import React, { useMemo } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { HistoryInterval, PriceDiscontinuity, StockHistoricalData } from '@/types/shared';
+import { assessBarQuality } from '@/utils/barQuality';
+
+interface DataQualityNoticeProps {
+  symbol: string;
+  timeframe: HistoryInterval;
+  historicalData: StockHistoricalData[];
+  discontinuities?: PriceDiscontinuity[];  // Split jumps the wave engine rescaled around
+}
+
+const formatBarTime = (timestamp: number, timeframe: HistoryInterval) =>
+  ['1d', '1wk', '1mo'].includes(timeframe)
+    ? new Date(timestamp).toLocaleDateString()
+    : new Date(timestamp).toLocaleString();
+
+// Warns when the bars behind a count have missing sessions, stop short of now or jump at an unadjusted split
+const DataQualityNotice: React.FC<DataQualityNoticeProps> = ({ symbol, timeframe, historicalData, discontinuities }) => {
+  const quality = useMemo(
+    () => assessBarQuality(historicalData, symbol, timeframe),
+    [historicalData, symbol, timeframe]
+  );
+
+  const splits = discontinuities?.length ? discontinuities : quality.discontinuities;
+  const largestGap = quality.gaps.reduce((largest, gap) => !largest || gap.missingBars > largest.missingBars ? gap : largest, null);
+
+  const messages: string[] = [];
+  if (quality.stale && quality.lastBarAt) {
+    messages.push(`The latest bar is from ${formatBarTime(quality.lastBarAt, timeframe)}; newer bars are missing.`);
+  }
+  if (largestGap) {
+    messages.push(
+      `${quality.gaps.length} gap${quality.gaps.length === 1 ? '' : 's'} in the data, the largest about ${largestGap.missingBars} bar${largestGap.missingBars === 1 ? '' : 's'} ` +
+      `between ${formatBarTime(largestGap.from, timeframe)} and ${formatBarTime(largestGap.to, timeframe)}.`
+    );
+  }
+  if (splits.length > 0) {
+    messages.push(
+      `Unadjusted split${splits.length === 1 ? '' : 's'} on ${splits.map(split => formatBarTime(split.timestamp, timeframe)).join(', ')}; ` +
+      `the wave count rescales the bars before ${splits.length === 1 ? 'it' : 'each one'} rather than counting the jump as a wave.`
+    );
+  }
+
+  if (messages.length === 0) return null;
+
+  return (
+    <Alert variant="warning" className="mb-4">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>Check the price data</AlertTitle>
+      <AlertDescription>
+        {messages.map(message => <p key={message}>{message}</p>)}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default DataQualityNotice;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useWaveAnalysis } from '@/context/WaveAnalysisContext';
+import { useWatchlists } from '@/context/WatchlistContext';
 import { ArrowUpRight, ArrowDownRight, ChevronDown, ChevronUp, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -9,20 +10,30 @@ import ReversalsList from './ReversalsList';
 import ReversalsLastUpdated from './ReversalsLastUpdated';
 import MarketSentimentAI from './MarketSentimentAI';
 import { Badge } from '@/components/ui/badge';
+import { getAssetClass } from '@/utils/assetClasses';
+import type { AssetClass } from '@/types/shared';
 
 // Helper function to determine if a wave is bullish
-const isBullishWave = (waveNumber: string | number | undefined): boolean => {
+// In a bearish count the impulse falls, so the answer flips
+const isBullishWave = (
+  waveNumber: string | number | undefined,
+  direction: 'bullish' | 'bearish' = 'bullish'
+): boolean => {
   if (!waveNumber) return false;
   
+  let movesWithImpulse: boolean;
+  
   // Handle numeric waves (both string and number types)
   if (typeof waveNumber === 'number' || !isNaN(Number(waveNumber))) {
     const num = Number(waveNumber);
-    return [1, 3, 5].includes(num);
+    movesWithImpulse = [1, 3, 5].includes(num);
+  } else {
+    // For lettered waves (corrective pattern)
+    // Only Wave B moves with the impulse (against the main corrective trend)
+    movesWithImpulse = waveNumber === 'B';
   }
   
-  // For lettered waves (corrective pattern)
-  // Only Wave B is bullish (moves against the main corrective trend)
-  return waveNumber === 'B';
+  return direction === 'bearish' ? !movesWithImpulse : movesWithImpulse;
 };
 
 // Update the timestamp handling helper
@@ -81,9 +92,32 @@ const getTimeAgo = (timestamp: number): string => {
   }
 };
 
-const MarketOverview: React.FC = () => {
+// Confidence badge colours, matching the bands behind WaveAnalysis.confidenceLevel
+const confidenceClass = (confidence: number): string =>
+  confidence >= 70 ? 'text-green-500' : confidence >= 40 ? 'text-amber-500' : 'text-muted-foreground';
+
+interface CategorizedStock {
+  symbol: string;
+  wave: string | number;
+  startTimestamp: number;
+  confidence?: number; // 0-100; missing for analyses cached before counts were scored
+}
+
+// What the symbols of each asset class are called in the sentiment summary
+const SYMBOL_NOUNS: Record<AssetClass, string> = {
+  stocks: 'stocks',
+  crypto: 'coins',
+  forex: 'pairs'
+};
+
+interface MarketOverviewProps {
+  assetClass?: AssetClass;
+}
+
+const MarketOverview: React.FC<MarketOverviewProps> = ({ assetClass = 'stocks' }) => {
   const navigate = useNavigate();
   const { allAnalyses, isDataLoaded } = useWaveAnalysis();
+  const { activeSymbols } = useWatchlists();
   const [showMoreBullish, setShowMoreBullish] = useState(false);
   const [showMoreBearish, setShowMoreBearish] = useState(false);
   const [bullishWaveFilter, setBullishWaveFilter] = useState<string | number | null>(null);
@@ -91,8 +125,8 @@ const MarketOverview: React.FC = () => {
 
   // Wave categorization logic
   const { bullishStocks, bearishStocks } = useMemo(() => {
-    const bullish: { symbol: string; wave: string | number; startTimestamp: number }[] = [];
-    const bearish: { symbol: string; wave: string | number; startTimestamp: number }[] = [];
+    const bullish: CategorizedStock[] = [];
+    const bearish: CategorizedStock[] = [];
 
     if (!allAnalyses) {
       console.warn('allAnalyses is null or undefined');
@@ -107,9 +141,20 @@ const MarketOverview: React.FC = () => {
         }
 
         const { analysis } = entry;
-        const [symbol] = key.split(':');
+        const [symbol, timeframe = '1d'] = key.split(':');
         
-        if (!symbol) {
+        // Market-wide figures come from the daily counts; other timeframes would count a symbol twice
+        if (!symbol || timeframe !== '1d') {
+          return;
+        }
+
+        // Each asset class is its own market
+        if (getAssetClass(symbol) !== assetClass) {
+          return;
+        }
+
+        // Scoped to the chosen watchlist, if any
+        if (activeSymbols && !activeSymbols.includes(symbol)) {
           return;
         }
 
@@ -135,24 +180,29 @@ const MarketOverview: React.FC = () => {
           return;
         }
 
+        const confidence = analysis.confidence ?? analysis.waveCounts?.[0]?.confidence;
+
         // Categorize based on wave number
-        const isBullish = isBullishWave(waveNumber);
+        const isBullish = isBullishWave(waveNumber, analysis.direction);
         if (isBullish) {
-          bullish.push({ symbol, wave: waveNumber, startTimestamp });
+          bullish.push({ symbol, wave: waveNumber, startTimestamp, confidence });
         } else {
-          bearish.push({ symbol, wave: waveNumber, startTimestamp });
+          bearish.push({ symbol, wave: waveNumber, startTimestamp, confidence });
         }
       } catch (error) {
         console.error(`Error processing ${key}:`, error);
       }
     });
 
-    // Sort by most recent first
+    // Most confident counts first, then the most recent; unscored analyses go last
+    const byConfidence = (a: CategorizedStock, b: CategorizedStock) =>
+      (b.confidence ?? -1) - (a.confidence ?? -1) || b.startTimestamp - a.startTimestamp;
+
     return {
-      bullishStocks: bullish.sort((a, b) => b.startTimestamp - a.startTimestamp),
-      bearishStocks: bearish.sort((a, b) => b.startTimestamp - a.startTimestamp)
+      bullishStocks: bullish.sort(byConfidence),
+      bearishStocks: bearish.sort(byConfidence)
     };
-  }, [allAnalyses]);
+  }, [allAnalyses, activeSymbols, assetClass]);
 
   // Debug log once - only when component mounts or allAnalyses changes
   useEffect(() => {
@@ -280,7 +330,7 @@ const MarketOverview: React.FC = () => {
           </div>
           
           <div className="text-xs text-muted-foreground">
-            {marketSentiment.count} stocks analyzed
+            {marketSentiment.count} {SYMBOL_NOUNS[assetClass]} analyzed
           </div>
         </div>
         
@@ -372,11 +422,18 @@ const MarketOverview: React.FC = () => {
                     >
                       {stock.symbol} <span className="text-xs ml-1">(Wave {stock.wave})</span>
                     </Button>
-                    {stock.startTimestamp && (
-                      <span className="text-xs text-muted-foreground">
-                        {getTimeAgo(stock.startTimestamp)}
-                      </span>
-                    )}
+                    <div className="flex items-center gap-2 text-xs">
+                      {stock.confidence !== undefined && (
+                        <span className={`font-mono ${confidenceClass(stock.confidence)}`} title="Count confidence (rules and guidelines)">
+                          {stock.confidence}
+                        </span>
+                      )}
+                      {stock.startTimestamp && (
+                        <span className="text-muted-foreground">
+                          {getTimeAgo(stock.startTimestamp)}
+                        </span>
+                      )}
+                    </div>
                   </div>
                 ))}
                 
@@ -445,11 +502,18 @@ const MarketOverview: React.FC = () => {
                     >
                       {stock.symbol} <span className="text-xs ml-1">(Wave {stock.wave})</span>
                     </Button>
-                    {stock.startTimestamp && (
-                      <span className="text-xs text-muted-foreground">
-                        {getTimeAgo(stock.startTimestamp)}
-                      </span>
-                    )}
+                    <div className="flex items-center gap-2 text-xs">
+                      {stock.confidence !== undefined && (
+                        <span className={`font-mono ${confidenceClass(stock.confidence)}`} title="Count confidence (rules and guidelines)">
+                          {stock.confidence}
+                        </span>
+                      )}
+                      {stock.startTimestamp && (
+                        <span className="text-muted-foreground">
+                          {getTimeAgo(stock.startTimestamp)}
+                        </span>
+                      )}
+                    </div>
                   </div>
                 ))}
                 
@@ -494,7 +558,7 @@ const MarketOverview: React.FC = () => {
           </div>
           
           <div className="space-y-1">
-            <ReversalsList hideHeader={true} />
+            <ReversalsList hideHeader={true} assetClass={assetClass} />
           </div>
         </div>
       </div>
@@ -47,8 +47,9 @@ const MarketSentimentAI: React.FC<MarketSentimentAIProps> = ({
     const waveDistribution: Record<string, number> = {};
     let totalStocks = 0;
 
-    Object.values(allAnalyses).forEach(entry => {
-      if (entry?.analysis?.currentWave?.number) {
+    // Daily counts only, so symbols analyzed on several timeframes are counted once
+    Object.entries(allAnalyses).forEach(([key, entry]) => {
+      if (key.endsWith(':1d') && entry?.analysis?.currentWave?.number) {
         const waveNumber = String(entry.analysis.currentWave.number);
         waveDistribution[waveNumber] = (waveDistribution[waveNumber] || 0) + 1;
         totalStocks++;
@@ -68,7 +69,7 @@ const MarketSentimentAI: React.FC<MarketSentimentAIProps> = ({
     if (!allAnalyses) return [];
 
     const stocksData = Object.entries(allAnalyses)
-      .filter(([_, entry]) => entry?.analysis?.currentWave?.number)
+      .filter(([key, entry]) => key.endsWith(':1d') && entry?.analysis?.currentWave?.number)
       .map(([key, entry]) => {
         const [symbol] = key.split(':');
         const wave = entry.analysis.currentWave?.number;
@@ -4,26 +4,17 @@ import { useWaveAnalysis } from '@/context/WaveAnalysisContext';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { ArrowUpRight, ArrowDownRight } from 'lucide-react';
-import { Wave } from '@/types/shared';
+import { findReversalCandidates, ReversalCandidate } from '@/utils/reversals';
+import { getAssetClass } from '@/utils/assetClasses';
+import { formatPrice } from '@/utils/chartUtils';
+import type { AssetClass } from '@/types/shared';
 
 interface ReversalsListProps {
   hideHeader?: boolean;
+  assetClass?: AssetClass;   // Only list symbols of this class
 }
 
-// Define only the types we need within the component
-interface ReversalCandidate {
-  symbol: string;
-  waveNumber: number | string;
-  trend: string;
-  isBearish: boolean;
-  currentPrice: number;
-  targetPrice: number;
-  targetLevel: string;
-  exceededBy: string;
-  nextWave: string;
-}
-
-const ReversalsList: React.FC<ReversalsListProps> = ({ hideHeader = false }) => {
+const ReversalsList: React.FC<ReversalsListProps> = ({ hideHeader = false, assetClass }) => {
   const navigate = useNavigate();
   const { analyses } = useWaveAnalysis();
 
@@ -32,63 +23,17 @@ const ReversalsList: React.FC<ReversalsListProps> = ({ hideHeader = false }) =>
     const candidates: ReversalCandidate[] = [];
 
     Object.entries(analyses).forEach(([key, analysis]) => {
-      if (!analysis?.currentWave || !analysis.fibTargets) return;
-
       try {
         const [symbol] = key.split(':');
-        const { currentWave, fibTargets } = analysis;
-
-        // Check for potential reversals at Fibonacci levels
-        fibTargets.forEach(target => {
-          const price = analysis.currentWave?.endPrice || 0;
-          const targetPrice = target.price;
-          const tolerance = Math.abs(targetPrice * 0.005); // 0.5% tolerance
-
-          if (Math.abs(price - targetPrice) <= tolerance) {
-            // Calculate how much the price has exceeded the target
-            const exceededBy = ((price - targetPrice) / targetPrice * 100).toFixed(2);
-            const isBearish = currentWave.number === 5 || ['B'].includes(String(currentWave.number));
-
-            candidates.push({
-              symbol,
-              waveNumber: currentWave.number,
-              trend: isBearish ? 'bearish' : 'bullish',
-              isBearish,
-              currentPrice: price,
-              targetPrice,
-              targetLevel: target.label,
-              exceededBy: `${exceededBy}%`,
-              nextWave: isBearish ? 'A' : String(Number(currentWave.number) + 1)
-            });
-          }
-        });
-
-        // Check for wave invalidations that could signal reversals
-        const currentWavePrice = currentWave.endPrice;
-        if (currentWavePrice && currentWave.isInvalidated) {
-          // Only show recent invalidations
-          if (Date.now() - (currentWave.invalidationTimestamp || 0) < 24 * 60 * 60 * 1000) {
-            const isBearish = [1, 3, 5].includes(Number(currentWave.number));
-            candidates.push({
-              symbol,
-              waveNumber: currentWave.number,
-              trend: isBearish ? 'bearish' : 'bullish',
-              isBearish,
-              currentPrice: currentWavePrice,
-              targetPrice: currentWave.invalidationPrice || currentWavePrice,
-              targetLevel: `Wave ${currentWave.number} Invalidation`,
-              exceededBy: 'Invalidated',
-              nextWave: isBearish ? 'A' : String(Number(currentWave.number) + 1)
-            });
-          }
-        }
+        if (assetClass && getAssetClass(symbol) !== assetClass) return;
+        candidates.push(...findReversalCandidates(symbol, analysis));
       } catch (error) {
         console.error(`Error processing reversals for ${key}:`, error);
       }
     });
 
     return candidates;
-  }, [analyses]);
+  }, [analyses, assetClass]);
 
   const handleClick = (symbol: string) => {
     navigate(`/stocks/${symbol}`);
@@ -146,7 +91,7 @@ const ReversalsList: React.FC<ReversalsListProps> = ({ hideHeader = false }) =>
               </Button>
               <div className="text-right">
                 <div className={`text-sm ${reversal.isBearish ? 'text-bearish' : 'text-bullish'}`}>
-                  ${reversal.currentPrice.toFixed(2)}
+                  {formatPrice(reversal.currentPrice, reversal.symbol)}
                 </div>
                 <div className="text-xs text-muted-foreground">
                   {reversal.exceededBy}
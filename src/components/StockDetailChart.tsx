@@ -1,9 +1,10 @@
 import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { StockHistoricalData } from '@/services/yahooFinanceService';
-import { Wave, FibTarget, OHLCDataPoint, CustomChartDataset, WaveAnalysis } from '@/types/shared';
+import { Wave, FibTarget, OHLCDataPoint, CustomChartDataset, WaveAnalysis, WaveDiagonal } from '@/types/shared';
 import { useWaveAnalysis } from '@/context/WaveAnalysisContext';
 import { Skeleton } from '@/components/ui/skeleton';
 import {formatTimestamp} from '@/utils/dateUtils';
+import { formatPrice } from '@/utils/chartUtils';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -28,6 +29,8 @@ import { AlertCircle } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { getCachedWaveAnalysis } from '@/utils/wave-analysis';
 import { Badge } from '@/components/ui/badge';
+import { formatWaveLabel } from '@/components/chart/waveChartUtils';
+import { FIB_EXTENSION_COLOR, FIB_RETRACEMENT_COLOR, FIB_TARGET_SPAN_BARS, INVALID_WAVE_COLOR, CURRENT_PRICE_COLOR } from '@/components/chart/chartConstants';
 
 // Import datalabels
 import ChartDataLabels from 'chartjs-plugin-datalabels';
@@ -60,7 +63,7 @@ const currentPriceLabelPlugin = {
     ctx.fillStyle = 'rgba(30, 41, 59, 0.85)';
     
     const priceText = typeof currentPrice === 'number' 
-      ? `$${currentPrice.toFixed(2)}`
+      ? formatPrice(currentPrice, currentPriceDataset.symbol)
       : 'Unknown';
     const textWidth = ctx.measureText(priceText).width + (isLivePrice ? 40 : 16);
     
@@ -685,7 +688,7 @@ const StockDetailChart: React.FC<StockDetailChartProps> = ({
           type: 'scatter' as const,
           label: `Invalid Wave ${wave.number}`,
           data: ohlcData.map((_, i) => i === idx ? wave.invalidationPrice || wave.endPrice : null),
-          backgroundColor: 'rgba(255, 0, 0, 0.8)',
+          backgroundColor: INVALID_WAVE_COLOR,
           borderColor: 'rgba(255, 0, 0, 1)',
           borderWidth: 2,
           pointRadius: 6,
@@ -855,7 +858,7 @@ const StockDetailChart: React.FC<StockDetailChartProps> = ({
                 return ctx.dataIndex === startIndex;
               },
               formatter: (value: any, ctx: any) => {
-                return `${wave.number}`;
+                return formatWaveLabel(wave.number, wave.degree);
               },
               color: 'white',
               backgroundColor: getWaveColor(wave.number, false),
@@ -872,12 +875,134 @@ const StockDetailChart: React.FC<StockDetailChartProps> = ({
         })
         .filter(Boolean),
       
+      // Subwave labels in degree notation: Intermediate for every visible wave,
+      // Minor only for the selected wave (or the current wave when nothing is selected)
+      ...((() => {
+        const isSameWave = (a: Wave | null | undefined, b: Wave) => !!a &&
+          a.number === b.number &&
+          getTimestampValue(a.startTimestamp) === getTimestampValue(b.startTimestamp);
+        const focusWave = selectedWave || currentWave;
+        
+        const parents = waves.filter(wave => {
+          if (!wave || wave.number === 0) return false;
+          if (viewMode === 'current' && mostRecentWave1) {
+            return getTimestampValue(wave.startTimestamp) >= getTimestampValue(mostRecentWave1.startTimestamp);
+          }
+          return true;
+        });
+        if (currentWave && currentWave.subwaves && !parents.some(wave => isSameWave(currentWave, wave))) {
+          parents.push(currentWave);
+        }
+        
+        const markers: Record<'Intermediate' | 'Minor', Map<number, Wave>> = {
+          Intermediate: new Map(),
+          Minor: new Map()
+        };
+        const collect = (parent: Wave, showMinor: boolean) => {
+          (parent.subwaves || []).forEach(subwave => {
+            if (subwave.degree !== 'Intermediate' && subwave.degree !== 'Minor') return;
+            if (subwave.degree === 'Minor' && !showMinor) return;
+            if (subwave.isComplete && subwave.endTimestamp && subwave.endPrice !== undefined) {
+              const idx = ohlcData.findIndex(d => d.timestamp >= getTimestampValue(subwave.endTimestamp));
+              if (idx !== -1) markers[subwave.degree].set(idx, subwave);
+            }
+            collect(subwave, showMinor);
+          });
+        };
+        parents.forEach(wave => collect(wave, isSameWave(focusWave, wave)));
+        
+        return (['Intermediate', 'Minor'] as const)
+          .filter(degree => markers[degree].size > 0)
+          .map(degree => {
+            const points = markers[degree];
+            const isMinor = degree === 'Minor';
+            return {
+              type: 'scatter' as const,
+              label: `${degree} Subwaves`,
+              data: ohlcData.map((_, i) => points.has(i) ? points.get(i)!.endPrice : null),
+              backgroundColor: (ctx: any) => getWaveColor(points.get(ctx.dataIndex)?.number ?? 0, false),
+              borderColor: 'rgba(0, 0, 0, 0.5)',
+              borderWidth: 1,
+              pointRadius: (ctx: any) => points.has(ctx.dataIndex) ? (isMinor ? 2 : 3) : 0,
+              pointHoverRadius: isMinor ? 4 : 5,
+              pointStyle: 'circle',
+              z: isMinor ? 13 : 14,
+              datalabels: {
+                display: (ctx: any) => points.has(ctx.dataIndex),
+                formatter: (value: any, ctx: any) => {
+                  const subwave = points.get(ctx.dataIndex);
+                  return subwave ? formatWaveLabel(subwave.number, subwave.degree) : '';
+                },
+                color: (ctx: any) => getWaveColor(points.get(ctx.dataIndex)?.number ?? 0, true),
+                font: {
+                  weight: isMinor ? ('normal' as const) : ('bold' as const),
+                  size: isMinor ? 9 : 10
+                },
+                // Label peaks above the point and troughs below it
+                align: (ctx: any) => {
+                  const subwave = points.get(ctx.dataIndex);
+                  return subwave && subwave.endPrice! >= subwave.startPrice ? 'top' : 'bottom';
+                },
+                anchor: 'center' as const,
+                offset: isMinor ? 4 : 6
+              }
+            } as unknown as ChartDataset<keyof ChartTypeRegistry>;
+          });
+      })()),
+      
+      // Diagonal wedges: the 1-3 and 2-4 trendlines, from their first touch to the end of the diagonal
+      ...((() => {
+        const lastTimestamp = ohlcData.length > 0 ? ohlcData[ohlcData.length - 1].timestamp : 0;
+        const wedges = new Map<string, { diagonal: WaveDiagonal; endTimestamp: number }>();
+        
+        const collect = (wave: Wave) => {
+          if (wave.diagonal) {
+            const key = `${getTimestampValue(wave.diagonal.trendline[0].timestamp)}-${wave.diagonal.shape}`;
+            const endTimestamp = wave.endTimestamp ? getTimestampValue(wave.endTimestamp) : lastTimestamp;
+            const existing = wedges.get(key);
+            wedges.set(key, { diagonal: wave.diagonal, endTimestamp: Math.max(endTimestamp, existing?.endTimestamp ?? 0) });
+          }
+          (wave.subwaves || []).forEach(collect);
+        };
+        
+        waves
+          .filter(wave => wave && wave.number !== 0 && (viewMode !== 'current' || !mostRecentWave1 ||
+            getTimestampValue(wave.startTimestamp) >= getTimestampValue(mostRecentWave1.startTimestamp)))
+          .forEach(collect);
+        if (currentWave) collect(currentWave);
+        
+        return Array.from(wedges.values()).flatMap(({ diagonal, endTimestamp }) =>
+          [diagonal.trendline, diagonal.counterTrendline].map((line, k) => {
+            const startTimestamp = getTimestampValue(line[0].timestamp);
+            const slope = (line[1].price - line[0].price) / ((getTimestampValue(line[1].timestamp) - startTimestamp) || 1);
+            return {
+              type: 'line' as const,
+              label: `${diagonal.type === 'leading' ? 'Leading' : 'Ending'} Diagonal ${k === 0 ? '1-3' : '2-4'} Line`,
+              data: ohlcData.map(d => d.timestamp >= startTimestamp && d.timestamp <= endTimestamp
+                ? line[0].price + slope * (d.timestamp - startTimestamp)
+                : null),
+              borderColor: 'rgba(255, 193, 7, 0.8)',
+              borderWidth: 1.5,
+              borderDash: [6, 4],
+              pointRadius: 0,
+              tension: 0,
+              fill: false,
+              spanGaps: false,
+              z: 12,
+              datalabels: {
+                display: false
+              }
+            } as unknown as ChartDataset<keyof ChartTypeRegistry>;
+          })
+        );
+      })()),
+      
       // Current price line
       ...(effectiveCurrentPrice ? [{
         type: 'line' as const,
         label: 'Current Price',
         data: ohlcData.map((_, index) => createSafeDataPoint(index, effectiveCurrentPrice)),
-        borderColor: 'rgba(255, 255, 255, 0.6)',
+        borderColor: CURRENT_PRICE_COLOR,
         borderWidth: 1,
         borderDash: [3, 3],
         pointRadius: 0,
@@ -885,6 +1010,7 @@ const StockDetailChart: React.FC<StockDetailChartProps> = ({
         fill: false,
         z: 20,
         isLivePrice: livePrice && livePrice > 0,
+        symbol,
         datalabels: {
           display: false
         }
@@ -919,7 +1045,7 @@ const StockDetailChart: React.FC<StockDetailChartProps> = ({
             const waveStartPrice = currentWave.startPrice; // Use a validated variable
 
             // Define where the target line should visually end
-            const endIndex = Math.min(startIndex + 15, ohlcData.length - 1);
+            const endIndex = Math.min(startIndex + FIB_TARGET_SPAN_BARS, ohlcData.length - 1);
 
             // Ensure endIndex is valid and after startIndex
             if (endIndex <= startIndex) {
@@ -930,7 +1056,7 @@ const StockDetailChart: React.FC<StockDetailChartProps> = ({
             // Generate the data points for the line
             return {
               type: 'line' as const,
-              label: `${target.label}: $${target.price.toFixed(2)}`,
+              label: `${target.label}: ${formatPrice(target.price, symbol)}`,
               data: ohlcData.map((_, i) => {
                 if (i === startIndex) {
                   return waveStartPrice; // Use validated price
@@ -945,7 +1071,7 @@ const StockDetailChart: React.FC<StockDetailChartProps> = ({
                 }
                 return null;
               }),
-              borderColor: target.isExtension ? 'rgba(255, 152, 0, 0.9)' : 'rgba(33, 150, 243, 0.9)',
+              borderColor: target.isExtension ? FIB_EXTENSION_COLOR : FIB_RETRACEMENT_COLOR,
               backgroundColor: 'transparent',
               borderWidth: 2,
               borderDash: [5, 5],
@@ -1039,7 +1165,7 @@ const StockDetailChart: React.FC<StockDetailChartProps> = ({
             return false;
           },
           formatter: (value: any, ctx: any) => {
-            return `${currentWave.number}`;
+            return formatWaveLabel(currentWave.number, currentWave.degree);
           },
           color: 'white',
           backgroundColor: getWaveColor(currentWave.number, true),
@@ -1125,7 +1251,7 @@ const StockDetailChart: React.FC<StockDetailChartProps> = ({
         
         chartData.datasets.push({
           type: 'line' as const,
-          label: `Wave A 38.2% Target: $${targetA382.toFixed(2)}`,
+          label: `Wave A 38.2% Target: ${formatPrice(targetA382, symbol)}`,
           data: Array(ohlcData.length).fill(null),
           pointRadius: (ctx: any) => ctx.dataIndex === ohlcData.length - 1 ? 4 : 0,
           pointBackgroundColor: 'rgba(255, 90, 90, 0.8)',
@@ -1177,7 +1303,7 @@ const StockDetailChart: React.FC<StockDetailChartProps> = ({
         const addExtensionTarget = (targetPrice: number, label: string) => {
           chartData.datasets.push({
             type: 'line' as const,
-            label: `Wave 5 ${label}: $${targetPrice.toFixed(2)}`,
+            label: `Wave 5 ${label}: ${formatPrice(targetPrice, symbol)}`,
             data: ohlcData.map((_, i) => {
               if (i >= wave5StartIdx) {
                 return targetPrice;
@@ -1258,7 +1384,7 @@ const StockDetailChart: React.FC<StockDetailChartProps> = ({
             const label = context.dataset.label || '';
             
             if (label === symbol) {
-              return `Price: $${context.parsed.y.toFixed(2)}`;
+              return `Price: ${formatPrice(context.parsed.y, symbol)}`;
             }
             
             if (label.startsWith('Wave')) {
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { TimeframeAlignment } from "@/types/shared";
+import type { WaveAnalysisResult } from "@/utils/elliottWaveAnalysis";
+import { ALIGNMENT_TIMEFRAMES, calculateTimeframeAlignment } from "@/utils/timeframeAlignment";
+
+interface TimeframeAlignmentPanelProps {
+  symbol: string;
+}
+
+interface TimeframeResult {
+  timeframe: string;
+  label: string;
+  analysis: WaveAnalysisResult | null;
+  error?: string;
+}
+
+// Runs the engine on weekly, daily and hourly bars and scores how well the counts nest
+const TimeframeAlignmentPanel: React.FC<TimeframeAlignmentPanelProps> = ({ symbol }) => {
+  const [results, setResults] = useState<TimeframeResult[]>([]);
+  const [alignment, setAlignment] = useState<TimeframeAlignment | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const runAlignment = async () => {
+    if (isRunning) return;
+    setIsRunning(true);
+    setAlignment(null);
+
+    try {
+      const { fetchHistoricalData } = await import('@/services/yahooFinanceService');
+      const { analyzeElliottWavesInWorker } = await import('@/utils/elliottWaveWorker');
+
+      // One timeframe at a time, so the worker isn't handed three histories at once
+      const timeframeResults: TimeframeResult[] = [];
+      for (const { timeframe, label } of ALIGNMENT_TIMEFRAMES) {
+        try {
+          const data = await fetchHistoricalData(symbol, timeframe);
+          const analysis = await analyzeElliottWavesInWorker(symbol, data);
+          timeframeResults.push({ timeframe, label, analysis });
+        } catch (error) {
+          console.error(`[TimeframeAlignment] ${symbol} ${timeframe} analysis failed:`, error);
+          timeframeResults.push({ timeframe, label, analysis: null, error: error.message || 'Analysis failed' });
+        }
+        setResults([...timeframeResults]);
+      }
+
+      // Timeframes that couldn't be analyzed are left out of the comparison
+      setAlignment(calculateTimeframeAlignment(
+        timeframeResults
+          .filter(result => result.analysis)
+          .map(result => ({ label: result.label, analysis: result.analysis! }))
+      ));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const scoreClass = !alignment ? '' :
+    alignment.score >= 70 ? 'bg-green-600 text-white' :
+    alignment.score >= 40 ? 'bg-amber-500 text-white' :
+    'bg-red-600 text-white';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <h3 className="text-lg font-medium">Multi-timeframe Alignment</h3>
+          {alignment && (
+            <Badge className={scoreClass}>{alignment.score}/100</Badge>
+          )}
+        </div>
+        <Button size="sm" variant="outline" onClick={runAlignment} disabled={isRunning}>
+          {isRunning ? 'Analyzing...' : results.length > 0 ? 'Re-run' : 'Check alignment'}
+        </Button>
+      </div>
+
+      {results.length === 0 && !isRunning && (
+        <p className="text-sm text-muted-foreground">
+          Counts weekly, daily and hourly bars and checks that each count sits inside the wave above it.
+        </p>
+      )}
+
+      {results.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {results.map(result => {
+            const wave = result.analysis?.currentWave;
+            return (
+              <div key={result.timeframe} className="p-2 rounded-md bg-muted/20 text-sm">
+                <div className="text-xs text-muted-foreground">{result.label}</div>
+                {result.error ? (
+                  <div className="text-xs text-red-400">{result.error}</div>
+                ) : (
+                  <div className="font-medium">
+                    {wave ? `Wave ${wave.number}` : 'No count'}
+                    {result.analysis?.direction && (
+                      <span className={`ml-1 text-xs ${result.analysis.direction === 'bullish' ? 'text-green-400' : 'text-red-400'}`}>
+                        {result.analysis.direction}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {alignment && alignment.checks.length > 0 && (
+        <div className="space-y-1">
+          {alignment.checks.map((check, index) => (
+            <div key={`${check.rule}-${index}`} className="flex items-start gap-2 text-xs">
+              <span className={check.status === 'pass' ? 'text-green-500' : 'text-red-500'}>
+                {check.status === 'pass' ? '✓' : '✗'}
+              </span>
+              <span className="font-medium">{check.rule}</span>
+              {check.detail && <span className="text-muted-foreground">{check.detail}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeframeAlignmentPanel;
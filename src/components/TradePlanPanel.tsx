@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BookPlus, Briefcase } from 'lucide-react';
+import { toast } from '@/lib/toast';
+import { useAuth } from '@/context/AuthContext';
+import { saveTradePlan, updateJournalEntry } from '@/services/tradeJournalService';
+import { openPaperPosition } from '@/services/paperTradingService';
+import { buildTradePlan, type TradePlanInput } from '@/utils/tradePlan';
+import { formatPriceValue } from '@/utils/assetClasses';
+
+// Account size and risk are remembered between setups
+const SETTINGS_KEY = 'trade_plan_settings';
+
+interface TradePlanPanelProps {
+  symbol: string;
+  timeframe: string;
+  analysis: TradePlanInput['analysis'] | null;
+  price: number | null;     // Live price, or the last close
+}
+
+const loadSettings = (): { accountSize: string; riskPct: string } => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return { accountSize: stored.accountSize || '10000', riskPct: stored.riskPct || '1' };
+  } catch {
+    return { accountSize: '10000', riskPct: '1' };
+  }
+};
+
+const formatMoney = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// Sizes a trade on the current count: stop at its invalidation level, scaled targets at the Fib levels
+const TradePlanPanel: React.FC<TradePlanPanelProps> = ({ symbol, timeframe, analysis, price }) => {
+  const { user } = useAuth();
+  const [accountSize, setAccountSize] = useState(() => loadSettings().accountSize);
+  const [riskPct, setRiskPct] = useState(() => loadSettings().riskPct);
+  const [entry, setEntry] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Follow the price until the entry is edited by hand
+  useEffect(() => {
+    setEntry(price ? formatPriceValue(price, symbol) : '');
+  }, [price, symbol, timeframe]);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ accountSize, riskPct }));
+  }, [accountSize, riskPct]);
+
+  const plan = useMemo(() => {
+    const entryPrice = parseFloat(entry);
+    const account = parseFloat(accountSize);
+    const risk = parseFloat(riskPct);
+    if (!analysis || !(entryPrice > 0) || !(account > 0) || !(risk > 0)) return null;
+    return buildTradePlan({ symbol, timeframe, analysis, entry: entryPrice, accountSize: account, riskPct: risk });
+  }, [symbol, timeframe, analysis, entry, accountSize, riskPct]);
+
+  const handleSave = async () => {
+    if (!user || !plan) return;
+    setIsSaving(true);
+    try {
+      await saveTradePlan(user.id, plan, notes);
+      toast.success(`Saved ${plan.symbol} ${plan.direction} plan to your journal`);
+      setNotes('');
+    } catch (error) {
+      console.error('Error saving trade plan:', error);
+      toast.error('Failed to save trade plan');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Paper trade the plan at the current price: logged in the journal as taken, with the last target as the exit
+  const handlePaperTrade = async () => {
+    if (!user || !plan || !price) return;
+    setIsSaving(true);
+    try {
+      const journalEntry = await saveTradePlan(user.id, plan, notes);
+      await updateJournalEntry(journalEntry.id, { status: 'taken' });
+      await openPaperPosition(user.id, {
+        symbol: plan.symbol,
+        timeframe: plan.timeframe,
+        direction: plan.direction,
+        quantity: plan.shares,
+        entryPrice: price,
+        stopPrice: plan.stop,
+        targetPrice: plan.targets[plan.targets.length - 1].price,
+        waveNumber: plan.waveNumber,
+        journalEntryId: journalEntry.id
+      });
+      toast.success(`Opened a paper ${plan.direction} of ${plan.shares} ${plan.symbol} at ${formatPriceValue(price, symbol)}`);
+      setNotes('');
+    } catch (error) {
+      console.error('Error opening paper position:', error);
+      toast.error('Failed to open paper position');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium">Trade Plan</h3>
+        {user && (
+          <Button variant="link" size="sm" asChild>
+            <Link to="/journal">Open journal</Link>
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="tp-account">Account size</Label>
+          <Input id="tp-account" type="number" min="0" value={accountSize} onChange={e => setAccountSize(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="tp-risk">Risk per trade (%)</Label>
+          <Input id="tp-risk" type="number" min="0" step="0.1" value={riskPct} onChange={e => setRiskPct(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="tp-entry">Entry</Label>
+          <Input id="tp-entry" type="number" min="0" step="any" value={entry} onChange={e => setEntry(e.target.value)} />
+        </div>
+      </div>
+
+      {!plan ? (
+        <div className="p-4 bg-muted rounded-md text-center text-sm text-muted-foreground">
+          No plan for this count: it needs a current wave with an invalidation level and a Fibonacci target beyond the entry.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              ['Direction', <Badge key="direction" variant={plan.direction === 'long' ? 'default' : 'secondary'}>{plan.direction}</Badge>],
+              ['Stop', `${formatPriceValue(plan.stop, symbol)} (${(Math.abs(plan.entry - plan.stop) / plan.entry * 100).toFixed(1)}%)`],
+              ['Shares', `${plan.shares} (${formatMoney(plan.positionValue)})`],
+              ['Risk', `${formatMoney(plan.riskAmount)} · ${plan.blendedR.toFixed(2)}R blended`]
+            ].map(([label, value]) => (
+              <div key={label as string} className="border rounded-md p-3">
+                <div className="text-xs text-muted-foreground">{label}</div>
+                <div className="text-sm font-semibold mt-1">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Target</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Shares</TableHead>
+                <TableHead className="text-right">R</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plan.targets.map(target => (
+                <TableRow key={`${target.level}-${target.price}`}>
+                  <TableCell>{target.label}</TableCell>
+                  <TableCell className="text-right">{formatPriceValue(target.price, symbol)}</TableCell>
+                  <TableCell className="text-right">{target.shares}</TableCell>
+                  <TableCell className="text-right">{target.rMultiple.toFixed(2)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {plan.shares === 0 && (
+            <p className="text-sm text-amber-600">The stop is too far away to buy a single share at this risk.</p>
+          )}
+
+          {user && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input placeholder="Notes (optional)" value={notes} onChange={e => setNotes(e.target.value)} />
+              <Button onClick={handleSave} disabled={isSaving || plan.shares === 0}>
+                <BookPlus className="h-4 w-4 mr-2" />
+                Save to journal
+              </Button>
+              <Button variant="outline" onClick={handlePaperTrade} disabled={isSaving || plan.shares === 0 || !price}>
+                <Briefcase className="h-4 w-4 mr-2" />
+                Paper trade
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TradePlanPanel;
@@ -9,17 +9,19 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
-import { UserCircle, LogOut, Settings, Shield, LogIn, User } from "lucide-react";
+import { UserCircle, LogOut, Settings, Shield, LogIn, User, Bell, NotebookPen, Briefcase } from "lucide-react";
 import AuthModal from './auth/AuthModal';
 import { toast } from '@/lib/toast';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { supabase } from '@/lib/supabase';
+import { getUnreadAlertCount } from '@/services/alertService';
 
 const UserMenu: React.FC = () => {
   const { user, isLoading, isAdmin, signOut } = useAuth();
   const navigate = useNavigate();
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  const [unreadAlerts, setUnreadAlerts] = useState(0);
 
   // Fetch the user's profile to get the custom avatar URL
   useEffect(() => {
@@ -54,6 +56,14 @@ const UserMenu: React.FC = () => {
     fetchUserProfile();
   }, [user]);
 
+  // Unread alert count for the menu badge
+  useEffect(() => {
+    if (!user) return;
+    getUnreadAlertCount(user.id)
+      .then(setUnreadAlerts)
+      .catch(error => console.error('Error fetching unread alerts:', error));
+  }, [user]);
+
   const handleSignOut = async () => {
     try {
       const { error } = await signOut();
@@ -142,6 +152,26 @@ const UserMenu: React.FC = () => {
             <User className="mr-2 h-4 w-4" />
             <span>Profile</span>
           </DropdownMenuItem>
+
+          <DropdownMenuItem onClick={() => navigate('/alerts')}>
+            <Bell className="mr-2 h-4 w-4" />
+            <span>Alerts</span>
+            {unreadAlerts > 0 && (
+              <span className="ml-auto text-xs rounded-full bg-primary text-primary-foreground px-1.5">
+                {unreadAlerts}
+              </span>
+            )}
+          </DropdownMenuItem>
+          
+          <DropdownMenuItem onClick={() => navigate('/journal')}>
+            <NotebookPen className="mr-2 h-4 w-4" />
+            <span>Trade journal</span>
+          </DropdownMenuItem>
+
+          <DropdownMenuItem onClick={() => navigate('/portfolio')}>
+            <Briefcase className="mr-2 h-4 w-4" />
+            <span>Paper portfolio</span>
+          </DropdownMenuItem>
           
           {isAdmin && (
             <DropdownMenuItem onClick={() => navigate('/admin')}>
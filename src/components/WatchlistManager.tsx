@@ -0,0 +1,304 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { X, Plus, Search, ChevronUp, ChevronDown, Pencil, Trash2 } from "lucide-react";
+import { toast } from '@/lib/toast';
+import { useAuth } from '@/context/AuthContext';
+import { useWatchlists } from '@/context/WatchlistContext';
+import { WatchlistItem } from '@/types/shared';
+
+// Notes are saved when the field loses focus, not on every keystroke
+const NotesInput: React.FC<{ item: WatchlistItem; onSave: (notes: string) => void }> = ({ item, onSave }) => {
+  const [value, setValue] = useState(item.notes || '');
+
+  useEffect(() => {
+    setValue(item.notes || '');
+  }, [item.notes]);
+
+  return (
+    <Input
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={() => {
+        if (value !== (item.notes || '')) onSave(value);
+      }}
+      placeholder="Notes..."
+      className="h-7 text-xs flex-1"
+    />
+  );
+};
+
+// Lets the signed-in user keep several named, ordered lists of symbols with notes
+export const WatchlistManager: React.FC = () => {
+  const { user } = useAuth();
+  const {
+    watchlists,
+    isLoading,
+    activeWatchlistId,
+    setActiveWatchlistId,
+    refreshWatchlists,
+    createList,
+    renameList,
+    deleteList,
+    addSymbol,
+    removeSymbol,
+    updateNotes,
+    moveSymbol
+  } = useWatchlists();
+
+  // The list being edited here; starts on the one the dashboard is scoped to
+  const [editingId, setEditingId] = useState<string | null>(activeWatchlistId);
+  const [newListName, setNewListName] = useState('');
+  const [renaming, setRenaming] = useState(false);
+  const [newStock, setNewStock] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const watchlist = watchlists.find(list => list.id === editingId) || watchlists[0] || null;
+
+  useEffect(() => {
+    setRenaming(false);
+    setSearchQuery('');
+  }, [watchlist?.id]);
+
+  const filteredItems = useMemo(() => {
+    if (!watchlist) return [];
+    if (!searchQuery) return watchlist.items;
+    const query = searchQuery.trim().toLowerCase();
+    return watchlist.items.filter(item =>
+      item.symbol.toLowerCase().includes(query) || item.notes?.toLowerCase().includes(query)
+    );
+  }, [watchlist, searchQuery]);
+
+  if (!user) {
+    return <div className="text-center py-4 text-sm text-muted-foreground">Sign in to keep your own watchlists.</div>;
+  }
+
+  const handleCreateList = async () => {
+    const name = newListName.trim();
+    if (!name) return;
+    if (watchlists.some(list => list.name.toLowerCase() === name.toLowerCase())) {
+      toast.info(`You already have a list called "${name}"`);
+      return;
+    }
+    const created = await createList(name);
+    if (created) {
+      setEditingId(created.id);
+      setNewListName('');
+      toast.success(`Created "${name}"`);
+    }
+  };
+
+  const handleRename = async () => {
+    const name = newListName.trim();
+    if (watchlist && name && name !== watchlist.name) {
+      await renameList(watchlist.id, name);
+    }
+    setRenaming(false);
+    setNewListName('');
+  };
+
+  const handleDeleteList = async () => {
+    if (!watchlist) return;
+    if (!window.confirm(`Delete the watchlist "${watchlist.name}" and its ${watchlist.items.length} symbols?`)) return;
+    await deleteList(watchlist.id);
+    setEditingId(null);
+  };
+
+  const handleAddStock = async () => {
+    const stockSymbol = newStock.trim().toUpperCase();
+    if (!stockSymbol || !watchlist) return;
+
+    if (watchlist.items.some(item => item.symbol === stockSymbol)) {
+      toast.info(`${stockSymbol} is already in ${watchlist.name}`);
+      setNewStock('');
+      return;
+    }
+
+    setNewStock('');
+    await addSymbol(watchlist.id, stockSymbol);
+    toast.success(`Added ${stockSymbol} to ${watchlist.name}`);
+
+    // Focus back on input for quick consecutive additions
+    inputRef.current?.focus();
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* List selection and management */}
+      <div className="flex flex-wrap gap-2 items-center">
+        {renaming ? (
+          <Input
+            autoFocus
+            value={newListName}
+            onChange={(e) => setNewListName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename();
+              if (e.key === 'Escape') setRenaming(false);
+            }}
+            onBlur={handleRename}
+            className="h-9 w-[200px]"
+          />
+        ) : (
+          <Select value={watchlist?.id || ''} onValueChange={setEditingId} disabled={watchlists.length === 0}>
+            <SelectTrigger className="h-9 w-[200px]">
+              <SelectValue placeholder={isLoading ? 'Loading...' : 'No watchlists'} />
+            </SelectTrigger>
+            <SelectContent>
+              {watchlists.map(list => (
+                <SelectItem key={list.id} value={list.id}>
+                  {list.name} ({list.items.length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {watchlist && !renaming && (
+          <>
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Rename list"
+              onClick={() => {
+                setNewListName(watchlist.name);
+                setRenaming(true);
+              }}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" title="Delete list" onClick={handleDeleteList}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={activeWatchlistId === watchlist.id ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => setActiveWatchlistId(activeWatchlistId === watchlist.id ? null : watchlist.id)}
+            >
+              {activeWatchlistId === watchlist.id ? 'Shown on dashboard' : 'Show on dashboard'}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {/* New list */}
+      {!renaming && (
+        <div className="flex space-x-2">
+          <Input
+            placeholder="New list name..."
+            value={newListName}
+            onChange={(e) => setNewListName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreateList()}
+            className="flex-1"
+          />
+          <Button variant="outline" onClick={handleCreateList} disabled={!newListName.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            New list
+          </Button>
+        </div>
+      )}
+
+      {watchlist && (
+        <>
+          {/* Add Stock Input */}
+          <div className="flex space-x-2">
+            <Input
+              ref={inputRef}
+              placeholder="Enter stock symbol..."
+              value={newStock}
+              onChange={(e) => setNewStock(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddStock()}
+              className="flex-1"
+            />
+            <Button onClick={handleAddStock} disabled={!newStock.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+
+          {/* Search Box */}
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder={`Search ${watchlist.name}...`}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-8"
+            />
+            {searchQuery && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute right-1 top-1/2 transform -translate-y-1/2 h-6 w-6"
+                onClick={() => setSearchQuery('')}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+
+          {/* Symbols, in list order */}
+          <ScrollArea className="h-[220px] border rounded-md p-2">
+            {filteredItems.length === 0 ? (
+              <div className="w-full text-center py-4 text-muted-foreground">
+                {searchQuery ? `No symbols matching "${searchQuery}"` : `No symbols in ${watchlist.name} yet`}
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {filteredItems.map(item => (
+                  <div key={item.symbol} className="flex items-center gap-2">
+                    <span className="font-mono text-sm w-16">{item.symbol}</span>
+                    <NotesInput item={item} onSave={(notes) => updateNotes(watchlist.id, item.symbol, notes)} />
+                    {/* Reordering only makes sense on the unfiltered list */}
+                    {!searchQuery && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          disabled={item.position === 0}
+                          onClick={() => moveSymbol(watchlist.id, item.symbol, -1)}
+                        >
+                          <ChevronUp className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          disabled={item.position === watchlist.items.length - 1}
+                          onClick={() => moveSymbol(watchlist.id, item.symbol, 1)}
+                        >
+                          <ChevronDown className="h-3 w-3" />
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 hover:bg-destructive/20 rounded-full"
+                      onClick={() => removeSymbol(watchlist.id, item.symbol)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={refreshWatchlists}
+        className="w-full text-xs mt-1"
+      >
+        Refresh Watchlists
+      </Button>
+    </div>
+  );
+};
+
+export default WatchlistManager;
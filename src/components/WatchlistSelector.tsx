@@ -0,0 +1,36 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from '@/context/AuthContext';
+import { useWatchlists } from '@/context/WatchlistContext';
+
+// Select value standing in for "no list chosen" (Radix doesn't allow empty values)
+const ALL_SYMBOLS = 'all';
+
+// Scopes the dashboard to one of the signed-in user's watchlists
+const WatchlistSelector: React.FC = () => {
+  const { user } = useAuth();
+  const { watchlists, activeWatchlistId, setActiveWatchlistId } = useWatchlists();
+
+  if (!user || watchlists.length === 0) return null;
+
+  return (
+    <Select
+      value={activeWatchlistId || ALL_SYMBOLS}
+      onValueChange={(value) => setActiveWatchlistId(value === ALL_SYMBOLS ? null : value)}
+    >
+      <SelectTrigger className="h-8 w-[180px] text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_SYMBOLS}>All symbols</SelectItem>
+        {watchlists.map(list => (
+          <SelectItem key={list.id} value={list.id}>
+            {list.name} ({list.items.length})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default WatchlistSelector;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { WaveCount } from "@/types/shared";
+
+interface WaveCountSelectorProps {
+  waveCounts: WaveCount[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}
+
+// Lets the user flip between the primary count and its ranked alternates
+const WaveCountSelector: React.FC<WaveCountSelectorProps> = ({
+  waveCounts,
+  selectedIndex,
+  onSelect
+}) => {
+  if (!waveCounts || waveCounts.length < 2) return null;
+
+  // The gap between the top two counts is what decisions hinge on
+  const lead = (waveCounts[0].probability - waveCounts[1].probability) * 100;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {waveCounts.map((count, index) => (
+        <Button
+          key={`${count.label}-${index}`}
+          size="sm"
+          variant={index === selectedIndex ? 'default' : 'outline'}
+          onClick={() => onSelect(index)}
+          title={`${count.label} · ${count.waves.map(w => w.number).join('-') || 'no waves'}${count.confidence !== undefined ? ` · ${count.confidence}/100 confidence` : ''}`}
+        >
+          {index === 0 ? 'Primary' : `Alternate ${index}`}
+          <span className="ml-1 text-xs opacity-80">
+            {(count.probability * 100).toFixed(0)}%
+          </span>
+        </Button>
+      ))}
+      <Badge variant="secondary" className="text-xs">
+        Lead over alternate: {lead.toFixed(0)} pts
+      </Badge>
+    </div>
+  );
+};
+
+export default WaveCountSelector;
@@ -1,9 +1,11 @@
 import React, { useState, useMemo } from 'react';
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, ChevronRight } from "lucide-react";
-import { Wave, FibTarget } from "@/types/shared"; // Make sure this path is correct
+import { Wave, FibTarget, CORRECTION_PATTERN_NAMES } from "@/types/shared"; // Make sure this path is correct
+import { formatPrice } from "@/utils/chartUtils";
 
 interface WaveSequencePaginationProps {
+  symbol?: string;                 // Sets the price precision
   waves: Wave[];
   invalidWaves?: Wave[]; // Add this to accept invalid waves
   selectedWave: Wave | null;
@@ -13,6 +15,7 @@ interface WaveSequencePaginationProps {
 }
 
 const WaveSequencePagination: React.FC<WaveSequencePaginationProps> = ({ 
+  symbol,
   waves,
   invalidWaves = [], // Add this with a default empty array
   onWaveSelect,
@@ -52,14 +55,6 @@ const WaveSequencePagination: React.FC<WaveSequencePaginationProps> = ({
     }
   };
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2
-    }).format(price);
-  };
-
   // Update the sorting function to handle Date objects
   const sortedWaves = useMemo(() => {
     return [...waves].sort((a, b) => {
@@ -150,6 +145,16 @@ const WaveSequencePagination: React.FC<WaveSequencePaginationProps> = ({
                   }`}>
                     Wave {wave.number}
                   </span>
+                  {wave.pattern && (
+                    <span className="text-xs text-amber-400">
+                      {CORRECTION_PATTERN_NAMES[wave.pattern]}
+                    </span>
+                  )}
+                  {wave.diagonal && (
+                    <span className="text-xs text-amber-400">
+                      {wave.diagonal.type === 'leading' ? 'Leading' : 'Ending'} diagonal
+                    </span>
+                  )}
                   <span className="text-xs text-muted-foreground">
                     {new Date(wave.startTimestamp).toLocaleDateString()}
                   </span>
@@ -162,7 +167,7 @@ const WaveSequencePagination: React.FC<WaveSequencePaginationProps> = ({
                     </span>
                   ) : (
                     <span className="text-xs text-muted-foreground">
-                      ${wave.startPrice.toFixed(2)} → ${wave.endPrice?.toFixed(2) || 'ongoing'}
+                      {formatPrice(wave.startPrice, symbol)} → {wave.endPrice ? formatPrice(wave.endPrice, symbol) : 'ongoing'}
                     </span>
                   )}
                 </div>
@@ -190,7 +195,7 @@ const WaveSequencePagination: React.FC<WaveSequencePaginationProps> = ({
                             </span>
                             <div className="flex items-center space-x-1">
                               <span className={`font-medium ${target.isExtension ? 'text-orange-400' : 'text-blue-400'}`}>
-                                ${target.price.toFixed(2)}
+                                {formatPrice(target.price, symbol)}
                               </span>
                               <span className="text-muted-foreground text-xs">
                                 {percentToTarget}
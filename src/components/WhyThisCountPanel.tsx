@@ -0,0 +1,84 @@
+import React from 'react';
+import { Wave, WaveRuleCheck } from "@/types/shared";
+
+interface WhyThisCountPanelProps {
+  ruleChecks: WaveRuleCheck[];
+  selectedWave?: Wave | null;   // When set, only this wave's checks are shown
+  confidence?: number;          // 0-100 confidence of the count as a whole
+}
+
+const STATUS_STYLES: Record<WaveRuleCheck['status'], { icon: string; className: string }> = {
+  pass: { icon: '✓', className: 'text-green-500' },
+  fail: { icon: '✗', className: 'text-red-500' },
+  warn: { icon: '⚠', className: 'text-amber-500' }
+};
+
+const CheckRow: React.FC<{ check: WaveRuleCheck }> = ({ check }) => (
+  <div className="flex items-start gap-2 text-xs py-0.5">
+    <span className={`font-bold ${STATUS_STYLES[check.status].className}`}>
+      {STATUS_STYLES[check.status].icon}
+    </span>
+    <div className="flex-1">
+      <div className="flex justify-between gap-2">
+        <span className="font-medium">{check.rule}</span>
+        {check.ratio !== undefined && isFinite(check.ratio) && (
+          <span className="text-muted-foreground whitespace-nowrap">ratio {check.ratio.toFixed(3)}</span>
+        )}
+      </div>
+      {check.detail && <div className="text-muted-foreground">{check.detail}</div>}
+    </div>
+  </div>
+);
+
+// Lists every rule and guideline the engine evaluated for the count being viewed
+const WhyThisCountPanel: React.FC<WhyThisCountPanelProps> = ({ ruleChecks, selectedWave, confidence }) => {
+  const waveChecks = selectedWave?.ruleChecks;
+  const checks = waveChecks ?? ruleChecks ?? [];
+
+  const rules = checks.filter(check => check.kind !== 'guideline');
+  const guidelines = checks.filter(check => check.kind === 'guideline');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-baseline">
+        <h4 className="text-sm font-medium">
+          Why this count?
+          {waveChecks && (
+            <span className="ml-2 text-muted-foreground font-normal">Wave {selectedWave.number}</span>
+          )}
+          {!waveChecks && confidence !== undefined && (
+            <span className="ml-2 text-muted-foreground font-normal">{confidence}/100 confidence</span>
+          )}
+        </h4>
+        {checks.length > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {rules.filter(check => check.status === 'pass').length}/{rules.length} rules passed · {guidelines.filter(check => check.status === 'pass').length}/{guidelines.length} guidelines met
+          </span>
+        )}
+      </div>
+
+      {checks.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {waveChecks ? 'No rules apply to this wave until it completes.' : 'Not enough completed waves to check the rules yet.'}
+        </p>
+      ) : (
+        <>
+          {rules.length > 0 && (
+            <div>
+              <div className="text-xs uppercase tracking-wide text-muted-foreground mb-1">Rules</div>
+              {rules.map((check, index) => <CheckRow key={`rule-${index}`} check={check} />)}
+            </div>
+          )}
+          {guidelines.length > 0 && (
+            <div>
+              <div className="text-xs uppercase tracking-wide text-muted-foreground mb-1">Guidelines</div>
+              {guidelines.map((check, index) => <CheckRow key={`guideline-${index}`} check={check} />)}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WhyThisCountPanel;
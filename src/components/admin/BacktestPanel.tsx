@@ -0,0 +1,361 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Play, Square } from 'lucide-react';
+import { toast } from '@/lib/toast';
+import { buildApiUrl } from '@/config/apiConfig';
+import { thresholdCombinations } from '@/utils/elliottWaveAnalysis';
+import {
+  BACKTEST_RULE_PRESETS,
+  runBacktest,
+  summarizeBacktest,
+  type BacktestResult,
+  type BacktestRule,
+  type BacktestTrade
+} from '@/utils/backtest';
+import {
+  HISTORY_INTERVAL_NAMES,
+  PIVOT_DETECTOR_NAMES,
+  type HistoryInterval,
+  type PivotDetector,
+  type StockHistoricalData
+} from '@/types/shared';
+
+const BACKTEST_TIMEFRAMES: HistoryInterval[] = ['1h', '4h', '1d', '1wk'];
+
+// Longest history the API serves for each timeframe, in days
+const MAX_LOOKBACK_DAYS: Partial<Record<HistoryInterval, number>> = {
+  '1h': 730,
+  '4h': 730,
+  '1d': 365 * 10,
+  '1wk': 365 * 30
+};
+
+// Thresholds are edited as "max-min, max-min, ..."
+const formatThresholds = (thresholds: { max: number; min: number }[]) =>
+  thresholds.map(({ max, min }) => `${max}-${min}`).join(', ');
+
+const parseThresholds = (text: string): { max: number; min: number }[] | null => {
+  const thresholds = text.split(',').map(pair => {
+    const [max, min] = pair.split('-').map(value => parseFloat(value.trim()));
+    return { max, min };
+  });
+  return thresholds.every(({ max, min }) => max > 0 && min > 0 && min <= max) ? thresholds : null;
+};
+
+async function fetchBacktestBars(symbol: string, timeframe: HistoryInterval, lookbackDays: number): Promise<StockHistoricalData[]> {
+  const response = await fetch(buildApiUrl(`/stocks/${symbol}/history?timeframe=${timeframe}&lookback=${lookbackDays}`));
+  if (!response.ok) {
+    throw new Error(`History request failed with status ${response.status}`);
+  }
+  const json = await response.json();
+  return json.data || [];
+}
+
+const formatPct = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+const BacktestPanel: React.FC = () => {
+  const [symbols, setSymbols] = useState('AAPL, MSFT, NVDA');
+  const [timeframe, setTimeframe] = useState<HistoryInterval>('1d');
+  const [lookbackDays, setLookbackDays] = useState(365 * 5);
+  const [rule, setRule] = useState<BacktestRule>(BACKTEST_RULE_PRESETS[0]);
+  const [pivotDetector, setPivotDetector] = useState<PivotDetector>('atr');
+  const [thresholds, setThresholds] = useState(formatThresholds(thresholdCombinations.atr));
+  const [retryAfterInvalidation, setRetryAfterInvalidation] = useState(true);
+  const [windowBars, setWindowBars] = useState(250);
+  const [step, setStep] = useState(1);
+  const [maxHoldingBars, setMaxHoldingBars] = useState(0);
+  const [riskPerTradePct, setRiskPerTradePct] = useState(1);
+
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ symbol: '', done: 0, total: 0 });
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const cancelledRef = useRef(false);
+
+  const updateRule = (changes: Partial<BacktestRule>) => setRule(prev => ({ ...prev, ...changes, name: 'Custom' }));
+
+  const handleDetectorChange = (detector: PivotDetector) => {
+    setPivotDetector(detector);
+    setThresholds(formatThresholds(thresholdCombinations[detector]));
+  };
+
+  const handleRun = async () => {
+    const symbolList = symbols.split(/[\s,]+/).map(s => s.trim().toUpperCase()).filter(Boolean);
+    const parsedThresholds = parseThresholds(thresholds);
+    if (symbolList.length === 0) {
+      toast.error('Enter at least one symbol');
+      return;
+    }
+    if (!parsedThresholds) {
+      toast.error('Thresholds must look like "3-1.5, 5-2.5" (max-min, min no larger than max)');
+      return;
+    }
+
+    cancelledRef.current = false;
+    setRunning(true);
+    setResult(null);
+    setErrors([]);
+
+    const trades: BacktestTrade[] = [];
+    const runErrors: string[] = [];
+    const lookback = Math.min(lookbackDays, MAX_LOOKBACK_DAYS[timeframe] ?? lookbackDays);
+
+    for (const symbol of symbolList) {
+      if (cancelledRef.current) break;
+      setProgress({ symbol, done: 0, total: 0 });
+      try {
+        const bars = await fetchBacktestBars(symbol, timeframe, lookback);
+        trades.push(...await runBacktest(symbol, bars, {
+          rule,
+          pivotDetector,
+          analysisOptions: { thresholds: parsedThresholds, retryAfterInvalidation },
+          windowBars,
+          step,
+          maxHoldingBars: maxHoldingBars > 0 ? maxHoldingBars : undefined,
+          riskPerTradePct
+        }, {
+          isCancelled: () => cancelledRef.current,
+          onProgress: (done, total) => setProgress({ symbol, done, total })
+        }));
+      } catch (error) {
+        console.error(`[Backtest] ${symbol} failed:`, error);
+        runErrors.push(`${symbol}: ${error.message}`);
+      }
+      // Show results so far as each symbol finishes
+      setResult(summarizeBacktest(trades, riskPerTradePct));
+    }
+
+    setErrors(runErrors);
+    setRunning(false);
+    if (cancelledRef.current) {
+      toast.info('Backtest stopped');
+    }
+  };
+
+  const stats = result?.stats;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium">Backtest</h3>
+        <p className="text-sm text-muted-foreground">
+          Replays history bar by bar, recounting on the data available at each bar, and trades the rule below.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="sm:col-span-2 space-y-1">
+          <Label htmlFor="bt-symbols">Symbols</Label>
+          <Input id="bt-symbols" value={symbols} onChange={e => setSymbols(e.target.value)} disabled={running} />
+        </div>
+        <div className="space-y-1">
+          <Label>Timeframe</Label>
+          <Select value={timeframe} onValueChange={value => setTimeframe(value as HistoryInterval)} disabled={running}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {BACKTEST_TIMEFRAMES.map(option => (
+                <SelectItem key={option} value={option}>{HISTORY_INTERVAL_NAMES[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="sm:col-span-3 space-y-1">
+          <Label>Rule</Label>
+          <Select
+            value={BACKTEST_RULE_PRESETS.some(preset => preset.name === rule.name) ? rule.name : 'Custom'}
+            onValueChange={name => {
+              const preset = BACKTEST_RULE_PRESETS.find(p => p.name === name);
+              if (preset) setRule(preset);
+            }}
+            disabled={running}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {BACKTEST_RULE_PRESETS.map(preset => (
+                <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+              ))}
+              <SelectItem value="Custom" disabled>Custom</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="bt-entry">Enter at end of wave</Label>
+          <Input id="bt-entry" value={rule.entryWave} onChange={e => updateRule({ entryWave: e.target.value.trim().toUpperCase() })} disabled={running} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="bt-target">Target: ratio × wave</Label>
+          <div className="flex gap-2">
+            <Input id="bt-target" type="number" step="0.001" value={rule.targetRatio}
+              onChange={e => updateRule({ targetRatio: parseFloat(e.target.value) || 0 })} disabled={running} />
+            <Input value={rule.targetWave} onChange={e => updateRule({ targetWave: e.target.value.trim().toUpperCase() })}
+              disabled={running} className="w-16" aria-label="Target wave" />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="bt-stop">Stop at wave</Label>
+          <div className="flex gap-2">
+            <Input id="bt-stop" value={rule.stopWave} onChange={e => updateRule({ stopWave: e.target.value.trim().toUpperCase() })}
+              disabled={running} className="w-16" />
+            <Select value={rule.stopPoint} onValueChange={value => updateRule({ stopPoint: value as 'start' | 'end' })} disabled={running}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="start">start</SelectItem>
+                <SelectItem value="end">end</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Pivot detector</Label>
+          <Select value={pivotDetector} onValueChange={value => handleDetectorChange(value as PivotDetector)} disabled={running}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PIVOT_DETECTOR_NAMES) as PivotDetector[]).map(option => (
+                <SelectItem key={option} value={option}>{PIVOT_DETECTOR_NAMES[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="sm:col-span-2 space-y-1">
+          <Label htmlFor="bt-thresholds">Pivot thresholds (max-min, tried in order)</Label>
+          <Input id="bt-thresholds" value={thresholds} onChange={e => setThresholds(e.target.value)} disabled={running} />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="bt-lookback">History (days)</Label>
+          <Input id="bt-lookback" type="number" min={30} value={lookbackDays}
+            onChange={e => setLookbackDays(parseInt(e.target.value) || 0)} disabled={running} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="bt-window">Bars per analysis</Label>
+          <Input id="bt-window" type="number" min={50} value={windowBars}
+            onChange={e => setWindowBars(parseInt(e.target.value) || 0)} disabled={running} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="bt-step">Recount every N bars</Label>
+          <Input id="bt-step" type="number" min={1} value={step}
+            onChange={e => setStep(parseInt(e.target.value) || 1)} disabled={running} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="bt-holding">Max bars in trade (0 = no limit)</Label>
+          <Input id="bt-holding" type="number" min={0} value={maxHoldingBars}
+            onChange={e => setMaxHoldingBars(parseInt(e.target.value) || 0)} disabled={running} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="bt-risk">Risk per trade (%)</Label>
+          <Input id="bt-risk" type="number" min={0.1} step="0.1" value={riskPerTradePct}
+            onChange={e => setRiskPerTradePct(parseFloat(e.target.value) || 1)} disabled={running} />
+        </div>
+        <div className="flex items-end pb-2 space-x-2">
+          <Checkbox id="bt-retry" checked={retryAfterInvalidation}
+            onCheckedChange={checked => setRetryAfterInvalidation(checked === true)} disabled={running} />
+          <Label htmlFor="bt-retry" className="text-sm">Recount after an invalidated Wave 4</Label>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        {running ? (
+          <Button variant="outline" onClick={() => { cancelledRef.current = true; }}>
+            <Square className="h-4 w-4 mr-2" />
+            Stop
+          </Button>
+        ) : (
+          <Button onClick={handleRun}>
+            <Play className="h-4 w-4 mr-2" />
+            Run backtest
+          </Button>
+        )}
+        {running && (
+          <div className="flex-1 space-y-1">
+            <div className="text-xs text-muted-foreground">
+              {progress.symbol} {progress.total > 0 ? `· bar ${progress.done} of ${progress.total}` : '· loading history'}
+            </div>
+            <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+          </div>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="text-sm text-red-600 dark:text-red-400 space-y-1">
+          {errors.map(error => <div key={error}>{error}</div>)}
+        </div>
+      )}
+
+      {stats && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              ['Trades', `${stats.trades} (${stats.wins} W / ${stats.losses} L)`],
+              ['Win rate', `${(stats.winRate * 100).toFixed(1)}%`],
+              ['Expectancy', `${formatPct(stats.expectancyPct)} · ${stats.expectancyR.toFixed(2)}R`],
+              ['Profit factor', Number.isFinite(stats.profitFactor) ? stats.profitFactor.toFixed(2) : '∞'],
+              ['Avg win', formatPct(stats.avgWinPct)],
+              ['Avg loss', formatPct(stats.avgLossPct)],
+              ['Total return', formatPct(stats.totalReturnPct)],
+              ['Max drawdown', `-${stats.maxDrawdownPct.toFixed(2)}%`]
+            ].map(([label, value]) => (
+              <div key={label} className="border rounded-md p-3">
+                <div className="text-xs text-muted-foreground">{label}</div>
+                <div className="text-lg font-semibold">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <ScrollArea className="h-[400px] border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead>Side</TableHead>
+                  <TableHead>Entry</TableHead>
+                  <TableHead>Stop / Target</TableHead>
+                  <TableHead>Exit</TableHead>
+                  <TableHead className="text-right">Return</TableHead>
+                  <TableHead className="text-right">R</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.trades.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">No trades</TableCell>
+                  </TableRow>
+                ) : result.trades.map(trade => (
+                  <TableRow key={`${trade.symbol}-${trade.entryTimestamp}`}>
+                    <TableCell className="font-medium">{trade.symbol}</TableCell>
+                    <TableCell>
+                      <Badge variant={trade.direction === 'long' ? 'default' : 'secondary'}>{trade.direction}</Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(trade.entryTimestamp)} @ {trade.entryPrice.toFixed(2)}</TableCell>
+                    <TableCell>{trade.stopPrice.toFixed(2)} / {trade.targetPrice.toFixed(2)}</TableCell>
+                    <TableCell>
+                      {formatDate(trade.exitTimestamp)} @ {trade.exitPrice.toFixed(2)}
+                      <span className="text-xs text-muted-foreground ml-1">({trade.exitReason}, {trade.barsHeld} bars)</span>
+                    </TableCell>
+                    <TableCell className={`text-right ${trade.returnPct > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatPct(trade.returnPct)}
+                    </TableCell>
+                    <TableCell className="text-right">{trade.rMultiple.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BacktestPanel;
@@ -0,0 +1,181 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, RefreshCw, Target } from 'lucide-react';
+import { toast } from '@/lib/toast';
+import {
+  getPredictionLevelStats,
+  getPredictionSymbolStats,
+  scorePredictions
+} from '@/services/predictionService';
+import type { PredictionLevelStats, PredictionSymbolStats } from '@/types/shared';
+
+const ALL_TIMEFRAMES = 'all';
+
+const formatRate = (rate: number | null) => rate === null ? '–' : `${(rate * 100).toFixed(1)}%`;
+const formatBars = (bars: number | null) => bars === null ? '–' : bars.toFixed(1);
+
+const PredictionAccuracyPanel: React.FC = () => {
+  const [levelStats, setLevelStats] = useState<PredictionLevelStats[]>([]);
+  const [symbolStats, setSymbolStats] = useState<PredictionSymbolStats[]>([]);
+  const [timeframe, setTimeframe] = useState(ALL_TIMEFRAMES);
+  const [loading, setLoading] = useState(true);
+  const [scoring, setScoring] = useState(false);
+
+  const loadStats = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [levels, symbols] = await Promise.all([getPredictionLevelStats(), getPredictionSymbolStats()]);
+      setLevelStats(levels);
+      setSymbolStats(symbols);
+    } catch (error) {
+      console.error('Error loading prediction stats:', error);
+      toast.error('Failed to load prediction accuracy');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const handleScore = async () => {
+    setScoring(true);
+    try {
+      const scored = await scorePredictions();
+      toast.success(`Scored ${scored} open predictions`);
+      await loadStats();
+    } catch (error) {
+      console.error('Error scoring predictions:', error);
+      toast.error('Failed to score predictions');
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  const timeframes = useMemo(
+    () => Array.from(new Set([...levelStats, ...symbolStats].map(row => row.timeframe))).sort(),
+    [levelStats, symbolStats]
+  );
+  const visibleLevels = levelStats.filter(row => timeframe === ALL_TIMEFRAMES || row.timeframe === timeframe);
+  const visibleSymbols = symbolStats.filter(row => timeframe === ALL_TIMEFRAMES || row.timeframe === timeframe);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+        <div>
+          <h3 className="text-lg font-medium">Prediction accuracy</h3>
+          <p className="text-sm text-muted-foreground">
+            How often the Fibonacci targets of past analyses were reached before the count was invalidated.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={timeframe} onValueChange={setTimeframe}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TIMEFRAMES}>All timeframes</SelectItem>
+              {timeframes.map(tf => (
+                <SelectItem key={tf} value={tf}>{tf}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={loadStats} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button size="sm" onClick={handleScore} disabled={scoring}>
+            {scoring ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Target className="h-4 w-4 mr-2" />}
+            Score now
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium mb-2">By Fibonacci level</h4>
+        <ScrollArea className="h-[280px] border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Level</TableHead>
+                <TableHead>Timeframe</TableHead>
+                <TableHead className="text-right">Hit rate</TableHead>
+                <TableHead className="text-right">Hit / Stopped / Missed</TableHead>
+                <TableHead className="text-right">Pending</TableHead>
+                <TableHead className="text-right">Avg bars to hit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleLevels.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    {loading ? 'Loading...' : 'No predictions recorded yet'}
+                  </TableCell>
+                </TableRow>
+              ) : visibleLevels.map(row => (
+                <TableRow key={`${row.timeframe}-${row.isExtension}-${row.level}`}>
+                  <TableCell className="font-medium">
+                    {row.label}
+                    <span className="text-xs text-muted-foreground ml-1">
+                      ({row.isExtension ? 'extension' : 'retracement'})
+                    </span>
+                  </TableCell>
+                  <TableCell>{row.timeframe}</TableCell>
+                  <TableCell className="text-right">{formatRate(row.hitRate)}</TableCell>
+                  <TableCell className="text-right">{row.hits} / {row.stopped} / {row.missed}</TableCell>
+                  <TableCell className="text-right">{row.pending}</TableCell>
+                  <TableCell className="text-right">{formatBars(row.avgBarsToHit)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium mb-2">By symbol</h4>
+        <ScrollArea className="h-[320px] border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Symbol</TableHead>
+                <TableHead>Timeframe</TableHead>
+                <TableHead className="text-right">Predictions</TableHead>
+                <TableHead className="text-right">Stops hit</TableHead>
+                <TableHead className="text-right">Targets hit</TableHead>
+                <TableHead className="text-right">Hit rate</TableHead>
+                <TableHead className="text-right">Avg bars to hit</TableHead>
+                <TableHead>Last prediction</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleSymbols.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    {loading ? 'Loading...' : 'No predictions recorded yet'}
+                  </TableCell>
+                </TableRow>
+              ) : visibleSymbols.map(row => (
+                <TableRow key={`${row.symbol}-${row.timeframe}`}>
+                  <TableCell className="font-medium">{row.symbol}</TableCell>
+                  <TableCell>{row.timeframe}</TableCell>
+                  <TableCell className="text-right">{row.predictions}</TableCell>
+                  <TableCell className="text-right">{row.stopsHit}</TableCell>
+                  <TableCell className="text-right">{row.hits} of {row.targets - row.pending}</TableCell>
+                  <TableCell className="text-right">{formatRate(row.hitRate)}</TableCell>
+                  <TableCell className="text-right">{formatBars(row.avgBarsToHit)}</TableCell>
+                  <TableCell>{new Date(row.lastPredictionAt).toLocaleDateString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+};
+
+export default PredictionAccuracyPanel;
@@ -0,0 +1,115 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from '@/lib/toast';
+import { useAuth } from '@/context/AuthContext';
+import { getAlertChannels, saveAlertChannel, deleteAlertChannel } from '@/services/alertService';
+
+// Where alerts go besides the inbox. Rules pick which of these to use.
+const AlertChannelsSettings: React.FC = () => {
+  const { user } = useAuth();
+  const [telegramEnabled, setTelegramEnabled] = useState(false);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [webhookSecret, setWebhookSecret] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadChannels = useCallback(async () => {
+    if (!user) return;
+    try {
+      const channels = await getAlertChannels(user.id);
+      const telegram = channels.find(channel => channel.type === 'telegram');
+      const webhook = channels.find(channel => channel.type === 'webhook');
+      setTelegramEnabled(!!telegram?.enabled);
+      setWebhookUrl(webhook?.config.url || '');
+      setWebhookSecret(webhook?.config.secret || '');
+    } catch (error) {
+      console.error('Error loading alert channels:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadChannels();
+  }, [loadChannels]);
+
+  const handleTelegramChange = async (enabled: boolean) => {
+    if (!user) return;
+    setTelegramEnabled(enabled);
+    try {
+      await saveAlertChannel(user.id, { type: 'telegram', config: {}, enabled });
+    } catch (error) {
+      console.error('Error saving Telegram channel:', error);
+      toast.error('Failed to update Telegram alerts');
+      setTelegramEnabled(!enabled);
+    }
+  };
+
+  const handleSaveWebhook = async () => {
+    if (!user) return;
+    const url = webhookUrl.trim();
+    if (url && !/^https:\/\//i.test(url)) {
+      toast.error('Webhook URL must start with https://');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (url) {
+        await saveAlertChannel(user.id, {
+          type: 'webhook',
+          config: webhookSecret ? { url, secret: webhookSecret } : { url },
+          enabled: true
+        });
+      } else {
+        await deleteAlertChannel(user.id, 'webhook');
+      }
+      toast.success('Webhook saved');
+    } catch (error) {
+      console.error('Error saving webhook channel:', error);
+      toast.error('Failed to save webhook');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Telegram</Label>
+          <p className="text-xs text-muted-foreground">
+            Sent to the Telegram account linked to your profile.
+          </p>
+        </div>
+        <Switch checked={telegramEnabled} onCheckedChange={handleTelegramChange} />
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="webhook-url">Webhook</Label>
+        <p className="text-xs text-muted-foreground">
+          Each alert is POSTed as JSON. The secret, if set, is sent in the X-Alert-Secret header.
+        </p>
+        <Input
+          id="webhook-url"
+          type="url"
+          value={webhookUrl}
+          onChange={(e) => setWebhookUrl(e.target.value)}
+          placeholder="https://example.com/hooks/alerts"
+        />
+        <Input
+          value={webhookSecret}
+          onChange={(e) => setWebhookSecret(e.target.value)}
+          placeholder="Secret (optional)"
+        />
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={handleSaveWebhook} disabled={isSaving}>
+            Save webhook
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertChannelsSettings;
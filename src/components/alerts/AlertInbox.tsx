@@ -0,0 +1,116 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2 } from 'lucide-react';
+import { toast } from '@/lib/toast';
+import { useAuth } from '@/context/AuthContext';
+import { getAlertInbox, markAlertsRead } from '@/services/alertService';
+import type { AlertEvent } from '@/types/shared';
+
+// Fired alerts, newest first; opening one marks it read
+const AlertInbox: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+
+  const loadInbox = useCallback(async () => {
+    if (!user) return;
+    setIsLoading(true);
+    try {
+      setEvents(await getAlertInbox(user.id, unreadOnly));
+    } catch (error) {
+      console.error('Error loading alerts:', error);
+      toast.error('Failed to load alerts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, unreadOnly]);
+
+  useEffect(() => {
+    loadInbox();
+  }, [loadInbox]);
+
+  const markRead = async (eventIds?: string[]) => {
+    if (!user) return;
+    try {
+      await markAlertsRead(user.id, eventIds);
+      const readAt = new Date().toISOString();
+      setEvents(prev => prev.map(event =>
+        !event.readAt && (!eventIds || eventIds.includes(event.id)) ? { ...event, readAt } : event
+      ));
+    } catch (error) {
+      console.error('Error marking alerts read:', error);
+      toast.error('Failed to update alerts');
+    }
+  };
+
+  const openEvent = (event: AlertEvent) => {
+    if (!event.readAt) markRead([event.id]);
+    navigate(`/stocks/${event.symbol}`);
+  };
+
+  const unreadCount = events.filter(event => !event.readAt).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2">
+          <Button variant={unreadOnly ? 'outline' : 'secondary'} size="sm" onClick={() => setUnreadOnly(false)}>
+            All
+          </Button>
+          <Button variant={unreadOnly ? 'secondary' : 'outline'} size="sm" onClick={() => setUnreadOnly(true)}>
+            Unread
+          </Button>
+        </div>
+        <Button variant="ghost" size="sm" disabled={unreadCount === 0} onClick={() => markRead()}>
+          Mark all read
+        </Button>
+      </div>
+
+      <ScrollArea className="h-[360px] border rounded-md">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            {unreadOnly ? 'No unread alerts' : 'No alerts have fired yet'}
+          </div>
+        ) : (
+          <div className="divide-y">
+            {events.map(event => (
+              <button
+                key={event.id}
+                className={`w-full text-left p-3 hover:bg-muted/50 ${event.readAt ? 'opacity-70' : ''}`}
+                onClick={() => openEvent(event)}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    {!event.readAt && <span className="h-2 w-2 rounded-full bg-primary" />}
+                    <span className="font-medium">{event.symbol}</span>
+                    <Badge variant="outline" className="text-xs">{event.timeframe}</Badge>
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(event.firedAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-sm mt-1">{event.message}</p>
+                {event.deliveries && Object.keys(event.deliveries).length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {Object.entries(event.deliveries).map(([channel, status]) => `${channel}: ${status}`).join(' · ')}
+                  </p>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default AlertInbox;
@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2, Plus } from 'lucide-react';
+import { toast } from '@/lib/toast';
+import { useAuth } from '@/context/AuthContext';
+import { useWatchlists } from '@/context/WatchlistContext';
+import { getAlertRules, saveAlertRule, setAlertRuleEnabled, deleteAlertRule } from '@/services/alertService';
+import {
+  AlertChannelType,
+  AlertCondition,
+  AlertRule,
+  AlertRuleParams,
+  HISTORY_INTERVAL_NAMES,
+  HistoryInterval
+} from '@/types/shared';
+
+const ALERT_CONDITION_NAMES: Record<AlertCondition, string> = {
+  wave_entered: 'Enters wave',
+  wave_changed: 'Starts any new wave',
+  wave_invalidated: 'Current wave invalidated',
+  fib_target_touched: 'Touches a Fibonacci target',
+  price_above: 'Price crosses above',
+  price_below: 'Price crosses below'
+};
+
+const WAVE_OPTIONS = ['1', '2', '3', '4', '5', 'A', 'B', 'C'];
+const RULE_TIMEFRAMES: HistoryInterval[] = ['1h', '4h', '1d', '1wk'];
+const CHANNEL_OPTIONS: { type: AlertChannelType; label: string }[] = [
+  { type: 'telegram', label: 'Telegram' },
+  { type: 'webhook', label: 'Webhook' }
+];
+
+// Scope select value for a single symbol (otherwise it holds a watchlist id)
+const SINGLE_SYMBOL = 'symbol';
+
+const describeRule = (rule: AlertRule, watchlistName?: string): string => {
+  const target = rule.symbol || `watchlist ${watchlistName || ''}`.trim();
+  const detail =
+    rule.condition === 'wave_entered' ? ` ${rule.params.wave}` :
+    rule.condition === 'price_above' || rule.condition === 'price_below' ? ` $${rule.params.price}` :
+    '';
+  return `${target} · ${ALERT_CONDITION_NAMES[rule.condition]}${detail} · ${rule.timeframe}`;
+};
+
+// Create, pause and delete the signed-in user's alert rules
+const AlertRulesManager: React.FC = () => {
+  const { user } = useAuth();
+  const { watchlists } = useWatchlists();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+
+  // New rule form
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState(SINGLE_SYMBOL);
+  const [symbol, setSymbol] = useState('');
+  const [timeframe, setTimeframe] = useState<HistoryInterval>('1d');
+  const [condition, setCondition] = useState<AlertCondition>('wave_entered');
+  const [wave, setWave] = useState('5');
+  const [price, setPrice] = useState('');
+  const [channels, setChannels] = useState<AlertChannelType[]>([]);
+  const [cooldownHours, setCooldownHours] = useState('24');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    if (!user) return;
+    try {
+      setRules(await getAlertRules(user.id));
+    } catch (error) {
+      console.error('Error loading alert rules:', error);
+      toast.error('Failed to load alert rules');
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleCreate = async () => {
+    if (!user) return;
+    const watchlistId = scope === SINGLE_SYMBOL ? null : scope;
+    if (!watchlistId && !symbol.trim()) {
+      toast.error('Enter a symbol or pick a watchlist');
+      return;
+    }
+
+    const params: AlertRuleParams = {};
+    if (condition === 'wave_entered') params.wave = wave;
+    if (condition === 'price_above' || condition === 'price_below') {
+      params.price = parseFloat(price);
+      if (!isFinite(params.price) || params.price <= 0) {
+        toast.error('Enter a valid price');
+        return;
+      }
+    }
+
+    const target = watchlistId ? watchlists.find(list => list.id === watchlistId)?.name : symbol.trim().toUpperCase();
+    setIsSaving(true);
+    try {
+      await saveAlertRule(user.id, {
+        name: name.trim() || `${target} ${ALERT_CONDITION_NAMES[condition].toLowerCase()}`,
+        symbol: watchlistId ? null : symbol,
+        watchlistId,
+        timeframe,
+        condition,
+        params,
+        channels,
+        enabled: true,
+        cooldownMinutes: Math.max(0, Math.round((parseFloat(cooldownHours) || 0) * 60))
+      });
+      toast.success('Alert rule created');
+      setName('');
+      setSymbol('');
+      setPrice('');
+      await loadRules();
+    } catch (error) {
+      console.error('Error saving alert rule:', error);
+      toast.error('Failed to save alert rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: AlertRule, enabled: boolean) => {
+    setRules(prev => prev.map(r => r.id === rule.id ? { ...r, enabled } : r));
+    try {
+      await setAlertRuleEnabled(rule.id, enabled);
+    } catch (error) {
+      console.error('Error updating alert rule:', error);
+      toast.error('Failed to update alert rule');
+      loadRules();
+    }
+  };
+
+  const removeRule = async (rule: AlertRule) => {
+    try {
+      await deleteAlertRule(rule.id);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+    } catch (error) {
+      console.error('Error deleting alert rule:', error);
+      toast.error('Failed to delete alert rule');
+    }
+  };
+
+  const toggleChannel = (type: AlertChannelType, checked: boolean) => {
+    setChannels(prev => checked ? [...prev, type] : prev.filter(c => c !== type));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* New rule */}
+      <div className="grid gap-3 sm:grid-cols-2 border rounded-md p-3">
+        <div className="grid gap-1">
+          <Label>Watch</Label>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SINGLE_SYMBOL}>A single symbol</SelectItem>
+              {watchlists.map(list => (
+                <SelectItem key={list.id} value={list.id}>Watchlist: {list.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {scope === SINGLE_SYMBOL && (
+          <div className="grid gap-1">
+            <Label htmlFor="alert-symbol">Symbol</Label>
+            <Input id="alert-symbol" value={symbol} onChange={(e) => setSymbol(e.target.value)} placeholder="AAPL" />
+          </div>
+        )}
+        <div className="grid gap-1">
+          <Label>When</Label>
+          <Select value={condition} onValueChange={(value) => setCondition(value as AlertCondition)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(ALERT_CONDITION_NAMES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {condition === 'wave_entered' && (
+          <div className="grid gap-1">
+            <Label>Wave</Label>
+            <Select value={wave} onValueChange={setWave}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {WAVE_OPTIONS.map(option => <SelectItem key={option} value={option}>Wave {option}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {(condition === 'price_above' || condition === 'price_below') && (
+          <div className="grid gap-1">
+            <Label htmlFor="alert-price">Price</Label>
+            <Input id="alert-price" type="number" step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} />
+          </div>
+        )}
+        <div className="grid gap-1">
+          <Label>Timeframe</Label>
+          <Select value={timeframe} onValueChange={(value) => setTimeframe(value as HistoryInterval)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {RULE_TIMEFRAMES.map(tf => <SelectItem key={tf} value={tf}>{HISTORY_INTERVAL_NAMES[tf]}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="alert-cooldown">Quiet period (hours)</Label>
+          <Input id="alert-cooldown" type="number" min="0" value={cooldownHours} onChange={(e) => setCooldownHours(e.target.value)} />
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="alert-name">Name (optional)</Label>
+          <Input id="alert-name" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div className="grid gap-1">
+          <Label>Also send to</Label>
+          <div className="flex gap-4 h-10 items-center">
+            {CHANNEL_OPTIONS.map(option => (
+              <label key={option.type} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={channels.includes(option.type)}
+                  onCheckedChange={(checked) => toggleChannel(option.type, checked === true)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="sm:col-span-2 flex justify-end">
+          <Button onClick={handleCreate} disabled={isSaving}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add rule
+          </Button>
+        </div>
+      </div>
+
+      {/* Existing rules */}
+      {rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center">No alert rules yet</p>
+      ) : (
+        <div className="divide-y border rounded-md">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between gap-3 p-3">
+              <div>
+                <div className="font-medium text-sm">{rule.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {describeRule(rule, watchlists.find(list => list.id === rule.watchlistId)?.name)}
+                  {rule.channels.length > 0 && ` · ${rule.channels.join(', ')}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch checked={rule.enabled} onCheckedChange={(checked) => toggleRule(rule, checked)} />
+                <Button variant="ghost" size="icon" onClick={() => removeRule(rule)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertRulesManager;
@@ -1,4 +1,4 @@
-import type { TooltipProps } from '@/types/chart';
+import type { TooltipProps } from '../../types/chart';
 
 // Wave colors for visualization - alternating colors for waves
 export const waveColors = [
@@ -12,6 +12,15 @@ export const waveColors = [
   '#00BCD4'  // Cyan for Wave C
 ];
 
+// Overlay colors, shared by StockDetailChart and the server-rendered chart images
+export const FIB_EXTENSION_COLOR = 'rgba(255, 152, 0, 0.9)';
+export const FIB_RETRACEMENT_COLOR = 'rgba(33, 150, 243, 0.9)';
+export const INVALID_WAVE_COLOR = 'rgba(255, 0, 0, 0.8)';
+export const CURRENT_PRICE_COLOR = 'rgba(255, 255, 255, 0.6)';
+
+// Fibonacci target lines run from the current wave's start to this many bars later
+export const FIB_TARGET_SPAN_BARS = 15;
+
 // Format tooltip values
 export const tooltipFormatter = (value: number, name: string, props: TooltipProps) => {
   if (name === 'close') {
@@ -1,5 +1,5 @@
-import { Wave, StockHistoricalData, ChartPoint } from '@/types/shared';
-import { WAVE_COLORS } from '@/types/shared';
+import { Wave, StockHistoricalData, ChartPoint, WaveDegree } from '../../types/shared';
+import { WAVE_COLORS, CORRECTION_PATTERN_NAMES } from '../../types/shared';
 
 export interface WaveLine {
   id: string;
@@ -18,12 +18,45 @@ export const getWaveColor = (waveNumber: string | number): string => {
     5: '#9C27B0', // Purple
     'A': '#FFEB3B', // Yellow
     'B': '#795548', // Brown
-    'C': '#00BCD4'  // Cyan
+    'C': '#00BCD4', // Cyan
+    'D': '#8BC34A', // Light green
+    'E': '#E91E63', // Pink
+    'W': '#FFC107', // Amber
+    'X': '#9E9E9E', // Grey
+    'Y': '#3F51B5'  // Indigo
   };
   
   return WAVE_COLORS[waveNumber] || '#FFFFFF';
 };
 
+// Conventional degree notation: circled for Primary, parenthesized for Intermediate,
+// and parenthesized lower-case roman numerals/letters for Minor
+const CIRCLED_WAVE_LABELS: Record<string, string> = {
+  '1': '①', '2': '②', '3': '③', '4': '④', '5': '⑤',
+  'A': 'Ⓐ', 'B': 'Ⓑ', 'C': 'Ⓒ', 'D': 'Ⓓ', 'E': 'Ⓔ',
+  'W': 'Ⓦ', 'X': 'Ⓧ', 'Y': 'Ⓨ'
+};
+
+const ROMAN_WAVE_LABELS: Record<string, string> = {
+  '1': 'i', '2': 'ii', '3': 'iii', '4': 'iv', '5': 'v'
+};
+
+// Format a wave number in the notation for its degree
+export const formatWaveLabel = (waveNumber: string | number, degree?: WaveDegree): string => {
+  const key = String(waveNumber);
+  
+  switch (degree) {
+    case 'Primary':
+      return CIRCLED_WAVE_LABELS[key] || key;
+    case 'Intermediate':
+      return `(${key})`;
+    case 'Minor':
+      return `(${ROMAN_WAVE_LABELS[key] || key.toLowerCase()})`;
+    default:
+      return key;
+  }
+};
+
 // Update this to determine if a wave is impulse or corrective
 export const isImpulseWave = (waveNumber: string | number): boolean => {
   // Impulse waves are usually odd-numbered (1, 3, 5) and 'A' and 'C'
@@ -144,14 +177,18 @@ export const getWavePatternDescription = (waves: Wave[]): string => {
   
   const waveNumbers = waves.map(w => w.number);
   
+  // Name the most recent correction whose pattern was identified
+  const patterned = [...waves].reverse().find(w => w.pattern);
+  const correction = patterned ? ` · Wave ${patterned.number} ${CORRECTION_PATTERN_NAMES[patterned.pattern!]}` : '';
+  
   if (waveNumbers.includes(5)) {
-    return "5-Wave Impulse Pattern";
+    return `5-Wave Impulse Pattern${correction}`;
   } else if (waveNumbers.includes('C')) {
-    return "A-B-C Corrective Pattern";
+    return `A-B-C Corrective Pattern${correction}`;
   } else if (waveNumbers.length >= 3) {
-    return `Wave Pattern: ${waveNumbers.join('-')}`;
+    return `Wave Pattern: ${waveNumbers.join('-')}${correction}`;
   } else {
-    return "Forming Wave Pattern";
+    return `Forming Wave Pattern${correction}`;
   }
   
   // If you format dates in this function
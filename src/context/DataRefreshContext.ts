@@ -1,4 +1,5 @@
   import { createContext, useContext } from 'react';
+import type { AssetClass } from '@/types/shared';
 
 // Type for refresh status
 type RefreshStatus = 'idle' | 'in-progress' | 'error';
@@ -18,7 +19,8 @@ export interface DataRefreshContextType {
   startBackgroundRefresh: () => Worker | null;
   stopBackgroundRefresh: () => void;
   // New function to refresh Elliott Wave analysis for all stocks
-  refreshElliottWaveAnalysis: (options?: { isScheduled?: boolean; ignoreCache?: boolean }) => Promise<boolean>;
+  // Limited to one asset class when given; crypto and forex run over their fixed universes
+  refreshElliottWaveAnalysis: (options?: { isScheduled?: boolean; ignoreCache?: boolean; assetClass?: AssetClass }) => Promise<boolean>;
 }
 
 // Create and export the context
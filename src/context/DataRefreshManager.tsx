@@ -4,6 +4,8 @@ import { useWaveAnalysis } from './WaveAnalysisContext';
 import { marketIndexes } from '@/config/marketIndexes';
 import { useAdminSettings } from './AdminSettingsContext';
 import { supabase } from '@/lib/supabase';
+import { ASSET_UNIVERSES, getAssetClass } from '@/utils/assetClasses';
+import type { AssetClass } from '@/types/shared';
 import { useToast } from '@/hooks/use-toast';
 import { DataRefreshContext, type DataRefreshContextType } from './DataRefreshContext';
 
@@ -495,7 +497,7 @@ export function DataRefreshProvider({ children }: { children: React.ReactNode })
   };
   
   // NEW: Function to perform Elliott Wave analysis refresh for all stocks
-  const refreshElliottWaveAnalysis = async (options: { isScheduled?: boolean; ignoreCache?: boolean } = {}) => {
+  const refreshElliottWaveAnalysis = async (options: { isScheduled?: boolean; ignoreCache?: boolean; assetClass?: AssetClass } = {}) => {
     try {
       console.log('📊 ELLIOTT WAVE ANALYSIS - ENTRY POINT REACHED', new Date().toISOString());
       console.log('📊 Function called with options:', JSON.stringify(options));
@@ -535,23 +537,30 @@ export function DataRefreshProvider({ children }: { children: React.ReactNode })
         ignoreCache: options.ignoreCache || false
       });
       
-      // Get all stocks from Supabase cache table
-      console.log('Fetching stock list from cache...');
-      const { data: stockCache, error: stocksError } = await supabase
-        .from('cache')
-        .select('key')
-        .like('key', 'stock_%');
+      let stockSymbols: string[];
+      if (options.assetClass && options.assetClass !== 'stocks') {
+        // Crypto and forex have fixed universes
+        stockSymbols = [...ASSET_UNIVERSES[options.assetClass]];
+      } else {
+        // Get all stocks from Supabase cache table
+        console.log('Fetching stock list from cache...');
+        const { data: stockCache, error: stocksError } = await supabase
+          .from('cache')
+          .select('key')
+          .like('key', 'stock_%');
+          
+        if (stocksError) {
+          console.error('Error fetching stock cache:', stocksError);
+          throw new Error(`Failed to fetch stocks: ${stocksError.message}`);
+        }
         
-      if (stocksError) {
-        console.error('Error fetching stock cache:', stocksError);
-        throw new Error(`Failed to fetch stocks: ${stocksError.message}`);
+        // Extract stock symbols from the cache keys
+        stockSymbols = stockCache
+          .map(entry => entry.key.replace(/^stock_/, ''))
+          .filter(Boolean)  // Remove any empty values
+          .filter(symbol => !options.assetClass || getAssetClass(symbol) === options.assetClass);
       }
       
-      // Extract stock symbols from the cache keys
-      const stockSymbols = stockCache
-        .map(entry => entry.key.replace(/^stock_/, ''))
-        .filter(Boolean);  // Remove any empty values
-      
       console.log(`Found ${stockSymbols.length} stocks to analyze`);
       console.log('First 5 symbols:', stockSymbols.slice(0, 5).join(', '));
       
@@ -594,7 +603,7 @@ export function DataRefreshProvider({ children }: { children: React.ReactNode })
           
           // Fetch historical data using a relative URL to avoid CSP issues
           // Use a relative path instead of an absolute URL to work with existing CSP
-          const url = `/api/stocks/${symbol}/history`;
+          const url = `/api/stocks/${encodeURIComponent(symbol)}/history`;
 
           console.log(`Fetching historical data for ${symbol} using relative path: ${url}`);
 
@@ -655,20 +664,15 @@ export function DataRefreshProvider({ children }: { children: React.ReactNode })
           // CHANGED: Use our built-in Elliott Wave algorithm instead of DeepSeek API
           console.log(`Using built-in Elliott Wave algorithm for ${symbol}`);
           
-          // Import the Elliott Wave analysis function dynamically
-          const { analyzeElliottWaves } = await import('@/utils/elliottWaveAnalysis');
+          // Full-resolution history is analyzed in a Web Worker so the UI stays responsive
+          const { analyzeElliottWavesInWorker } = await import('@/utils/elliottWaveWorker');
           
-          // Create a check function for cancellation - always returns false here since we don't support cancellation in this context
-          const isCancelled = () => false;
-          
-          // Call the Elliott Wave analysis function directly
           console.log(`Starting Elliott Wave analysis for ${symbol} with ${historicalData.length} data points`);
           const analysisStartTime = Date.now();
           
-          const analysisResult = await analyzeElliottWaves(
+          const analysisResult = await analyzeElliottWavesInWorker(
             symbol,
             historicalData,
-            isCancelled, // isCancelled function that always returns false
             (waves) => {
               // The progress callback takes a Wave[] array, not a number
               // Calculate progress from the waves array length if needed
@@ -679,8 +683,7 @@ export function DataRefreshProvider({ children }: { children: React.ReactNode })
                 progress: Math.floor((i / stockSymbols.length) * 100),
                 timestamp: Date.now()
               });
-            },
-            false // verbose mode off
+            }
           );
           
           const analysisDuration = Date.now() - analysisStartTime;
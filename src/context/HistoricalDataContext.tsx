@@ -12,7 +12,7 @@ function normalizeTimestamp(timestamp: number | string | undefined): number {
 interface HistoricalDataContextValue {
   historicalData: Record<string, StockHistoricalData[]>;
   getHistoricalData: (symbol: string, timeframe?: string, forceRefresh?: boolean) => Promise<StockHistoricalData[]>;
-  preloadHistoricalData: (symbols: string[]) => Promise<void>;
+  preloadHistoricalData: (symbols: string[], timeframe?: string) => Promise<void>;
   clearHistoricalData: (symbol?: string) => void;
 }
 
@@ -56,16 +56,17 @@ export function HistoricalDataProvider({ children }: { children: React.ReactNode
     }
   }, [historicalData]);
 
-  const preloadHistoricalData = useCallback(async (symbols: string[]): Promise<void> => {
-    await Promise.all(symbols.map(symbol => getHistoricalData(symbol)));
+  const preloadHistoricalData = useCallback(async (symbols: string[], timeframe: string = '1d'): Promise<void> => {
+    await Promise.all(symbols.map(symbol => getHistoricalData(symbol, timeframe)));
   }, [getHistoricalData]);
 
   const clearHistoricalData = useCallback((symbol?: string) => {
     if (symbol) {
       setHistoricalData(prev => {
         const newData = {...prev};
+        // Every timeframe of the symbol (keys are SYMBOL_timeframe)
         Object.keys(newData).forEach(key => {
-          if (key.startsWith(symbol)) {
+          if (key.startsWith(`${symbol}_`)) {
             delete newData[key];
           }
         });
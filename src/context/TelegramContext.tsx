@@ -2,6 +2,7 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 // Fix: Remove incorrect WebApp import
 // Using window.Telegram.WebApp directly instead
 import { supabase } from '@/lib/supabase'; // Add import for supabase
+import { TELEGRAM_BOT_COMMANDS } from '@/types/shared';
 
 interface TelegramContextType {
   isTelegram: boolean;
@@ -304,14 +305,9 @@ export const TelegramProvider: React.FC<TelegramProviderProps> = ({ children, bo
   };
 
   // Set default commands for the bot
+  // Same list the API's bot webhook answers
   const setDefaultBotCommands = async () => {
-    const defaultCommands: BotCommand[] = [
-      { command: '/start', description: 'Start the bot' },
-      { command: '/help', description: 'Show help information' },
-      { command: '/analyze', description: 'Analyze the current chart' },
-    ];
-
-    await setCommands(defaultCommands);
+    await setCommands(TELEGRAM_BOT_COMMANDS);
   };
 
   // Handle incoming group messages
@@ -334,7 +330,8 @@ export const TelegramProvider: React.FC<TelegramProviderProps> = ({ children, bo
           sendMessage(chatId, 'Hello! I am the Wave Analyzer bot. Use /help to see available commands.');
           break;
         case '/help':
-          sendMessage(chatId, 'Available commands:\n/start - Start the bot\n/help - Show this help message\n/analyze - Analyze the current chart');
+          sendMessage(chatId, 'Available commands:\n' +
+            TELEGRAM_BOT_COMMANDS.map(c => `${c.command} - ${c.description}`).join('\n'));
           break;
         case '/analyze':
           sendMessage(chatId, 'To analyze a chart, please use the Wave Analyzer Mini App.');
@@ -0,0 +1,176 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { toast } from '@/lib/toast';
+import type { Watchlist } from '@/types/shared';
+import { useAuth } from '@/context/AuthContext';
+import {
+  getWatchlists,
+  ensureDefaultWatchlist,
+  createWatchlist,
+  renameWatchlist,
+  deleteWatchlist,
+  addWatchlistSymbol,
+  removeWatchlistSymbol,
+  updateWatchlistNotes,
+  reorderWatchlist
+} from '@/services/watchlistService';
+
+// Remembers the chosen list between visits
+const ACTIVE_WATCHLIST_STORAGE_KEY = 'active_watchlist_id';
+
+interface WatchlistContextType {
+  watchlists: Watchlist[];
+  isLoading: boolean;
+  activeWatchlistId: string | null;              // null: no list chosen, show every analyzed symbol
+  activeWatchlist: Watchlist | null;
+  activeSymbols: string[] | null;                // Symbols of the chosen list, or null for all
+  setActiveWatchlistId: (watchlistId: string | null) => void;
+  refreshWatchlists: () => Promise<void>;
+  createList: (name: string) => Promise<Watchlist | null>;
+  renameList: (watchlistId: string, name: string) => Promise<void>;
+  deleteList: (watchlistId: string) => Promise<void>;
+  addSymbol: (watchlistId: string, symbol: string, notes?: string) => Promise<void>;
+  removeSymbol: (watchlistId: string, symbol: string) => Promise<void>;
+  updateNotes: (watchlistId: string, symbol: string, notes: string) => Promise<void>;
+  moveSymbol: (watchlistId: string, symbol: string, offset: -1 | 1) => Promise<void>;
+}
+
+const WatchlistContext = createContext<WatchlistContextType | undefined>(undefined);
+
+export const useWatchlists = () => {
+  const context = useContext(WatchlistContext);
+  if (context === undefined) {
+    throw new Error('useWatchlists must be used within a WatchlistProvider');
+  }
+  return context;
+};
+
+export const WatchlistProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeWatchlistId, setActiveWatchlistIdState] = useState<string | null>(() => {
+    try {
+      return localStorage.getItem(ACTIVE_WATCHLIST_STORAGE_KEY);
+    } catch (e) {
+      return null;
+    }
+  });
+
+  const setActiveWatchlistId = useCallback((watchlistId: string | null) => {
+    setActiveWatchlistIdState(watchlistId);
+    try {
+      if (watchlistId) {
+        localStorage.setItem(ACTIVE_WATCHLIST_STORAGE_KEY, watchlistId);
+      } else {
+        localStorage.removeItem(ACTIVE_WATCHLIST_STORAGE_KEY);
+      }
+    } catch (e) {
+      // Ignore storage errors
+    }
+  }, []);
+
+  const refreshWatchlists = useCallback(async () => {
+    if (!user?.id) {
+      setWatchlists([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // First visit after the switch: start from the old shared favorites
+      await ensureDefaultWatchlist(user.id);
+      setWatchlists(await getWatchlists(user.id));
+    } catch (error) {
+      console.error('Error loading watchlists:', error);
+      toast.error('Failed to load watchlists');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    refreshWatchlists();
+  }, [refreshWatchlists]);
+
+  // Runs a change and reloads the lists, reporting failures the same way for every action
+  const mutate = useCallback(async (action: () => Promise<unknown>, failureMessage: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      toast.error(failureMessage);
+    } finally {
+      await refreshWatchlists();
+    }
+  }, [refreshWatchlists]);
+
+  const createList = useCallback(async (name: string): Promise<Watchlist | null> => {
+    if (!user?.id || !name.trim()) return null;
+    let created: Watchlist | null = null;
+    await mutate(async () => {
+      created = await createWatchlist(user.id, name);
+    }, `Failed to create watchlist "${name.trim()}"`);
+    return created;
+  }, [user?.id, mutate]);
+
+  const renameList = useCallback((watchlistId: string, name: string) =>
+    mutate(() => renameWatchlist(watchlistId, name), 'Failed to rename watchlist'), [mutate]);
+
+  const deleteList = useCallback(async (watchlistId: string) => {
+    await mutate(() => deleteWatchlist(watchlistId), 'Failed to delete watchlist');
+    if (watchlistId === activeWatchlistId) setActiveWatchlistId(null);
+  }, [mutate, activeWatchlistId, setActiveWatchlistId]);
+
+  const addSymbol = useCallback(async (watchlistId: string, symbol: string, notes?: string) => {
+    const watchlist = watchlists.find(list => list.id === watchlistId);
+    if (!watchlist) return;
+    await mutate(() => addWatchlistSymbol(watchlist, symbol, notes), `Failed to add ${symbol.toUpperCase()}`);
+  }, [watchlists, mutate]);
+
+  const removeSymbol = useCallback((watchlistId: string, symbol: string) =>
+    mutate(() => removeWatchlistSymbol(watchlistId, symbol), `Failed to remove ${symbol}`), [mutate]);
+
+  const updateNotes = useCallback((watchlistId: string, symbol: string, notes: string) =>
+    mutate(() => updateWatchlistNotes(watchlistId, symbol, notes), `Failed to save notes for ${symbol}`), [mutate]);
+
+  const moveSymbol = useCallback(async (watchlistId: string, symbol: string, offset: -1 | 1) => {
+    const symbols = watchlists.find(list => list.id === watchlistId)?.items.map(item => item.symbol) || [];
+    const from = symbols.indexOf(symbol);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= symbols.length) return;
+
+    [symbols[from], symbols[to]] = [symbols[to], symbols[from]];
+    await mutate(() => reorderWatchlist(watchlistId, symbols), 'Failed to reorder watchlist');
+  }, [watchlists, mutate]);
+
+  const activeWatchlist = useMemo(
+    () => watchlists.find(list => list.id === activeWatchlistId) || null,
+    [watchlists, activeWatchlistId]
+  );
+
+  const activeSymbols = useMemo(
+    () => activeWatchlist ? activeWatchlist.items.map(item => item.symbol) : null,
+    [activeWatchlist]
+  );
+
+  return (
+    <WatchlistContext.Provider value={{
+      watchlists,
+      isLoading,
+      activeWatchlistId: activeWatchlist ? activeWatchlistId : null,
+      activeWatchlist,
+      activeSymbols,
+      setActiveWatchlistId,
+      refreshWatchlists,
+      createList,
+      renameList,
+      deleteList,
+      addSymbol,
+      removeSymbol,
+      updateNotes,
+      moveSymbol
+    }}>
+      {children}
+    </WatchlistContext.Provider>
+  );
+};
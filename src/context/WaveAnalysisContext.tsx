@@ -1,9 +1,10 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
-import { WaveAnalysis, WaveAnalysisResult, Wave, DeepSeekWaveAnalysis } from '@/types/shared';
+import { WaveAnalysis, WaveAnalysisResult, Wave, DeepSeekWaveAnalysis, PivotDetector } from '@/types/shared';
 import { getDeepSeekWaveAnalysis } from '@/api/deepseekApi';
 import { getCachedWaveAnalysis, convertDeepSeekToWaveAnalysis } from '@/utils/wave-analysis';
 import { supabase } from '@/lib/supabase';
 import { getAllWaveAnalyses, saveToCache } from '@/services/cacheService';
+import { recordPredictionSnapshot } from '@/services/predictionService';
 
 // Global flags to track the loading state across component mounts/unmounts
 let isLoadingCacheData = false;
@@ -23,7 +24,7 @@ interface WaveAnalysisContextType {
   error: Error | null;
   fetchAnalysis: (symbol: string) => Promise<void>;
   analyses: Record<string, WaveAnalysisResult>;
-  getAnalysis: (symbol: string) => WaveAnalysisResult | null;
+  getAnalysis: (symbol: string, timeframe?: string) => WaveAnalysisResult | null;
   allAnalyses: Record<string, { 
     analysis: WaveAnalysisResult;
     timestamp: number;
@@ -36,7 +37,7 @@ interface WaveAnalysisContextType {
   clearCache: () => void;
   loadCacheTableData: (forceRefresh?: boolean) => Promise<void>;
   waveAnalysesCache: Record<string, WaveAnalysisResult>; // Add missing property
-  refreshStockAnalysis: (symbol: string) => Promise<boolean>; // Add new function
+  refreshStockAnalysis: (symbol: string, pivotDetector?: PivotDetector, timeframe?: string) => Promise<boolean>; // Add new function
 }
 
 const WaveAnalysisContext = createContext<WaveAnalysisContextType | undefined>(undefined);
@@ -84,8 +85,10 @@ export function WaveAnalysisProvider({ children }: { children: React.ReactNode }
     }
   };
 
-  const getAnalysis = (symbol: string) => {
-    return analyses[symbol] || null;
+  // Analyses are keyed by symbol and bar interval (SYMBOL:timeframe)
+  const getAnalysis = (symbol: string, timeframe: string = '1d') => {
+    const key = `${symbol}:${timeframe}`;
+    return analyses[key] || allAnalyses[key]?.analysis || null;
   };
 
   const loadAllAnalysesFromSupabase = async () => {
@@ -139,9 +142,9 @@ export function WaveAnalysisProvider({ children }: { children: React.ReactNode }
   };
 
   // New function to refresh a single stock analysis using local algorithm
-  const refreshStockAnalysis = async (symbol: string): Promise<boolean> => {
+  const refreshStockAnalysis = async (symbol: string, pivotDetector?: PivotDetector, timeframe: string = '1d'): Promise<boolean> => {
     try {
-      console.log(`[RefreshStock] Starting refresh for ${symbol}`);
+      console.log(`[RefreshStock] Starting refresh for ${symbol} (${timeframe})`);
       
       // Add event to show analysis has started
       setAnalysisEvents(prev => [
@@ -160,8 +163,8 @@ export function WaveAnalysisProvider({ children }: { children: React.ReactNode }
           // Import the fetchHistoricalData function from yahooFinanceService
           const { fetchHistoricalData } = await import('@/services/yahooFinanceService');
           
-          console.log(`[RefreshStock] Fetching historical data for ${symbol}`);
-          return await fetchHistoricalData(symbol, '1d');
+          console.log(`[RefreshStock] Fetching ${timeframe} historical data for ${symbol}`);
+          return await fetchHistoricalData(symbol, timeframe);
         } catch (error) {
           console.error(`[RefreshStock] Failed to fetch historical data: ${error.message}`);
           throw new Error(`Failed to get historical data for analysis: ${error.message}`);
@@ -185,10 +188,10 @@ export function WaveAnalysisProvider({ children }: { children: React.ReactNode }
 
       // Import the local Elliott Wave analysis function
       console.log(`[RefreshStock] Performing local Elliott Wave analysis for ${symbol}`);
-      const { analyzeElliottWaves } = await import('@/utils/elliottWaveAnalysis');
+      const { analyzeElliottWavesInWorker } = await import('@/utils/elliottWaveWorker');
       
-      // Run the Elliott Wave analysis on the historical data with the correct parameters
-      const waveAnalysis = await analyzeElliottWaves(symbol, historicalData);
+      // Run the Elliott Wave analysis on the full-resolution history, off the main thread
+      const waveAnalysis = await analyzeElliottWavesInWorker(symbol, historicalData, undefined, pivotDetector);
       
       console.log(`[RefreshStock] Analysis complete for ${symbol}:`, waveAnalysis);
       
@@ -318,13 +321,13 @@ export function WaveAnalysisProvider({ children }: { children: React.ReactNode }
         // Update analyses state with the new analysis
         setAnalyses(prev => ({
           ...prev,
-          [`${symbol}:1d`]: typedAnalysis
+          [`${symbol}:${timeframe}`]: typedAnalysis
         }));
         
         // Update the allAnalyses state too
         setAllAnalyses(prev => ({
           ...prev,
-          [`${symbol}:1d`]: {
+          [`${symbol}:${timeframe}`]: {
             analysis: typedAnalysis,
             timestamp: Date.now(),
             isLoaded: true
@@ -333,7 +336,7 @@ export function WaveAnalysisProvider({ children }: { children: React.ReactNode }
         
         // SAVE TO SUPABASE CACHE - Default cache duration is 7 days
         const CACHE_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
-        const cacheKey = `wave_analysis_${symbol}_1d`;
+        const cacheKey = `wave_analysis_${symbol}_${timeframe}`;
         
         try {
           console.log(`[RefreshStock] Saving analysis for ${symbol} to Supabase cache`);
@@ -343,6 +346,10 @@ export function WaveAnalysisProvider({ children }: { children: React.ReactNode }
           // Just log the error but continue - not critical for the function to succeed
           console.error(`[RefreshStock] Error saving to Supabase cache: ${cacheError.message}`);
         }
+
+        // Keep what this run predicts so its targets can be scored later - not critical either
+        recordPredictionSnapshot(symbol, timeframe, typedAnalysis, historicalData)
+          .catch(error => console.error(`[RefreshStock] Error recording prediction snapshot: ${error.message}`));
         
         // Add event to show analysis is complete
         setAnalysisEvents(prev => [
@@ -520,6 +527,11 @@ export function WaveAnalysisProvider({ children }: { children: React.ReactNode }
                   endTimestamp: endTimestamp,
                   type: completedWave.type || 
                         (['1', '3', '5', 'A', 'C'].includes(String(completedWave.number)) ? 'impulse' : 'corrective'),
+                  subwaves: completedWave.subwaves,
+                  degree: completedWave.degree,
+                  pattern: completedWave.pattern,
+                  diagonal: completedWave.diagonal,
+                  ruleChecks: completedWave.ruleChecks,
                   isComplete: true
                 });
                 
@@ -561,6 +573,11 @@ export function WaveAnalysisProvider({ children }: { children: React.ReactNode }
                endPrice: undefined, // Current wave cannot have end price/time
                endTimestamp: undefined,
                type: ['1', '3', '5', 'A', 'C'].includes(String(analysisData.currentWave.number)) ? 'impulse' : 'corrective',
+               subwaves: analysisData.currentWave.subwaves,
+               degree: analysisData.currentWave.degree,
+               pattern: analysisData.currentWave.pattern,
+               diagonal: analysisData.currentWave.diagonal,
+               ruleChecks: analysisData.currentWave.ruleChecks,
                isComplete: false // Current wave is never complete by definition
              };
 
@@ -595,11 +612,17 @@ export function WaveAnalysisProvider({ children }: { children: React.ReactNode }
             currentWave: !isSequenceComplete ? processedCurrentWave : null,
             fibTargets: Array.isArray(analysisData.fibTargets) ? analysisData.fibTargets : [],
             trend: analysisData.trend || 'neutral',
+            direction: analysisData.direction === 'bearish' ? 'bearish' : 'bullish',
+            pivotDetector: analysisData.pivotDetector,
             impulsePattern: analysisData.impulsePattern || false,
             correctivePattern: analysisData.correctivePattern || false,
             invalidWaves: analysisData.invalidWaves || [],
             analysis: analysisData.analysis,
-            stopLoss: analysisData.stopLoss
+            stopLoss: analysisData.stopLoss,
+            confidence: typeof analysisData.confidence === 'number' ? analysisData.confidence : undefined,
+            confidenceLevel: analysisData.confidenceLevel,
+            waveCounts: Array.isArray(analysisData.waveCounts) ? analysisData.waveCounts : undefined,
+            ruleChecks: Array.isArray(analysisData.ruleChecks) ? analysisData.ruleChecks : undefined
           };
 
           // Only add if we have at least one wave
@@ -19,6 +19,12 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   }
 });
 
+// Authorization header for API routes that only admins may call (the server jobs)
+export const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {};
+};
+
 // Get the redirect URL
 export const getRedirectUrl = () => {
   const isProd = import.meta.env.PROD;
@@ -9,7 +9,7 @@ import { getAllAnalyses, clearAllAnalyses } from '@/services/databaseService';
 import { toast } from '@/lib/toast';
 import { storageHelpers } from '@/lib/storage-monitor'; // Import the storage helpers
 import { ArrowLeft, Trash2, RefreshCw, Database, Clock, BarChart3, Activity, LineChart, Loader2, 
-         Search, X, Cog, Users } from 'lucide-react';
+         Search, X, Cog, Users, Target } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { useWaveAnalysis } from '@/context/WaveAnalysisContext';
@@ -35,8 +35,10 @@ import {
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
-import { FavoritesManager } from '@/components/FavoritesManager';
+import { WatchlistManager } from '@/components/WatchlistManager';
 import UserManagement from '@/components/admin/UserManagement';
+import BacktestPanel from '@/components/admin/BacktestPanel';
+import PredictionAccuracyPanel from '@/components/admin/PredictionAccuracyPanel';
 
 // Store the original console methods to restore them later
 const originalConsole = {
@@ -722,15 +724,6 @@ const analyzeWaves = useCallback(async () => {
       // Process stocks in small chunks to provide better UI feedback
       const symbolsToProcess = topStocksFromAPI.map(stock => stock.symbol);
       
-      // Initialize favorites to an empty array if null
-      const { data: favoritesData } = await supabase
-        .from('cache')
-        .select('data')
-        .eq('key', 'favorite_stocks')
-        .single();
-      
-      const favoriteSymbols = (favoritesData?.data || []) as string[];
-      
       // Initialize progress tracking with empty processedSymbols array
       setHistoryLoadProgress({
         total: symbolsToProcess.length,
@@ -740,10 +733,6 @@ const analyzeWaves = useCallback(async () => {
         processedSymbols: [] // Initialize processedSymbols as an empty array
       });
       
-      // Track which favorites are invalid to remove later
-      let invalidFavorites: string[] = [];
-      let validFavorites: string[] = [];
-      
       // Process the limited list of symbols
       let completed = 0;
       let failed = 0;
@@ -850,58 +839,12 @@ const analyzeWaves = useCallback(async () => {
             
             completed++;
             
-            // If this is a favorite, mark it as valid
-            if (favoriteSymbols.includes(symbol)) {
-              validFavorites.push(symbol);
-            }
-            
             console.log(`Stored ${symbol} data in Supabase (${formattedData.length} points)`);
           } catch (error) {
             console.error(`Failed to load data for ${symbol}:`, error);
             errors.push(`${symbol}: ${error.message}`);
             failed++;
 
-            // Check if this is a favorite stock
-            const isFavorite = favoriteSymbols.includes(symbol);
-            
-            // For HTTP 500 errors, always add to invalidFavorites if it's a favorite
-            const isServerError = error.message && (
-              error.message.includes("500") || 
-              error.message.includes("API returned status 500")
-            );
-            
-            if (isFavorite) {
-              console.log(`Adding ${symbol} to invalidFavorites list - is server error: ${isServerError}`);
-              invalidFavorites.push(symbol);
-              
-              // IMPORTANT: Immediately remove from favorites when error occurs
-              try {
-                // Get the current favorites list right now
-                const { data: currentFavs } = await supabase
-                  .from('cache')
-                  .select('data')
-                  .eq('key', 'favorite_stocks')
-                  .single();
-                  
-                if (currentFavs && Array.isArray(currentFavs.data)) {
-                  // Remove the invalid symbol
-                  const updatedFavorites = (currentFavs.data as string[]).filter(s => s !== symbol);
-                  
-                  // Update favorites in Supabase
-                  await supabase
-                    .from('cache')
-                    .upsert({
-                      key: 'favorite_stocks',
-                      data: updatedFavorites,
-                      timestamp: Date.now(),
-                      duration: 365 * 24 * 60 * 60 * 1000, // 1 year
-                      is_string: false
-                    }, { onConflict: 'key' });
-                }
-              } catch (favError) {
-                console.error(`Failed to update favorites after removing ${symbol}:`, favError);
-              }
-            }
           } finally {
             // Update progress regardless of success or failure
             setHistoryLoadProgress(prev => ({
@@ -1633,6 +1576,14 @@ const saveSettings = useCallback(async (settings: {
                 <Users className="h-4 w-4 mr-2" />
                 User Management
               </TabsTrigger>
+              <TabsTrigger value="backtest" className="flex-1 justify-start">
+                <LineChart className="h-4 w-4 mr-2" />
+                Backtest
+              </TabsTrigger>
+              <TabsTrigger value="predictions" className="flex-1 justify-start">
+                <Target className="h-4 w-4 mr-2" />
+                Prediction Accuracy
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="waves" className="border rounded-md p-2 sm:p-4 min-h-[500px]">
@@ -1771,6 +1722,14 @@ const saveSettings = useCallback(async (settings: {
             <TabsContent value="users" className="border rounded-md p-4 min-h-[500px]">
               <UserManagement />
             </TabsContent>
+            
+            <TabsContent value="backtest" className="border rounded-md p-4 min-h-[500px]">
+              <BacktestPanel />
+            </TabsContent>
+
+            <TabsContent value="predictions" className="border rounded-md p-4 min-h-[500px]">
+              <PredictionAccuracyPanel />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -1894,7 +1853,7 @@ const SettingsDialog = ({
         <Tabs value={activeTab} onValueChange={setActiveTab} className="mt-2">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="settings">General Settings</TabsTrigger>
-            <TabsTrigger value="favorites">Favorites</TabsTrigger>
+            <TabsTrigger value="watchlists">Watchlists</TabsTrigger>
           </TabsList>
           
           <TabsContent value="settings" className="space-y-6 mt-4">
@@ -1957,14 +1916,14 @@ const SettingsDialog = ({
             </div>
           </TabsContent>
           
-          <TabsContent value="favorites" className="mt-4">
+          <TabsContent value="watchlists" className="mt-4">
             <div className="space-y-3">
-              <h4 className="text-sm font-medium">Favorite Stocks</h4>
+              <h4 className="text-sm font-medium">Your Watchlists</h4>
               <p className="text-xs text-muted-foreground">
-                Add stocks that should always be included in analysis regardless of market cap.
+                Lists are private to your account. The dashboard and scheduled analysis can be limited to one of them.
               </p>
-              <div className="border rounded-md p-3 max-h-[300px] overflow-auto">
-                <FavoritesManager onFavoritesChange={loadSettings} />
+              <div className="border rounded-md p-3 max-h-[420px] overflow-auto">
+                <WatchlistManager />
               </div>
             </div>
           </TabsContent>
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import AlertInbox from '@/components/alerts/AlertInbox';
+import AlertRulesManager from '@/components/alerts/AlertRulesManager';
+import AlertChannelsSettings from '@/components/alerts/AlertChannelsSettings';
+
+const AlertsPage = () => {
+  return (
+    <div className="container max-w-2xl py-10">
+      <h1 className="text-3xl font-bold mb-2">Alerts</h1>
+      <p className="text-sm text-muted-foreground mb-6">
+        Rules are checked after each scheduled analysis run. Every alert lands in your inbox.
+      </p>
+
+      <Tabs defaultValue="inbox">
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="inbox">Inbox</TabsTrigger>
+          <TabsTrigger value="rules">Rules</TabsTrigger>
+          <TabsTrigger value="channels">Channels</TabsTrigger>
+        </TabsList>
+        <TabsContent value="inbox" className="mt-4">
+          <AlertInbox />
+        </TabsContent>
+        <TabsContent value="rules" className="mt-4">
+          <AlertRulesManager />
+        </TabsContent>
+        <TabsContent value="channels" className="mt-4">
+          <AlertChannelsSettings />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default AlertsPage;
@@ -0,0 +1,121 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { toast } from '@/lib/toast';
+import { useAuth } from '@/context/AuthContext';
+import { deleteJournalEntry, getTradeJournal, updateJournalEntry } from '@/services/tradeJournalService';
+import { formatPriceValue } from '@/utils/assetClasses';
+import type { TradeJournalEntry, TradeJournalStatus } from '@/types/shared';
+
+const STATUS_NAMES: Record<TradeJournalStatus, string> = {
+  planned: 'Planned',
+  taken: 'Taken',
+  skipped: 'Skipped'
+};
+
+const JournalPage = () => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<TradeJournalEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEntries = useCallback(async () => {
+    if (!user) return;
+    try {
+      setEntries(await getTradeJournal(user.id));
+    } catch (error) {
+      console.error('Error loading trade journal:', error);
+      toast.error('Failed to load your journal');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const setStatus = async (entry: TradeJournalEntry, status: TradeJournalStatus) => {
+    setEntries(prev => prev.map(e => e.id === entry.id ? { ...e, status } : e));
+    try {
+      await updateJournalEntry(entry.id, { status });
+    } catch (error) {
+      console.error('Error updating journal entry:', error);
+      toast.error('Failed to update journal entry');
+      loadEntries();
+    }
+  };
+
+  const removeEntry = async (entry: TradeJournalEntry) => {
+    try {
+      await deleteJournalEntry(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (error) {
+      console.error('Error deleting journal entry:', error);
+      toast.error('Failed to delete journal entry');
+    }
+  };
+
+  return (
+    <div className="container max-w-3xl py-10">
+      <h1 className="text-3xl font-bold mb-2">Trade Journal</h1>
+      <p className="text-sm text-muted-foreground mb-6">
+        Trade plans saved from a stock's wave count. Mark each one as taken or skipped to keep track of your setups.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No saved plans yet. Open a stock and use "Save to journal" in its trade plan.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {entries.map(entry => (
+            <Card key={entry.id}>
+              <CardContent className="pt-4 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Link to={`/stocks/${entry.symbol}`} className="font-semibold hover:underline">{entry.symbol}</Link>
+                  <Badge variant={entry.direction === 'long' ? 'default' : 'secondary'}>{entry.direction}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {entry.timeframe}{entry.waveNumber ? ` · wave ${entry.waveNumber}` : ''} · {new Date(entry.createdAt).toLocaleDateString()}
+                  </span>
+                  <div className="ml-auto flex items-center gap-1">
+                    <Select value={entry.status} onValueChange={(value) => setStatus(entry, value as TradeJournalStatus)}>
+                      <SelectTrigger className="h-8 w-[110px] text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(STATUS_NAMES).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="icon" onClick={() => removeEntry(entry)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="text-sm">
+                  {entry.shares} shares @ {formatPriceValue(entry.entry, entry.symbol)}, stop {formatPriceValue(entry.stop, entry.symbol)},
+                  risking {entry.riskAmount.toFixed(2)} ({entry.riskPct}% of {entry.accountSize.toLocaleString()}) for {entry.blendedR.toFixed(2)}R
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Targets: {entry.targets.map(target =>
+                    `${target.label} ${formatPriceValue(target.price, entry.symbol)} × ${target.shares} (${target.rMultiple.toFixed(1)}R)`
+                  ).join(' · ')}
+                </div>
+                {entry.notes && <p className="text-sm italic">{entry.notes}</p>}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JournalPage;
@@ -0,0 +1,359 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw, Trash2, X } from 'lucide-react';
+import { toast } from '@/lib/toast';
+import { useAuth } from '@/context/AuthContext';
+import { useWaveAnalysis } from '@/context/WaveAnalysisContext';
+import { fetchStockQuotes } from '@/services/yahooFinanceService';
+import {
+  closePaperPosition,
+  deletePaperPosition,
+  getPaperPortfolio,
+  markPaperPositions,
+  openPaperPosition,
+  setStartingCash
+} from '@/services/paperTradingService';
+import { getPositionPnl, summarizePortfolio } from '@/utils/paperTrading';
+import { formatPriceValue } from '@/utils/assetClasses';
+import type { PaperPosition } from '@/types/shared';
+
+const EXIT_REASON_NAMES = { stop: 'Stopped', target: 'Target hit', manual: 'Closed' };
+
+const formatMoney = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const pnlClass = (value: number) => value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : '';
+
+const PortfolioPage = () => {
+  const { user } = useAuth();
+  const { getAnalysis } = useWaveAnalysis();
+  const [startingCash, setStartingCashState] = useState(0);
+  const [cashInput, setCashInput] = useState('');
+  const [positions, setPositions] = useState<PaperPosition[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isMarking, setIsMarking] = useState(false);
+
+  // New position form
+  const [symbol, setSymbol] = useState('');
+  const [direction, setDirection] = useState<'long' | 'short'>('long');
+  const [quantity, setQuantity] = useState('');
+  const [stopPrice, setStopPrice] = useState('');
+  const [targetPrice, setTargetPrice] = useState('');
+  const [isOpening, setIsOpening] = useState(false);
+
+  const markToMarket = useCallback(async (current: PaperPosition[]) => {
+    setIsMarking(true);
+    try {
+      const marked = await markPaperPositions(current);
+      const closed = marked.filter((position, index) => position.status !== current[index].status);
+      closed.forEach(position => toast.info(
+        `${position.symbol} ${position.exitReason === 'stop' ? 'stopped out' : 'reached its target'} at ${formatPriceValue(position.exitPrice, position.symbol)}`
+      ));
+      setPositions(marked);
+    } catch (error) {
+      console.error('Error marking paper positions:', error);
+      toast.error('Failed to update prices');
+    } finally {
+      setIsMarking(false);
+    }
+  }, []);
+
+  const loadPortfolio = useCallback(async () => {
+    if (!user) return;
+    try {
+      const portfolio = await getPaperPortfolio(user.id);
+      setStartingCashState(portfolio.startingCash);
+      setCashInput(String(portfolio.startingCash));
+      setPositions(portfolio.positions);
+      await markToMarket(portfolio.positions);
+    } catch (error) {
+      console.error('Error loading paper portfolio:', error);
+      toast.error('Failed to load your portfolio');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, markToMarket]);
+
+  useEffect(() => {
+    loadPortfolio();
+  }, [loadPortfolio]);
+
+  const summary = useMemo(() => summarizePortfolio(startingCash, positions), [startingCash, positions]);
+  const openPositions = positions.filter(position => position.status === 'open');
+  const closedPositions = positions.filter(position => position.status === 'closed');
+
+  const handleSaveCash = async () => {
+    if (!user) return;
+    const cash = parseFloat(cashInput);
+    if (!(cash > 0)) {
+      toast.error('Enter a starting balance');
+      return;
+    }
+    try {
+      await setStartingCash(user.id, cash);
+      setStartingCashState(cash);
+      toast.success('Starting balance updated');
+    } catch (error) {
+      console.error('Error saving starting balance:', error);
+      toast.error('Failed to save starting balance');
+    }
+  };
+
+  const handleOpen = async () => {
+    if (!user) return;
+    const qty = parseFloat(quantity);
+    if (!symbol.trim() || !(qty > 0)) {
+      toast.error('Enter a symbol and a quantity');
+      return;
+    }
+
+    setIsOpening(true);
+    try {
+      // Fill at the current quote
+      const [quote] = await fetchStockQuotes([symbol.trim().toUpperCase()]);
+      const price = quote?.price ?? quote?.regularMarketPrice;
+      if (!price) {
+        toast.error(`No quote for ${symbol.toUpperCase()}`);
+        return;
+      }
+      const analysis = getAnalysis(quote.symbol, '1d');
+      const position = await openPaperPosition(user.id, {
+        symbol: quote.symbol,
+        timeframe: '1d',
+        direction,
+        quantity: qty,
+        entryPrice: price,
+        stopPrice: parseFloat(stopPrice) || null,
+        targetPrice: parseFloat(targetPrice) || null,
+        waveNumber: analysis?.currentWave ? String(analysis.currentWave.number) : undefined
+      });
+      setPositions(prev => [position, ...prev]);
+      toast.success(`Opened ${direction} ${qty} ${quote.symbol} at ${formatPriceValue(price, quote.symbol)}`);
+      setSymbol('');
+      setQuantity('');
+      setStopPrice('');
+      setTargetPrice('');
+    } catch (error) {
+      console.error('Error opening paper position:', error);
+      toast.error('Failed to open position');
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const handleClose = async (position: PaperPosition) => {
+    const price = position.lastPrice ?? position.entryPrice;
+    try {
+      await closePaperPosition(position.id, price, 'manual');
+      setPositions(prev => prev.map(p => p.id === position.id
+        ? { ...p, status: 'closed', exitPrice: price, exitReason: 'manual', closedAt: new Date().toISOString() }
+        : p));
+    } catch (error) {
+      console.error('Error closing paper position:', error);
+      toast.error('Failed to close position');
+    }
+  };
+
+  const handleDelete = async (position: PaperPosition) => {
+    try {
+      await deletePaperPosition(position.id);
+      setPositions(prev => prev.filter(p => p.id !== position.id));
+    } catch (error) {
+      console.error('Error deleting paper position:', error);
+      toast.error('Failed to delete position');
+    }
+  };
+
+  // Where the count stands now, compared with the wave the position was opened in
+  const describeWave = (position: PaperPosition) => {
+    const current = getAnalysis(position.symbol, position.timeframe)?.currentWave;
+    const now = current ? `wave ${current.number}` : 'no active wave';
+    if (!position.waveNumber) return now;
+    return String(current?.number) === position.waveNumber ? now : `${position.waveNumber} → ${now}`;
+  };
+
+  return (
+    <div className="container max-w-5xl py-10 space-y-6">
+      <div className="flex items-center gap-2">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Paper Portfolio</h1>
+          <p className="text-sm text-muted-foreground">
+            Trial the engine's setups without real money. Positions close automatically when the price reaches their stop or target.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" className="ml-auto" onClick={() => markToMarket(positions)} disabled={isMarking}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isMarking ? 'animate-spin' : ''}`} />
+          Update prices
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        {[
+          ['Equity', formatMoney(summary.equity), ''],
+          ['Realized P&L', formatMoney(summary.realizedPnl), pnlClass(summary.realizedPnl)],
+          ['Unrealized P&L', formatMoney(summary.unrealizedPnl), pnlClass(summary.unrealizedPnl)],
+          ['Gross exposure', `${formatMoney(summary.grossExposure)} (${(summary.grossExposure / summary.equity * 100 || 0).toFixed(0)}%)`, ''],
+          ['Net exposure', `${formatMoney(summary.netExposure)} (${(summary.netExposure / summary.equity * 100 || 0).toFixed(0)}%)`, '']
+        ].map(([label, value, className]) => (
+          <div key={label} className="border rounded-md p-3">
+            <div className="text-xs text-muted-foreground">{label}</div>
+            <div className={`text-sm font-semibold mt-1 ${className}`}>{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="border rounded-md p-4 space-y-3">
+        <h3 className="text-lg font-medium">Open a position</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-6 gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="pp-symbol">Symbol</Label>
+            <Input id="pp-symbol" value={symbol} onChange={e => setSymbol(e.target.value)} placeholder="AAPL" />
+          </div>
+          <div className="space-y-1">
+            <Label>Direction</Label>
+            <Select value={direction} onValueChange={(value) => setDirection(value as 'long' | 'short')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="long">Long</SelectItem>
+                <SelectItem value="short">Short</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pp-qty">Quantity</Label>
+            <Input id="pp-qty" type="number" min="0" step="any" value={quantity} onChange={e => setQuantity(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pp-stop">Stop</Label>
+            <Input id="pp-stop" type="number" value={stopPrice} onChange={e => setStopPrice(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pp-target">Target</Label>
+            <Input id="pp-target" type="number" value={targetPrice} onChange={e => setTargetPrice(e.target.value)} />
+          </div>
+          <Button onClick={handleOpen} disabled={isOpening}>Open at market</Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Or open one from a stock's trade plan to take its stop, target and size from the wave count.
+        </p>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-medium mb-2">Open positions</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Symbol</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead className="text-right">Entry</TableHead>
+              <TableHead className="text-right">Last</TableHead>
+              <TableHead className="text-right">Stop / Target</TableHead>
+              <TableHead className="text-right">P&L</TableHead>
+              <TableHead>Wave</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {openPositions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  {isLoading ? 'Loading...' : 'No open positions'}
+                </TableCell>
+              </TableRow>
+            ) : openPositions.map(position => {
+              const price = position.lastPrice ?? position.entryPrice;
+              const pnl = getPositionPnl(position, price);
+              return (
+                <TableRow key={position.id}>
+                  <TableCell>
+                    <Link to={`/stocks/${position.symbol}`} className="font-medium hover:underline">{position.symbol}</Link>
+                    <Badge variant={position.direction === 'long' ? 'default' : 'secondary'} className="ml-2">{position.direction}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{position.quantity}</TableCell>
+                  <TableCell className="text-right">{formatPriceValue(position.entryPrice, position.symbol)}</TableCell>
+                  <TableCell className="text-right">{formatPriceValue(price, position.symbol)}</TableCell>
+                  <TableCell className="text-right">
+                    {position.stopPrice ? formatPriceValue(position.stopPrice, position.symbol) : '–'} / {position.targetPrice ? formatPriceValue(position.targetPrice, position.symbol) : '–'}
+                  </TableCell>
+                  <TableCell className={`text-right ${pnlClass(pnl)}`}>
+                    {formatMoney(pnl)}
+                    <span className="text-xs ml-1">({(pnl / (position.entryPrice * position.quantity) * 100).toFixed(1)}%)</span>
+                  </TableCell>
+                  <TableCell className="text-sm">{describeWave(position)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleClose(position)}>
+                      <X className="h-4 w-4 mr-1" />Close
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {closedPositions.length > 0 && (
+        <div>
+          <h3 className="text-lg font-medium mb-2">Closed positions</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Symbol</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="text-right">Entry</TableHead>
+                <TableHead className="text-right">Exit</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead className="text-right">P&L</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {closedPositions.map(position => {
+                const pnl = getPositionPnl(position, position.exitPrice ?? position.entryPrice);
+                return (
+                  <TableRow key={position.id}>
+                    <TableCell>
+                      <span className="font-medium">{position.symbol}</span>
+                      <Badge variant="outline" className="ml-2">{position.direction}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{position.quantity}</TableCell>
+                    <TableCell className="text-right">{formatPriceValue(position.entryPrice, position.symbol)}</TableCell>
+                    <TableCell className="text-right">{position.exitPrice ? formatPriceValue(position.exitPrice, position.symbol) : '–'}</TableCell>
+                    <TableCell className="text-sm">
+                      {EXIT_REASON_NAMES[position.exitReason || 'manual']}
+                      {position.closedAt && (
+                        <span className="text-xs text-muted-foreground ml-1">{new Date(position.closedAt).toLocaleDateString()}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right ${pnlClass(pnl)}`}>{formatMoney(pnl)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(position)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="flex items-end gap-2 max-w-sm">
+        <div className="space-y-1 flex-1">
+          <Label htmlFor="pp-cash">Starting balance</Label>
+          <Input id="pp-cash" type="number" min="0" value={cashInput} onChange={e => setCashInput(e.target.value)} />
+        </div>
+        <Button variant="outline" onClick={handleSaveCash}>Save</Button>
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioPage;
@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label';
 import { toast } from '@/lib/toast';
 import { Loader2 } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
+import { WatchlistManager } from '@/components/WatchlistManager';
 
 interface Profile {
   username: string;
@@ -313,6 +314,14 @@ const ProfilePage = () => {
           </div>
         </div>
       </form>
+
+      <div className="mt-10 space-y-3">
+        <h2 className="text-xl font-semibold">Watchlists</h2>
+        <p className="text-sm text-muted-foreground">
+          Keep the symbols you follow in named lists. Pick one on the dashboard to see only those stocks.
+        </p>
+        <WatchlistManager />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,378 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowLeft, ArrowUp, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { toast } from '@/lib/toast';
+import { useAuth } from '@/context/AuthContext';
+import { useWaveAnalysis } from '@/context/WaveAnalysisContext';
+import { useWatchlists } from '@/context/WatchlistContext';
+import WatchlistSelector from '@/components/WatchlistSelector';
+import { fetchStockQuotes } from '@/services/yahooFinanceService';
+import { deleteScreen, getSavedScreens, saveScreen } from '@/services/screenService';
+import { buildScreenerRow, runScreen, type ScreenerRow } from '@/utils/screener';
+import {
+  HISTORY_INTERVAL_NAMES,
+  type HistoryInterval,
+  type SavedScreen,
+  type ScreenerFilters,
+  type ScreenerSort,
+  type ScreenerSortKey,
+  type StockData
+} from '@/types/shared';
+
+const WAVE_OPTIONS = ['1', '2', '3', '4', '5', 'A', 'B', 'C'];
+const TREND_OPTIONS: ('bullish' | 'bearish' | 'neutral')[] = ['bullish', 'bearish', 'neutral'];
+
+// Select value standing in for "no saved screen loaded"
+const NO_SCREEN = 'none';
+
+const DEFAULT_FILTERS: ScreenerFilters = { waves: ['3', '5'] };
+const DEFAULT_SORT: ScreenerSort = { key: 'confidence', direction: 'desc' };
+
+// Numeric filters edited as [label, min key, max key]; a missing key means no input for that bound
+const RANGE_FILTERS: [string, keyof ScreenerFilters | null, keyof ScreenerFilters | null][] = [
+  ['Wave age (bars)', 'minWaveAgeBars', 'maxWaveAgeBars'],
+  ['Distance to Fib target (%)', null, 'maxFibDistancePct'],
+  ['Confidence', 'minConfidence', null],
+  ['Change today (%)', 'minChangePercent', 'maxChangePercent'],
+  ['Volume vs average (×)', 'minRelativeVolume', null],
+  ['52-week range position (%)', 'minRangePosition', 'maxRangePosition']
+];
+
+const COLUMNS: { key: ScreenerSortKey | null; label: string; numeric?: boolean }[] = [
+  { key: 'symbol', label: 'Symbol' },
+  { key: null, label: 'Wave' },
+  { key: 'waveAgeBars', label: 'Age', numeric: true },
+  { key: 'confidence', label: 'Confidence', numeric: true },
+  { key: 'fibDistancePct', label: 'Nearest target', numeric: true },
+  { key: 'changePercent', label: 'Change', numeric: true },
+  { key: 'relativeVolume', label: 'Rel. volume', numeric: true },
+  { key: 'rangePosition', label: '52w position', numeric: true }
+];
+
+const formatNumber = (value: number | null, digits: number, suffix = '') =>
+  value === null ? '–' : `${value.toFixed(digits)}${suffix}`;
+
+const ScreenerPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { allAnalyses } = useWaveAnalysis();
+  const { activeSymbols } = useWatchlists();
+
+  const [timeframe, setTimeframe] = useState('1d');
+  const [filters, setFilters] = useState<ScreenerFilters>(DEFAULT_FILTERS);
+  const [sort, setSort] = useState<ScreenerSort>(DEFAULT_SORT);
+  const [quotes, setQuotes] = useState<Record<string, StockData>>({});
+  const [loadingQuotes, setLoadingQuotes] = useState(false);
+
+  const [savedScreens, setSavedScreens] = useState<SavedScreen[]>([]);
+  const [activeScreenId, setActiveScreenId] = useState(NO_SCREEN);
+  const [screenName, setScreenName] = useState('');
+
+  // Timeframes that have at least one analysis loaded
+  const timeframes = useMemo(() => {
+    const found = new Set(Object.keys(allAnalyses || {}).map(key => key.split(':')[1] || '1d'));
+    return Array.from(found).sort();
+  }, [allAnalyses]);
+
+  // Analyses for the chosen timeframe, scoped to the chosen watchlist
+  const analyses = useMemo(() => Object.entries(allAnalyses || {})
+    .map(([key, entry]) => {
+      const [symbol, tf = '1d'] = key.split(':');
+      return { symbol, tf, analysis: entry?.isLoaded ? entry.analysis : null };
+    })
+    .filter(({ symbol, tf, analysis }) =>
+      analysis && tf === timeframe && (!activeSymbols || activeSymbols.includes(symbol))),
+  [allAnalyses, timeframe, activeSymbols]);
+
+  const symbolsKey = analyses.map(({ symbol }) => symbol).sort().join(',');
+
+  const loadQuotes = useCallback(async () => {
+    if (!symbolsKey) return;
+    setLoadingQuotes(true);
+    try {
+      const results = await fetchStockQuotes(symbolsKey.split(','));
+      setQuotes(prev => ({
+        ...prev,
+        ...Object.fromEntries(results.map(quote => [quote.symbol, quote]))
+      }));
+    } catch (error) {
+      console.error('Error loading quotes for screener:', error);
+      toast.error('Failed to load quotes; price filters will exclude every symbol');
+    } finally {
+      setLoadingQuotes(false);
+    }
+  }, [symbolsKey]);
+
+  useEffect(() => {
+    loadQuotes();
+  }, [loadQuotes]);
+
+  const loadScreens = useCallback(async () => {
+    if (!user) return;
+    try {
+      setSavedScreens(await getSavedScreens(user.id));
+    } catch (error) {
+      console.error('Error loading saved screens:', error);
+      toast.error('Failed to load saved screens');
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadScreens();
+  }, [loadScreens]);
+
+  const rows = useMemo(() => {
+    const built = analyses
+      .map(({ symbol, analysis }) => buildScreenerRow(symbol, timeframe, analysis, quotes[symbol]))
+      .filter((row): row is ScreenerRow => row !== null);
+    return runScreen(built, filters, sort);
+  }, [analyses, timeframe, quotes, filters, sort]);
+
+  const setFilter = <K extends keyof ScreenerFilters>(key: K, value: ScreenerFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleListFilter = <T extends string>(key: 'waves' | 'trends', value: T) => {
+    const current = (filters[key] || []) as T[];
+    setFilter(key, (current.includes(value) ? current.filter(v => v !== value) : [...current, value]) as any);
+  };
+
+  const setNumberFilter = (key: keyof ScreenerFilters, text: string) => {
+    const value = parseFloat(text);
+    setFilter(key, isFinite(value) ? value : undefined);
+  };
+
+  const toggleSort = (key: ScreenerSortKey) => {
+    setSort(prev => prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'symbol' || key === 'fibDistancePct' ? 'asc' : 'desc' });
+  };
+
+  const applyScreen = (screenId: string) => {
+    setActiveScreenId(screenId);
+    const screen = savedScreens.find(s => s.id === screenId);
+    if (!screen) return;
+    setFilters(screen.filters);
+    setSort(screen.sort || DEFAULT_SORT);
+    setTimeframe(screen.timeframe);
+    setScreenName(screen.name);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    if (!screenName.trim()) {
+      toast.error('Name the screen first');
+      return;
+    }
+    try {
+      const saved = await saveScreen(user.id, { name: screenName, timeframe, filters, sort });
+      toast.success(`Saved "${saved.name}"`);
+      await loadScreens();
+      setActiveScreenId(saved.id);
+    } catch (error) {
+      console.error('Error saving screen:', error);
+      toast.error('Failed to save screen');
+    }
+  };
+
+  const handleDelete = async () => {
+    const screen = savedScreens.find(s => s.id === activeScreenId);
+    if (!screen) return;
+    try {
+      await deleteScreen(screen.id);
+      toast.success(`Deleted "${screen.name}"`);
+      setActiveScreenId(NO_SCREEN);
+      setScreenName('');
+      await loadScreens();
+    } catch (error) {
+      console.error('Error deleting screen:', error);
+      toast.error('Failed to delete screen');
+    }
+  };
+
+  return (
+    <div className="container py-10 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/"><ArrowLeft className="h-4 w-4 mr-1" />Dashboard</Link>
+        </Button>
+        <h1 className="text-3xl font-bold">Screener</h1>
+        <div className="sm:ml-auto flex items-center gap-2">
+          <Select value={timeframe} onValueChange={setTimeframe}>
+            <SelectTrigger className="h-8 w-[130px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(timeframes.length ? timeframes : ['1d']).map(tf => (
+                <SelectItem key={tf} value={tf}>{HISTORY_INTERVAL_NAMES[tf as HistoryInterval] || tf}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <WatchlistSelector />
+          <Button variant="outline" size="sm" onClick={loadQuotes} disabled={loadingQuotes}>
+            <RefreshCw className={`h-4 w-4 ${loadingQuotes ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={activeScreenId} onValueChange={applyScreen}>
+          <SelectTrigger className="sm:w-[220px]">
+            <SelectValue placeholder="Saved screens" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_SCREEN}>Unsaved screen</SelectItem>
+            {savedScreens.map(screen => (
+              <SelectItem key={screen.id} value={screen.id}>{screen.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          className="sm:w-[220px]"
+          placeholder="Screen name"
+          value={screenName}
+          onChange={e => setScreenName(e.target.value)}
+        />
+        <Button variant="outline" onClick={handleSave} disabled={!user}>
+          <Save className="h-4 w-4 mr-2" />Save
+        </Button>
+        <Button variant="outline" onClick={handleDelete} disabled={activeScreenId === NO_SCREEN}>
+          <Trash2 className="h-4 w-4 mr-2" />Delete
+        </Button>
+        <Button variant="ghost" onClick={() => { setFilters({}); setActiveScreenId(NO_SCREEN); }}>
+          Clear filters
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 border rounded-md p-4">
+        <div className="space-y-2">
+          <Label>Current wave</Label>
+          <div className="flex flex-wrap gap-2">
+            {WAVE_OPTIONS.map(wave => (
+              <Button
+                key={wave}
+                size="sm"
+                variant={filters.waves?.includes(wave) ? 'default' : 'outline'}
+                className="h-7 w-9 px-0"
+                onClick={() => toggleListFilter('waves', wave)}
+              >
+                {wave}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Trend</Label>
+          <div className="flex gap-4">
+            {TREND_OPTIONS.map(trend => (
+              <div key={trend} className="flex items-center gap-1.5">
+                <Checkbox
+                  id={`trend-${trend}`}
+                  checked={!!filters.trends?.includes(trend)}
+                  onCheckedChange={() => toggleListFilter('trends', trend)}
+                />
+                <Label htmlFor={`trend-${trend}`} className="text-sm font-normal capitalize">{trend}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {RANGE_FILTERS.map(([label, minKey, maxKey]) => (
+          <div key={label} className="space-y-2">
+            <Label>{label}</Label>
+            <div className="flex items-center gap-2">
+              {minKey && (
+                <Input
+                  type="number"
+                  placeholder="Min"
+                  className="h-8"
+                  value={(filters[minKey] as number | undefined) ?? ''}
+                  onChange={e => setNumberFilter(minKey, e.target.value)}
+                />
+              )}
+              {maxKey && (
+                <Input
+                  type="number"
+                  placeholder="Max"
+                  className="h-8"
+                  value={(filters[maxKey] as number | undefined) ?? ''}
+                  onChange={e => setNumberFilter(maxKey, e.target.value)}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <p className="text-sm text-muted-foreground mb-2">
+          {rows.length} of {analyses.length} symbols match. Wave age is estimated from trading days since the wave began.
+        </p>
+        <ScrollArea className="h-[600px] border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {COLUMNS.map(column => (
+                  <TableHead
+                    key={column.label}
+                    className={`${column.numeric ? 'text-right' : ''} ${column.key ? 'cursor-pointer select-none' : ''}`}
+                    onClick={() => column.key && toggleSort(column.key)}
+                  >
+                    {column.label}
+                    {sort.key === column.key && (sort.direction === 'asc'
+                      ? <ArrowUp className="inline h-3 w-3 ml-1" />
+                      : <ArrowDown className="inline h-3 w-3 ml-1" />)}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={COLUMNS.length} className="text-center text-muted-foreground">
+                    No symbols match this screen
+                  </TableCell>
+                </TableRow>
+              ) : rows.map(row => (
+                <TableRow key={row.symbol} className="cursor-pointer" onClick={() => navigate(`/stocks/${row.symbol}`)}>
+                  <TableCell>
+                    <div className="font-medium">{row.symbol}</div>
+                    {row.name && <div className="text-xs text-muted-foreground truncate max-w-[160px]">{row.name}</div>}
+                  </TableCell>
+                  <TableCell>
+                    {row.wave}
+                    <span className={`text-xs ml-1 ${row.trend === 'bullish' ? 'text-green-600' : row.trend === 'bearish' ? 'text-red-600' : 'text-muted-foreground'}`}>
+                      {row.trend}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right">{row.waveAgeBars}</TableCell>
+                  <TableCell className="text-right">{formatNumber(row.confidence, 0)}</TableCell>
+                  <TableCell className="text-right">
+                    {row.nearestTarget
+                      ? <>{formatNumber(row.fibDistancePct, 1, '%')} <span className="text-xs text-muted-foreground">{row.nearestTarget.label}</span></>
+                      : '–'}
+                  </TableCell>
+                  <TableCell className={`text-right ${(row.changePercent ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatNumber(row.changePercent, 2, '%')}
+                  </TableCell>
+                  <TableCell className="text-right">{formatNumber(row.relativeVolume, 2, '×')}</TableCell>
+                  <TableCell className="text-right">{formatNumber(row.rangePosition, 0, '%')}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+};
+
+export default ScreenerPage;
@@ -8,23 +8,34 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"; // Import RadioGroup
 import { Label } from "@/components/ui/label"; // Import Label
 import { Badge } from "@/components/ui/badge"; // Import Badge
-import { ArrowLeft, ArrowUpRight, ArrowDownRight, AlertCircle } from 'lucide-react'; // Import icons
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, ArrowUpRight, ArrowDownRight, AlertCircle, ImageDown } from 'lucide-react'; // Import icons
 import { useHistoricalData } from '@/context/HistoricalDataContext';
 import { useWaveAnalysis } from '@/context/WaveAnalysisContext';
 import { useAuth } from '@/context/AuthContext';
 import { usePreview } from '@/context/PreviewContext';
 import StockDetailChart from '../components/StockDetailChart'; // Corrected path
 import AIAnalysisComponent from '../components/AIAnalysis'; // Corrected path & renamed import
-import { WaveAnalysisResult, StockData, Wave, StockHistoricalData, FibTarget } from '@/types/shared'; // Import types
+import { WaveAnalysisResult, StockData, Wave, StockHistoricalData, FibTarget, PivotDetector, PIVOT_DETECTOR_NAMES, HistoryInterval, HISTORY_INTERVAL_NAMES } from '@/types/shared'; // Import types
 import { useTelegram } from '@/context/TelegramContext';
 import TelegramLayout from '../components/layout/TelegramLayout'; // Corrected path
 import WaveSequencePagination from '../components/WaveSequencePagination'; // Import WaveSequencePagination
+import WaveCountSelector from '../components/WaveCountSelector';
+import TimeframeAlignmentPanel from '../components/TimeframeAlignmentPanel';
+import WhyThisCountPanel from '../components/WhyThisCountPanel';
+import TradePlanPanel from '../components/TradePlanPanel';
+import DataQualityNotice from '../components/DataQualityNotice';
 import { fetchStockQuote } from '@/lib/api'; // Using the correct function name
+import { buildApiUrl } from '@/config/apiConfig';
 import { getWavePatternDescription } from '../components/chart/waveChartUtils'; // Corrected path
 import { getCachedWaveAnalysis } from '../utils/wave-analysis'; // Corrected path
+import { removeDiscontinuities } from '@/utils/priceAdjustment';
 
 const CACHE_DURATION_MS = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
 
+// Bar intervals the chart can be counted on
+const CHART_TIMEFRAMES: HistoryInterval[] = ['15m', '1h', '4h', '1d', '1wk'];
+
 interface StockDetailsProps {
   stock?: StockData;
 }
@@ -98,6 +109,8 @@ const StockDetails: React.FC = () => {
   const [loading, setLoading] = useState(true); // Keep general loading state
   const [viewMode, setViewMode] = useState<'all' | 'current'>('current');
   const [selectedWave, setSelectedWave] = useState<Wave | null>(null);
+  const [selectedCountIndex, setSelectedCountIndex] = useState(0);
+  const [timeframe, setTimeframe] = useState<HistoryInterval>('1d');
   const [livePrice, setLivePrice] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isInitialRefreshDone, setIsInitialRefreshDone] = useState(false); // <-- State to track auto-refresh
@@ -106,9 +119,54 @@ const StockDetails: React.FC = () => {
 
   const analysis = useMemo(() => {
     if (!symbol) return null;
-    const cacheKey = `${symbol}:1d`; // Assuming '1d' timeframe for now
-    return waveAnalysesCache[cacheKey] || null;
-  }, [symbol, waveAnalysesCache]);
+    const cacheKey = `${symbol}:${timeframe}`;
+    return waveAnalysesCache[cacheKey] || allAnalyses[cacheKey]?.analysis || null;
+  }, [symbol, timeframe, waveAnalysesCache, allAnalyses]);
+
+  // The count being viewed: the primary count, or one of its ranked alternates
+  const activeAnalysis = useMemo(() => {
+    const count = selectedCountIndex > 0 ? analysis?.waveCounts?.[selectedCountIndex] : null;
+    if (!count) return analysis;
+    return {
+      ...analysis,
+      waves: count.waves,
+      invalidWaves: count.invalidWaves,
+      currentWave: count.currentWave,
+      fibTargets: count.fibTargets,
+      trend: count.trend,
+      direction: count.direction,
+      ruleChecks: count.ruleChecks,
+      confidence: count.confidence
+    };
+  }, [analysis, selectedCountIndex]);
+
+  // The bars the count was made from: before an unadjusted split they're rescaled as in the engine,
+  // so wave labels and targets sit on the candles
+  const chartData = useMemo(
+    () => removeDiscontinuities(historicalData, analysis?.discontinuities || []),
+    [historicalData, analysis]
+  );
+
+  // Server-rendered image of the primary count, highlighting the selected wave
+  const chartImageUrl = useMemo(() => {
+    const params = new URLSearchParams({ timeframe });
+    if (selectedWave && selectedCountIndex === 0) {
+      params.set('wave', String(selectedWave.number));
+      params.set('waveStart', String(selectedWave.startTimestamp));
+    }
+    return buildApiUrl(`/chart/${encodeURIComponent(symbol || '')}?${params}`);
+  }, [symbol, timeframe, selectedWave, selectedCountIndex]);
+
+  const handleCountSelect = (index: number) => {
+    setSelectedCountIndex(index);
+    setSelectedWave(null);
+  };
+
+  // Start from the primary count whenever the symbol or timeframe changes
+  useEffect(() => {
+    setSelectedCountIndex(0);
+    setSelectedWave(null);
+  }, [symbol, timeframe]);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -121,14 +179,12 @@ const StockDetails: React.FC = () => {
         return;
       }
       try {
-        let histData;
-        try {
-          histData = await getHistoricalData(symbol, '1d', false);
-        } catch (histError) {
-          console.warn(`Failed to fetch real historical data for ${symbol}, using mock. Error: ${histError}`);
-          histData = generateMockHistoricalData(symbol); // Use mock as fallback
+        // No synthetic fallback: a symbol the market data provider can't serve shows an error instead
+        const histData = await getHistoricalData(symbol, timeframe, false);
+        setHistoricalData(histData || []);
+        if (!histData || histData.length === 0) {
+          setError(`No price history available for ${symbol}`);
         }
-        setHistoricalData(histData || generateMockHistoricalData(symbol)); // Ensure data is set
 
         try {
           const stockInfo = await fetchStockQuote(symbol);
@@ -140,13 +196,13 @@ const StockDetails: React.FC = () => {
         }
       } catch (err) {
         setError(`Failed to fetch initial data: ${(err as Error).message}`);
-        setHistoricalData(generateMockHistoricalData(symbol)); // Ensure mock data on error
+        setHistoricalData([]);
       } finally {
         // Don't set loading false here yet, wait for analysis check
       }
     };
     fetchData();
-  }, [symbol, getHistoricalData]);
+  }, [symbol, timeframe, getHistoricalData]);
 
   useEffect(() => {
     const checkAndRefreshAnalysis = async () => {
@@ -158,7 +214,7 @@ const StockDetails: React.FC = () => {
       }
 
       console.log(`[StockDetails:${symbol}] Checking analysis cache status.`);
-      const cacheKey = `${symbol}:1d`;
+      const cacheKey = `${symbol}:${timeframe}`;
       const cachedEntry = allAnalyses[cacheKey];
       let shouldRefresh = false;
 
@@ -178,7 +234,7 @@ const StockDetails: React.FC = () => {
       if (shouldRefresh) {
         console.log(`[StockDetails:${symbol}] Triggering automatic analysis refresh.`);
         try {
-          await refreshStockAnalysis(symbol); // Await the refresh
+          await refreshStockAnalysis(symbol, undefined, timeframe); // Await the refresh
           console.log(`[StockDetails:${symbol}] Automatic refresh completed.`);
         } catch (refreshError) {
           console.error(`[StockDetails:${symbol}] Automatic refresh failed:`, refreshError);
@@ -190,43 +246,7 @@ const StockDetails: React.FC = () => {
     };
 
     checkAndRefreshAnalysis();
-  }, [symbol, isDataLoaded, allAnalyses, refreshStockAnalysis, isInitialRefreshDone, historicalData.length, loading]);
-
-  const generateMockHistoricalData = (symbol: string): StockHistoricalData[] => {
-    console.log(`Generating realistic mock data for ${symbol}`);
-    const data: StockHistoricalData[] = [];
-    const today = new Date();
-    let price = 100 + (symbol.charCodeAt(0) % 10) * 10;
-
-    for (let i = 365; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(today.getDate() - i);
-
-      const change = (Math.random() - 0.5) * 2;
-      price += change;
-      if (price < 10) price = 10;
-
-      if (symbol.length % 2 === 0) {
-        price *= 1.0005;
-      } else {
-        price *= 0.9995;
-      }
-
-      const vol = Math.floor(100000 + Math.random() * 900000);
-
-      data.push({
-        timestamp: date.getTime(),
-        open: price - change / 2,
-        high: Math.max(price, price - change / 2) + Math.random(),
-        low: Math.min(price, price - change / 2) - Math.random(),
-        close: price,
-        volume: vol
-      });
-    }
-
-    console.log(`Generated ${data.length} data points for ${symbol}`);
-    return data;
-  };
+  }, [symbol, timeframe, isDataLoaded, allAnalyses, refreshStockAnalysis, isInitialRefreshDone, historicalData.length, loading]);
 
   if (!symbol) {
     return (
@@ -364,14 +384,49 @@ const StockDetails: React.FC = () => {
         <div className="space-y-6">
           <div className="relative mb-8">
             <div className={(!user && isPreviewMode) ? "blur-premium" : ""}>
+              <DataQualityNotice
+                symbol={symbol}
+                timeframe={timeframe}
+                historicalData={historicalData}
+                discontinuities={analysis?.discontinuities}
+              />
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                {analysis?.waveCounts && analysis.waveCounts.length > 1 ? (
+                  <WaveCountSelector
+                    waveCounts={analysis.waveCounts}
+                    selectedIndex={selectedCountIndex}
+                    onSelect={handleCountSelect}
+                  />
+                ) : <div />}
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" className="h-9 text-xs" asChild>
+                    <a href={chartImageUrl} target="_blank" rel="noopener noreferrer" title="Open a shareable image of this chart">
+                      <ImageDown className="h-4 w-4 mr-1" />
+                      Chart image
+                    </a>
+                  </Button>
+                  <Select value={timeframe} onValueChange={(value) => setTimeframe(value as HistoryInterval)}>
+                    <SelectTrigger className="h-9 w-[130px] text-xs">
+                      <SelectValue placeholder="Timeframe" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHART_TIMEFRAMES.map(option => (
+                        <SelectItem key={option} value={option}>
+                          {HISTORY_INTERVAL_NAMES[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
               {historicalData.length > 0 ? (
                 <StockDetailChart
                   symbol={symbol}
-                  data={historicalData}
-                  waves={analysis?.waves || []}
-                  invalidWaves={analysis?.invalidWaves || []} // Add this line to pass invalidWaves
-                  currentWave={analysis?.currentWave || null}
-                  fibTargets={analysis?.fibTargets || []}
+                  data={chartData}
+                  waves={activeAnalysis?.waves || []}
+                  invalidWaves={activeAnalysis?.invalidWaves || []} // Add this line to pass invalidWaves
+                  currentWave={activeAnalysis?.currentWave || null}
+                  fibTargets={activeAnalysis?.fibTargets || []}
                   selectedWave={selectedWave}
                   onClearSelection={() => setSelectedWave(null)}
                   livePrice={livePrice}
@@ -408,21 +463,22 @@ const StockDetails: React.FC = () => {
             <CardContent className="pt-6">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-lg font-medium">Elliott Wave Analysis</h3>
-                <RefreshWaveAnalysisButton symbol={symbol} />
+                <RefreshWaveAnalysisButton symbol={symbol} timeframe={timeframe} pivotDetector={analysis?.pivotDetector} />
               </div>
-              {analysis?.waves && analysis.waves.length > 0 ? (
+              {activeAnalysis?.waves && activeAnalysis.waves.length > 0 ? (
                 <div>
                   <p className="text-sm text-muted-foreground mb-3">
-                    {getWavePatternDescription(analysis.waves) ||
+                    {getWavePatternDescription(activeAnalysis.waves) ||
                       "Analyzing detected wave patterns and market positions."}
                   </p>
                   <div className="mt-4">
                     <WaveSequencePagination
-                      waves={analysis?.waves || []}
-                      invalidWaves={analysis?.invalidWaves || []}
+                      symbol={symbol}
+                      waves={activeAnalysis?.waves || []}
+                      invalidWaves={activeAnalysis?.invalidWaves || []}
                       selectedWave={selectedWave}
-                      currentWave={analysis.currentWave}
-                      fibTargets={analysis.fibTargets}
+                      currentWave={activeAnalysis.currentWave}
+                      fibTargets={activeAnalysis.fibTargets}
                       onWaveSelect={(wave) => {
                         if (selectedWave && selectedWave.startTimestamp === wave.startTimestamp) {
                           setSelectedWave(null);
@@ -432,6 +488,13 @@ const StockDetails: React.FC = () => {
                       }}
                     />
                   </div>
+                  <div className="mt-4 pt-4 border-t">
+                    <WhyThisCountPanel
+                      ruleChecks={activeAnalysis.ruleChecks || analysis?.waveCounts?.[0]?.ruleChecks || []}
+                      selectedWave={selectedWave}
+                      confidence={activeAnalysis.confidence}
+                    />
+                  </div>
                 </div>
               ) : (
                 <div className="p-4 border rounded-md text-center">
@@ -440,6 +503,27 @@ const StockDetails: React.FC = () => {
               )}
             </CardContent>
           </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              <div className={(!user && isPreviewMode) ? "blur-premium" : ""}>
+                <TradePlanPanel
+                  symbol={symbol}
+                  timeframe={timeframe}
+                  analysis={activeAnalysis}
+                  price={livePrice ?? historicalData[historicalData.length - 1]?.close ?? null}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              <div className={(!user && isPreviewMode) ? "blur-premium" : ""}>
+                <TimeframeAlignmentPanel symbol={symbol} />
+              </div>
+            </CardContent>
+          </Card>
         </div>
       )}
 
@@ -585,10 +669,18 @@ const WaveInvalidations: React.FC<WaveInvalidationsProps> = ({ invalidWaves }) =
 
 interface RefreshWaveAnalysisButtonProps {
   symbol: string;
+  timeframe?: HistoryInterval;    // Bar interval to re-count
+  pivotDetector?: PivotDetector; // Detector the current analysis was built with
 }
 
-const RefreshWaveAnalysisButton: React.FC<RefreshWaveAnalysisButtonProps> = ({ symbol }) => {
+const RefreshWaveAnalysisButton: React.FC<RefreshWaveAnalysisButtonProps> = ({ symbol, timeframe = '1d', pivotDetector = 'atr' }) => {
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [detector, setDetector] = useState<PivotDetector>(pivotDetector);
+
+  // Follow the analysis once it loads (or is refreshed with another detector)
+  useEffect(() => {
+    setDetector(pivotDetector);
+  }, [pivotDetector]);
   const [statusMessage, setStatusMessage] = useState<{ text: string; type: 'success' | 'error' | 'info' } | null>(null);
   const { refreshStockAnalysis } = useWaveAnalysis();
 
@@ -598,9 +690,9 @@ const RefreshWaveAnalysisButton: React.FC<RefreshWaveAnalysisButtonProps> = ({ s
       
       setIsRefreshing(true);
       setStatusMessage({ text: 'Processing...', type: 'info' });
-      console.log(`[RefreshButton] Starting refresh for ${symbol}`);
+      console.log(`[RefreshButton] Starting refresh for ${symbol} (${timeframe})`);
       
-      const success = await refreshStockAnalysis(symbol);
+      const success = await refreshStockAnalysis(symbol, detector, timeframe);
       
       if (success) {
         console.log(`[RefreshButton] Refresh successful for ${symbol}`);
@@ -640,6 +732,22 @@ const RefreshWaveAnalysisButton: React.FC<RefreshWaveAnalysisButtonProps> = ({ s
           {statusMessage.text}
         </span>
       )}
+      <Select
+        value={detector}
+        onValueChange={(value) => setDetector(value as PivotDetector)}
+        disabled={isRefreshing}
+      >
+        <SelectTrigger className="h-9 w-[140px] mr-2 text-xs">
+          <SelectValue placeholder="Pivot detector" />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(PIVOT_DETECTOR_NAMES) as PivotDetector[]).map(option => (
+            <SelectItem key={option} value={option}>
+              {PIVOT_DETECTOR_NAMES[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
       <Button 
         size="sm" 
         variant="outline" 
@@ -0,0 +1,189 @@
+import { supabase, getAuthHeaders } from '@/lib/supabase';
+import { buildApiUrl } from '@/config/apiConfig';
+import type {
+  AlertChannelSettings,
+  AlertChannelType,
+  AlertEvent,
+  AlertRule
+} from '@/types/shared';
+
+// How many fired alerts the inbox loads
+const INBOX_LIMIT = 100;
+
+const toAlertRule = (row: any): AlertRule => ({
+  id: row.id,
+  name: row.name,
+  symbol: row.symbol,
+  watchlistId: row.watchlist_id,
+  timeframe: row.timeframe,
+  condition: row.condition,
+  params: row.params || {},
+  channels: row.channels || [],
+  enabled: row.enabled,
+  cooldownMinutes: row.cooldown_minutes
+});
+
+const toAlertEvent = (row: any): AlertEvent => ({
+  id: row.id,
+  ruleId: row.rule_id,
+  symbol: row.symbol,
+  timeframe: row.timeframe,
+  condition: row.condition,
+  message: row.message,
+  price: row.price,
+  firedAt: row.fired_at,
+  readAt: row.read_at,
+  deliveries: row.deliveries || undefined
+});
+
+export async function getAlertRules(userId: string): Promise<AlertRule[]> {
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toAlertRule);
+}
+
+/**
+ * Create a rule, or update it when `rule.id` is set
+ */
+export async function saveAlertRule(userId: string, rule: Omit<AlertRule, 'id'> & { id?: string }): Promise<AlertRule> {
+  const row = {
+    user_id: userId,
+    name: rule.name.trim(),
+    symbol: rule.symbol ? rule.symbol.trim().toUpperCase() : null,
+    watchlist_id: rule.symbol ? null : rule.watchlistId || null,
+    timeframe: rule.timeframe,
+    condition: rule.condition,
+    params: rule.params,
+    channels: rule.channels,
+    enabled: rule.enabled,
+    cooldown_minutes: rule.cooldownMinutes
+  };
+
+  const query = rule.id
+    ? supabase.from('alert_rules').update(row).eq('id', rule.id)
+    : supabase.from('alert_rules').insert(row);
+
+  const { data, error } = await query.select('*').single();
+  if (error) throw error;
+  return toAlertRule(data);
+}
+
+export async function setAlertRuleEnabled(ruleId: string, enabled: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('alert_rules')
+    .update({ enabled })
+    .eq('id', ruleId);
+
+  if (error) throw error;
+}
+
+export async function deleteAlertRule(ruleId: string): Promise<void> {
+  const { error } = await supabase
+    .from('alert_rules')
+    .delete()
+    .eq('id', ruleId);
+
+  if (error) throw error;
+}
+
+/**
+ * Most recent fired alerts, newest first
+ */
+export async function getAlertInbox(userId: string, unreadOnly = false): Promise<AlertEvent[]> {
+  let query = supabase
+    .from('alert_events')
+    .select('*')
+    .eq('user_id', userId)
+    .order('fired_at', { ascending: false })
+    .limit(INBOX_LIMIT);
+
+  if (unreadOnly) query = query.is('read_at', null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(toAlertEvent);
+}
+
+export async function getUnreadAlertCount(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('alert_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) throw error;
+  return count || 0;
+}
+
+/**
+ * Mark alerts as read; without ids, marks the whole inbox
+ */
+export async function markAlertsRead(userId: string, eventIds?: string[]): Promise<void> {
+  let query = supabase
+    .from('alert_events')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (eventIds) query = query.in('id', eventIds);
+
+  const { error } = await query;
+  if (error) throw error;
+}
+
+export async function getAlertChannels(userId: string): Promise<AlertChannelSettings[]> {
+  const { data, error } = await supabase
+    .from('alert_channels')
+    .select('type, config, enabled')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return (data || []).map(row => ({ type: row.type, config: row.config || {}, enabled: row.enabled }));
+}
+
+export async function saveAlertChannel(userId: string, channel: AlertChannelSettings): Promise<void> {
+  const { error } = await supabase
+    .from('alert_channels')
+    .upsert(
+      { user_id: userId, type: channel.type, config: channel.config, enabled: channel.enabled },
+      { onConflict: 'user_id,type' }
+    );
+
+  if (error) throw error;
+}
+
+export async function deleteAlertChannel(userId: string, type: AlertChannelType): Promise<void> {
+  const { error } = await supabase
+    .from('alert_channels')
+    .delete()
+    .eq('user_id', userId)
+    .eq('type', type);
+
+  if (error) throw error;
+}
+
+/**
+ * Ask the API worker to evaluate alert rules now
+ *
+ * @param symbols - Limit the run to these symbols (e.g. the ones just analyzed)
+ * @returns How many alerts fired
+ */
+export async function evaluateAlerts(symbols?: string[]): Promise<number> {
+  const response = await fetch(buildApiUrl('/alerts/evaluate'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify({ symbols })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Alert evaluation failed with status ${response.status}`);
+  }
+
+  const json = await response.json();
+  return json.data?.fired ?? 0;
+}
@@ -6,7 +6,7 @@ import * as LZString from 'lz-string';
  */
 export async function getFromCache<T>(key: string): Promise<T | null> {
   try {
-    // Skip caching for historical data
+    // Bars are kept by the API's bar store (price_bars), not here
     if (key.startsWith('historical_data_')) {
       return null;
     }
@@ -42,7 +42,7 @@ export async function getFromCache<T>(key: string): Promise<T | null> {
  */
 export async function saveToCache<T>(key: string, data: T, duration: number): Promise<void> {
   try {
-    // Skip caching for historical data
+    // Bars are kept by the API's bar store (price_bars), not here
     if (key.startsWith('historical_data_')) {
       return;
     }
@@ -0,0 +1,158 @@
+import { supabase, getAuthHeaders } from '@/lib/supabase';
+import { buildApiUrl } from '@/config/apiConfig';
+import { fetchStockQuotes } from '@/services/yahooFinanceService';
+import { getPositionExit } from '@/utils/paperTrading';
+import type { PaperExitReason, PaperPosition } from '@/types/shared';
+
+// Cash a new paper portfolio starts with
+export const DEFAULT_STARTING_CASH = 100000;
+
+const toNumber = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+const toPaperPosition = (row: any): PaperPosition => ({
+  id: row.id,
+  symbol: row.symbol,
+  timeframe: row.timeframe,
+  direction: row.direction,
+  waveNumber: row.wave_number || undefined,
+  quantity: Number(row.quantity),
+  entryPrice: Number(row.entry_price),
+  stopPrice: toNumber(row.stop_price),
+  targetPrice: toNumber(row.target_price),
+  openedAt: row.opened_at,
+  status: row.status,
+  exitPrice: toNumber(row.exit_price),
+  exitReason: row.exit_reason,
+  closedAt: row.closed_at,
+  lastPrice: toNumber(row.last_price),
+  journalEntryId: row.journal_entry_id
+});
+
+export async function getPaperPortfolio(userId: string): Promise<{ startingCash: number; positions: PaperPosition[] }> {
+  const [portfolio, positions] = await Promise.all([
+    supabase.from('paper_portfolios').select('starting_cash').eq('user_id', userId).maybeSingle(),
+    supabase.from('paper_positions').select('*').eq('user_id', userId).order('opened_at', { ascending: false })
+  ]);
+
+  if (portfolio.error) throw portfolio.error;
+  if (positions.error) throw positions.error;
+  return {
+    startingCash: toNumber(portfolio.data?.starting_cash) ?? DEFAULT_STARTING_CASH,
+    positions: (positions.data || []).map(toPaperPosition)
+  };
+}
+
+export async function setStartingCash(userId: string, startingCash: number): Promise<void> {
+  const { error } = await supabase
+    .from('paper_portfolios')
+    .upsert({ user_id: userId, starting_cash: startingCash }, { onConflict: 'user_id' });
+
+  if (error) throw error;
+}
+
+export async function openPaperPosition(
+  userId: string,
+  position: Pick<PaperPosition, 'symbol' | 'timeframe' | 'direction' | 'quantity' | 'entryPrice'> &
+    Partial<Pick<PaperPosition, 'waveNumber' | 'stopPrice' | 'targetPrice' | 'journalEntryId'>>
+): Promise<PaperPosition> {
+  const { data, error } = await supabase
+    .from('paper_positions')
+    .insert({
+      user_id: userId,
+      symbol: position.symbol.trim().toUpperCase(),
+      timeframe: position.timeframe,
+      direction: position.direction,
+      wave_number: position.waveNumber || null,
+      quantity: position.quantity,
+      entry_price: position.entryPrice,
+      stop_price: position.stopPrice || null,
+      target_price: position.targetPrice || null,
+      journal_entry_id: position.journalEntryId || null,
+      last_price: position.entryPrice,
+      last_marked_at: new Date().toISOString()
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return toPaperPosition(data);
+}
+
+export async function closePaperPosition(positionId: string, price: number, reason: PaperExitReason): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('paper_positions')
+    .update({
+      status: 'closed',
+      exit_price: price,
+      exit_reason: reason,
+      closed_at: now,
+      last_price: price,
+      last_marked_at: now
+    })
+    .eq('id', positionId)
+    .eq('status', 'open');
+
+  if (error) throw error;
+}
+
+export async function deletePaperPosition(positionId: string): Promise<void> {
+  const { error } = await supabase
+    .from('paper_positions')
+    .delete()
+    .eq('id', positionId);
+
+  if (error) throw error;
+}
+
+/**
+ * Mark open positions to the latest quotes, closing those whose stop or target was reached
+ *
+ * @returns The positions with their new marks
+ */
+export async function markPaperPositions(positions: PaperPosition[]): Promise<PaperPosition[]> {
+  const open = positions.filter(position => position.status === 'open');
+  if (open.length === 0) return positions;
+
+  const quotes = await fetchStockQuotes([...new Set(open.map(position => position.symbol))]);
+  const prices = new Map(quotes.map(quote => [quote.symbol, quote.price ?? quote.regularMarketPrice]));
+  const now = new Date().toISOString();
+
+  return Promise.all(positions.map(async position => {
+    const price = prices.get(position.symbol);
+    if (position.status !== 'open' || !price) return position;
+
+    const exit = getPositionExit(position, price);
+    if (exit) {
+      await closePaperPosition(position.id, price, exit);
+      return { ...position, status: 'closed', exitPrice: price, exitReason: exit, closedAt: now, lastPrice: price };
+    }
+
+    const { error } = await supabase
+      .from('paper_positions')
+      .update({ last_price: price, last_marked_at: now })
+      .eq('id', position.id);
+    if (error) throw error;
+    return { ...position, lastPrice: price };
+  }));
+}
+
+/**
+ * Ask the API worker to mark every user's open positions
+ *
+ * @returns How many positions were closed on their stop or target
+ */
+export async function markAllPaperPositions(): Promise<number> {
+  const response = await fetch(buildApiUrl('/paper/mark'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Paper position marking failed with status ${response.status}`);
+  }
+
+  const json = await response.json();
+  return json.data?.closed ?? 0;
+}
@@ -0,0 +1,135 @@
+import { supabase, getAuthHeaders } from '@/lib/supabase';
+import { buildApiUrl } from '@/config/apiConfig';
+import { buildPredictionSnapshot } from '@/utils/predictionScoring';
+import type {
+  PredictionLevelStats,
+  PredictionSymbolStats,
+  StockHistoricalData,
+  WaveAnalysis
+} from '@/types/shared';
+
+const toNumber = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+const toLevelStats = (row: any): PredictionLevelStats => ({
+  timeframe: row.timeframe,
+  level: Number(row.level),
+  isExtension: row.is_extension,
+  label: row.label,
+  targets: Number(row.targets),
+  hits: Number(row.hits),
+  stopped: Number(row.stopped),
+  missed: Number(row.missed),
+  pending: Number(row.pending),
+  hitRate: toNumber(row.hit_rate),
+  avgBarsToHit: toNumber(row.avg_bars_to_hit)
+});
+
+const toSymbolStats = (row: any): PredictionSymbolStats => ({
+  symbol: row.symbol,
+  timeframe: row.timeframe,
+  predictions: Number(row.predictions),
+  stopsHit: Number(row.stops_hit),
+  targets: Number(row.targets),
+  hits: Number(row.hits),
+  pending: Number(row.pending),
+  hitRate: toNumber(row.hit_rate),
+  avgBarsToHit: toNumber(row.avg_bars_to_hit),
+  lastPredictionAt: row.last_prediction_at
+});
+
+/**
+ * Record what an analysis run predicts, so it can be scored later
+ * Runs that repeat the previous prediction (same wave, stop and targets) aren't stored again.
+ *
+ * @returns Whether a new snapshot was stored
+ */
+export async function recordPredictionSnapshot(
+  symbol: string,
+  timeframe: string,
+  analysis: WaveAnalysis,
+  bars: StockHistoricalData[]
+): Promise<boolean> {
+  const snapshot = buildPredictionSnapshot(symbol, timeframe, analysis, bars[bars.length - 1]);
+  if (!snapshot) return false;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return false;
+
+  const { data, error } = await supabase
+    .from('wave_predictions')
+    .upsert({
+      symbol: snapshot.symbol,
+      timeframe: snapshot.timeframe,
+      created_by: user.id,
+      as_of: snapshot.asOf,
+      price: snapshot.price,
+      trend: snapshot.trend || null,
+      wave_number: snapshot.waveNumber,
+      wave_start_price: snapshot.waveStartPrice,
+      wave_start_timestamp: snapshot.waveStartTimestamp,
+      confidence: snapshot.confidence ?? null,
+      stop_loss: snapshot.stopLoss,
+      fingerprint: snapshot.fingerprint
+    }, { onConflict: 'symbol,timeframe,fingerprint', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw error;
+  const predictionId = data?.[0]?.id;
+  if (!predictionId) return false;
+
+  const { error: targetsError } = await supabase
+    .from('wave_prediction_targets')
+    .insert(snapshot.targets.map(target => ({
+      prediction_id: predictionId,
+      level: target.level,
+      label: target.label,
+      target_price: target.targetPrice,
+      is_extension: target.isExtension
+    })));
+
+  if (targetsError) throw targetsError;
+  return true;
+}
+
+export async function getPredictionLevelStats(): Promise<PredictionLevelStats[]> {
+  const { data, error } = await supabase
+    .from('wave_prediction_level_stats')
+    .select('*')
+    .order('timeframe')
+    .order('is_extension')
+    .order('level');
+
+  if (error) throw error;
+  return (data || []).map(toLevelStats);
+}
+
+export async function getPredictionSymbolStats(): Promise<PredictionSymbolStats[]> {
+  const { data, error } = await supabase
+    .from('wave_prediction_symbol_stats')
+    .select('*')
+    .order('symbol')
+    .order('timeframe');
+
+  if (error) throw error;
+  return (data || []).map(toSymbolStats);
+}
+
+/**
+ * Ask the API worker to score open predictions against the bars since they were made
+ *
+ * @returns How many predictions were scored
+ */
+export async function scorePredictions(): Promise<number> {
+  const response = await fetch(buildApiUrl('/predictions/score'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Prediction scoring failed with status ${response.status}`);
+  }
+
+  const json = await response.json();
+  return json.data?.scored ?? 0;
+}
@@ -1,16 +1,37 @@
-import { supabase } from '../lib/supabase';
+import { supabase, getAuthHeaders } from '../lib/supabase';
+import { getWatchlistSymbols } from './watchlistService';
+import { evaluateAlerts } from './alertService';
+import { scorePredictions } from './predictionService';
+import { markAllPaperPositions } from './paperTradingService';
+import { buildApiUrl } from '@/config/apiConfig';
+
+// The worker counts at most this many symbol/timeframe pairs per request
+const ANALYSES_PER_REQUEST = 20;
 
 /**
  * Interface for schedule configuration
  */
 export interface ScheduleConfig {
   symbols: string[];         // List of symbols to analyze
+  watchlistId?: string;      // When set, analyze this watchlist's symbols instead of `symbols`
   timeframes: string[];      // List of timeframes to use (e.g., '1d', '4h', '1h')
   intervalMinutes: number;   // How often to run the analysis in minutes
   enabled: boolean;          // Whether the schedule is enabled
   lastRun?: string;          // ISO timestamp of last run
 }
 
+/**
+ * What a worker analysis run did
+ */
+export interface WaveAnalysisRunSummary {
+  due: number;
+  analyzed: number;
+  predictions: number;
+  remaining: number;
+  symbols: string[];
+  errors: string[];      // "SYMBOL timeframe: reason" for each pair that failed
+}
+
 /**
  * Default schedule configuration
  */
@@ -101,6 +122,45 @@ export function shouldRunScheduledAnalysis(config: ScheduleConfig): boolean {
   return shouldRun;
 }
 
+/**
+ * Symbols a run should cover: the configured watchlist's, or the fixed list
+ * when no watchlist is set or it can't be read
+ */
+export async function getScheduledSymbols(config: ScheduleConfig): Promise<string[]> {
+  if (!config.watchlistId) return config.symbols;
+
+  try {
+    const symbols = await getWatchlistSymbols(config.watchlistId);
+    if (symbols.length > 0) {
+      console.log(`[SCHEDULER:DEBUG] Using ${symbols.length} symbols from watchlist ${config.watchlistId}`);
+      return symbols;
+    }
+    console.warn(`[SCHEDULER:WARNING] Watchlist ${config.watchlistId} is empty, falling back to configured symbols`);
+  } catch (error) {
+    console.error(`[SCHEDULER:ERROR] Could not read watchlist ${config.watchlistId}, falling back to configured symbols:`, error);
+  }
+  return config.symbols;
+}
+
+/**
+ * Count waves for the given symbols and timeframes in the API worker, which stores the results
+ * where the app reads them and records prediction snapshots (POST /analysis/run)
+ */
+export async function runWaveAnalysis(symbols: string[], timeframes: string[]): Promise<WaveAnalysisRunSummary> {
+  const response = await fetch(buildApiUrl('/analysis/run'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify({ symbols, timeframes })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Wave analysis failed with status ${response.status}`);
+  }
+
+  const json = await response.json();
+  return json.data;
+}
+
 /**
  * Run the Elliott Wave analysis for all configured symbols and timeframes
  */
@@ -125,76 +185,61 @@ export async function runScheduledAnalysis(): Promise<{
     }
     
     const results: Record<string, any> = {};
+    const symbols = await getScheduledSymbols(config);
     
-    console.log(`[SCHEDULER:INFO] Will process ${config.symbols.length} symbols across ${config.timeframes.length} timeframes`);
-    console.log(`[SCHEDULER:DEBUG] Symbols: ${config.symbols.join(', ')}`);
+    console.log(`[SCHEDULER:INFO] Will process ${symbols.length} symbols across ${config.timeframes.length} timeframes`);
+    console.log(`[SCHEDULER:DEBUG] Symbols: ${symbols.join(', ')}`);
     console.log(`[SCHEDULER:DEBUG] Timeframes: ${config.timeframes.join(', ')}`);
     
-    // Trigger wave analysis for each symbol and timeframe using the background worker
-    for (const symbol of config.symbols) {
-      for (const timeframe of config.timeframes) {
-        try {
-          console.log(`[SCHEDULER:INFO] ---------- Processing ${symbol} (${timeframe}) ----------`);
-          
-          // Queue the analysis in the background worker
-          if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
-            console.log(`[SCHEDULER:DEBUG] Using service worker for ${symbol}`);
-            
-            // Log the message being sent to service worker
-            const message = {
-              type: 'analyze-waves',
-              symbol,
-              timeframe,
-              force: true
-            };
-            console.log(`[SCHEDULER:DEBUG] Message to service worker:`, JSON.stringify(message));
-            
-            navigator.serviceWorker.controller.postMessage(message);
-            
-            console.log(`[SCHEDULER:INFO] Message sent to service worker for ${symbol}`);
-            results[`${symbol}-${timeframe}`] = { queued: true };
-          } else {
-            // Fallback to direct API call if service worker is not available
-            console.log(`[SCHEDULER:WARNING] Service worker not available for ${symbol}, using direct API call`);
-            const apiEndpoint = process.env.VITE_API_ENDPOINT || '';
-            console.log(`[SCHEDULER:DEBUG] API endpoint: ${apiEndpoint}`);
-            
-            console.log(`[SCHEDULER:DEBUG] Preparing fetch request to ${apiEndpoint}/analyze-waves`);
-            const requestBody = {
-              symbol,
-              timeframe,
-              force: true,
-              storeInCache: true
-            };
-            console.log(`[SCHEDULER:DEBUG] Request body:`, JSON.stringify(requestBody));
-            
-            const response = await fetch(`${apiEndpoint}/analyze-waves`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json'
-              },
-              body: JSON.stringify(requestBody)
-            });
-            
-            console.log(`[SCHEDULER:DEBUG] Fetch response status: ${response.status}`);
-            
-            if (!response.ok) {
-              const text = await response.text();
-              console.error(`[SCHEDULER:ERROR] API error for ${symbol}: ${response.status}`, text);
-              throw new Error(`API error: ${response.status} - ${text}`);
-            }
-            
-            const responseJson = await response.json();
-            console.log(`[SCHEDULER:INFO] API response for ${symbol}:`, JSON.stringify(responseJson).substring(0, 200) + '...');
-            results[`${symbol}-${timeframe}`] = responseJson;
+    // Count waves in the API worker, a few symbols per request to stay inside its per-request limit
+    const chunkSize = Math.max(1, Math.floor(ANALYSES_PER_REQUEST / config.timeframes.length));
+    for (let i = 0; i < symbols.length; i += chunkSize) {
+      const chunk = symbols.slice(i, i + chunkSize);
+      try {
+        console.log(`[SCHEDULER:INFO] Counting waves for ${chunk.join(', ')}`);
+        const summary = await runWaveAnalysis(chunk, config.timeframes);
+        console.log(`[SCHEDULER:INFO] ${summary.analyzed} counts stored, ${summary.predictions} predictions recorded`);
+        summary.errors.forEach(error => console.warn(`[SCHEDULER:WARNING] ${error}`));
+        for (const symbol of chunk) {
+          for (const timeframe of config.timeframes) {
+            const error = summary.errors.find(message => message.startsWith(`${symbol} ${timeframe}:`));
+            results[`${symbol}-${timeframe}`] = error ? { error } : { analyzed: true };
+          }
+        }
+      } catch (error) {
+        console.error(`[SCHEDULER:ERROR] Error analyzing ${chunk.join(', ')}:`, error);
+        for (const symbol of chunk) {
+          for (const timeframe of config.timeframes) {
+            results[`${symbol}-${timeframe}`] = { error: String(error) };
           }
-        } catch (error) {
-          console.error(`[SCHEDULER:ERROR] Error analyzing ${symbol} (${timeframe}):`, error);
-          results[`${symbol}-${timeframe}`] = { error: String(error) };
         }
       }
     }
     
+    // Check alert rules against the fresh analyses
+    try {
+      const fired = await evaluateAlerts(symbols);
+      console.log(`[SCHEDULER:INFO] Alert rules evaluated, ${fired} alerts fired`);
+    } catch (error) {
+      console.error('[SCHEDULER:ERROR] Error evaluating alert rules:', error);
+    }
+
+    // Score open wave predictions against the latest bars
+    try {
+      const scored = await scorePredictions();
+      console.log(`[SCHEDULER:INFO] ${scored} wave predictions scored`);
+    } catch (error) {
+      console.error('[SCHEDULER:ERROR] Error scoring wave predictions:', error);
+    }
+
+    // Mark paper portfolios to market, closing positions on their stop or target
+    try {
+      const closed = await markAllPaperPositions();
+      console.log(`[SCHEDULER:INFO] Paper positions marked, ${closed} closed`);
+    } catch (error) {
+      console.error('[SCHEDULER:ERROR] Error marking paper positions:', error);
+    }
+    
     // Update the lastRun timestamp
     console.log('[SCHEDULER:INFO] Updating lastRun timestamp');
     await saveScheduleConfig({
@@ -0,0 +1,50 @@
+import { supabase } from '@/lib/supabase';
+import type { SavedScreen } from '@/types/shared';
+
+const toSavedScreen = (row: any): SavedScreen => ({
+  id: row.id,
+  name: row.name,
+  timeframe: row.timeframe,
+  filters: row.filters || {},
+  sort: row.sort
+});
+
+export async function getSavedScreens(userId: string): Promise<SavedScreen[]> {
+  const { data, error } = await supabase
+    .from('screens')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) throw error;
+  return (data || []).map(toSavedScreen);
+}
+
+/**
+ * Save a screen under its name, replacing an existing screen with the same name
+ */
+export async function saveScreen(userId: string, screen: Omit<SavedScreen, 'id'>): Promise<SavedScreen> {
+  const { data, error } = await supabase
+    .from('screens')
+    .upsert({
+      user_id: userId,
+      name: screen.name.trim(),
+      timeframe: screen.timeframe,
+      filters: screen.filters,
+      sort: screen.sort || null
+    }, { onConflict: 'user_id,name' })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return toSavedScreen(data);
+}
+
+export async function deleteScreen(screenId: string): Promise<void> {
+  const { error } = await supabase
+    .from('screens')
+    .delete()
+    .eq('id', screenId);
+
+  if (error) throw error;
+}
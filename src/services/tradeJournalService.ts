@@ -0,0 +1,81 @@
+import { supabase } from '@/lib/supabase';
+import type { TradeJournalEntry, TradeJournalStatus, TradePlan } from '@/types/shared';
+
+const toJournalEntry = (row: any): TradeJournalEntry => ({
+  id: row.id,
+  symbol: row.symbol,
+  timeframe: row.timeframe,
+  direction: row.direction,
+  waveNumber: row.wave_number || undefined,
+  entry: Number(row.entry),
+  stop: Number(row.stop),
+  shares: Number(row.shares),
+  accountSize: Number(row.account_size),
+  riskPct: Number(row.risk_pct),
+  riskAmount: Number(row.risk_amount),
+  positionValue: Number(row.position_value),
+  blendedR: Number(row.blended_r),
+  targets: row.targets || [],
+  status: row.status,
+  notes: row.notes,
+  createdAt: row.created_at
+});
+
+export async function getTradeJournal(userId: string): Promise<TradeJournalEntry[]> {
+  const { data, error } = await supabase
+    .from('trade_journal')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toJournalEntry);
+}
+
+export async function saveTradePlan(userId: string, plan: TradePlan, notes?: string): Promise<TradeJournalEntry> {
+  const { data, error } = await supabase
+    .from('trade_journal')
+    .insert({
+      user_id: userId,
+      symbol: plan.symbol,
+      timeframe: plan.timeframe,
+      direction: plan.direction,
+      wave_number: plan.waveNumber || null,
+      entry: plan.entry,
+      stop: plan.stop,
+      shares: plan.shares,
+      account_size: plan.accountSize,
+      risk_pct: plan.riskPct,
+      risk_amount: plan.riskAmount,
+      position_value: plan.positionValue,
+      blended_r: plan.blendedR,
+      targets: plan.targets,
+      notes: notes?.trim() || null
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return toJournalEntry(data);
+}
+
+export async function updateJournalEntry(
+  entryId: string,
+  changes: { status?: TradeJournalStatus; notes?: string | null }
+): Promise<void> {
+  const { error } = await supabase
+    .from('trade_journal')
+    .update(changes)
+    .eq('id', entryId);
+
+  if (error) throw error;
+}
+
+export async function deleteJournalEntry(entryId: string): Promise<void> {
+  const { error } = await supabase
+    .from('trade_journal')
+    .delete()
+    .eq('id', entryId);
+
+  if (error) throw error;
+}
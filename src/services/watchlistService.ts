@@ -0,0 +1,179 @@
+import { supabase } from '@/lib/supabase';
+import type { Watchlist, WatchlistItem } from '@/types/shared';
+
+// Name of the list created for users who don't have one yet
+export const DEFAULT_WATCHLIST_NAME = 'Favorites';
+
+// Cache row that held the one list everybody shared before watchlists were per user
+const LEGACY_FAVORITES_KEY = 'favorite_stocks';
+
+const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+/**
+ * Fetch every watchlist owned by a user, with their symbols in order
+ * RLS already limits rows to the signed-in user; filtering by user id keeps the query explicit
+ */
+export async function getWatchlists(userId: string): Promise<Watchlist[]> {
+  const { data, error } = await supabase
+    .from('watchlists')
+    .select('id, name, position, watchlist_items(symbol, position, notes)')
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    id: row.id,
+    name: row.name,
+    position: row.position,
+    items: ((row.watchlist_items || []) as WatchlistItem[])
+      .slice()
+      .sort((a, b) => a.position - b.position)
+  }));
+}
+
+/**
+ * Symbols of a single watchlist, in order
+ */
+export async function getWatchlistSymbols(watchlistId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('watchlist_items')
+    .select('symbol')
+    .eq('watchlist_id', watchlistId)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(item => item.symbol);
+}
+
+/**
+ * Create a watchlist, optionally filled with symbols
+ */
+export async function createWatchlist(userId: string, name: string, symbols: string[] = []): Promise<Watchlist> {
+  // New lists go after the user's existing ones
+  const { count } = await supabase
+    .from('watchlists')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  const { data, error } = await supabase
+    .from('watchlists')
+    .insert({ user_id: userId, name: name.trim(), position: count || 0 })
+    .select('id, name, position')
+    .single();
+
+  if (error) throw error;
+
+  const items: WatchlistItem[] = [...new Set(symbols.map(normalizeSymbol))]
+    .filter(Boolean)
+    .map((symbol, position) => ({ symbol, position, notes: null }));
+
+  if (items.length > 0) {
+    const { error: itemsError } = await supabase
+      .from('watchlist_items')
+      .insert(items.map(item => ({ ...item, watchlist_id: data.id })));
+    if (itemsError) throw itemsError;
+  }
+
+  return { ...data, items };
+}
+
+/**
+ * Give a user their first watchlist, carrying over the old shared favorites
+ * so nobody starts from an empty dashboard after the switch
+ *
+ * @returns The created list, or null if the user already has one
+ */
+export async function ensureDefaultWatchlist(userId: string): Promise<Watchlist | null> {
+  const existing = await getWatchlists(userId);
+  if (existing.length > 0) return null;
+
+  let legacySymbols: string[] = [];
+  try {
+    const { data } = await supabase
+      .from('cache')
+      .select('data')
+      .eq('key', LEGACY_FAVORITES_KEY)
+      .maybeSingle();
+    if (Array.isArray(data?.data)) legacySymbols = data.data;
+  } catch (error) {
+    console.warn('Could not read legacy favorites:', error);
+  }
+
+  return createWatchlist(userId, DEFAULT_WATCHLIST_NAME, legacySymbols);
+}
+
+export async function renameWatchlist(watchlistId: string, name: string): Promise<void> {
+  const { error } = await supabase
+    .from('watchlists')
+    .update({ name: name.trim() })
+    .eq('id', watchlistId);
+
+  if (error) throw error;
+}
+
+export async function deleteWatchlist(watchlistId: string): Promise<void> {
+  // Items go with the list (on delete cascade)
+  const { error } = await supabase
+    .from('watchlists')
+    .delete()
+    .eq('id', watchlistId);
+
+  if (error) throw error;
+}
+
+/**
+ * Add a symbol to the top of a list (most recent first, as the old favorites were)
+ */
+export async function addWatchlistSymbol(watchlist: Watchlist, symbol: string, notes?: string): Promise<void> {
+  const normalized = normalizeSymbol(symbol);
+  const symbols = [normalized, ...watchlist.items.map(item => item.symbol).filter(s => s !== normalized)];
+
+  const { error } = await supabase
+    .from('watchlist_items')
+    .insert({ watchlist_id: watchlist.id, symbol: normalized, position: 0, notes: notes || null });
+
+  if (error) throw error;
+
+  // Shift everything else down one place
+  await reorderWatchlist(watchlist.id, symbols);
+}
+
+export async function removeWatchlistSymbol(watchlistId: string, symbol: string): Promise<void> {
+  const { error } = await supabase
+    .from('watchlist_items')
+    .delete()
+    .eq('watchlist_id', watchlistId)
+    .eq('symbol', symbol);
+
+  if (error) throw error;
+}
+
+export async function updateWatchlistNotes(watchlistId: string, symbol: string, notes: string): Promise<void> {
+  const { error } = await supabase
+    .from('watchlist_items')
+    .update({ notes: notes.trim() || null })
+    .eq('watchlist_id', watchlistId)
+    .eq('symbol', symbol);
+
+  if (error) throw error;
+}
+
+/**
+ * Store a new order for a list's symbols
+ *
+ * @param watchlistId - List to reorder
+ * @param symbols - Every symbol of the list, in the new order
+ */
+export async function reorderWatchlist(watchlistId: string, symbols: string[]): Promise<void> {
+  // Only the position column is sent, so notes survive the upsert
+  const { error } = await supabase
+    .from('watchlist_items')
+    .upsert(
+      symbols.map((symbol, position) => ({ watchlist_id: watchlistId, symbol, position })),
+      { onConflict: 'watchlist_id,symbol' }
+    );
+
+  if (error) throw error;
+}
@@ -2,10 +2,14 @@ import { toast } from "@/lib/toast";
 import type { 
   StockData as SharedStockData, 
   StockHistoricalData as SharedStockHistoricalData, 
-  BackendHealthCheck 
+  AssetClass,
+  BackendHealthCheck,
+  HistoryInterval
 } from '@/types/shared';
+import { HISTORY_INTERVAL_MS } from '@/types/shared';
 
 import { saveToCache } from '@/services/cacheService';
+import { ASSET_UNIVERSES } from '@/utils/assetClasses';
 
 // Re-export the types to maintain compatibility
 export type StockData = SharedStockData;
@@ -24,6 +28,20 @@ export const invalidateCache = (): void => {
   });
 };
 
+// Days of history requested per interval; intraday intervals use the server's default
+// (Yahoo keeps only weeks of minute bars and two years of hourly ones)
+const HISTORY_LOOKBACK_DAYS: Partial<Record<HistoryInterval, number>> = {
+  '1d': 365,
+  '1wk': 365 * 5,
+  '1mo': 365 * 20
+};
+
+// `refresh` makes the API check for new bars even if its bar store refreshed the series recently
+const buildHistoryUrl = (symbol: string, timeframe: string, refresh: boolean = false): string => {
+  const lookback = HISTORY_LOOKBACK_DAYS[timeframe as HistoryInterval];
+  return buildApiUrl(`/stocks/${encodeURIComponent(symbol)}/history?timeframe=${timeframe}${lookback ? `&lookback=${lookback}` : ''}${refresh ? '&refresh=true' : ''}`);
+};
+
 // Export the top stocks array
 export const topStockSymbols = [
   'AAPL', 'MSFT', 'GOOGL', 'AMZN', 'NVDA', 'META', 'TSLA', 'BRK-B', 'UNH', 'LLY', 
@@ -70,8 +88,6 @@ export function buildApiUrl(endpoint: string): string {
 // Use the function to get the base URL
 const API_BASE_URL = getApiBaseUrl();
 
-const USE_MOCK_DATA = false; // Set to false when your backend is working
-
 // Add cache utility functions at the top of the file
 
 // Add import for the new cache service
@@ -80,9 +96,10 @@ import { getFromCache, pruneCache } from '@/services/cacheService';
 // Add LZ-string for compression (you'll need to install this package)
 import * as LZString from 'lz-string';
 
-// Update the fetchTopStocks function in yahooFinanceService.ts
-export const fetchTopStocks = async (limit: number = 100): Promise<StockData[]> => {
-  const cacheKey = 'top-stocks';
+// Most active stocks, or the crypto / forex universe for those asset classes
+export const fetchTopStocks = async (limit: number = 100, assetClass: AssetClass = 'stocks'): Promise<StockData[]> => {
+  const cacheKey = assetClass === 'stocks' ? 'top-stocks' : `top-${assetClass}`;
+  const assetParam = assetClass === 'stocks' ? '' : `&assetClass=${assetClass}`;
   
   // Try to get from cache first (now async!)
   const cached = await getFromCache<StockData[]>(cacheKey);
@@ -91,8 +108,8 @@ export const fetchTopStocks = async (limit: number = 100): Promise<StockData[]>
   try {
     // Try multiple URL patterns to improve reliability
     const urls = [
-      `/api/stocks/top?limit=${limit}`,    // Vite proxy path (relative)
-      `https://elliottwaves.ai/api/stocks/top?limit=${limit}` // Direct server path
+      `/api/stocks/top?limit=${limit}${assetParam}`,    // Vite proxy path (relative)
+      `https://elliottwaves.ai/api/stocks/top?limit=${limit}${assetParam}` // Direct server path
     ];
     
     let response;
@@ -147,16 +164,18 @@ export const fetchTopStocks = async (limit: number = 100): Promise<StockData[]>
     console.error('Error fetching top stocks:', error);
     
     // Use fallback data when API fails
-    const fallbackData = getFallbackStockData();
+    const fallbackData = getFallbackStockData(assetClass);
     await saveToCache(cacheKey, fallbackData, CACHE_DURATION);
     return fallbackData;
   }
 };
 
 // Add helper function for fallback data
-function getFallbackStockData(): StockData[] {
-  // Return a small set of major stocks as fallback
-  const topSymbols = ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'META', 'TSLA', 'NVDA', 'V', 'JPM', 'WMT'];
+function getFallbackStockData(assetClass: AssetClass = 'stocks'): StockData[] {
+  // Return a small set of major symbols as fallback
+  const topSymbols = assetClass === 'stocks'
+    ? ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'META', 'TSLA', 'NVDA', 'V', 'JPM', 'WMT']
+    : ASSET_UNIVERSES[assetClass].slice(0, 10);
   
   return topSymbols.map(symbol => ({
     symbol,
@@ -186,85 +205,6 @@ const API_STATUS = {
   failureTimeout: 5 * 60 * 1000 // 5 minutes - Add this missing property
 };
 
-/**
- * Smart fetch function that falls back to mock data when API endpoints fail
- */
-async function smartFetch<T>(
-  endpoint: string, 
-  mockDataFn: () => T, 
-  cacheKey?: string,
-  cacheDuration?: number,
-  forceReal: boolean = false // Add this parameter
-): Promise<T> {
-  
-  // Use API_BASE_URL instead of BASE_API_URL
-  const fullEndpoint = API_BASE_URL + endpoint;
-  const cacheTimeoutKey = `timeout_${endpoint}`;
-  
-  try {
-    // Check if we should use real API or fallback to mock
-    if (!forceReal) {
-      // Check if this endpoint is known to be failing
-      const lastFailureTime = API_STATUS.failedEndpoints.get(fullEndpoint);
-      if (lastFailureTime && Date.now() - lastFailureTime < API_STATUS.failureTimeout) {
-        console.warn(`Using mock data for ${endpoint} due to recent failure`);
-        throw new Error('Using mock data due to recent failure');
-      }
-    }
-    
-    // Make the API request
-    const response = await fetch(fullEndpoint, {
-      headers: {
-        'Accept': 'application/json'
-      }
-    });
-    
-    // Handle non-200 responses
-    if (!response.ok) {
-      throw new Error(`API returned status ${response.status}: ${response.statusText}`);
-    }
-    
-    // Check content type
-    const contentType = response.headers.get('content-type');
-    if (!contentType || !contentType.includes('application/json')) {
-      throw new Error('API returned non-JSON response');
-    }
-    
-    // Parse the JSON response
-    const data = await response.json();
-    
-    // Mark this endpoint as working
-    API_STATUS.workingEndpoints.add(fullEndpoint);
-    
-    // Save to cache if needed
-    if (cacheKey && cacheDuration) {
-      await saveToCache(cacheKey, data, cacheDuration);
-    }
-    
-    return data as T;
-  } catch (error) {
-    console.error(`Error fetching ${endpoint}:`, error);
-    
-    // Don't fall back to mock data if forceReal is true
-    if (forceReal) {
-      throw error; // Re-throw to handler
-    }
-    
-    // Mark this endpoint as failed for the timeout period
-    API_STATUS.failedEndpoints.set(fullEndpoint, Date.now());
-    
-    // Get mock data
-    const mockData = mockDataFn();
-    
-    // Save mock data to cache if needed, but with shorter duration
-    if (cacheKey && cacheDuration) {
-      await saveToCache(cacheKey, mockData, cacheDuration / 2);
-    }
-    
-    return mockData;
-  }
-}
-
 // Update the fetchHistoricalData function to properly handle the API response data and add better error handling
 
 export const fetchHistoricalData = async (
@@ -273,8 +213,7 @@ export const fetchHistoricalData = async (
   forceRefresh: boolean = false
 ): Promise<StockHistoricalData[]> => {
   try {
-    // Explicitly add timeframe and lookback=365 to match the Admin page's fetch logic
-    const url = buildApiUrl(`/stocks/${symbol}/history?timeframe=${timeframe}&lookback=365`);
+    const url = buildHistoryUrl(symbol, timeframe, forceRefresh);
     console.log(`Fetching historical data: ${url}`);
     
     const response = await fetch(url, {
@@ -356,17 +295,16 @@ export const fetchHistoricalData = async (
     // Sort by timestamp ascending
     historicalData.sort((a, b) => a.timestamp - b.timestamp);
     
-    // Validate we have enough data points
+    // Short histories are returned as they are; callers decide whether there's enough to analyze
     if (historicalData.length < 50) {
       console.warn(`Limited data available for ${symbol}: ${historicalData.length} points`);
-      return generateMockHighQualityData(symbol, timeframe);
     }
     
     return historicalData;
   } catch (error) {
+    // No synthetic fallback: made-up bars would produce made-up wave counts
     console.error(`Error fetching historical data for ${symbol}:`, error);
-    // Fall back to mock data on error
-    return generateMockHighQualityData(symbol, timeframe);
+    throw error;
   }
 };
 
@@ -380,351 +318,6 @@ export const isUsingFallbackMode = (): boolean => {
   return false;
 };
 
-// Add a helper function to generate fallback historical data
-function getFallbackHistoricalData(symbol: string): StockHistoricalData[] {
-  // Create some synthetic data points as fallback
-  const fallbackData: StockHistoricalData[] = [];
-  const now = new Date();
-  
-  // Generate 100 days of dummy data (increased from 90)
-  for (let i = 100; i >= 0; i--) {
-    const date = new Date(now);
-    date.setDate(now.getDate() - i);
-    date.setHours(0, 0, 0, 0);
-    
-    // Base price varies by symbol to make them look different
-    const basePrice = 100 + (symbol.charCodeAt(0) % 10) * 10;
-    
-    // Small random variations with a slight trend based on symbol
-    const trend = (symbol.charCodeAt(0) % 3 - 1) * 0.1; // -0.1, 0, or 0.1
-    const dayVariation = (Math.sin(i/10) * 10) + (Math.random() * 5 - 2.5) + (i * trend);
-    const open = basePrice + dayVariation;
-    const close = open + (Math.random() * 4 - 2);
-    const high = Math.max(open, close) + (Math.random() * 2);
-    const low = Math.min(open, close) - (Math.random() * 2);
-    
-    fallbackData.push({
-      timestamp: date.getTime(),
-      open,
-      high,
-      low,
-      close, 
-      volume: Math.floor(Math.random() * 1000000) + 500000
-    });
-  }
-  
-  return fallbackData;
-}
-
-// Add this helper function to generate mock data
-function generateMockHistoricalData(symbol: string, timeframe: string | number): SharedStockHistoricalData[] {
-  let days: number;
-  
-  // Convert timeframe string to number of days
-  if (typeof timeframe === 'string') {
-    days = timeframe === '1d' ? 365 :
-           timeframe === '1wk' ? 52 :
-           timeframe === '1mo' ? 24 : 365;
-  } else {
-    days = timeframe;
-  }
-  
-  const mockData: SharedStockHistoricalData[] = [];
-  const today = new Date();
-  let price = 100 + (symbol.charCodeAt(0) % 50); // Base price on first letter of symbol
-  
-  for (let i = days; i >= 0; i--) {
-    const date = new Date(today);
-    date.setDate(today.getDate() - i);
-    
-    // Generate some random price movement with an upward trend
-    const change = (Math.random() - 0.48) * 2; // Slight upward bias
-    price = Math.max(10, price * (1 + change / 100));
-    
-    const dayVolatility = Math.random() * 0.02;
-    const high = price * (1 + dayVolatility);
-    const low = price * (1 - dayVolatility);
-    const open = low + Math.random() * (high - low);
-    
-    mockData.push({
-      timestamp: Math.floor(date.getTime() / 1000),
-      open: Number(open.toFixed(2)),
-      high: Number(high.toFixed(2)),
-      close: Number(price.toFixed(2)),
-      low: Number(low.toFixed(2)),
-      volume: Math.floor(Math.random() * 10000)
-    });
-  }
-  
-  return mockData;
-}
-
-// Generate better quality mock data with realistic patterns
-function generateMockHighQualityData(symbol: string, timeframe: string): StockHistoricalData[] {
-  console.log(`Generating realistic mock data for ${symbol}`);
-  
-  // Determine number of data points based on timeframe - INCREASED MINIMUM POINTS
-  // Ensuring we always have at least 250 data points for any timeframe
-  // This prevents "Insufficient data points" errors in wave analysis
-  const dataPoints = timeframe === '1d' ? 365 : 
-                     timeframe === '1wk' ? 700 : 
-                     timeframe === '1mo' ? 700 : 365;
-  
-  // Always ensure at least 250 data points regardless of timeframe (minimum required for wave analysis)
-  const minimumDataPoints = Math.max(dataPoints, 250);
-  
-  const mockData: StockHistoricalData[] = [];
-  const today = new Date();
-  
-  // Base price varies by symbol to differentiate them
-  let basePrice = 100 + (symbol.charCodeAt(0) % 50);
-  
-  // Trend parameters
-  const trendStrength = (symbol.charCodeAt(0) % 5) / 100; // 0-0.05 trend strength
-  const isBullish = symbol.charCodeAt(1) % 2 === 0; // Alternate trend direction
-  const trend = isBullish ? trendStrength : -trendStrength;
-  
-  // Volatility based on symbol
-  const volatility = 0.01 + (symbol.charCodeAt(2) % 10) / 100; // 0.01-0.11
-  
-  // Time unit based on timeframe
-  const timeUnit = timeframe === '1d' ? 'days' : 
-                  timeframe === '1wk' ? 'weeks' : 'months';
-                  
-  for (let i = minimumDataPoints; i >= 0; i--) {
-    const date = new Date(today);
-    if (timeUnit === 'days') {
-      date.setDate(today.getDate() - i);
-    } else if (timeUnit === 'weeks') {
-      date.setDate(today.getDate() - (i * 7));
-    } else {
-      date.setMonth(today.getMonth() - i);
-    }
-    date.setHours(0, 0, 0, 0);
-    
-    // Add some cyclicality to price movements
-    const cycle = Math.sin(i / 20) * volatility * 10;
-    const randomWalk = (Math.random() - 0.5) * volatility * 2;
-    const trendComponent = trend * i;
-    
-    // Calculate price movement
-    const change = cycle + randomWalk + trendComponent;
-    basePrice = Math.max(1, basePrice * (1 + change));
-    
-    // Daily volatility - creating realistic price action
-    const dayVolatility = volatility * (0.5 + Math.random() * 0.5);
-    const high = basePrice * (1 + dayVolatility);
-    const low = basePrice * (1 - dayVolatility);
-    
-    // Determine if this is an up or down day - creating realistic candlesticks
-    const isUpDay = Math.random() > 0.5 - (isBullish ? 0.1 : -0.1);
-    
-    // Set open and close based on up/down day
-    let open, close;
-    if (isUpDay) {
-      open = low + Math.random() * (basePrice - low);
-      close = basePrice + Math.random() * (high - basePrice);
-    } else {
-      open = basePrice + Math.random() * (high - basePrice);
-      close = low + Math.random() * (basePrice - low);
-    }
-    
-    // Volume varies with volatility and has occasional spikes
-    const volumeBase = 100000 + Math.random() * 900000;
-    const volumeSpike = Math.random() > 0.95 ? 3 : 1;
-    const volume = Math.floor(volumeBase * (1 + dayVolatility * 5) * volumeSpike);
-    
-    mockData.push({
-      timestamp: date.getTime(),
-      open,
-      high,
-      low,
-      close,
-      volume
-    });
-  }
-  
-  // Add some wave patterns artificially to make the mock data more suitable for wave analysis
-  // This helps ensure the data actually has patterns that can be detected
-  addArtificialWavePatterns(mockData);
-  
-  console.log(`Generated ${mockData.length} data points for ${symbol}`);
-  return mockData;
-}
-
-/**
- * Adds artificial wave patterns to the mock data to make it more suitable for wave analysis
- */
-function addArtificialWavePatterns(data: StockHistoricalData[]): void {
-  // Only proceed if we have enough data points
-  if (data.length < 50) return;
-  
-  // Create artificial Elliott Wave pattern
-  // We'll modify about 30% of the data points to create more obvious patterns
-  const numPointsToModify = Math.floor(data.length * 0.3);
-  const startIndex = Math.floor(Math.random() * (data.length - numPointsToModify));
-  
-  // Create a 5-3 Elliott Wave pattern
-  // Wave 1: slight uptrend
-  // Wave 2: retracement (lower)
-  // Wave 3: strong uptrend (highest)
-  // Wave 4: retracement (higher than wave 2 low)
-  // Wave 5: final uptrend (lower than wave 3)
-  // A-B-C correction waves
-  
-  const patternLength = numPointsToModify;
-  const wave1Length = Math.floor(patternLength * 0.15);
-  const wave2Length = Math.floor(patternLength * 0.1);
-  const wave3Length = Math.floor(patternLength * 0.25);
-  const wave4Length = Math.floor(patternLength * 0.1);
-  const wave5Length = Math.floor(patternLength * 0.15);
-  const waveALength = Math.floor(patternLength * 0.1);
-  const waveBLength = Math.floor(patternLength * 0.05);
-  const waveCLength = Math.floor(patternLength * 0.1);
-  
-  // Get the base price from the starting point
-  let basePrice = data[startIndex].close;
-  const priceRange = basePrice * 0.2; // 20% price range
-  
-  // Wave 1: slight uptrend
-  for (let i = 0; i < wave1Length; i++) {
-    const idx = startIndex + i;
-    if (idx >= data.length) break;
-    
-    const progress = i / wave1Length;
-    const priceIncrease = priceRange * 0.2 * progress; // Wave 1: 20% of price range
-    
-    applyWaveModification(data[idx], basePrice + priceIncrease, 0.005);
-  }
-  
-  // Wave 2: retracement
-  for (let i = 0; i < wave2Length; i++) {
-    const idx = startIndex + wave1Length + i;
-    if (idx >= data.length) break;
-    
-    const progress = i / wave2Length;
-    const wave1High = basePrice + priceRange * 0.2;
-    const wave2Target = basePrice + priceRange * 0.05; // 75% retracement
-    const currentPrice = wave1High - ((wave1High - wave2Target) * progress);
-    
-    applyWaveModification(data[idx], currentPrice, 0.008);
-  }
-  
-  // Wave 3: strong uptrend
-  for (let i = 0; i < wave3Length; i++) {
-    const idx = startIndex + wave1Length + wave2Length + i;
-    if (idx >= data.length) break;
-    
-    const progress = i / wave3Length;
-    const wave2Low = basePrice + priceRange * 0.05;
-    const wave3Target = basePrice + priceRange * 0.7; // Strongest wave
-    const currentPrice = wave2Low + ((wave3Target - wave2Low) * progress);
-    
-    applyWaveModification(data[idx], currentPrice, 0.01);
-  }
-  
-  // Wave 4: retracement
-  for (let i = 0; i < wave4Length; i++) {
-    const idx = startIndex + wave1Length + wave2Length + wave3Length + i;
-    if (idx >= data.length) break;
-    
-    const progress = i / wave4Length;
-    const wave3High = basePrice + priceRange * 0.7;
-    const wave4Target = basePrice + priceRange * 0.45; // Shallow retracement
-    const currentPrice = wave3High - ((wave3High - wave4Target) * progress);
-    
-    applyWaveModification(data[idx], currentPrice, 0.007);
-  }
-  
-  // Wave 5: final uptrend
-  for (let i = 0; i < wave5Length; i++) {
-    const idx = startIndex + wave1Length + wave2Length + wave3Length + wave4Length + i;
-    if (idx >= data.length) break;
-    
-    const progress = i / wave5Length;
-    const wave4Low = basePrice + priceRange * 0.45;
-    const wave5Target = basePrice + priceRange * 0.6; // Lower than wave 3
-    const currentPrice = wave4Low + ((wave5Target - wave4Low) * progress);
-    
-    applyWaveModification(data[idx], currentPrice, 0.009);
-  }
-  
-  // A-B-C correction
-  // Wave A: downtrend
-  for (let i = 0; i < waveALength; i++) {
-    const idx = startIndex + wave1Length + wave2Length + wave3Length + wave4Length + wave5Length + i;
-    if (idx >= data.length) break;
-    
-    const progress = i / waveALength;
-    const wave5High = basePrice + priceRange * 0.6;
-    const waveATarget = basePrice + priceRange * 0.3; // Sharp correction
-    const currentPrice = wave5High - ((wave5High - waveATarget) * progress);
-    
-    applyWaveModification(data[idx], currentPrice, 0.01);
-  }
-  
-  // Wave B: uptrend
-  for (let i = 0; i < waveBLength; i++) {
-    const idx = startIndex + wave1Length + wave2Length + wave3Length + wave4Length + wave5Length + waveALength + i;
-    if (idx >= data.length) break;
-    
-    const progress = i / waveBLength;
-    const waveALow = basePrice + priceRange * 0.3;
-    const waveBTarget = basePrice + priceRange * 0.45; // Partial retracement
-    const currentPrice = waveALow + ((waveBTarget - waveALow) * progress);
-    
-    applyWaveModification(data[idx], currentPrice, 0.008);
-  }
-  
-  // Wave C: downtrend
-  for (let i = 0; i < waveCLength; i++) {
-    const idx = startIndex + wave1Length + wave2Length + wave3Length + wave4Length + wave5Length + waveALength + waveBLength + i;
-    if (idx >= data.length) break;
-    
-    const progress = i / waveCLength;
-    const waveBHigh = basePrice + priceRange * 0.45;
-    const waveCTarget = basePrice + priceRange * 0.15; // Lower than wave A
-    const currentPrice = waveBHigh - ((waveBHigh - waveCTarget) * progress);
-    
-    applyWaveModification(data[idx], currentPrice, 0.012);
-  }
-}
-
-/**
- * Applies a wave modification to a single data point
- */
-function applyWaveModification(dataPoint: StockHistoricalData, targetPrice: number, volatility: number): void {
-  // Add some randomness to maintain realistic look
-  const randomFactor = 1 + (Math.random() - 0.5) * volatility * 2;
-  const actualTarget = targetPrice * randomFactor;
-  
-  // Calculate high and low based on target
-  const range = actualTarget * volatility * 2;
-  const high = actualTarget + range / 2;
-  const low = actualTarget - range / 2;
-  
-  // Determine if this is an up or down day (50/50 chance)
-  const isUpDay = Math.random() > 0.5;
-  
-  // Set the OHLC values
-  if (isUpDay) {
-    dataPoint.open = low + Math.random() * (actualTarget - low);
-    dataPoint.close = actualTarget;
-    dataPoint.high = Math.max(high, dataPoint.open, dataPoint.close);
-    dataPoint.low = Math.min(low, dataPoint.open, dataPoint.close);
-  } else {
-    dataPoint.open = actualTarget;
-    dataPoint.close = low + Math.random() * (actualTarget - low);
-    dataPoint.high = Math.max(high, dataPoint.open, dataPoint.close);
-    dataPoint.low = Math.min(low, dataPoint.open, dataPoint.close);
-  }
-  
-  // Adjust volume to be proportional to price movement
-  const priceChange = Math.abs(dataPoint.open - dataPoint.close);
-  const volumeMultiplier = 1 + (priceChange / actualTarget) * 10;
-  dataPoint.volume = Math.floor(dataPoint.volume * volumeMultiplier);
-}
-
 // Update the health check function to handle errors better
 
 // Update the checkBackendHealth function to be more robust
@@ -829,6 +422,31 @@ export const getTopStocks = async (): Promise<SharedStockData[]> => {
   return stocks;
 };
 
+// Largest batch the quotes endpoint accepts
+const QUOTE_BATCH_SIZE = 200;
+
+/**
+ * Fetch quotes (price, change, volume, 52-week range) for many symbols
+ * Symbols Yahoo doesn't know are missing from the result.
+ */
+export const fetchStockQuotes = async (symbols: string[]): Promise<SharedStockData[]> => {
+  const batches: string[][] = [];
+  for (let i = 0; i < symbols.length; i += QUOTE_BATCH_SIZE) {
+    batches.push(symbols.slice(i, i + QUOTE_BATCH_SIZE));
+  }
+
+  const results = await Promise.all(batches.map(async batch => {
+    const response = await fetch(buildApiUrl(`/stocks/quotes?symbols=${encodeURIComponent(batch.join(','))}`));
+    if (!response.ok) {
+      throw new Error(`Quotes request failed with status ${response.status}`);
+    }
+    const json = await response.json();
+    return (json.data || []) as SharedStockData[];
+  }));
+
+  return results.flat();
+};
+
 // Helper function to reduce historical data size by sampling
 function reduceHistoricalDataSize(data: StockHistoricalData[]): StockHistoricalData[] {
   // If data is small enough, return as is
@@ -850,19 +468,16 @@ function reduceHistoricalDataSize(data: StockHistoricalData[]): StockHistoricalD
   return [...sampledOlderData, ...recentData];
 }
 
-// Update your getHistoricalPrices function to support forcing real data
-
+// Throws when the API can't serve the symbol; there is no synthetic fallback.
 export async function getHistoricalPrices(
   symbol: string, 
   timeframe: string = '1d',
-  forceRefresh: boolean = false,
-  forceReal: boolean = false
+  forceRefresh: boolean = false
 ): Promise<StockHistoricalData[]> {
   try {
     console.log(`Fetching historical data for ${symbol} with timeframe ${timeframe}`);
     
-    // Use the new URL pattern with explicit timeframe and lookback
-    const url = buildApiUrl(`/stocks/${symbol}/history?timeframe=${timeframe}&lookback=365`);
+    const url = buildHistoryUrl(symbol, timeframe, forceRefresh);
     const response = await fetch(url, {
       method: 'GET',
       headers: {
@@ -897,15 +512,7 @@ export async function getHistoricalPrices(
     return historicalData;
   } catch (error) {
     console.error(`Error fetching historical data for ${symbol}:`, error);
-    
-    if (forceReal) {
-      throw error;
-    }
-    
-    // If there was an error and we're not forcing real data, generate and use fallback data
-    console.log(`Generating fallback data for ${symbol}`);
-    const fallbackData = generateMockHighQualityData(symbol, timeframe);
-    return fallbackData;
+    throw error;
   }
 }
 
@@ -915,145 +522,3 @@ const CACHE_DURATIONS = {
   stockInfo: CACHE_DURATION
 };
 
-/**
- * Generates enhanced fallback data with sufficient points for wave analysis
- * Creates data with realistic price movements and volatility
- */
-function generateEnhancedFallbackData(symbol: string, numPoints: number = 120): StockHistoricalData[] {
-  const basePrice = 100 + Math.random() * 900; // Random base price between 100 and 1000
-  const volatility = 0.02 + Math.random() * 0.06; // Random volatility between 2-8%
-  const trend = (Math.random() - 0.5) * 0.01; // Small upward or downward trend
-  
-  const data: StockHistoricalData[] = [];
-  let currentPrice = basePrice;
-  
-  // Create a date object for today and subtract numPoints days
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - numPoints);
-  
-  // Generate slightly more realistic price movements with some patterns
-  const waveCycles = Math.floor(numPoints / 20); // Create several wave cycles
-  
-  for (let i = 0; i < numPoints; i++) {
-    // Add trend and random component
-    const randomFactor = (Math.random() - 0.5) * volatility;
-    
-    // Add some wave patterns to make it look more realistic
-    const waveComponent = Math.sin((i / numPoints) * waveCycles * Math.PI * 2) * volatility * basePrice * 0.5;
-    
-    // Calculate price change with all components
-    const priceChange = (trend * currentPrice) + (randomFactor * currentPrice) + waveComponent;
-    currentPrice += priceChange;
-    
-    // Ensure price doesn't go negative
-    if (currentPrice < 1) currentPrice = 1 + Math.random() * 5;
-    
-    // Calculate date for this point
-    const pointDate = new Date(startDate);
-    pointDate.setDate(startDate.getDate() + i);
-    
-    // Calculate other price values based on the current price
-    const open = currentPrice * (1 + (Math.random() - 0.5) * 0.01);
-    const high = Math.max(open, currentPrice) * (1 + Math.random() * 0.01);
-    const low = Math.min(open, currentPrice) * (1 - Math.random() * 0.01);
-    
-    data.push({
-      timestamp: pointDate.getTime(),
-      open,
-      high,
-      low,
-      close: currentPrice,
-      volume: Math.floor(Math.random() * 1000000) + 500000,
-    });
-  }
-  
-  return data;
-}
-
-/**
- * Augments existing historical data with synthetic points to reach the target number
- * Uses statistical properties of the real data to generate realistic synthetic points
- */
-function augmentHistoricalData(
-  existingData: StockHistoricalData[],
-  targetCount: number
-): StockHistoricalData[] {
-  if (existingData.length >= targetCount) {
-    return existingData;
-  }
-
-  // Sort data by timestamp ascending
-  const sortedData = [...existingData].sort((a, b) => 
-    a.timestamp - b.timestamp
-  );
-  
-  // Calculate how many points we need to generate
-  const pointsToGenerate = targetCount - sortedData.length;
-  
-  // Calculate statistical properties from real data
-  let sumDailyChange = 0;
-  let sumSquaredDailyChange = 0;
-  let changes: number[] = [];
-  
-  for (let i = 1; i < sortedData.length; i++) {
-    const prevClose = sortedData[i-1].close;
-    const currentClose = sortedData[i].close;
-    const dailyChange = (currentClose - prevClose) / prevClose;
-    
-    changes.push(dailyChange);
-    sumDailyChange += dailyChange;
-    sumSquaredDailyChange += dailyChange * dailyChange;
-  }
-  
-  const avgChange = sumDailyChange / changes.length;
-  const stdDev = Math.sqrt(sumSquaredDailyChange / changes.length - avgChange * avgChange);
-  
-  // Generate synthetic points before the existing data
-  const result: StockHistoricalData[] = [...sortedData];
-  const firstPoint = sortedData[0];
-  const lastDate = new Date(firstPoint.timestamp);
-  
-  for (let i = 0; i < pointsToGenerate; i++) {
-    // Move back in time by 1 day
-    lastDate.setDate(lastDate.getDate() - 1);
-    
-    // Skip weekends
-    if (lastDate.getDay() === 0) { // Sunday
-      lastDate.setDate(lastDate.getDate() - 2);
-    } else if (lastDate.getDay() === 6) { // Saturday
-      lastDate.setDate(lastDate.getDate() - 1);
-    }
-    
-    // Generate a random daily change using normal distribution properties
-    // Box-Muller transform to get normal distribution
-    const u1 = Math.random();
-    const u2 = Math.random();
-    const z = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
-    const change = avgChange + stdDev * z * 0.7; // Reduce volatility slightly for more stable data
-    
-    // Calculate the previous day's price based on this change
-    const prevClose = result[0].close / (1 + change);
-    
-    // Generate reasonable high/low values
-    const amplitude = result[0].high - result[0].low;
-    const relativeAmplitude = amplitude / result[0].close;
-    const newAmplitude = prevClose * relativeAmplitude;
-    
-    const synthetic: StockHistoricalData = {
-      timestamp: lastDate.getTime(),
-      open: prevClose * (1 - 0.2 * Math.random() * relativeAmplitude),
-      close: prevClose,
-      high: prevClose + (newAmplitude * 0.4 * (0.5 + Math.random())),
-      low: prevClose - (newAmplitude * 0.4 * (0.5 + Math.random())),
-      volume: Math.round(
-        result.reduce((sum, point) => sum + point.volume, 0) / result.length * 
-        (0.7 + Math.random() * 0.6)
-      )
-    };
-    
-    // Insert at the beginning
-    result.unshift(synthetic);
-  }
-  
-  return result;
-}
@@ -0,0 +1,133 @@
+-- Alert rules, their fired history (the in-app inbox) and delivery channels
+-- Rules are evaluated server-side by the API worker after each scheduled analysis run
+
+create table if not exists public.alert_rules (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null,
+  symbol text,
+  watchlist_id uuid references public.watchlists(id) on delete cascade,
+  timeframe text not null default '1d',
+  condition text not null check (condition in (
+    'wave_entered', 'wave_changed', 'wave_invalidated', 'fib_target_touched', 'price_above', 'price_below'
+  )),
+  params jsonb not null default '{}'::jsonb,
+  channels text[] not null default '{}',
+  enabled boolean not null default true,
+  cooldown_minutes integer not null default 1440,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now(),
+  -- A rule watches one symbol or a whole watchlist
+  check (symbol is not null or watchlist_id is not null)
+);
+
+-- What each rule last saw per symbol, so an alert fires once per event rather than on every run
+create table if not exists public.alert_rule_state (
+  rule_id uuid not null references public.alert_rules(id) on delete cascade,
+  symbol text not null,
+  fingerprint text,
+  last_fired_at timestamp with time zone,
+  updated_at timestamp with time zone default now(),
+  primary key (rule_id, symbol)
+);
+
+create table if not exists public.alert_events (
+  id uuid primary key default uuid_generate_v4(),
+  rule_id uuid references public.alert_rules(id) on delete set null,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  symbol text not null,
+  timeframe text not null,
+  condition text not null,
+  message text not null,
+  price numeric,
+  payload jsonb,
+  deliveries jsonb,
+  fired_at timestamp with time zone default now(),
+  read_at timestamp with time zone
+);
+
+-- Where a user wants alerts sent besides the inbox (e.g. a webhook URL)
+create table if not exists public.alert_channels (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  type text not null check (type in ('telegram', 'webhook')),
+  config jsonb not null default '{}'::jsonb,
+  enabled boolean not null default true,
+  created_at timestamp with time zone default now(),
+  unique (user_id, type)
+);
+
+create index if not exists idx_alert_rules_user on public.alert_rules (user_id);
+create index if not exists idx_alert_rules_enabled on public.alert_rules (enabled) where enabled;
+create index if not exists idx_alert_events_user on public.alert_events (user_id, fired_at desc);
+create index if not exists idx_alert_events_unread on public.alert_events (user_id) where read_at is null;
+
+-- Add RLS policies: users manage their own rules and channels and read their own inbox.
+-- The worker evaluates rules with the service role, which bypasses RLS.
+alter table public.alert_rules enable row level security;
+alter table public.alert_rule_state enable row level security;
+alter table public.alert_events enable row level security;
+alter table public.alert_channels enable row level security;
+
+create policy "Users can manage their own alert rules"
+  on public.alert_rules for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      watchlist_id is null
+      or exists (
+        select 1 from public.watchlists w
+        where w.id = watchlist_id and w.user_id = auth.uid()
+      )
+    )
+  );
+
+create policy "Users can view state of their own alert rules"
+  on public.alert_rule_state for select
+  using (
+    exists (
+      select 1 from public.alert_rules
+      where id = rule_id and user_id = auth.uid()
+    )
+  );
+
+create policy "Users can view their own alerts"
+  on public.alert_events for select
+  using (auth.uid() = user_id);
+
+-- Marking as read is the only change users make to fired alerts
+create policy "Users can mark their own alerts as read"
+  on public.alert_events for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own alerts"
+  on public.alert_events for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can manage their own alert channels"
+  on public.alert_channels for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Keep updated_at current on rule edits
+create or replace function public.touch_alert_rule_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger on_alert_rule_updated
+  before update on public.alert_rules
+  for each row execute function public.touch_alert_rule_updated_at();
+
+grant select, insert, update, delete on public.alert_rules to authenticated;
+grant select on public.alert_rule_state to authenticated;
+grant select, update, delete on public.alert_events to authenticated;
+grant select, insert, update, delete on public.alert_channels to authenticated;
+grant all on public.alert_rules, public.alert_rule_state, public.alert_events, public.alert_channels to service_role;
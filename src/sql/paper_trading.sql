@@ -0,0 +1,65 @@
+-- Per-user paper portfolios
+-- Positions are opened by hand or from a trade plan, marked to market from quotes,
+-- and closed when the price reaches their stop or target (by the portfolio page or the API worker)
+
+create table if not exists public.paper_portfolios (
+  user_id uuid primary key references public.profiles(id) on delete cascade,
+  starting_cash numeric not null default 100000,
+  created_at timestamp with time zone default now()
+);
+
+create table if not exists public.paper_positions (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  symbol text not null,
+  timeframe text not null default '1d',
+  direction text not null check (direction in ('long', 'short')),
+  wave_number text,                     -- Wave the setup was taken in
+  quantity numeric not null check (quantity > 0),   -- Fractional for crypto
+  entry_price numeric not null,
+  stop_price numeric,
+  target_price numeric,
+  journal_entry_id uuid references public.trade_journal(id) on delete set null,
+  opened_at timestamp with time zone default now(),
+  status text not null default 'open' check (status in ('open', 'closed')),
+  exit_price numeric,
+  exit_reason text check (exit_reason in ('stop', 'target', 'manual')),
+  closed_at timestamp with time zone,
+  last_price numeric,
+  last_marked_at timestamp with time zone
+);
+
+-- Tables created before crypto support held whole shares
+alter table public.paper_positions alter column quantity type numeric;
+
+create index if not exists idx_paper_positions_user on public.paper_positions (user_id, opened_at desc);
+create index if not exists idx_paper_positions_open on public.paper_positions (status) where status = 'open';
+
+-- Add RLS policies: a user only ever sees and trades their own portfolio
+alter table public.paper_portfolios enable row level security;
+alter table public.paper_positions enable row level security;
+
+create policy "Users can manage their own paper portfolio"
+  on public.paper_portfolios for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can view their own paper positions"
+  on public.paper_positions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can open their own paper positions"
+  on public.paper_positions for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own paper positions"
+  on public.paper_positions for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own paper positions"
+  on public.paper_positions for delete
+  using (auth.uid() = user_id);
+
+grant select, insert, update, delete on public.paper_portfolios, public.paper_positions to authenticated;
+grant all on public.paper_portfolios, public.paper_positions to service_role;
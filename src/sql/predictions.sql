@@ -0,0 +1,150 @@
+-- Wave prediction snapshots and how they played out
+-- The app records each analysis run's current wave, Fibonacci targets and stop as a snapshot;
+-- the API worker later scores the targets against the bars that followed.
+
+create table if not exists public.wave_predictions (
+  id uuid primary key default uuid_generate_v4(),
+  symbol text not null,
+  timeframe text not null default '1d',
+  created_at timestamp with time zone default now(),
+  created_by uuid references public.profiles(id) on delete set null,
+  -- Snapshot: never changes after insert
+  as_of bigint not null,                -- Timestamp (ms) of the last bar the analysis saw
+  price numeric not null,               -- Close of that bar
+  trend text,
+  wave_number text not null,
+  wave_start_price numeric,
+  wave_start_timestamp bigint,
+  confidence integer,
+  stop_loss numeric,                    -- Where the count is invalidated
+  fingerprint text not null,            -- Same count and targets as an earlier snapshot = same prediction
+  -- Scoring: updated by the worker until the prediction closes
+  status text not null default 'open' check (status in ('open', 'closed')),
+  stop_hit_at timestamp with time zone,
+  bars_scored integer not null default 0,
+  scored_at timestamp with time zone,
+  unique (symbol, timeframe, fingerprint)
+);
+
+create table if not exists public.wave_prediction_targets (
+  id uuid primary key default uuid_generate_v4(),
+  prediction_id uuid not null references public.wave_predictions(id) on delete cascade,
+  level numeric not null,
+  label text not null,
+  target_price numeric not null,
+  is_extension boolean not null default false,
+  -- hit: reached before the stop; stopped: stop came first; missed: not reached within the horizon
+  status text not null default 'pending' check (status in ('pending', 'hit', 'stopped', 'missed')),
+  hit_at timestamp with time zone,
+  bars_to_hit integer
+);
+
+create index if not exists idx_wave_predictions_symbol on public.wave_predictions (symbol, timeframe, created_at desc);
+create index if not exists idx_wave_predictions_open on public.wave_predictions (status) where status = 'open';
+create index if not exists idx_wave_prediction_targets_prediction on public.wave_prediction_targets (prediction_id);
+
+-- Reject changes to snapshot columns, so scoring can't rewrite what was predicted
+create or replace function public.protect_wave_prediction_snapshot()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Nested ifs: each table's columns only exist on its own rows
+  if tg_table_name = 'wave_predictions' then
+    if (new.symbol, new.timeframe, new.created_at, new.as_of, new.price, new.trend, new.wave_number,
+        new.wave_start_price, new.wave_start_timestamp, new.confidence, new.stop_loss, new.fingerprint)
+       is distinct from
+       (old.symbol, old.timeframe, old.created_at, old.as_of, old.price, old.trend, old.wave_number,
+        old.wave_start_price, old.wave_start_timestamp, old.confidence, old.stop_loss, old.fingerprint) then
+      raise exception 'Wave prediction snapshots cannot be changed';
+    end if;
+  else
+    if (new.prediction_id, new.level, new.label, new.target_price, new.is_extension)
+       is distinct from
+       (old.prediction_id, old.level, old.label, old.target_price, old.is_extension) then
+      raise exception 'Wave prediction targets cannot be changed';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger on_wave_prediction_updated
+  before update on public.wave_predictions
+  for each row execute function public.protect_wave_prediction_snapshot();
+
+create trigger on_wave_prediction_target_updated
+  before update on public.wave_prediction_targets
+  for each row execute function public.protect_wave_prediction_snapshot();
+
+-- Add RLS policies: predictions describe the engine, not the user, so everyone signed in can read them.
+-- Users can only add snapshots; the worker scores them with the service role, which bypasses RLS.
+alter table public.wave_predictions enable row level security;
+alter table public.wave_prediction_targets enable row level security;
+
+create policy "Anyone signed in can view wave predictions"
+  on public.wave_predictions for select
+  to authenticated
+  using (true);
+
+create policy "Users can record wave predictions"
+  on public.wave_predictions for insert
+  to authenticated
+  with check (auth.uid() = created_by);
+
+create policy "Anyone signed in can view wave prediction targets"
+  on public.wave_prediction_targets for select
+  to authenticated
+  using (true);
+
+create policy "Users can record targets of their own predictions"
+  on public.wave_prediction_targets for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from public.wave_predictions
+      where id = prediction_id and created_by = auth.uid()
+    )
+  );
+
+-- Hit rates per Fibonacci level (resolved targets only; pending ones are counted separately)
+create or replace view public.wave_prediction_level_stats
+with (security_invoker = true) as
+select
+  p.timeframe,
+  t.level,
+  t.is_extension,
+  min(t.label) as label,
+  count(*) as targets,
+  count(*) filter (where t.status = 'hit') as hits,
+  count(*) filter (where t.status = 'stopped') as stopped,
+  count(*) filter (where t.status = 'missed') as missed,
+  count(*) filter (where t.status = 'pending') as pending,
+  count(*) filter (where t.status = 'hit')::numeric / nullif(count(*) filter (where t.status <> 'pending'), 0) as hit_rate,
+  avg(t.bars_to_hit) filter (where t.status = 'hit') as avg_bars_to_hit
+from public.wave_prediction_targets t
+join public.wave_predictions p on p.id = t.prediction_id
+group by p.timeframe, t.level, t.is_extension;
+
+-- Hit rates per symbol
+create or replace view public.wave_prediction_symbol_stats
+with (security_invoker = true) as
+select
+  p.symbol,
+  p.timeframe,
+  count(distinct p.id) as predictions,
+  count(distinct p.id) filter (where p.stop_hit_at is not null) as stops_hit,
+  count(t.id) as targets,
+  count(t.id) filter (where t.status = 'hit') as hits,
+  count(t.id) filter (where t.status = 'pending') as pending,
+  count(t.id) filter (where t.status = 'hit')::numeric / nullif(count(t.id) filter (where t.status <> 'pending'), 0) as hit_rate,
+  avg(t.bars_to_hit) filter (where t.status = 'hit') as avg_bars_to_hit,
+  max(p.created_at) as last_prediction_at
+from public.wave_predictions p
+left join public.wave_prediction_targets t on t.prediction_id = p.id
+group by p.symbol, p.timeframe;
+
+grant select, insert on public.wave_predictions, public.wave_prediction_targets to authenticated;
+grant select on public.wave_prediction_level_stats, public.wave_prediction_symbol_stats to authenticated;
+grant all on public.wave_predictions, public.wave_prediction_targets to service_role;
+grant select on public.wave_prediction_level_stats, public.wave_prediction_symbol_stats to service_role;
@@ -0,0 +1,44 @@
+-- Stored OHLCV history, kept by the API worker (api-backend/lib/barStore.ts)
+-- Each symbol and interval keeps its full history; refreshes only append the bars since the last one
+-- and re-adjust the series when the provider's prices change after a split or dividend.
+
+create table if not exists public.price_bars (
+  symbol text not null,
+  interval text not null,               -- Provider interval: 1m, 5m, 15m, 1h, 1d, 1wk or 1mo (4h is built from 1h)
+  timestamp bigint not null,            -- Bar open time (ms)
+  open double precision not null,
+  high double precision not null,
+  low double precision not null,
+  close double precision not null,
+  volume double precision not null default 0,
+  primary key (symbol, interval, timestamp)
+);
+
+create table if not exists public.price_series (
+  symbol text not null,
+  interval text not null,
+  provider text not null,               -- MARKET_DATA_PROVIDER the bars came from; a different one reloads the series
+  covered_from bigint not null,         -- Earliest time (ms) the provider has been asked for
+  last_timestamp bigint,                -- Newest stored bar
+  refreshed_at timestamp with time zone not null default now(),
+  adjusted_at timestamp with time zone, -- Last time stored prices were re-adjusted
+  primary key (symbol, interval)
+);
+
+-- Add RLS policies: prices aren't per user, so everyone signed in can read them.
+-- Only the worker writes, with the service role, which bypasses RLS.
+alter table public.price_bars enable row level security;
+alter table public.price_series enable row level security;
+
+create policy "Anyone signed in can view price bars"
+  on public.price_bars for select
+  to authenticated
+  using (true);
+
+create policy "Anyone signed in can view price series"
+  on public.price_series for select
+  to authenticated
+  using (true);
+
+grant select on public.price_bars, public.price_series to authenticated;
+grant all on public.price_bars, public.price_series to service_role;
@@ -0,0 +1,54 @@
+-- Saved screener filters
+-- Each user can keep several named screens; filters and sort order are stored as the screener's own JSON
+
+create table if not exists public.screens (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null,
+  timeframe text not null default '1d',
+  filters jsonb not null default '{}'::jsonb,
+  sort jsonb,                           -- { key, direction }
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now(),
+  unique (user_id, name)
+);
+
+create index if not exists idx_screens_user on public.screens (user_id, name);
+
+-- Add RLS policies: a user only ever sees and edits their own screens
+alter table public.screens enable row level security;
+
+create policy "Users can view their own screens"
+  on public.screens for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own screens"
+  on public.screens for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own screens"
+  on public.screens for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own screens"
+  on public.screens for delete
+  using (auth.uid() = user_id);
+
+-- Keep updated_at current on edits
+create or replace function public.touch_screen_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger on_screen_updated
+  before update on public.screens
+  for each row execute function public.touch_screen_updated_at();
+
+grant select, insert, update, delete on public.screens to authenticated;
+grant all on public.screens to service_role;
@@ -0,0 +1,67 @@
+-- Per-user trade journal
+-- Each entry is a trade plan as generated from a wave count: entry, stop, share count and scale-out targets
+
+create table if not exists public.trade_journal (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  symbol text not null,
+  timeframe text not null default '1d',
+  direction text not null check (direction in ('long', 'short')),
+  wave_number text,
+  entry numeric not null,
+  stop numeric not null,
+  shares numeric not null,                      -- Fractional for crypto
+  account_size numeric not null,
+  risk_pct numeric not null,
+  risk_amount numeric not null,
+  position_value numeric not null,
+  blended_r numeric not null,
+  targets jsonb not null default '[]'::jsonb,   -- [{ label, level, price, shares, rMultiple }]
+  status text not null default 'planned' check (status in ('planned', 'taken', 'skipped')),
+  notes text,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
+);
+
+-- Tables created before crypto support sized in whole shares
+alter table public.trade_journal alter column shares type numeric;
+
+create index if not exists idx_trade_journal_user on public.trade_journal (user_id, created_at desc);
+
+-- Add RLS policies: a user only ever sees and edits their own journal
+alter table public.trade_journal enable row level security;
+
+create policy "Users can view their own journal"
+  on public.trade_journal for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add to their own journal"
+  on public.trade_journal for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own journal"
+  on public.trade_journal for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete from their own journal"
+  on public.trade_journal for delete
+  using (auth.uid() = user_id);
+
+-- Keep updated_at current on edits
+create or replace function public.touch_trade_journal_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger on_trade_journal_updated
+  before update on public.trade_journal
+  for each row execute function public.touch_trade_journal_updated_at();
+
+grant select, insert, update, delete on public.trade_journal to authenticated;
+grant all on public.trade_journal to service_role;
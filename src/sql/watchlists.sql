@@ -0,0 +1,81 @@
+-- Per-user watchlists, replacing the shared 'favorite_stocks' row in the cache table
+-- Each user can keep several named lists; symbols are ordered and can carry a note
+
+create table if not exists public.watchlists (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null,
+  position integer not null default 0,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now(),
+  unique (user_id, name)
+);
+
+create table if not exists public.watchlist_items (
+  id uuid primary key default uuid_generate_v4(),
+  watchlist_id uuid not null references public.watchlists(id) on delete cascade,
+  symbol text not null,
+  position integer not null default 0,
+  notes text,
+  added_at timestamp with time zone default now(),
+  unique (watchlist_id, symbol)
+);
+
+create index if not exists idx_watchlists_user on public.watchlists (user_id, position);
+create index if not exists idx_watchlist_items_list on public.watchlist_items (watchlist_id, position);
+
+-- Add RLS policies: a user only ever sees and edits their own lists
+alter table public.watchlists enable row level security;
+alter table public.watchlist_items enable row level security;
+
+create policy "Users can view their own watchlists"
+  on public.watchlists for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own watchlists"
+  on public.watchlists for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own watchlists"
+  on public.watchlists for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own watchlists"
+  on public.watchlists for delete
+  using (auth.uid() = user_id);
+
+-- Items inherit the owner of the list they belong to
+create policy "Users can manage items in their own watchlists"
+  on public.watchlist_items for all
+  using (
+    exists (
+      select 1 from public.watchlists
+      where id = watchlist_id and user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.watchlists
+      where id = watchlist_id and user_id = auth.uid()
+    )
+  );
+
+-- Keep updated_at current on list edits
+create or replace function public.touch_watchlist_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger on_watchlist_updated
+  before update on public.watchlists
+  for each row execute function public.touch_watchlist_updated_at();
+
+grant select, insert, update, delete on public.watchlists to authenticated;
+grant select, insert, update, delete on public.watchlist_items to authenticated;
+grant all on public.watchlists, public.watchlist_items to service_role;
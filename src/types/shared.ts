@@ -53,6 +53,77 @@ export interface FibTarget {
   isZigzag?: boolean;
 }
 
+// Elliott wave degrees, from largest to smallest. Top-level waves are Primary;
+// each level of subwaves drops one degree.
+export type WaveDegree = 'Primary' | 'Intermediate' | 'Minor';
+
+// Shape of a corrective wave. Zigzags and flats have three legs (A-B-C), triangles
+// five (A-B-C-D-E), and W-X-Y combinations join two corrections with an X wave.
+export type CorrectionPattern =
+  | 'zigzag'
+  | 'regular_flat'
+  | 'expanded_flat'
+  | 'running_flat'
+  | 'contracting_triangle'
+  | 'expanding_triangle'
+  | 'wxy';
+
+// How pivots are detected: swings of a fixed percentage, or swings scaled by the stock's ATR
+export type PivotDetector = 'percent' | 'atr';
+
+// Bar intervals served by /stocks/{symbol}/history (4h is resampled from 1h bars)
+export type HistoryInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1wk' | '1mo';
+
+// Markets the dashboard covers. Crypto trades around the clock, forex around the clock on weekdays.
+export type AssetClass = 'stocks' | 'crypto' | 'forex';
+
+// How a bar series is adjusted for corporate actions. Providers return split-adjusted bars ('split');
+// 'all' also adjusts for dividends and 'none' undoes the splits.
+export type PriceAdjustment = 'split' | 'all' | 'none';
+
+// A split or dividend, effective from the first bar at or after `timestamp` (the ex-date)
+export interface CorporateAction {
+  type: 'split' | 'dividend';
+  timestamp: number;
+  ratio?: number;   // Splits: new shares per old share (4 for a 4-for-1 split, 0.1 for a 1-for-10 reverse split)
+  amount?: number;  // Dividends: cash per share
+}
+
+// A jump between two bars that comes from an unadjusted split rather than trading
+export interface PriceDiscontinuity {
+  timestamp: number;              // First bar after the jump
+  factor: number;                 // Multiplying earlier prices by this makes the series continuous
+  source: 'split' | 'detected';   // A known split, or inferred from the size of the jump
+}
+
+// Sessions missing between two bars
+export interface BarGap {
+  from: number;         // Last bar before the gap
+  to: number;           // First bar after it
+  missingBars: number;  // Roughly how many bars should have been there
+}
+
+export interface BarQualityReport {
+  gaps: BarGap[];
+  stale: boolean;                          // The newest bar is older than the market's sessions explain
+  lastBarAt: number | null;
+  discontinuities: PriceDiscontinuity[];
+}
+
+export interface DiagonalTrendlinePoint {
+  timestamp: number;
+  price: number;
+}
+
+// Diagonal (wedge-shaped) motive wave. Leading diagonals appear in wave 1 or A,
+// ending diagonals in wave 5 or C. Unlike impulses, their wave 4 may overlap wave 1.
+export interface WaveDiagonal {
+  type: 'leading' | 'ending';
+  shape: 'contracting' | 'expanding';
+  trendline: [DiagonalTrendlinePoint, DiagonalTrendlinePoint];        // Through the ends of waves 1 and 3
+  counterTrendline: [DiagonalTrendlinePoint, DiagonalTrendlinePoint]; // Through the ends of waves 2 and 4
+}
+
 export interface Wave {
   number: number | string;
   startPrice: number;
@@ -61,6 +132,10 @@ export interface Wave {
   endTimestamp?: number;
   type: 'impulse' | 'corrective';
   subwaves?: Wave[];
+  degree?: WaveDegree;
+  pattern?: CorrectionPattern;
+  diagonal?: WaveDiagonal;
+  ruleChecks?: WaveRuleCheck[]; // Rules and guidelines evaluated for this wave
   isComplete: boolean;
   isInvalid?: boolean;
   isInvalidated?: boolean;
@@ -75,6 +150,32 @@ export interface Wave {
   restartFromTimestamp?: number;
 }
 
+// Outcome of checking one Elliott Wave rule or guideline against a wave count
+// Broken rules fail; guidelines that aren't met only warn
+export interface WaveRuleCheck {
+  rule: string;
+  status: 'pass' | 'fail' | 'warn';
+  kind?: 'rule' | 'guideline';
+  waveNumber?: number | string;
+  ratio?: number;   // Measured ratio the check was decided on (e.g. Wave 2 retracement of Wave 1)
+  detail?: string;
+}
+
+// One candidate interpretation (count) of the price history
+export interface WaveCount {
+  label: string;
+  waves: Wave[];
+  invalidWaves: Wave[];
+  currentWave: Wave | null;
+  fibTargets: FibTarget[];
+  trend: 'bullish' | 'bearish' | 'neutral';
+  score: number;        // 0-1, how well the count fits the rules and the data
+  probability: number;  // Share of the combined score of all counts
+  confidence: number;   // 0-100, how well the count meets the rules and guidelines
+  ruleChecks: WaveRuleCheck[];
+  direction?: 'bullish' | 'bearish';
+}
+
 export interface WaveAnalysis {
   waves: Wave[];
   currentWave: Wave | null;
@@ -87,6 +188,212 @@ export interface WaveAnalysis {
   analysis?: string;
   stopLoss?: number;
   confidenceLevel?: string;
+  confidence?: number; // 0-100 guideline confidence of the primary count
+  waveCounts?: WaveCount[]; // Ranked counts; index 0 is the primary count
+  ruleChecks?: WaveRuleCheck[]; // Rules and guidelines evaluated for the primary count
+  direction?: 'bullish' | 'bearish'; // Direction of the impulse (bearish counts fall in waves 1-3-5)
+  pivotDetector?: PivotDetector; // Pivot detector the counts were built from
+  discontinuities?: PriceDiscontinuity[]; // Unadjusted splits the engine rescaled the bars around
+}
+
+// How consistently the counts on neighbouring timeframes nest inside each other
+export interface TimeframeAlignment {
+  score: number;            // 0-100, share of nesting checks that pass
+  checks: WaveRuleCheck[];  // Checks for each higher/lower pair of timeframes
+}
+
+// A named, ordered list of symbols belonging to one user
+export interface Watchlist {
+  id: string;
+  name: string;
+  position: number;
+  items: WatchlistItem[];   // Ordered by position
+}
+
+export interface WatchlistItem {
+  symbol: string;
+  position: number;
+  notes?: string | null;
+}
+
+// Events an alert rule can watch for
+export type AlertCondition =
+  | 'wave_entered'        // currentWave becomes params.wave
+  | 'wave_changed'        // currentWave moves on to any new wave (Telegram /subscribe)
+  | 'wave_invalidated'    // The count's current wave is invalidated
+  | 'fib_target_touched'  // Price within params.tolerance of a Fibonacci target
+  | 'price_above'         // Price crosses above params.price
+  | 'price_below';        // Price crosses below params.price (e.g. a stop)
+
+// Delivery channels besides the in-app inbox, which always receives alerts
+export type AlertChannelType = 'telegram' | 'webhook';
+
+export interface AlertRuleParams {
+  wave?: number | string;   // wave_entered
+  price?: number;           // price_above / price_below
+  level?: number;           // fib_target_touched: only this Fibonacci level
+  tolerance?: number;       // fib_target_touched: fraction of the target price (default 0.005)
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  symbol?: string | null;         // Either one symbol...
+  watchlistId?: string | null;    // ...or every symbol in a watchlist
+  timeframe: string;
+  condition: AlertCondition;
+  params: AlertRuleParams;
+  channels: AlertChannelType[];
+  enabled: boolean;
+  cooldownMinutes: number;        // Minimum time between alerts for the same symbol
+}
+
+// An alert that fired, as shown in the inbox
+export interface AlertEvent {
+  id: string;
+  ruleId?: string | null;
+  symbol: string;
+  timeframe: string;
+  condition: AlertCondition;
+  message: string;
+  price?: number | null;
+  firedAt: string;
+  readAt?: string | null;
+  deliveries?: Partial<Record<AlertChannelType, string>>;  // 'sent' or why it wasn't
+}
+
+export interface AlertChannelSettings {
+  type: AlertChannelType;
+  config: Record<string, string>;  // webhook: url, secret; telegram sends to the user's verified link
+  enabled: boolean;
+}
+
+// Screener filters; a missing bound or empty list doesn't filter
+export interface ScreenerFilters {
+  waves?: string[];                 // Current wave, e.g. ['3', '5']
+  minWaveAgeBars?: number;
+  maxWaveAgeBars?: number;
+  maxFibDistancePct?: number;       // Distance from price to the nearest Fibonacci target
+  trends?: ('bullish' | 'bearish' | 'neutral')[];
+  minConfidence?: number;
+  minChangePercent?: number;
+  maxChangePercent?: number;
+  minRelativeVolume?: number;       // Volume / average volume
+  minRangePosition?: number;        // Position within the 52-week range, 0-100
+  maxRangePosition?: number;
+}
+
+export type ScreenerSortKey =
+  'symbol' | 'waveAgeBars' | 'fibDistancePct' | 'confidence' | 'changePercent' | 'relativeVolume' | 'rangePosition';
+
+export interface ScreenerSort {
+  key: ScreenerSortKey;
+  direction: 'asc' | 'desc';
+}
+
+// A named set of screener filters belonging to one user
+export interface SavedScreen {
+  id: string;
+  name: string;
+  timeframe: string;
+  filters: ScreenerFilters;
+  sort?: ScreenerSort | null;
+}
+
+// One scale-out level of a trade plan
+export interface TradePlanTarget {
+  label: string;
+  level: number;
+  price: number;
+  shares: number;           // Sold (or covered) at this target
+  rMultiple: number;        // Reward at this target in units of the initial risk
+}
+
+// Entry, stop, targets and size for a setup, derived from a wave count
+export interface TradePlan {
+  symbol: string;
+  timeframe: string;
+  direction: 'long' | 'short';
+  waveNumber?: string;
+  entry: number;
+  stop: number;             // The count's invalidation level
+  shares: number;
+  accountSize: number;
+  riskPct: number;
+  riskAmount: number;       // Lost if the stop is hit
+  positionValue: number;
+  blendedR: number;         // Reward over risk if every target is reached
+  targets: TradePlanTarget[];
+}
+
+export type TradeJournalStatus = 'planned' | 'taken' | 'skipped';
+
+// A trade plan saved to a user's journal
+export interface TradeJournalEntry extends TradePlan {
+  id: string;
+  status: TradeJournalStatus;
+  notes?: string | null;
+  createdAt: string;
+}
+
+export type PaperExitReason = 'stop' | 'target' | 'manual';
+
+// A position in a user's paper portfolio
+export interface PaperPosition {
+  id: string;
+  symbol: string;
+  timeframe: string;
+  direction: 'long' | 'short';
+  waveNumber?: string;        // Wave the setup was taken in
+  quantity: number;
+  entryPrice: number;
+  stopPrice?: number | null;
+  targetPrice?: number | null;
+  openedAt: string;
+  status: 'open' | 'closed';
+  exitPrice?: number | null;
+  exitReason?: PaperExitReason | null;
+  closedAt?: string | null;
+  lastPrice?: number | null;  // Latest mark
+  journalEntryId?: string | null;
+}
+
+export interface PaperPortfolioSummary {
+  startingCash: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  equity: number;
+  grossExposure: number;      // Market value of longs plus shorts
+  netExposure: number;        // Longs minus shorts
+}
+
+// How often a Fibonacci level's targets were reached (wave_prediction_level_stats)
+export interface PredictionLevelStats {
+  timeframe: string;
+  level: number;
+  isExtension: boolean;
+  label: string;
+  targets: number;
+  hits: number;
+  stopped: number;
+  missed: number;
+  pending: number;
+  hitRate: number | null;      // 0-1 over resolved targets
+  avgBarsToHit: number | null;
+}
+
+// How a symbol's wave predictions played out (wave_prediction_symbol_stats)
+export interface PredictionSymbolStats {
+  symbol: string;
+  timeframe: string;
+  predictions: number;
+  stopsHit: number;
+  targets: number;
+  hits: number;
+  pending: number;
+  hitRate: number | null;
+  avgBarsToHit: number | null;
+  lastPredictionAt: string;
 }
 
 // DeepSeek AI related types
@@ -142,6 +449,68 @@ export const WAVE_COLORS = {
   INVALIDATED: "rgba(128, 128, 128, 0.5)"
 };
 
+// Commands the Telegram bot answers (handled by the API worker's webhook)
+export const TELEGRAM_BOT_COMMANDS: { command: string; description: string }[] = [
+  { command: '/wave', description: 'Current wave count for a symbol, e.g. /wave AAPL' },
+  { command: '/targets', description: 'Fibonacci targets for a symbol, e.g. /targets AAPL' },
+  { command: '/reversals', description: 'Symbols at a possible reversal' },
+  { command: '/watchlist', description: 'Your watchlists and where each symbol stands' },
+  { command: '/subscribe', description: 'Get a message when a symbol starts a new wave' },
+  { command: '/unsubscribe', description: 'Stop wave messages for a symbol' },
+  { command: '/help', description: 'Show help information' }
+];
+
+// Display names for correction patterns
+export const CORRECTION_PATTERN_NAMES: Record<CorrectionPattern, string> = {
+  zigzag: "Zigzag",
+  regular_flat: "Regular Flat",
+  expanded_flat: "Expanded Flat",
+  running_flat: "Running Flat",
+  contracting_triangle: "Contracting Triangle",
+  expanding_triangle: "Expanding Triangle",
+  wxy: "W-X-Y Combination"
+};
+
+export const PIVOT_DETECTOR_NAMES: Record<PivotDetector, string> = {
+  percent: "Fixed %",
+  atr: "ATR-adaptive"
+};
+
+export const HISTORY_INTERVAL_NAMES: Record<HistoryInterval, string> = {
+  '1m': "1 minute",
+  '5m': "5 minutes",
+  '15m': "15 minutes",
+  '1h': "1 hour",
+  '4h': "4 hours",
+  '1d': "Daily",
+  '1wk': "Weekly",
+  '1mo': "Monthly"
+};
+
+export const ASSET_CLASS_NAMES: Record<AssetClass, string> = {
+  stocks: "Stocks",
+  crypto: "Crypto",
+  forex: "Forex"
+};
+
+export const PRICE_ADJUSTMENT_NAMES: Record<PriceAdjustment, string> = {
+  split: "Split-adjusted",
+  all: "Split and dividend-adjusted",
+  none: "Unadjusted"
+};
+
+// Nominal length of one bar, in milliseconds
+export const HISTORY_INTERVAL_MS: Record<HistoryInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1wk': 7 * 24 * 60 * 60 * 1000,
+  '1mo': 30 * 24 * 60 * 60 * 1000
+};
+
 export interface OHLCDataPoint {
   timestamp: number;
   open: number;
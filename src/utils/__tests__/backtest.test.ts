@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BACKTEST_RULE_PRESETS, findEntrySignal, runBacktest, type BacktestTrade } from '../backtest';
+import type { StockHistoricalData, Wave } from '../../types/shared';
+
+const DAY = 86400000;
+const [WAVE3_RULE] = BACKTEST_RULE_PRESETS;
+
+// Daily bars repeating a 5-3 cycle, with a little seeded noise so every run sees the same bars
+function waveBars(count: number): StockHistoricalData[] {
+  let seed = 1;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  // Each leg: relative move and length in bars
+  const legs = [[0.2, 12], [-0.1, 6], [0.35, 16], [-0.1, 8], [0.2, 10], [-0.15, 8], [0.08, 5], [-0.15, 8]];
+
+  const bars: StockHistoricalData[] = [];
+  let price = 100;
+  for (let leg = 0; bars.length < count; leg++) {
+    const [move, length] = legs[leg % legs.length];
+    for (let i = 0; i < length && bars.length < count; i++) {
+      const open = price;
+      price *= Math.pow(1 + move, 1 / length) * (1 + (random() - 0.5) * 0.01);
+      bars.push({
+        timestamp: Date.UTC(2020, 0, 1) + bars.length * DAY,
+        open,
+        high: Math.max(open, price) * (1 + random() * 0.005),
+        low: Math.min(open, price) * (1 - random() * 0.005),
+        close: price,
+        volume: 1000000
+      });
+    }
+  }
+  return bars;
+}
+
+const wave = (number: number | string, startDay: number, startPrice: number, endDay: number, endPrice: number): Wave => ({
+  number,
+  startPrice,
+  endPrice,
+  startTimestamp: startDay * DAY,
+  endTimestamp: endDay * DAY,
+  type: 'impulse',
+  isComplete: true
+});
+
+const barsUntil = (days: number): StockHistoricalData[] =>
+  Array.from({ length: days + 1 }, (_, day) => ({ timestamp: day * DAY, open: 1, high: 1, low: 1, close: 1, volume: 0 }));
+
+describe('findEntrySignal', () => {
+  const waves = [wave(1, 0, 100, 10, 110), wave(2, 10, 110, 15, 104)];
+
+  it('enters against the entry wave with the rule\'s target and stop', () => {
+    const signal = findEntrySignal({ waves }, WAVE3_RULE, barsUntil(16), 16);
+
+    assert.equal(signal.direction, 'long');
+    assert.ok(Math.abs(signal.targetPrice - (104 + 1.618 * 10)) < 1e-9);
+    assert.equal(signal.stopPrice, 100);
+  });
+
+  it('mirrors the target and stop for a falling count', () => {
+    const falling = [wave(1, 0, 100, 10, 90), wave(2, 10, 90, 15, 96)];
+    const signal = findEntrySignal({ waves: falling }, WAVE3_RULE, barsUntil(16), 16);
+
+    assert.equal(signal.direction, 'short');
+    assert.ok(Math.abs(signal.targetPrice - (96 - 1.618 * 10)) < 1e-9);
+    assert.equal(signal.stopPrice, 100);
+  });
+
+  it('only enters while the entry wave is the latest completed wave', () => {
+    const later = [...waves, wave(3, 15, 104, 30, 120)];
+    assert.equal(findEntrySignal({ waves: later }, WAVE3_RULE, barsUntil(31), 31), null);
+  });
+
+  it('skips signals older than maxSignalAgeBars', () => {
+    assert.ok(findEntrySignal({ waves }, WAVE3_RULE, barsUntil(20), 20, 5));
+    assert.equal(findEntrySignal({ waves }, WAVE3_RULE, barsUntil(21), 21, 5), null);
+  });
+});
+
+describe('runBacktest', () => {
+  const config = { rule: WAVE3_RULE, windowBars: 150, step: 5 };
+  const bars = waveBars(400);
+
+  it('trades the same way up to a bar whatever comes after it', async () => {
+    const cut = 300;
+    // Same history up to the cut, then a 40% gap down
+    const changed = bars.map((bar, index) => index < cut ? bar : {
+      ...bar, open: bar.open * 0.6, high: bar.high * 0.6, low: bar.low * 0.6, close: bar.close * 0.6
+    });
+    const finishedBefore = (trades: BacktestTrade[]) =>
+      trades.filter(trade => trade.exitTimestamp < bars[cut].timestamp);
+
+    const original = finishedBefore(await runBacktest('TEST', bars, config));
+    const rerun = finishedBefore(await runBacktest('TEST', changed, config));
+
+    assert.ok(original.length > 0, 'no trades finished before the cut');
+    assert.deepEqual(rerun, original);
+  });
+
+  it('fills at the open after the signal bar and exits at the stop or target', async () => {
+    const trades = await runBacktest('TEST', bars, config);
+    assert.ok(trades.length > 0);
+
+    for (const trade of trades) {
+      const signalIndex = bars.findIndex(bar => bar.timestamp === trade.signalTimestamp);
+      assert.equal(trade.entryTimestamp, bars[signalIndex + 1].timestamp);
+      assert.equal(trade.entryPrice, bars[signalIndex + 1].open);
+
+      // Gaps fill at the open, beyond the level
+      const sign = trade.direction === 'long' ? 1 : -1;
+      if (trade.exitReason === 'target') assert.ok(sign * (trade.exitPrice - trade.targetPrice) >= 0);
+      if (trade.exitReason === 'stop') assert.ok(sign * (trade.exitPrice - trade.stopPrice) <= 0);
+    }
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateCountConfidence, evaluateCountRules } from '../elliottWaveAnalysis';
+import type { Wave, WaveRuleCheck } from '../../types/shared';
+
+const DAY = 86400000;
+
+// Waves 1-5 through the given turning points, at the given days
+function impulse(prices: number[], days: number[] = [0, 10, 15, 30, 35, 45]): Wave[] {
+  return prices.slice(1).map((endPrice, index) => ({
+    number: index + 1,
+    startPrice: prices[index],
+    endPrice,
+    startTimestamp: days[index] * DAY,
+    endTimestamp: days[index + 1] * DAY,
+    type: index % 2 === 0 ? 'impulse' : 'corrective',
+    isComplete: true
+  }));
+}
+
+// Wave 2 retraces 60%, Wave 3 is 1.62 × Wave 1, Wave 4 retraces 25%, Wave 5 equals Wave 1
+const TEXTBOOK = [100, 110, 104, 120.2, 116.2, 126.2];
+
+const checksFor = (waves: Wave[], waveNumber: number) => evaluateCountRules(waves)[waveNumber - 1];
+const find = (checks: WaveRuleCheck[], rule: string) => checks.find(check => check.rule.startsWith(rule));
+
+describe('evaluateCountRules', () => {
+  it('passes every rule of a textbook impulse', () => {
+    const checks = evaluateCountRules(impulse(TEXTBOOK)).flat();
+    const rules = checks.filter(check => check.kind === 'rule');
+
+    assert.equal(rules.length, 4);
+    assert.ok(rules.every(check => check.status === 'pass'));
+    assert.ok(checks.every(check => check.status !== 'fail'));
+  });
+
+  it('records the ratio each check was decided on', () => {
+    const check = find(checksFor(impulse(TEXTBOOK), 2), 'Wave 2 retraces');
+    assert.ok(Math.abs(check.ratio - 0.6) < 1e-9);
+  });
+
+  it('fails Wave 2 when it retraces beyond the start of Wave 1', () => {
+    const check = find(checksFor(impulse([100, 110, 98, 120, 116, 126]), 2), 'Wave 2 never retraces');
+    assert.equal(check.status, 'fail');
+  });
+
+  it('fails Wave 4 when it overlaps Wave 1, unless the wave is a diagonal', () => {
+    const overlapping = impulse([100, 110, 104, 120, 108, 124]);
+    assert.equal(find(checksFor(overlapping, 4), 'Wave 4 does not overlap').status, 'fail');
+
+    overlapping[3].diagonal = { type: 'ending' } as Wave['diagonal'];
+    assert.equal(find(checksFor(overlapping, 4), 'Wave 4 does not overlap').status, 'pass');
+  });
+
+  it('fails a count whose Wave 3 is the shortest', () => {
+    const check = find(checksFor(impulse([100, 110, 104, 112, 110, 122]), 3), 'Wave 3 is not the shortest');
+    assert.equal(check.status, 'fail');
+  });
+
+  it('only warns when a guideline is missed', () => {
+    // Wave 2 retraces 20%: shallow, but not a broken rule
+    const checks = checksFor(impulse([100, 110, 108, 126.2, 122.2, 132.2]), 2);
+    assert.equal(find(checks, 'Wave 2 never retraces').status, 'pass');
+    assert.equal(find(checks, 'Wave 2 retraces').status, 'warn');
+  });
+
+  it('checks a falling impulse against the mirrored rules', () => {
+    const falling = impulse(TEXTBOOK.map(price => 200 - price));
+    const checks = evaluateCountRules(falling).flat();
+
+    assert.ok(checks.filter(check => check.kind === 'rule').every(check => check.status === 'pass'));
+    assert.deepEqual(
+      checks.map(check => check.status),
+      evaluateCountRules(impulse(TEXTBOOK)).flat().map(check => check.status)
+    );
+  });
+
+  it('skips waves that have not ended yet', () => {
+    const waves = impulse(TEXTBOOK).slice(0, 3);
+    delete waves[2].endPrice;
+    waves[2].isComplete = false;
+
+    const checks = evaluateCountRules(waves);
+    assert.equal(checks[2].length, 0);
+    assert.ok(checks[1].length > 0);
+  });
+});
+
+describe('calculateCountConfidence', () => {
+  const check = (kind: 'rule' | 'guideline', status: WaveRuleCheck['status']): WaveRuleCheck =>
+    ({ rule: `${kind} ${status}`, kind, status });
+  const repeat = (count: number, value: WaveRuleCheck) => Array.from({ length: count }, () => value);
+
+  it('gives high confidence to a textbook impulse', () => {
+    const confidence = calculateCountConfidence(evaluateCountRules(impulse(TEXTBOOK)).flat());
+    assert.ok(confidence >= 70, `confidence ${confidence}`);
+  });
+
+  it('costs far more for a broken rule than for missed guidelines', () => {
+    const brokenRule = calculateCountConfidence([
+      check('rule', 'fail'), ...repeat(3, check('rule', 'pass')), ...repeat(6, check('guideline', 'pass'))
+    ]);
+    const missedGuidelines = calculateCountConfidence([
+      ...repeat(4, check('rule', 'pass')), ...repeat(6, check('guideline', 'warn'))
+    ]);
+    assert.ok(brokenRule < 60, `broken rule ${brokenRule}`);
+    assert.equal(missedGuidelines, 30);
+  });
+
+  it('needs enough guidelines checked before giving them full credit', () => {
+    const twoOfTwo = calculateCountConfidence([check('rule', 'pass'), ...repeat(2, check('guideline', 'pass'))]);
+    const eightOfTen = calculateCountConfidence([
+      check('rule', 'pass'), ...repeat(8, check('guideline', 'pass')), ...repeat(2, check('guideline', 'warn'))
+    ]);
+    assert.ok(eightOfTen > twoOfTwo);
+  });
+
+  it('is 0 when nothing could be checked', () => {
+    assert.equal(calculateCountConfidence([]), 0);
+  });
+});
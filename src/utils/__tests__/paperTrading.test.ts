@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPositionExit, getPositionPnl, summarizePortfolio } from '../paperTrading';
+import type { PaperPosition } from '../../types/shared';
+
+const position = (overrides: Partial<PaperPosition> = {}): PaperPosition => ({
+  id: 'p1',
+  symbol: 'AAPL',
+  timeframe: '1d',
+  direction: 'long',
+  quantity: 10,
+  entryPrice: 100,
+  stopPrice: 95,
+  targetPrice: 110,
+  openedAt: '2026-01-02T00:00:00Z',
+  status: 'open',
+  ...overrides
+});
+
+describe('getPositionExit', () => {
+  it('closes a long at or below the stop and at or above the target', () => {
+    const long = position();
+    assert.equal(getPositionExit(long, 95), 'stop');
+    assert.equal(getPositionExit(long, 90), 'stop');
+    assert.equal(getPositionExit(long, 110), 'target');
+    assert.equal(getPositionExit(long, 120), 'target');
+    assert.equal(getPositionExit(long, 100), null);
+  });
+
+  it('closes a short at or above the stop and at or below the target', () => {
+    const short = position({ direction: 'short', stopPrice: 105, targetPrice: 90 });
+    assert.equal(getPositionExit(short, 105), 'stop');
+    assert.equal(getPositionExit(short, 90), 'target');
+    assert.equal(getPositionExit(short, 100), null);
+  });
+
+  it('prefers the stop when both apply', () => {
+    // Levels set the wrong way round, so any price is past one of them
+    assert.equal(getPositionExit(position({ stopPrice: 105, targetPrice: 95 }), 100), 'stop');
+  });
+
+  it('stays open without levels', () => {
+    const bare = position({ stopPrice: null, targetPrice: null });
+    assert.equal(getPositionExit(bare, 1), null);
+    assert.equal(getPositionExit(bare, 1000), null);
+  });
+});
+
+describe('getPositionPnl', () => {
+  it('gains on a rise for longs and on a fall for shorts', () => {
+    assert.equal(getPositionPnl(position(), 110), 100);
+    assert.equal(getPositionPnl(position({ direction: 'short' }), 110), -100);
+  });
+});
+
+describe('summarizePortfolio', () => {
+  it('splits realized and unrealized P&L and nets the exposure', () => {
+    const summary = summarizePortfolio(10000, [
+      position({ status: 'closed', exitPrice: 110, exitReason: 'target' }),
+      position({ id: 'p2', lastPrice: 90 }),
+      position({ id: 'p3', direction: 'short', quantity: 5, lastPrice: 90 }),
+      // No mark yet: valued at entry
+      position({ id: 'p4', quantity: 1 })
+    ]);
+
+    assert.equal(summary.realizedPnl, 100);
+    assert.equal(summary.unrealizedPnl, -100 + 50);
+    assert.equal(summary.equity, 10000 + 100 - 50);
+    assert.equal(summary.grossExposure, 900 + 450 + 100);
+    assert.equal(summary.netExposure, 900 + 100 - 450);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { adjustBars, findSplitDiscontinuities, removeDiscontinuities } from '../priceAdjustment';
+import type { CorporateAction, StockHistoricalData } from '../../types/shared';
+
+const DAY = 86400000;
+
+// Ten bars around `before`, then ten around `after`, with the given volumes
+function jumpBars(before: number, after: number, volumeBefore = 1000, volumeAfter = volumeBefore): StockHistoricalData[] {
+  return Array.from({ length: 20 }, (_, day) => {
+    const price = day < 10 ? before : after;
+    return {
+      timestamp: day * DAY,
+      open: price,
+      high: price * 1.01,
+      low: price * 0.99,
+      close: price,
+      volume: day < 10 ? volumeBefore : volumeAfter
+    };
+  });
+}
+
+const split = (day: number, ratio: number): CorporateAction => ({ type: 'split', timestamp: day * DAY, ratio });
+
+describe('findSplitDiscontinuities', () => {
+  it('finds a known split close to its ratio', () => {
+    // 4-for-1, with the stock also trading a few percent higher that day
+    const bars = jumpBars(100, 26.5);
+    assert.deepEqual(findSplitDiscontinuities(bars, [split(10, 4)]), [
+      { timestamp: 10 * DAY, factor: 0.25, source: 'split' }
+    ]);
+  });
+
+  it('ignores a known split the bars are already adjusted for', () => {
+    assert.deepEqual(findSplitDiscontinuities(jumpBars(100, 101), [split(10, 4)]), []);
+  });
+
+  it('detects an unknown split from a gap at a common ratio with matching volume', () => {
+    const bars = jumpBars(100, 25, 1000, 4000);
+    assert.deepEqual(findSplitDiscontinuities(bars), [
+      { timestamp: 10 * DAY, factor: 0.25, source: 'detected' }
+    ]);
+  });
+
+  it('detects an unknown reverse split', () => {
+    const [discontinuity] = findSplitDiscontinuities(jumpBars(2, 20, 10000, 1000));
+    assert.equal(discontinuity.source, 'detected');
+    assert.ok(Math.abs(discontinuity.factor - 10) < 1e-9);
+  });
+
+  it('leaves a gap at a split ratio alone when volume does not change with it', () => {
+    assert.deepEqual(findSplitDiscontinuities(jumpBars(100, 25)), []);
+  });
+
+  it('never guesses a 2-for-1, which is often a real move', () => {
+    assert.deepEqual(findSplitDiscontinuities(jumpBars(100, 50, 1000, 2000)), []);
+  });
+
+  it('leaves crashes away from a split ratio alone', () => {
+    assert.deepEqual(findSplitDiscontinuities(jumpBars(100, 70, 1000, 4000)), []);
+  });
+});
+
+describe('removeDiscontinuities', () => {
+  it('rescales the bars before the split so the series is continuous', () => {
+    const bars = jumpBars(100, 25, 1000, 4000);
+    const rescaled = removeDiscontinuities(bars, findSplitDiscontinuities(bars));
+
+    assert.ok(rescaled.every(bar => bar.close === 25));
+    assert.ok(rescaled.every(bar => bar.volume === 4000));
+    // The input is left as it was
+    assert.equal(bars[0].close, 100);
+  });
+});
+
+describe('adjustBars', () => {
+  const bars = jumpBars(25, 25);
+
+  it('returns split-adjusted bars as they are', () => {
+    assert.equal(adjustBars(bars, [split(10, 4)], 'split'), bars);
+  });
+
+  it('undoes splits for unadjusted prices', () => {
+    const unadjusted = adjustBars(bars, [split(10, 4)], 'none');
+    assert.equal(unadjusted[9].close, 100);
+    assert.equal(unadjusted[9].volume, 250);
+    assert.equal(unadjusted[10].close, 25);
+  });
+
+  it('scales prices before each ex-dividend date by the dividend yield', () => {
+    const adjusted = adjustBars(bars, [{ type: 'dividend', timestamp: 10 * DAY, amount: 0.5 }], 'all');
+    assert.ok(Math.abs(adjusted[9].close - 25 * (1 - 0.5 / 25)) < 1e-9);
+    assert.equal(adjusted[9].volume, bars[9].volume);
+    assert.equal(adjusted[10].close, 25);
+  });
+
+  it('ignores actions after the last bar', () => {
+    assert.deepEqual(adjustBars(bars, [split(30, 4)], 'none'), bars);
+  });
+});
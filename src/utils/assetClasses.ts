@@ -0,0 +1,101 @@
+import type { AssetClass } from '../types/shared';
+
+/**
+ * Asset classes: which market a symbol trades in, when that market is open and how its prices are quoted
+ * Shared by the app and the API worker, which resamples bars and formats prices per asset class
+ */
+
+// Symbols analysed for each non-equity class (Yahoo tickers). Stocks come from the most-active screener.
+export const ASSET_UNIVERSES: Record<Exclude<AssetClass, 'stocks'>, string[]> = {
+  crypto: [
+    'BTC-USD', 'ETH-USD', 'SOL-USD', 'BNB-USD', 'XRP-USD', 'ADA-USD', 'DOGE-USD', 'AVAX-USD',
+    'DOT-USD', 'LINK-USD', 'LTC-USD', 'BCH-USD', 'TRX-USD', 'XLM-USD', 'ATOM-USD', 'ETC-USD',
+    'NEAR-USD', 'HBAR-USD', 'FIL-USD', 'SHIB-USD'
+  ],
+  forex: [
+    // Majors
+    'EURUSD=X', 'USDJPY=X', 'GBPUSD=X', 'AUDUSD=X', 'NZDUSD=X', 'USDCAD=X', 'USDCHF=X',
+    // Crosses
+    'EURGBP=X', 'EURJPY=X', 'GBPJPY=X', 'EURCHF=X', 'AUDJPY=X', 'EURAUD=X', 'CADJPY=X', 'CHFJPY=X'
+  ]
+};
+
+// When each market trades: UTC weekdays (0 = Sunday) and hours per trading day.
+// Forex really runs from Sunday evening to Friday evening; five full days is close enough for bar counts.
+export const ASSET_SESSIONS: Record<AssetClass, { tradingDays: number[]; sessionHours: number }> = {
+  stocks: { tradingDays: [1, 2, 3, 4, 5], sessionHours: 6.5 },
+  crypto: { tradingDays: [0, 1, 2, 3, 4, 5, 6], sessionHours: 24 },
+  forex: { tradingDays: [1, 2, 3, 4, 5], sessionHours: 24 }
+};
+
+// Smallest position size: whole shares and currency units, but fractions of a coin
+export const QUANTITY_STEPS: Record<AssetClass, number> = {
+  stocks: 1,
+  crypto: 0.0001,
+  forex: 1
+};
+
+// Yahoo crypto pairs are quoted as BASE-QUOTE, e.g. BTC-USD or ETH-BTC
+const CRYPTO_PATTERN = /^[A-Z0-9]+-(USD|USDT|USDC|EUR|GBP|BTC|ETH)$/;
+
+/**
+ * Which asset class a symbol belongs to
+ * Forex pairs end in =X; anything not recognised as crypto or forex is treated as a stock.
+ */
+export function getAssetClass(symbol: string): AssetClass {
+  const upper = (symbol || '').trim().toUpperCase();
+  if (upper.endsWith('=X')) return 'forex';
+  if (CRYPTO_PATTERN.test(upper)) return 'crypto';
+  return 'stocks';
+}
+
+/**
+ * Decimal places a price is quoted to
+ * FX pairs use pips plus a fractional pip (3 places for yen pairs, 5 for the rest);
+ * crypto keeps about four significant digits below $1, so coins worth fractions of a cent stay readable.
+ */
+export function getPriceDecimals(symbol: string | undefined, price: number): number {
+  const assetClass = symbol ? getAssetClass(symbol) : 'stocks';
+  if (assetClass === 'forex') {
+    return symbol.toUpperCase().includes('JPY') ? 3 : 5;
+  }
+  if (assetClass === 'crypto') {
+    const magnitude = Math.abs(price);
+    if (magnitude >= 100) return 2;
+    if (magnitude >= 1) return 4;
+    if (magnitude === 0 || !isFinite(magnitude)) return 2;
+    return Math.min(10, Math.max(4, Math.ceil(-Math.log10(magnitude)) + 3));
+  }
+  return 2;
+}
+
+/**
+ * A price as a plain number at its asset's precision, without a currency sign
+ */
+export function formatPriceValue(price: number, symbol?: string): string {
+  return price.toFixed(getPriceDecimals(symbol, price));
+}
+
+/**
+ * A price for messages and chart labels: dollars for stocks and crypto, a bare rate for forex pairs
+ */
+export function formatPriceLabel(price: number, symbol?: string): string {
+  const value = formatPriceValue(price, symbol);
+  return symbol && getAssetClass(symbol) === 'forex' ? value : `$${value}`;
+}
+
+/**
+ * Round a position size down to what can be traded in the symbol's market
+ */
+export function roundQuantity(quantity: number, symbol: string): number {
+  const step = QUANTITY_STEPS[getAssetClass(symbol)];
+  // The epsilon keeps exact multiples (0.3 / 0.0001) from flooring a step short
+  return Number((Math.floor(quantity / step + 1e-9) * step).toFixed(8));
+}
+
+/**
+ * Whether a market trades around the clock, so intraday bars align to clock time rather than a session open
+ */
+export function tradesAroundTheClock(symbol: string): boolean {
+  return ASSET_SESSIONS[getAssetClass(symbol)].sessionHours >= 24;
+}
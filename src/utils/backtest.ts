@@ -0,0 +1,319 @@
+import { analyzeElliottWaves, type WaveAnalysisOptions, type WaveAnalysisResult } from './elliottWaveAnalysis';
+import type { PivotDetector, StockHistoricalData, Wave } from '../types/shared';
+
+/**
+ * Backtester for wave-based entries
+ *
+ * History is replayed bar by bar. At each bar the wave count is re-run on the bars
+ * up to and including that bar only, so no signal can see the future. A signal
+ * found on a bar is filled at the next bar's open.
+ */
+
+// The engine needs at least this many bars to count
+const MIN_ANALYSIS_BARS = 50;
+
+// A trading rule, e.g. "enter at wave 2 end, target the 1.618 extension of wave 1, stop at wave 1 start"
+export interface BacktestRule {
+  name: string;
+  entryWave: string;             // Enter once this wave has ended (the next wave has begun)
+  targetWave: string;            // Target = entry wave end ± targetRatio × this wave's length
+  targetRatio: number;
+  stopWave: string;              // Stop at this wave's start or end
+  stopPoint: 'start' | 'end';
+}
+
+export const BACKTEST_RULE_PRESETS: BacktestRule[] = [
+  {
+    name: 'Wave 3: enter at wave 2 end, target 1.618 × wave 1, stop at wave 1 start',
+    entryWave: '2', targetWave: '1', targetRatio: 1.618, stopWave: '1', stopPoint: 'start'
+  },
+  {
+    name: 'Wave 5: enter at wave 4 end, target 1 × wave 1, stop at wave 1 end',
+    entryWave: '4', targetWave: '1', targetRatio: 1, stopWave: '1', stopPoint: 'end'
+  },
+  {
+    name: 'Wave C: enter at wave B end, target 1 × wave A, stop at wave A start',
+    entryWave: 'B', targetWave: 'A', targetRatio: 1, stopWave: 'A', stopPoint: 'start'
+  }
+];
+
+export interface BacktestConfig {
+  rule: BacktestRule;
+  pivotDetector?: PivotDetector;
+  analysisOptions?: WaveAnalysisOptions;
+  windowBars?: number;        // Bars each analysis sees, ending at the replayed bar (default 250, as in the app)
+  step?: number;              // Re-run the analysis every N bars while flat (default 1)
+  maxSignalAgeBars?: number;  // Skip entries whose wave ended longer ago than this (default: no limit;
+                              // the engine often confirms a wave end only many bars later)
+  maxHoldingBars?: number;    // Close trades still open after this many bars (default: no limit)
+  riskPerTradePct?: number;   // Equity risked between entry and stop on each trade (default 1%)
+}
+
+export interface BacktestTrade {
+  symbol: string;
+  direction: 'long' | 'short';
+  entryWave: string;
+  signalTimestamp: number;    // Bar the signal was found on
+  entryTimestamp: number;
+  entryPrice: number;
+  stopPrice: number;
+  targetPrice: number;
+  exitTimestamp: number;
+  exitPrice: number;
+  exitReason: 'target' | 'stop' | 'timeout' | 'end';
+  barsHeld: number;
+  returnPct: number;
+  rMultiple: number;          // Profit in units of the initial risk (entry to stop)
+}
+
+export interface BacktestStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;            // 0-1
+  avgWinPct: number;
+  avgLossPct: number;
+  expectancyPct: number;      // Average return per trade
+  expectancyR: number;        // Average R per trade
+  profitFactor: number;       // Gross profit / gross loss (Infinity with no losses)
+  totalReturnPct: number;     // Equity change, risking riskPerTradePct on each trade
+  maxDrawdownPct: number;
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  stats: BacktestStats;
+  equityCurve: { timestamp: number; equity: number }[];
+}
+
+export interface BacktestRunCallbacks {
+  isCancelled?: () => boolean;
+  onProgress?: (barsDone: number, barsTotal: number) => void;
+}
+
+interface EntrySignal {
+  key: string;                // Identifies the entry wave, so it's only traded once
+  direction: 'long' | 'short';
+  stopPrice: number;
+  targetPrice: number;
+}
+
+interface OpenTrade extends EntrySignal {
+  signalTimestamp: number;
+  entryIndex: number;
+  entryPrice: number;
+}
+
+const sameNumber = (wave: Wave, number: string) => String(wave.number) === number;
+
+// Latest wave with this number that started no later than the given time
+function findWaveBefore(waves: Wave[], number: string, timestamp: number): Wave | undefined {
+  return waves.filter(wave => sameNumber(wave, number) && wave.startTimestamp <= timestamp).pop();
+}
+
+/**
+ * Check whether a count (built from bars up to barIndex) gives an entry under the rule
+ */
+export function findEntrySignal(
+  analysis: Pick<WaveAnalysisResult, 'waves'>,
+  rule: BacktestRule,
+  bars: StockHistoricalData[],
+  barIndex: number,
+  maxSignalAgeBars: number = Infinity
+): EntrySignal | null {
+  const completed = (analysis.waves || []).filter(wave =>
+    wave.isComplete && wave.endTimestamp !== undefined && wave.endPrice !== undefined);
+
+  // The entry wave must be the latest completed wave: its successor is under way
+  const entryWave = completed[completed.length - 1];
+  if (!entryWave || !sameNumber(entryWave, rule.entryWave)) return null;
+
+  if (Number.isFinite(maxSignalAgeBars)) {
+    let age = 0;
+    for (let i = barIndex; i >= 0 && bars[i].timestamp > entryWave.endTimestamp!; i--) age++;
+    if (age > maxSignalAgeBars) return null;
+  }
+
+  const targetWave = findWaveBefore(completed, rule.targetWave, entryWave.startTimestamp);
+  const stopWave = findWaveBefore(completed, rule.stopWave, entryWave.startTimestamp);
+  if (!targetWave || !stopWave) return null;
+
+  // The next wave runs against the entry wave
+  const direction = entryWave.endPrice! < entryWave.startPrice ? 'long' : 'short';
+  const sign = direction === 'long' ? 1 : -1;
+  const targetPrice = entryWave.endPrice! +
+    sign * rule.targetRatio * Math.abs(targetWave.endPrice! - targetWave.startPrice);
+  const stopPrice = rule.stopPoint === 'start' ? stopWave.startPrice : stopWave.endPrice!;
+
+  return {
+    key: `${entryWave.number}:${entryWave.startTimestamp}`,
+    direction,
+    stopPrice,
+    targetPrice
+  };
+}
+
+// Exit price and reason if the bar hits the stop or target. The stop is assumed to
+// fill first when a bar touches both, and gaps fill at the open.
+function checkExit(trade: OpenTrade, bar: StockHistoricalData): { price: number; reason: 'target' | 'stop' } | null {
+  const long = trade.direction === 'long';
+  const hitStop = (price: number) => long ? price <= trade.stopPrice : price >= trade.stopPrice;
+  const hitTarget = (price: number) => long ? price >= trade.targetPrice : price <= trade.targetPrice;
+
+  if (hitStop(bar.open)) return { price: bar.open, reason: 'stop' };
+  if (hitTarget(bar.open)) return { price: bar.open, reason: 'target' };
+  if (hitStop(long ? bar.low : bar.high)) return { price: trade.stopPrice, reason: 'stop' };
+  if (hitTarget(long ? bar.high : bar.low)) return { price: trade.targetPrice, reason: 'target' };
+  return null;
+}
+
+function closeTrade(
+  symbol: string,
+  trade: OpenTrade,
+  rule: BacktestRule,
+  bars: StockHistoricalData[],
+  exitIndex: number,
+  exitPrice: number,
+  exitReason: BacktestTrade['exitReason']
+): BacktestTrade {
+  const sign = trade.direction === 'long' ? 1 : -1;
+  const risk = Math.abs(trade.entryPrice - trade.stopPrice);
+  return {
+    symbol,
+    direction: trade.direction,
+    entryWave: rule.entryWave,
+    signalTimestamp: trade.signalTimestamp,
+    entryTimestamp: bars[trade.entryIndex].timestamp,
+    entryPrice: trade.entryPrice,
+    stopPrice: trade.stopPrice,
+    targetPrice: trade.targetPrice,
+    exitTimestamp: bars[exitIndex].timestamp,
+    exitPrice,
+    exitReason,
+    barsHeld: exitIndex - trade.entryIndex + 1,
+    returnPct: sign * (exitPrice - trade.entryPrice) / trade.entryPrice * 100,
+    rMultiple: risk > 0 ? sign * (exitPrice - trade.entryPrice) / risk : 0
+  };
+}
+
+/**
+ * Replay one symbol's history and return the trades the rule would have taken
+ * One position at a time; the analysis isn't re-run while a trade is open.
+ */
+export async function runBacktest(
+  symbol: string,
+  bars: StockHistoricalData[],
+  config: BacktestConfig,
+  callbacks: BacktestRunCallbacks = {}
+): Promise<BacktestTrade[]> {
+  const windowBars = Math.max(config.windowBars ?? 250, MIN_ANALYSIS_BARS);
+  const step = Math.max(1, config.step ?? 1);
+  const maxSignalAgeBars = config.maxSignalAgeBars ?? Infinity;
+  const trades: BacktestTrade[] = [];
+  const tradedKeys = new Set<string>();
+  let open: OpenTrade | null = null;
+
+  const startIndex = Math.min(windowBars, bars.length) - 1;
+  if (startIndex < MIN_ANALYSIS_BARS - 1) {
+    throw new Error(`Not enough data for ${symbol}: ${bars.length} bars (minimum ${MIN_ANALYSIS_BARS})`);
+  }
+
+  for (let i = startIndex; i < bars.length; i++) {
+    if (callbacks.isCancelled?.()) break;
+    callbacks.onProgress?.(i - startIndex + 1, bars.length - startIndex);
+
+    if (open) {
+      const exit = checkExit(open, bars[i]);
+      if (exit) {
+        trades.push(closeTrade(symbol, open, config.rule, bars, i, exit.price, exit.reason));
+        open = null;
+      } else if (config.maxHoldingBars && i - open.entryIndex + 1 >= config.maxHoldingBars) {
+        trades.push(closeTrade(symbol, open, config.rule, bars, i, bars[i].close, 'timeout'));
+        open = null;
+      }
+      continue;
+    }
+
+    if ((i - startIndex) % step !== 0 || i === bars.length - 1) continue;
+
+    let analysis: WaveAnalysisResult;
+    try {
+      analysis = await analyzeElliottWaves(
+        symbol,
+        bars.slice(Math.max(0, i + 1 - windowBars), i + 1),
+        callbacks.isCancelled,
+        undefined,
+        false,
+        config.pivotDetector,
+        config.analysisOptions
+      );
+    } catch (error) {
+      console.warn(`[Backtest] ${symbol}: analysis failed at ${new Date(bars[i].timestamp).toISOString()}:`, error);
+      continue;
+    }
+    // Let the page repaint between analyses
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const signal = findEntrySignal(analysis, config.rule, bars, i, maxSignalAgeBars);
+    if (!signal || tradedKeys.has(signal.key)) continue;
+
+    // Filled at the next open; skip if price has already run past the stop or target
+    const entryPrice = bars[i + 1].open;
+    const valid = signal.direction === 'long'
+      ? signal.stopPrice < entryPrice && entryPrice < signal.targetPrice
+      : signal.targetPrice < entryPrice && entryPrice < signal.stopPrice;
+    if (!valid) continue;
+
+    tradedKeys.add(signal.key);
+    open = { ...signal, signalTimestamp: bars[i].timestamp, entryIndex: i + 1, entryPrice };
+  }
+
+  if (open && !callbacks.isCancelled?.()) {
+    trades.push(closeTrade(symbol, open, config.rule, bars, bars.length - 1, bars[bars.length - 1].close, 'end'));
+  }
+
+  return trades;
+}
+
+/**
+ * Win rate, expectancy and drawdown over a set of trades (e.g. from several symbols),
+ * compounding riskPerTradePct of equity per trade in exit order
+ */
+export function summarizeBacktest(trades: BacktestTrade[], riskPerTradePct: number = 1): BacktestResult {
+  const sorted = [...trades].sort((a, b) => a.exitTimestamp - b.exitTimestamp);
+  const wins = sorted.filter(trade => trade.returnPct > 0);
+  const losses = sorted.filter(trade => trade.returnPct <= 0);
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const average = (values: number[]) => values.length > 0 ? sum(values) / values.length : 0;
+
+  const grossProfit = sum(wins.map(trade => trade.returnPct));
+  const grossLoss = -sum(losses.map(trade => trade.returnPct));
+
+  let equity = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+  const equityCurve = sorted.map(trade => {
+    equity *= 1 + (riskPerTradePct / 100) * trade.rMultiple;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+    return { timestamp: trade.exitTimestamp, equity };
+  });
+
+  return {
+    trades: sorted,
+    equityCurve,
+    stats: {
+      trades: sorted.length,
+      wins: wins.length,
+      losses: losses.length,
+      winRate: sorted.length > 0 ? wins.length / sorted.length : 0,
+      avgWinPct: average(wins.map(trade => trade.returnPct)),
+      avgLossPct: average(losses.map(trade => trade.returnPct)),
+      expectancyPct: average(sorted.map(trade => trade.returnPct)),
+      expectancyR: average(sorted.map(trade => trade.rMultiple)),
+      profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+      totalReturnPct: (equity - 1) * 100,
+      maxDrawdownPct: maxDrawdown * 100
+    }
+  };
+}
@@ -0,0 +1,104 @@
+import {
+  HISTORY_INTERVAL_MS,
+  type BarGap,
+  type BarQualityReport,
+  type CorporateAction,
+  type HistoryInterval,
+  type StockHistoricalData
+} from '../types/shared';
+import { ASSET_SESSIONS, getAssetClass } from './assetClasses';
+import { findSplitDiscontinuities } from './priceAdjustment';
+
+/**
+ * Gaps and stale bars in a series, judged against when the symbol's market trades
+ * Shared by the app and the API worker, which reports them with history responses
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Missing trading days tolerated between bars, or after the newest one: one is usually a holiday
+const MAX_MISSING_SESSIONS = 1;
+
+// Missing bars tolerated inside a session (intraday) before it counts as a gap
+const MAX_MISSING_BARS = 2;
+
+// Trading days strictly between the UTC dates of two timestamps
+function sessionsBetween(from: number, to: number, tradingDays: number[]): number {
+  let sessions = 0;
+  for (let day = Math.floor(from / DAY_MS) + 1; day < Math.floor(to / DAY_MS); day++) {
+    if (tradingDays.includes(new Date(day * DAY_MS).getUTCDay())) sessions++;
+  }
+  return sessions;
+}
+
+// Whether every UTC date from one timestamp to the other is a trading day
+function tradesThroughout(from: number, to: number, tradingDays: number[]): boolean {
+  for (let day = Math.floor(from / DAY_MS); day <= Math.floor(to / DAY_MS); day++) {
+    if (!tradingDays.includes(new Date(day * DAY_MS).getUTCDay())) return false;
+  }
+  return true;
+}
+
+/**
+ * Check a series for missing sessions, a stale newest bar and split discontinuities
+ * Daily bars are missing when trading days are skipped; intraday bars when bars are missing inside
+ * a session (or inside a run of trading days for markets that trade around the clock) or whole sessions are skipped.
+ * Weekly and monthly bars only need to be consecutive.
+ */
+export function assessBarQuality(
+  bars: StockHistoricalData[],
+  symbol: string,
+  interval: HistoryInterval,
+  actions: CorporateAction[] = [],
+  now: number = Date.now()
+): BarQualityReport {
+  const session = ASSET_SESSIONS[getAssetClass(symbol)];
+  const intervalMs = HISTORY_INTERVAL_MS[interval] || DAY_MS;
+  const intraday = intervalMs < DAY_MS;
+  const periodic = interval === '1wk' || interval === '1mo';
+  const barsPerSession = Math.max(1, Math.round(session.sessionHours * 60 * 60 * 1000 / intervalMs));
+
+  // Bars missing between two timestamps, or 0 if the gap is explained by closed hours and holidays
+  const missingBetween = (from: number, to: number): number => {
+    if (periodic) {
+      return Math.max(0, Math.round((to - from) / intervalMs) - 1);
+    }
+    if (intraday && (Math.floor(from / DAY_MS) === Math.floor(to / DAY_MS) || (session.sessionHours >= 24 && tradesThroughout(from, to, session.tradingDays)))) {
+      const missing = Math.round((to - from) / intervalMs) - 1;
+      return missing > MAX_MISSING_BARS ? missing : 0;
+    }
+    const sessions = sessionsBetween(from, to, session.tradingDays);
+    if (sessions <= MAX_MISSING_SESSIONS) return 0;
+    return intraday ? sessions * barsPerSession : sessions;
+  };
+
+  const gaps: BarGap[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const missingBars = missingBetween(bars[i - 1].timestamp, bars[i].timestamp);
+    if (missingBars > 0) {
+      gaps.push({ from: bars[i - 1].timestamp, to: bars[i].timestamp, missingBars });
+    }
+  }
+
+  const lastBarAt = bars.length ? bars[bars.length - 1].timestamp : null;
+  let stale = false;
+  if (lastBarAt !== null) {
+    if (periodic) {
+      // The newest bar is stamped at the start of its week or month
+      stale = now - lastBarAt > 2 * intervalMs;
+    } else {
+      stale = sessionsBetween(lastBarAt, now, session.tradingDays) > MAX_MISSING_SESSIONS;
+      // Around-the-clock markets should have bars right up to now
+      if (!stale && intraday && session.sessionHours >= 24 && tradesThroughout(lastBarAt, now, session.tradingDays)) {
+        stale = now - lastBarAt > (MAX_MISSING_BARS + 2) * intervalMs;
+      }
+    }
+  }
+
+  return {
+    gaps,
+    stale,
+    lastBarAt,
+    discontinuities: findSplitDiscontinuities(bars, actions)
+  };
+}
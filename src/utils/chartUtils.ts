@@ -1,4 +1,5 @@
 import { StockHistoricalData } from '@/types/shared';
+import { getAssetClass, getPriceDecimals } from '@/utils/assetClasses';
 
 /**
  * Formats historical stock data for chart display
@@ -24,12 +25,18 @@ export const formatDate = (timestamp: number): string => {
 };
 
 /**
- * Formats price values with dollar signs and fixed decimals
+ * Formats price values at the symbol's precision: dollars for stocks and crypto,
+ * a bare rate for forex pairs (which aren't all quoted in dollars)
  */
-export const formatPrice = (price: number): string => {
+export const formatPrice = (price: number, symbol?: string): string => {
+  const decimals = getPriceDecimals(symbol, price);
+  if (symbol && getAssetClass(symbol) === 'forex') {
+    return price.toFixed(decimals);
+  }
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency: 'USD',
-    minimumFractionDigits: 2
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
   }).format(price);
-};
\ No newline at end of file
+};
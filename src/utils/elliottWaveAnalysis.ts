@@ -14,18 +14,73 @@
  * - Wave 4 should not overlap with Wave 1's price territory (but can be relaxed in some cases)
  */
 
-import { StockHistoricalData } from "@/services/yahooFinanceService";
-import { Wave, FibTarget } from '@/types/shared';
+import { Wave, FibTarget, WaveDegree, WaveCount, WaveRuleCheck, WaveDiagonal, CorrectionPattern, CORRECTION_PATTERN_NAMES, PivotDetector, StockHistoricalData, CorporateAction, PriceDiscontinuity } from '../types/shared';
+import { findSplitDiscontinuities, removeDiscontinuities } from './priceAdjustment';
 
 export type { Wave, FibTarget };
 
 // Add this at the top level of your file, outside any function
-const thresholdCombinations = [
-  { max: 0.03, min: 0.01 },
-  { max: 0.05, min: 0.02 },
-  { max: 0.02, min: 0.005 },
-  { max: 0.07, min: 0.03 }
- ];
+// Percent thresholds are fractions of price; ATR thresholds are multiples of the ATR
+export const thresholdCombinations: Record<PivotDetector, { max: number; min: number }[]> = {
+  percent: [
+    { max: 0.03, min: 0.01 },
+    { max: 0.05, min: 0.02 },
+    { max: 0.02, min: 0.005 },
+    { max: 0.07, min: 0.03 }
+  ],
+  atr: [
+    { max: 3, min: 1.5 },
+    { max: 5, min: 2.5 },
+    { max: 2, min: 1 },
+    { max: 7, min: 3.5 }
+  ]
+};
+
+// Finest thresholds, used by the fallback analysis
+const FALLBACK_THRESHOLDS: Record<PivotDetector, { max: number; min: number }> = {
+  percent: { max: 0.01, min: 0.005 },
+  atr: { max: 1, min: 0.5 }
+};
+
+// How much findPivots lowers the threshold each time it finds too few pivots
+const PIVOT_THRESHOLD_STEP: Record<PivotDetector, number> = {
+  percent: 0.005,
+  atr: 0.5
+};
+
+// Lookback for the Average True Range used by the ATR pivot detector
+const ATR_PERIOD = 14;
+
+// Degree assigned at each level of the recursive subwave count (index 0 = top level)
+const WAVE_DEGREES: WaveDegree[] = ['Primary', 'Intermediate', 'Minor'];
+
+// Minimum number of bars each subwave needs before we try to subdivide a wave
+const MIN_BARS_PER_SUBWAVE = 2;
+
+// Upper bound on candidate pivots inside a single wave (keeps the combination search small)
+const MAX_SUBWAVE_CANDIDATES = 14;
+
+// Wave B retracements of Wave A that separate zigzags, regular flats and expanded/running flats
+const FLAT_B_RETRACEMENT = 0.8;
+const EXPANDED_B_RETRACEMENT = 1.05;
+
+// Smallest triangle leg allowed, as a fraction of the largest (filters out noise)
+const MIN_TRIANGLE_LEG_RATIO = 0.1;
+
+// Label order of a full impulse-correction cycle
+const WAVE_SEQUENCE: Array<number | string> = [1, 2, 3, 4, 5, 'A', 'B', 'C'];
+
+// Typical length of a correction's final leg: C against A for zigzags and flats, Y against W
+// for combinations, and each leg against the one before it for triangles
+const CORRECTION_TARGET_RATIOS: Record<CorrectionPattern, number[]> = {
+  zigzag: [1.0, 1.236, 1.618],
+  regular_flat: [1.0, 1.236],
+  expanded_flat: [1.236, 1.618, 2.618],
+  running_flat: [0.618, 0.786, 1.0],
+  contracting_triangle: [0.618, 0.786],
+  expanding_triangle: [1.236, 1.618],
+  wxy: [0.618, 1.0, 1.618]
+};
 
 
 
@@ -38,6 +93,27 @@ export interface WaveAnalysisResult {
   trend: 'bullish' | 'bearish' | 'neutral';  // Overall trend direction
   impulsePattern?: boolean;                  // True if we've identified a complete impulse pattern (waves 1-5)
   correctivePattern?: boolean;               // True if we've identified a complete corrective pattern (waves A-B-C)
+  waveCounts?: WaveCount[];                  // Ranked alternate counts; index 0 is this (primary) count
+  direction?: 'bullish' | 'bearish';         // Direction of the impulse the count is built on
+  pivotDetector?: PivotDetector;             // Pivot detector the counts were built from
+  ruleChecks?: WaveRuleCheck[];              // Rules and guidelines evaluated for this count
+  confidence?: number;                       // 0-100 guideline confidence of this count
+  confidenceLevel?: 'high' | 'medium' | 'low';
+  discontinuities?: PriceDiscontinuity[];    // Unadjusted splits in the data; bars before them were rescaled for the count
+}
+
+// Overrides for the count search, so the backtester can compare settings
+export interface WaveAnalysisOptions {
+  thresholds?: { max: number; min: number }[];  // Pivot thresholds to try (default: thresholdCombinations)
+  retryAfterInvalidation?: boolean;             // Recount after an invalidated Wave 4 (default: true)
+  corporateActions?: CorporateAction[];         // Known splits, so their jumps are recognised in unadjusted data
+}
+
+// A candidate analysis produced while searching, before ranking
+interface CountCandidate {
+  label: string;        // How the candidate was found (e.g. pivot thresholds)
+  result: WaveAnalysisResult;
+  acceptable: boolean;  // Whether it met the criteria for a usable primary count
 }
 
 
@@ -81,7 +157,7 @@ const formatDate = (timestamp: number): string => {
  * These points form the basis for wave identification
  */
 interface ZigzagPoint {
-  price: number;       // Standard price (close)
+  price: number;       // Pivot price (high for peaks, low for troughs, close at the ends)
   high: number;        // High price for impulse waves
   low: number;        // Low price for corrective waves
   timestamp: number;   // Time of the pivot point
@@ -457,6 +533,19 @@ else if (lastWaveNumber === 5) {
       isCritical: true // Important psychological level
     });
     
+    // After a triangle, Wave 5 is a thrust roughly as long as the triangle's widest leg
+    const triangleLegs = (wave4.subwaves || []).filter(w => w.endPrice !== undefined);
+    if (wave4.pattern?.endsWith('_triangle') && triangleLegs.length > 0) {
+      const triangleWidth = Math.max(...triangleLegs.map(w => Math.abs(w.endPrice! - w.startPrice)));
+      fibTargets.push({
+        level: 1.0,
+        price: lastWave.startPrice + (triangleWidth * direction),
+        label: "Triangle Thrust",
+        isExtension: true,
+        isPrimary: true
+      });
+    }
+    
     // Add the Wave 3 timestamp to the label for better clarity
     function formatPrice(price: number): string {
       return "$" + price.toFixed(2);
@@ -634,15 +723,14 @@ else if (lastWaveNumber === 'C') {
     // Determine the pattern type based on Wave B's retracement
     const waveBretracement = Math.abs(waveB.endPrice - waveA.endPrice) / waveAHeight;
     
-    // Determine the correction pattern type
-    let patternType = "Unknown";
-    if (waveBretracement <= 0.618) {
-      patternType = "Zigzag";
-    } else if (waveBretracement >= 0.9 && waveBretracement <= 1.0) {
-      patternType = "Flat";
-    } else if (waveBretracement > 1.0) {
-      patternType = "Expanded Flat";
-    }
+    // Classify the correction from Wave B's retracement and, once known, where Wave C ended
+    const normalize = waveA.endPrice > waveA.startPrice ? 1 : -1;
+    const pattern = lastWave.pattern ?? classifyCorrection(
+      [waveA.startPrice, waveA.endPrice, waveB.endPrice, lastWave.endPrice ?? data[data.length - 1].close]
+        .map(price => price * normalize),
+      lastWave.isComplete && lastWave.endPrice !== undefined
+    );
+    const patternType = pattern ? CORRECTION_PATTERN_NAMES[pattern] : "Unknown";
     
     if (verbose) console.log(`- Detected ${patternType} pattern (Wave B retraced ${(waveBretracement * 100).toFixed(1)}% of Wave A)`);
     
@@ -650,16 +738,12 @@ else if (lastWaveNumber === 'C') {
     const isWaveADown = waveA.endPrice < waveA.startPrice;
     const direction = isWaveADown ? -1 : 1;
     
-    // Common targets for Wave C
-    const fibLevels = [
-      { level: 1.0, label: "100% of Wave A" },
-      { level: 1.618, label: "161.8% of Wave A" },
-      { level: 2.0, label: "200% of Wave A" },
-      { level: 2.618, label: "261.8% of Wave A" }
-    ];
+    // Each pattern has its own typical Wave C length; fall back to the common set
+    const fibLevels = (pattern ? CORRECTION_TARGET_RATIOS[pattern] : [1.0, 1.618, 2.0, 2.618])
+      .map(level => ({ level, label: `${+(level * 100).toFixed(1)}% of Wave A` }));
     
     // Calculate projection targets for Wave C from the end of Wave B
-    fibLevels.forEach(({ level, label }) => {
+    fibLevels.forEach(({ level, label }, index) => {
       const projectionLength = waveAHeight * level;
       const targetPrice = waveB.endPrice + (projectionLength * direction);
       
@@ -668,16 +752,19 @@ else if (lastWaveNumber === 'C') {
         price: targetPrice,
         label: `${label} (${patternType})`,
         isExtension: level > 1.0,
-        isCritical: level === 1.0 || level === 1.618 // These are particularly important levels
+        isCritical: index === 0, // The most common length for this pattern
+        isFlat: !!pattern?.endsWith('_flat'),
+        isZigzag: pattern === 'zigzag'
       });
     });
     
-    // In a zigzag, Wave C often terminates beyond the end of Wave A
-    if (patternType === "Zigzag") {
+    // Wave A's end is the minimum target for zigzags and expanded flats, and the
+    // natural target for a regular flat; running flats fall short of it
+    if (pattern === 'zigzag' || pattern === 'expanded_flat' || pattern === 'regular_flat') {
       const waveAEndTarget = {
         level: 0,
         price: waveA.endPrice,
-        label: "Wave A End (Minimum Target)",
+        label: pattern === 'regular_flat' ? "Wave A End (Flat Target)" : "Wave A End (Minimum Target)",
         isExtension: false,
         isCritical: true
       };
@@ -729,113 +816,142 @@ else {
  * Starts with the higher threshold and progressively lowers it if needed
  * 
  * @param data - Historical price data
- * @param maxThreshold - Maximum percentage change threshold (default: 3%)
- * @param minThreshold - Minimum percentage change threshold (default: 1%)
+ * @param maxThreshold - Maximum threshold (default: 3%, or 3x ATR with the ATR detector)
+ * @param minThreshold - Minimum threshold (default: 1%, or 1x ATR with the ATR detector)
+ * @param verbose - Whether to log verbose debug info
+ * @param detector - 'percent' measures swings against price, 'atr' against the ATR at the extreme
  * @returns Array of significant pivot points
  */
 export const findPivots = (
   data: StockHistoricalData[], 
   maxThreshold: number = 0.03,
   minThreshold: number = 0.01,
-  verbose: boolean = false  // Add verbose parameter
+  verbose: boolean = false,  // Add verbose parameter
+  detector: PivotDetector = 'percent'
 ): ZigzagPoint[] => {
   // Need at least 3 data points to find pivots
   if (data.length < 3) return []; 
   
+  const atr = detector === 'atr' ? calculateATR(data) : undefined;
+  const unit = detector === 'atr' ? 'x ATR' : '%';
+  const format = (threshold: number) => detector === 'atr' ? threshold.toFixed(1) : (threshold * 100).toFixed(1);
+  
   // Start with the higher threshold and progressively lower if needed
   let currentThreshold = maxThreshold;
   let pivots: ZigzagPoint[] = [];
   
   // Try progressively lower thresholds until we find enough pivots
   while (currentThreshold >= minThreshold) {
-    pivots = findPivotsWithThreshold(data, currentThreshold);
+    pivots = findPivotsWithThreshold(data, currentThreshold, atr);
     
     // Need at least 4 points to form 3 waves (minimum for Elliott Wave analysis)
     if (pivots.length >= 4) {
-      if (verbose) console.log(`Found ${pivots.length} pivots with ${currentThreshold * 100}% threshold`);
+      if (verbose) console.log(`Found ${pivots.length} pivots with ${format(currentThreshold)}${unit} threshold`);
       break;
     }
     
     // Lower the threshold and try again
-    currentThreshold -= 0.005; // Decrease by 0.5%
+    currentThreshold -= PIVOT_THRESHOLD_STEP[detector];
   }
   
   // If we still don't have enough pivots, use minimum threshold
   if (pivots.length < 4) {
-    pivots = findPivotsWithThreshold(data, minThreshold);
-    if (verbose) console.log(`Using minimum threshold ${minThreshold * 100}%: found ${pivots.length} pivots`);
+    pivots = findPivotsWithThreshold(data, minThreshold, atr);
+    if (verbose) console.log(`Using minimum threshold ${format(minThreshold)}${unit}: found ${pivots.length} pivots`);
   }
   
   return pivots;
 };
 
+/**
+ * Average True Range at every bar, smoothed the way Wilder defined it
+ * Bars before the first full period use the average of the true ranges so far
+ */
+const calculateATR = (data: StockHistoricalData[], period: number = ATR_PERIOD): number[] => {
+  const atr: number[] = [];
+  let average = 0;
+  
+  for (let i = 0; i < data.length; i++) {
+    const { high, low } = data[i];
+    const previousClose = i > 0 ? data[i - 1].close : data[i].close;
+    const trueRange = Math.max(high - low, Math.abs(high - previousClose), Math.abs(low - previousClose));
+    
+    average = i < period
+      ? (average * i + trueRange) / (i + 1)
+      : (average * (period - 1) + trueRange) / period;
+    atr.push(average);
+  }
+  
+  return atr;
+};
+
 /**
  * Helper function that finds pivots using a specific threshold
+ * Peaks are taken at bar highs and troughs at bar lows, so waves end on the actual wicks.
+ * A swing reverses once price moves back from its extreme by the threshold: a fraction
+ * of the extreme's price, or a multiple of the ATR at the extreme when `atr` is given
  */
-const findPivotsWithThreshold = (data: StockHistoricalData[], threshold: number): ZigzagPoint[] => {
+const findPivotsWithThreshold = (data: StockHistoricalData[], threshold: number, atr?: number[]): ZigzagPoint[] => {
   const pivots: ZigzagPoint[] = [];
   
-  // Always include the first point
-  pivots.push({
-    price: data[0].close,
-    high: data[0].high,
-    low: data[0].low,
-    timestamp: data[0].timestamp, // Keep as Date object if that's what it is
-    index: 0,
-    type: 'start'
+  const toPivot = (index: number, type: ZigzagPoint['type']): ZigzagPoint => ({
+    price: type === 'peak' ? data[index].high : type === 'trough' ? data[index].low : data[index].close,
+    high: data[index].high,
+    low: data[index].low,
+    timestamp: data[index].timestamp, // Keep as Date object if that's what it is
+    index,
+    type
   });
+  const reversalFrom = (index: number, price: number) => atr ? atr[index] * threshold : price * threshold;
+  
+  // Always include the first point
+  pivots.push(toPivot(0, 'start'));
 
-  // Initialize tracking variables
-  let lastDirection: 'up' | 'down' | null = null;
-  let lastExtreme = data[0];
-  let lastExtremeIndex = 0;
+  // Until the first swing is confirmed, track both extremes
+  let direction: 'up' | 'down' | null = null;
+  let highIndex = 0;
+  let lowIndex = 0;
 
   // Scan through the price data to find significant turning points
   for (let i = 1; i < data.length; i++) {
     const candle = data[i];
-    const currentDirection = candle.close > lastExtreme.close ? 'up' : 'down';
     
-    if (lastDirection !== null && currentDirection !== lastDirection) {
-      // Calculate percentage change from last extreme
-      const change = Math.abs(lastExtreme.close - candle.close) / lastExtreme.close;
+    if (direction === null) {
+      if (candle.high > data[highIndex].high) highIndex = i;
+      if (candle.low < data[lowIndex].low) lowIndex = i;
       
-      // Now use the provided threshold parameter
-      if (change >= threshold) {
-        pivots.push({
-          price: lastExtreme.close,
-          high: lastExtreme.high,
-          low: lastExtreme.low,
-          timestamp: lastExtreme.timestamp,
-          index: lastExtremeIndex,
-          type: lastDirection === 'up' ? 'peak' : 'trough'
-        });
-        
-        lastExtreme = candle;
-        lastExtremeIndex = i;
-        lastDirection = currentDirection;
+      // The first swing starts from whichever extreme price has moved away from
+      if (candle.high - data[lowIndex].low >= reversalFrom(lowIndex, data[lowIndex].low) && lowIndex < i) {
+        if (lowIndex > 0) pivots.push(toPivot(lowIndex, 'trough'));
+        direction = 'up';
+        highIndex = i;
+      } else if (data[highIndex].high - candle.low >= reversalFrom(highIndex, data[highIndex].high) && highIndex < i) {
+        if (highIndex > 0) pivots.push(toPivot(highIndex, 'peak'));
+        direction = 'down';
+        lowIndex = i;
+      }
+    } else if (direction === 'up') {
+      // Extend the swing on a new high, otherwise check for a reversal off the high
+      if (candle.high >= data[highIndex].high) {
+        highIndex = i;
+      } else if (data[highIndex].high - candle.low >= reversalFrom(highIndex, data[highIndex].high)) {
+        pivots.push(toPivot(highIndex, 'peak'));
+        direction = 'down';
+        lowIndex = i;
       }
     } else {
-      // Continue in the same direction, update extremes
-      if (currentDirection === 'up' && candle.high > lastExtreme.high) {
-        lastExtreme = candle;
-        lastExtremeIndex = i;
-      } else if (currentDirection === 'down' && candle.low < lastExtreme.low) {
-        lastExtreme = candle;
-        lastExtremeIndex = i;
+      if (candle.low <= data[lowIndex].low) {
+        lowIndex = i;
+      } else if (candle.high - data[lowIndex].low >= reversalFrom(lowIndex, data[lowIndex].low)) {
+        pivots.push(toPivot(lowIndex, 'trough'));
+        direction = 'up';
+        highIndex = i;
       }
-      lastDirection = currentDirection;
     }
   }
 
   // Always include the last point
-  pivots.push({
-    price: data[data.length - 1].close,
-    high: data[data.length - 1].high,
-    low: data[data.length - 1].low,
-    timestamp: data[data.length - 1].timestamp,
-    index: data.length - 1,
-    type: 'end'
-  });
+  pivots.push(toPivot(data.length - 1, 'end'));
 
   return pivots;
 };
@@ -847,14 +963,15 @@ const findPivotsWithThreshold = (data: StockHistoricalData[], threshold: number)
  * @param waveNumber - The wave number/letter to analyze
  * @returns Trend direction ('bullish', 'bearish', or 'neutral')
  */
-const getWaveTrend = (waveNumber: string | number): 'bullish' | 'bearish' | 'neutral' => {
-  if (typeof waveNumber === 'number') {
-    // In bullish patterns: 1, 3, 5 are bullish; 2, 4 are bearish
-    return waveNumber % 2 === 1 ? 'bullish' : 'bearish';
-  } else {
-    // In bullish patterns: B is bullish; A and C are bearish
-    return waveNumber === 'B' ? 'bullish' : 'bearish';
-  }
+const getWaveTrend = (
+  waveNumber: string | number,
+  direction: 'bullish' | 'bearish' = 'bullish'
+): 'bullish' | 'bearish' | 'neutral' => {
+  // In bullish patterns 1, 3, 5 and B rise; bearish patterns mirror them
+  const movesWithImpulse = typeof waveNumber === 'number'
+    ? waveNumber % 2 === 1
+    : waveNumber === 'B';
+  return movesWithImpulse === (direction === 'bullish') ? 'bullish' : 'bearish';
 };
 
 /**
@@ -1072,7 +1189,8 @@ const findValidPivotSequence = (pivots: ZigzagPoint[], verbose: boolean = false)
 
 /**
  * Core function to analyze Elliott Wave patterns from pivot points
- * Modified to focus exclusively on bullish wave patterns
+ * Bullish counts have waves 1, 3 and 5 rising; bearish counts mirror every rule,
+ * so the impulse falls and the A-B-C correction rises
  */
 const completeWaveAnalysis = (
   pivots: ZigzagPoint[], 
@@ -1170,10 +1288,8 @@ const completeWaveAnalysis = (
     }
     const { startPoint, isUpMove } = pivotPairs[i];
     let { endPoint } = pivotPairs[i];
-    // For bearish, invert isUpMove
-    const move = direction === 'bullish' ? isUpMove : !isUpMove;
     let waveNumber = phase === 'impulse' ? waveCount : ['A', 'B', 'C'][waveCount - 1];
-    const startPrice = previousWave ? previousWave.endPrice : (move ? startPoint.low : startPoint.high);
+    const startPrice = previousWave ? previousWave.endPrice : (isUpMove ? startPoint.low : startPoint.high);
     const startTimestamp = previousWave ? previousWave.endTimestamp : startPoint.timestamp;
     // Determine if this is the last wave in our analysis by checking if it ends at the last data point
     const isLastWave = (i === pivotPairs.length - 1);
@@ -1195,13 +1311,16 @@ const completeWaveAnalysis = (
     // Only add endTimestamp and endPrice properties if the wave is complete
     if (isComplete) {
       wave.endTimestamp = endPoint.timestamp;
-      wave.endPrice = move ? endPoint.high : endPoint.low;
+      wave.endPrice = isUpMove ? endPoint.high : endPoint.low;
     }
     
     // Validate wave based on position
     let waveValid = true;
     let confirmPattern = false;
     
+    // Only impulse waves 1-2 wait for confirmation; read this before the switch resets waveCount
+    const awaitsConfirmation = phase === 'impulse' && waveCount < 3;
+    
     switch (phase) {
       case 'impulse':
         switch (waveCount) {
@@ -1250,20 +1369,15 @@ const completeWaveAnalysis = (
               // Store this invalid wave for display purposes
               invalidWaves.push(wave);
               
-              // IMPORTANT: Look for a new Wave 1 at the next pivot low (if in bullish mode)
+              // IMPORTANT: Look for a new Wave 1 at the next pivot low (next pivot high when bearish)
               // This is how we properly restart the pattern after Wave 2 invalidation
-              if (direction === 'bullish') {
-                if (verbose) console.log(`Looking for new Wave 1 starting at pivot ${i+1} (timestamp: ${endPoint.timestamp})`);
-                
-                // Store this potential new Wave 1 starting point for future analysis
-                const newWave1StartIndex = i+1;
-                
-                // Skip ahead to this index in the next iteration
-                skipToIndex = newWave1StartIndex;
-              } else {
-                // For bearish direction, similar logic but looking for a peak instead
-                if (verbose) console.log(`Looking for new Wave 1 starting at next peak`);
-              }
+              if (verbose) console.log(`Looking for new Wave 1 starting at pivot ${i+1} (timestamp: ${endPoint.timestamp})`);
+              
+              // Store this potential new Wave 1 starting point for future analysis
+              const newWave1StartIndex = i+1;
+              
+              // Skip ahead to this index in the next iteration
+              skipToIndex = newWave1StartIndex;
               
               // Reset pattern recognition
               phase = 'impulse';
@@ -1369,10 +1483,21 @@ const completeWaveAnalysis = (
                 const isBullish = (direction === 'bullish');
                 
                 // For a completed Wave 4, check its lowest/highest point
-                const isInvalidated = isBullish ? 
+                const overlapsWave1 = isBullish ? 
                   endPoint.low <= wave1.endPrice : 
                   endPoint.high >= wave1.endPrice;
                 
+                // Overlap is allowed when waves 1-4 form a diagonal
+                const wave3 = findMostRecentWave(waves, 3) || findMostRecentWave(pendingWaves, 3);
+                const diagonalShape = overlapsWave1 && wave2?.endPrice !== undefined && wave3?.endPrice !== undefined
+                  ? getDiagonalShape(
+                      [wave1.startPrice, wave1.endPrice, wave2.endPrice, wave3.endPrice, isBullish ? endPoint.low : endPoint.high]
+                        .map(price => isBullish ? price : -price),
+                      true
+                    )
+                  : undefined;
+                const isInvalidated = overlapsWave1 && !diagonalShape;
+                
                 if (isInvalidated) {
                   if (verbose) console.log(`Wave 4 invalidated - overlaps Wave 1 price territory`);
                   if (verbose) console.log(`Wave 4 ${isBullish ? 'low' : 'high'}: ${isBullish ? endPoint.low.toFixed(2) : endPoint.high.toFixed(2)}`);
@@ -1461,6 +1586,9 @@ const completeWaveAnalysis = (
                   // Reset pattern recognition
                   phase = 'impulse';
                   waveCount = 1;
+                } else if (diagonalShape) {
+                  if (verbose) console.log(`Wave 4 overlaps Wave 1 but waves 1-4 form a ${diagonalShape} diagonal`);
+                  if (verbose) console.log("Expecting Wave 5 next");
                 } else {
                   // Wave 4 is valid, next pivot should be considered for Wave 5
                   if (verbose) console.log("Wave 4 confirmed - does not overlap Wave 1 price territory");
@@ -1549,7 +1677,7 @@ const completeWaveAnalysis = (
         pendingWaves = []; // Clear pending now that we've committed them
       } 
       // For waves >= 3, add directly to results as we're already in a confirmed pattern
-      else if (waveCount >= 3) {
+      else if (!awaitsConfirmation) {
         waves.push(wave);
       } 
       // For waves 1-2, add to pending until wave 3 confirms the pattern
@@ -1572,31 +1700,37 @@ const completeWaveAnalysis = (
     }
   }
 
+  // Merge fourth-wave triangles, tag corrections and flag diagonals before anything reads the labels
+  waves.splice(0, waves.length, ...identifyDiagonals(identifyCorrectionPatterns(waves, data[data.length - 1].close), data));
+
   // Calculate the overall trend based on the detected waves
   let trend: 'bullish' | 'bearish' | 'neutral' = 'neutral';
   
+  // The correction runs against the impulse
+  const correctionTrend = direction === 'bullish' ? 'bearish' : 'bullish';
+  
   if (waves.length > 0) {
     const lastWave = waves[waves.length - 1];
-    trend = getWaveTrend(lastWave.number);
+    trend = getWaveTrend(lastWave.number, direction);
     
-    // If the last wave is 2 or 4, the overall trend is still bullish (in a bullish pattern)
-    if ((lastWave.number === 2 || lastWave.number === 4) && direction === 'bullish') {
-      trend = 'bullish';
+    // If the last wave is 2 or 4, the overall trend is still that of the impulse
+    if (lastWave.number === 2 || lastWave.number === 4) {
+      trend = direction;
     }
-    // If the last wave is A or C, the overall trend is bearish
+    // If the last wave is A or C, the overall trend is the correction's
     else if ((lastWave.number === 'A' || lastWave.number === 'C')) {
-      trend = 'bearish';
+      trend = correctionTrend;
     }
-    // If the last wave is B, the overall trend could be either (temporary bullish in a bearish correction)
+    // If the last wave is B, the overall trend could be either (a temporary move back in the impulse's direction)
     else if (lastWave.number === 'B') {
-      // If we've completed a full impulse pattern (waves 1-5), the larger trend is correction (bearish)
+      // If we've completed a full impulse pattern (waves 1-5), the larger trend is the correction
       const hasWave5 = waves.some(w => w.number === 5);
-      trend = hasWave5 ? 'bearish' : 'neutral';
+      trend = hasWave5 ? correctionTrend : 'neutral';
     }
   } else if (pendingWaves.length > 0) {
     // Use pending waves if we don't have confirmed waves yet
     const lastPendingWave = pendingWaves[pendingWaves.length - 1];
-    trend = getWaveTrend(lastPendingWave.number);
+    trend = getWaveTrend(lastPendingWave.number, direction);
   } else {
     // If we have no waves at all, use the overall price direction
     trend = data[data.length - 1].close > data[0].close ? 'bullish' : 'bearish';
@@ -1629,6 +1763,7 @@ const completeWaveAnalysis = (
     currentWave,
     fibTargets,
     trend,
+    direction,
     impulsePattern,
     correctivePattern
   };
@@ -1719,6 +1854,1017 @@ const cleanupIncompleteWaves = (result: WaveAnalysisResult): WaveAnalysisResult
   return cleanedResult;
 };
 
+/**
+ * Determine how many subwaves a wave subdivides into
+ * Waves 1, 3, 5, A and C are motive (5 subwaves, following the 5-3-5 zigzag);
+ * waves 2, 4, B and the legs of triangles and combinations are corrective (3 subwaves)
+ */
+const getSubwaveCount = (waveNumber: string | number): 3 | 5 => {
+  if (typeof waveNumber === 'number' || !isNaN(parseInt(waveNumber as string))) {
+    const num = typeof waveNumber === 'number' ? waveNumber : parseInt(waveNumber);
+    return num % 2 === 1 ? 5 : 3;
+  }
+  return waveNumber === 'A' || waveNumber === 'C' ? 5 : 3;
+};
+
+/**
+ * Determine how a correction's legs subdivide, given the pattern it forms
+ * Flats are 3-3-5, while every leg of a triangle or W-X-Y combination is itself a three
+ */
+const getCorrectionLegCount = (pattern: CorrectionPattern | undefined, label: string | number): 3 | 5 => {
+  if (!pattern || pattern === 'zigzag') return getSubwaveCount(label);
+  if (pattern.endsWith('_flat')) return label === 'C' ? 5 : 3;
+  return 3;
+};
+
+/**
+ * Check a candidate impulse subwave sequence against the Elliott Wave rules
+ * Prices are normalized so that the parent wave always moves upward
+ *
+ * @param points - Normalized prices: parent start, each subwave end, then the parent end (or current price)
+ * @param isComplete - Whether the last point is a confirmed end rather than the current price
+ * @returns True if no rule is broken by the known points
+ */
+const isValidSubwaveSequence = (points: number[], isComplete: boolean): boolean => {
+  // The last point of an in-progress wave is just the current price, so it can't break a rule yet
+  const lastKnown = isComplete ? points.length - 1 : points.length - 2;
+
+  // Each pair [i, j] requires points[i] > points[j]
+  const rules: Array<[number, number]> = [
+    [1, 0], [1, 2], [3, 2], [3, 4], [5, 4], // Waves alternate with and against the trend
+    [2, 0], // Wave 2 never retraces beyond the start of Wave 1
+    [3, 1], // Wave 3 must extend beyond the end of Wave 1
+    [4, 1]  // Wave 4 does not overlap Wave 1 price territory
+  ];
+
+  for (const [i, j] of rules) {
+    if (Math.max(i, j) > lastKnown) continue;
+    if (points[i] <= points[j]) return false;
+  }
+
+  // Wave 3 is never the shortest of waves 1, 3 and 5
+  if (lastKnown >= 5) {
+    const wave1Length = points[1] - points[0];
+    const wave3Length = points[3] - points[2];
+    const wave5Length = points[5] - points[4];
+    if (wave3Length < wave1Length && wave3Length < wave5Length) return false;
+  }
+
+  return true;
+};
+
+/**
+ * Determine whether the legs of a motive wave form a diagonal
+ * Prices are normalized so that the wave moves upward
+ *
+ * Wave 4 overlaps Wave 1 but stays above the end of Wave 2, and the legs shrink together
+ * (contracting) or grow together (expanding), so the 1-3 and 2-4 trendlines converge or
+ * diverge.
+ *
+ * @param points - Normalized prices: wave start, then each subwave end (or current price)
+ * @param isComplete - Whether the last point is a confirmed end rather than the current price
+ * @returns Diagonal shape, or undefined if the known legs don't form one
+ */
+const getDiagonalShape = (points: number[], isComplete: boolean): WaveDiagonal['shape'] | undefined => {
+  const lastKnown = isComplete ? points.length - 1 : points.length - 2;
+  if (lastKnown < 4 || points.length > 6) return undefined;
+
+  // Each pair [i, j] requires points[i] > points[j]
+  const rules: Array<[number, number]> = [
+    [1, 0], [1, 2], [3, 2], [3, 4], [5, 4], // Waves alternate with and against the trend
+    [2, 0], // Wave 2 never retraces beyond the start of Wave 1
+    [3, 1], // Wave 3 extends beyond the end of Wave 1
+    [5, 3], // Wave 5 extends beyond the end of Wave 3
+    [1, 4], // Wave 4 overlaps Wave 1 (otherwise this is an impulse)
+    [4, 2]  // ...but never goes beyond the end of Wave 2
+  ];
+  if (rules.some(([i, j]) => Math.max(i, j) <= lastKnown && points[i] <= points[j])) return undefined;
+
+  // Compare each leg with the one two before it: 3 with 1, 4 with 2, 5 with 3
+  const legs = points.slice(1, lastKnown + 1).map((p, k) => Math.abs(p - points[k]));
+  const ratios = legs.slice(2).map((leg, k) => leg / legs[k]);
+  if (ratios.every(ratio => ratio < 1)) return 'contracting';
+  if (ratios.every(ratio => ratio > 1)) return 'expanding';
+  return undefined;
+};
+
+/**
+ * Leading diagonals only appear in wave 1 or A, ending diagonals in wave 5 or C
+ */
+const getDiagonalType = (waveNumber: string | number): WaveDiagonal['type'] | undefined => {
+  const label = String(waveNumber);
+  if (label === '1' || label === 'A') return 'leading';
+  if (label === '5' || label === 'C') return 'ending';
+  return undefined;
+};
+
+/**
+ * Classify a correction from the prices of its leg endpoints
+ * Prices are normalized so that the first leg moves upward
+ *
+ * Three legs are told apart by how far B retraces A and whether C clears the end of A.
+ * Five legs form a triangle when their highs and lows converge (contracting) or diverge
+ * (expanding). Seven legs form a W-X-Y combination: two threes joined by an X wave that
+ * stays short of the start of W.
+ *
+ * @param points - Normalized prices: correction start, then each leg end (or current price)
+ * @param isComplete - Whether the last point is a confirmed end rather than the current price
+ * @param legCount - Number of legs in the finished pattern
+ * @returns The pattern, or undefined if the known legs don't fit one yet
+ */
+const classifyCorrection = (
+  points: number[],
+  isComplete: boolean,
+  legCount: 3 | 5 | 7 = 3
+): CorrectionPattern | undefined => {
+  const lastKnown = isComplete ? points.length - 1 : points.length - 2;
+  if (points.length - 1 > legCount || (isComplete && points.length - 1 !== legCount)) return undefined;
+  if (lastKnown < 2) return undefined;
+
+  // Legs alternate: odd points are highs, even points lows
+  for (let k = 1; k <= lastKnown; k++) {
+    if ((k % 2 === 1) !== (points[k] > points[k - 1])) return undefined;
+  }
+
+  if (legCount === 3) {
+    const bRetracement = (points[1] - points[2]) / (points[1] - points[0]);
+    const cBeyondA = lastKnown >= 3 ? points[3] > points[1] : undefined;
+
+    if (bRetracement < FLAT_B_RETRACEMENT) return cBeyondA === false ? undefined : 'zigzag';
+    if (bRetracement <= EXPANDED_B_RETRACEMENT) return 'regular_flat';
+    return cBeyondA === false ? 'running_flat' : 'expanded_flat';
+  }
+
+  if (legCount === 5) {
+    // Need A through D before the legs can be said to converge or diverge
+    if (lastKnown < 4) return undefined;
+
+    const legs = points.slice(1, lastKnown + 1).map((p, k) => Math.abs(p - points[k]));
+    if (Math.min(...legs) < Math.max(...legs) * MIN_TRIANGLE_LEG_RATIO) return undefined;
+
+    // Each pair [i, j] requires points[i] > points[j]
+    const holds = (rules: Array<[number, number]>) =>
+      rules.every(([i, j]) => Math.max(i, j) > lastKnown || points[i] > points[j]);
+
+    if (holds([[1, 3], [3, 5], [2, 0], [4, 2]])) return 'contracting_triangle';
+    if (holds([[3, 1], [5, 3], [0, 2], [2, 4]])) return 'expanding_triangle';
+    return undefined;
+  }
+
+  // W-X-Y: W and Y must each be a three, and X can't retrace all of W
+  if (lastKnown < 6) return undefined;
+  if (!classifyCorrection(points.slice(0, 4), true, 3)) return undefined;
+  if (points[4] <= points[0]) return undefined;
+  return classifyCorrection(points.slice(4), isComplete, 3) ? 'wxy' : undefined;
+};
+
+// Pivots inside a wave that are candidates for subwave boundaries
+interface SubwaveSearch {
+  candidates: ZigzagPoint[];
+  direction: 1 | -1;
+  startTimestamp: number;
+  startPrice: number;
+  endPrice: number;
+  isComplete: boolean;
+  barCount: number;
+}
+
+// Start of each leg of an accepted subdivision, and the normalized points that passed
+interface SubwaveDivision {
+  boundaries: Array<{ timestamp: number; price: number }>;
+  points: number[];
+}
+
+/**
+ * Index of the first bar at or after a timestamp (-1 if there is none)
+ * Price data is in chronological order, so this is a binary search rather than a scan
+ */
+const findBarIndex = (data: StockHistoricalData[], timestamp: number): number => {
+  let low = 0;
+  let high = data.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (data[mid].timestamp < timestamp) low = mid + 1;
+    else high = mid;
+  }
+  return low < data.length ? low : -1;
+};
+
+/**
+ * Collect the candidate pivots inside a wave
+ * Pivots are found with the finest threshold that keeps the candidate count small
+ *
+ * @param wave - Wave to search inside
+ * @param data - Full-resolution price data covering the wave
+ * @returns Search context, or null if the wave can't be located in the data
+ */
+const prepareSubwaveSearch = (wave: Wave, data: StockHistoricalData[]): SubwaveSearch | null => {
+  const startIndex = findBarIndex(data, wave.startTimestamp);
+  const endIndex = wave.endTimestamp
+    ? findBarIndex(data, wave.endTimestamp)
+    : data.length - 1;
+
+  if (startIndex === -1 || endIndex === -1 || endIndex <= startIndex) return null;
+
+  const isComplete = wave.isComplete && wave.endPrice !== undefined;
+  const endPrice = isComplete ? wave.endPrice! : data[endIndex].close;
+
+  // Raise the threshold until the search stays small
+  const segment = data.slice(startIndex, endIndex + 1);
+  let threshold = 0.002;
+  let candidates = findPivotsWithThreshold(segment, threshold).filter(p => p.type === 'peak' || p.type === 'trough');
+  while (candidates.length > MAX_SUBWAVE_CANDIDATES) {
+    threshold *= 1.5;
+    candidates = findPivotsWithThreshold(segment, threshold).filter(p => p.type === 'peak' || p.type === 'trough');
+  }
+
+  return {
+    candidates,
+    direction: endPrice >= wave.startPrice ? 1 : -1,
+    startTimestamp: wave.startTimestamp,
+    startPrice: wave.startPrice,
+    endPrice,
+    isComplete,
+    barCount: endIndex - startIndex
+  };
+};
+
+/**
+ * Find the subdivision of a wave into `legCount` legs that best satisfies `accept`
+ *
+ * Every ordered combination of candidate pivots is checked, and the accepted one with
+ * the deepest counter-trend legs wins. In-progress waves may stop short (down to
+ * `minBoundaries` internal pivots), with the last leg left incomplete.
+ *
+ * @param search - Candidate pivots inside the wave
+ * @param legCount - Number of legs in a complete subdivision
+ * @param accept - Rule check on the normalized points (parent moving upward)
+ * @param minBoundaries - Fewest internal pivots accepted for an in-progress wave
+ * @returns The best subdivision, or null if none is accepted
+ */
+const findSubdivision = (
+  search: SubwaveSearch,
+  legCount: number,
+  accept: (points: number[], isComplete: boolean) => boolean,
+  minBoundaries: number = 1
+): SubwaveDivision | null => {
+  const { candidates, direction, startPrice, endPrice, isComplete } = search;
+  if (search.barCount < legCount * MIN_BARS_PER_SUBWAVE) return null;
+
+  // Odd legs end at extremes in the parent's direction, even ones against it
+  const priceFor = (pivot: ZigzagPoint, position: number): number => {
+    const withTrend = position % 2 === 1;
+    return (withTrend === (direction === 1)) ? pivot.high : pivot.low;
+  };
+
+  // Complete waves need every leg; in-progress waves accept the longest partial count
+  const targets = isComplete
+    ? [legCount - 1]
+    : Array.from({ length: legCount - minBoundaries }, (_, i) => legCount - 1 - i);
+
+  let best: { chosen: number[]; points: number[]; score: number } | null = null;
+
+  for (const target of targets) {
+    const visit = (from: number, chosen: number[]) => {
+      if (chosen.length === target) {
+        const points = [
+          direction * startPrice,
+          ...chosen.map((c, k) => direction * priceFor(candidates[c], k + 1)),
+          direction * endPrice
+        ];
+        if (!accept(points, isComplete)) return;
+
+        // Prefer the subdivision whose counter-trend legs are deepest
+        let score = 0;
+        for (let k = 2; k < points.length - 1; k += 2) {
+          score += points[k - 1] - points[k];
+        }
+        if (!best || score > best.score) best = { chosen, points, score };
+        return;
+      }
+      for (let c = from; c < candidates.length; c++) {
+        visit(c + 1, [...chosen, c]);
+      }
+    };
+    visit(0, []);
+    if (best) break;
+  }
+
+  if (!best) return null;
+
+  return {
+    boundaries: [
+      { timestamp: search.startTimestamp, price: startPrice },
+      ...best.chosen.map((c, k) => ({ timestamp: candidates[c].timestamp, price: priceFor(candidates[c], k + 1) }))
+    ],
+    points: best.points
+  };
+};
+
+/**
+ * Find the best subdivision of a corrective wave and the pattern it forms
+ *
+ * Triangles are tried first, since converging (or diverging) legs rarely line up by
+ * chance. Otherwise the wave is counted A-B-C and classified from its leg ratios. A
+ * zigzag whose first leg won't count as a five is really two threes, so a W-X-Y
+ * combination is preferred when one fits.
+ *
+ * @param search - Candidate pivots inside the wave
+ * @param data - Full-resolution price data covering the wave
+ * @returns Subdivision with subwave labels and pattern (division is null if nothing fits)
+ */
+const findCorrectionSubdivision = (
+  search: SubwaveSearch,
+  data: StockHistoricalData[]
+): { division: SubwaveDivision | null; labels: Array<number | string>; pattern?: CorrectionPattern } => {
+  const triangle = findSubdivision(search, 5, (points, isComplete) => !!classifyCorrection(points, isComplete, 5), 4);
+  if (triangle) {
+    return {
+      division: triangle,
+      labels: ['A', 'B', 'C', 'D', 'E'],
+      pattern: classifyCorrection(triangle.points, search.isComplete, 5)
+    };
+  }
+
+  // With only A finished there is nothing to classify yet
+  const threes = findSubdivision(search, 3, (points, isComplete) =>
+    !isComplete && points.length === 3 ? points[1] > points[0] : !!classifyCorrection(points, isComplete, 3)
+  );
+  const pattern = threes ? classifyCorrection(threes.points, search.isComplete, 3) : undefined;
+
+  const opensWithFive = (division: SubwaveDivision): boolean => {
+    if (division.boundaries.length < 2) return true;
+    const [start, end] = division.boundaries;
+    const firstLeg = prepareSubwaveSearch({
+      number: 'A',
+      startTimestamp: start.timestamp,
+      startPrice: start.price,
+      endTimestamp: end.timestamp,
+      endPrice: end.price,
+      type: 'impulse',
+      isComplete: true
+    }, data);
+    // Too short to subdivide, so give the zigzag the benefit of the doubt
+    return !firstLeg || firstLeg.barCount < 5 * MIN_BARS_PER_SUBWAVE || !!findSubdivision(firstLeg, 5, isValidSubwaveSequence);
+  };
+
+  if (!threes || (pattern === 'zigzag' && !opensWithFive(threes))) {
+    const combination = findSubdivision(search, 7, (points, isComplete) => !!classifyCorrection(points, isComplete, 7), 6);
+    if (combination) {
+      // W spans the first three legs, X the fourth and Y the rest
+      return {
+        division: { ...combination, boundaries: [0, 3, 4].map(k => combination.boundaries[k]) },
+        labels: ['W', 'X', 'Y'],
+        pattern: 'wxy'
+      };
+    }
+  }
+
+  return { division: threes, labels: ['A', 'B', 'C'], pattern };
+};
+
+/**
+ * Recursively count the subwaves inside a wave (Primary -> Intermediate -> Minor)
+ *
+ * Motive waves are counted 1-5 against the impulse rules. Corrective waves are matched
+ * against triangles, W-X-Y combinations and A-B-C zigzags/flats, and the pattern found
+ * decides how each of their legs subdivides in turn.
+ *
+ * @param wave - Wave to subdivide
+ * @param data - Full-resolution price data covering the wave
+ * @param depth - Degree index of the wave (0 = Primary)
+ * @param verbose - Whether to log debug info
+ * @param subwaveCount - Override for the number of subwaves (set by the parent's pattern)
+ * @returns Copy of the wave with its degree, subwaves and correction pattern attached
+ */
+const labelSubwaves = (
+  wave: Wave,
+  data: StockHistoricalData[],
+  depth: number = 0,
+  verbose: boolean = false,
+  subwaveCount?: 3 | 5
+): Wave => {
+  if (!wave || wave.number === 0) return wave;
+
+  const labelled: Wave = { ...wave, degree: WAVE_DEGREES[depth] };
+
+  // Minor is the smallest degree we count
+  if (depth >= WAVE_DEGREES.length - 1 || !wave.startPrice) return labelled;
+
+  const search = prepareSubwaveSearch(wave, data);
+  if (!search) return labelled;
+
+  const count = subwaveCount ?? getSubwaveCount(wave.number);
+  let { division, labels, pattern } = count === 5
+    ? { division: findSubdivision(search, 5, isValidSubwaveSequence), labels: [1, 2, 3, 4, 5], pattern: undefined }
+    : findCorrectionSubdivision(search, data);
+
+  // Waves 1, A, 5 and C that don't count as impulses may be diagonals instead
+  let diagonal: WaveDiagonal | undefined;
+  const diagonalType = count === 5 ? getDiagonalType(wave.number) : undefined;
+  if (!division && diagonalType) {
+    division = findSubdivision(search, 5, (points, isComplete) => !!getDiagonalShape(points, isComplete), 4);
+    if (division) {
+      const [, end1, end2, end3, end4] = division.boundaries;
+      diagonal = {
+        type: diagonalType,
+        shape: getDiagonalShape(division.points, search.isComplete)!,
+        trendline: [end1, end3],
+        counterTrendline: [end2, end4]
+      };
+    }
+  }
+
+  if (!division) {
+    if (verbose) console.log(`No valid ${count}-wave subdivision found for wave ${wave.number} (${WAVE_DEGREES[depth]})`);
+    return labelled;
+  }
+
+  const { boundaries } = division;
+  const isComplete = search.isComplete;
+
+  const subwaves: Wave[] = boundaries.map((boundary, k) => {
+    const next = boundaries[k + 1];
+    const subwave: Wave = {
+      number: labels[k],
+      startTimestamp: boundary.timestamp,
+      startPrice: boundary.price,
+      type: determineWaveType(labels[k]),
+      isComplete: !!next || isComplete,
+      isImpulse: isImpulseWave(labels[k])
+    };
+    if (next) {
+      subwave.endTimestamp = next.timestamp;
+      subwave.endPrice = next.price;
+    } else if (isComplete) {
+      subwave.endTimestamp = wave.endTimestamp;
+      subwave.endPrice = wave.endPrice;
+    }
+    // Every leg of an ending diagonal is a three
+    const legCount = diagonal?.type === 'ending' ? 3 : getCorrectionLegCount(pattern, labels[k]);
+    return labelSubwaves(subwave, data, depth + 1, verbose, legCount);
+  });
+
+  if (verbose) console.log(`Wave ${wave.number} (${WAVE_DEGREES[depth]}) subdivided into ${subwaves.map(w => w.number).join('-')}${pattern ? ` (${pattern})` : ''}${diagonal ? ` (${diagonal.type} diagonal)` : ''}`);
+
+  return { ...labelled, subwaves, pattern: pattern ?? wave.pattern, diagonal: diagonal ?? wave.diagonal };
+};
+
+/**
+ * Recognize correction patterns among a count's top-level waves
+ *
+ * A wave 4 triangle is easily mistaken for waves 4-5-A-B-C, since each of its five legs
+ * gets counted as a wave of its own. When those legs converge (or diverge) and stay out
+ * of Wave 1 territory, they are merged back into a single Wave 4 and the rest of the
+ * count is relabeled. A-B-C corrections are then tagged with the pattern they form.
+ *
+ * @param waves - Top-level waves in chronological order
+ * @param currentPrice - Latest close, used as the end of a wave still in progress
+ * @returns Waves with triangles merged and corrections tagged
+ */
+const identifyCorrectionPatterns = (waves: Wave[], currentPrice: number): Wave[] => {
+  let result = [...waves];
+  const endOf = (wave: Wave) => wave.endPrice ?? currentPrice;
+
+  for (let i = 2; i < result.length; i++) {
+    const wave3 = result[i];
+    const wave1 = result[i - 2];
+    const legs = result.slice(i + 1, i + 6);
+    if (wave3.number !== 3 || wave1.number !== 1 || wave1.endPrice === undefined || wave3.endPrice === undefined) continue;
+    if (legs.map(w => w.number).join() !== '4,5,A,B,C') continue;
+
+    // Normalize so the triangle's first leg (against Wave 3) moves upward
+    const normalize = wave3.endPrice > wave3.startPrice ? -1 : 1;
+    const lastLeg = legs[legs.length - 1];
+    const isComplete = lastLeg.isComplete && lastLeg.endPrice !== undefined;
+    const points = [legs[0].startPrice, ...legs.map(endOf)].map(p => p * normalize);
+
+    const pattern = classifyCorrection(points, isComplete, 5);
+    if (!pattern) continue;
+
+    // A fourth-wave triangle still may not overlap Wave 1
+    if (Math.max(...points) >= wave1.endPrice * normalize) continue;
+
+    const triangle: Wave = {
+      number: 4,
+      startTimestamp: legs[0].startTimestamp,
+      startPrice: legs[0].startPrice,
+      endTimestamp: lastLeg.endTimestamp,
+      endPrice: lastLeg.endPrice,
+      type: 'corrective',
+      isComplete,
+      isImpulse: false,
+      pattern,
+      subwaves: legs.map((leg, k) => ({
+        ...leg,
+        number: ['A', 'B', 'C', 'D', 'E'][k],
+        type: 'corrective' as const,
+        isImpulse: false,
+        degree: WAVE_DEGREES[1]
+      }))
+    };
+
+    // Waves after the triangle continue the cycle from Wave 5
+    const following = result.slice(i + 6).map((wave, k) => {
+      const label = WAVE_SEQUENCE[(WAVE_SEQUENCE.indexOf(5) + k) % WAVE_SEQUENCE.length];
+      return { ...wave, number: label, type: determineWaveType(label), isImpulse: isImpulseWave(label) };
+    });
+
+    result = [...result.slice(0, i + 1), triangle, ...following];
+  }
+
+  for (let i = 0; i + 2 < result.length; i++) {
+    const [waveA, waveB, waveC] = result.slice(i, i + 3);
+    if (waveA.number !== 'A' || waveB.number !== 'B' || waveC.number !== 'C') continue;
+    if (waveA.endPrice === undefined || waveB.endPrice === undefined) continue;
+
+    const normalize = waveA.endPrice > waveA.startPrice ? 1 : -1;
+    const pattern = classifyCorrection(
+      [waveA.startPrice, waveA.endPrice, waveB.endPrice, endOf(waveC)].map(p => p * normalize),
+      waveC.isComplete && waveC.endPrice !== undefined
+    );
+    if (!pattern) continue;
+
+    for (let k = i; k < i + 3; k++) {
+      result[k] = { ...result[k], pattern };
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Flag top-level 1-5 sequences that form a diagonal
+ *
+ * These are the sequences whose Wave 4 overlapped Wave 1 and was only kept because the
+ * legs converge or diverge. A diagonal starting from a fresh extreme opens a new trend
+ * (leading); one that follows an advance in its own direction ends it.
+ *
+ * @param waves - Top-level waves in chronological order
+ * @param data - Price data the waves were detected on
+ * @returns Waves with the diagonal attached to every wave of the sequence
+ */
+const identifyDiagonals = (waves: Wave[], data: StockHistoricalData[]): Wave[] => {
+  const result = [...waves];
+  const lastBar = data[data.length - 1];
+  const endOf = (wave: Wave) => ({
+    timestamp: wave.endTimestamp ?? lastBar.timestamp,
+    price: wave.endPrice ?? lastBar.close
+  });
+
+  for (let i = 0; i + 3 < result.length; i++) {
+    if (result.slice(i, i + 4).map(w => w.number).join() !== '1,2,3,4') continue;
+    const legs = result.slice(i, result[i + 4]?.number === 5 ? i + 5 : i + 4);
+    const wave1 = legs[0];
+    const lastLeg = legs[legs.length - 1];
+
+    // An in-progress Wave 4 has already overlapped at the current price
+    const isComplete = legs.length === 4 || (lastLeg.isComplete && lastLeg.endPrice !== undefined);
+    const normalize = endOf(wave1).price >= wave1.startPrice ? 1 : -1;
+    const shape = getDiagonalShape([wave1.startPrice, ...legs.map(w => endOf(w).price)].map(p => p * normalize), isComplete);
+    if (!shape) continue;
+
+    // Look back as far as the diagonal is long
+    const startIndex = findBarIndex(data, wave1.startTimestamp);
+    const endIndex = findBarIndex(data, endOf(lastLeg).timestamp);
+    const before = data.slice(Math.max(0, startIndex - (endIndex - startIndex)), startIndex);
+    const opensTrend = before.every(d => normalize * d.close >= normalize * wave1.startPrice);
+
+    const diagonal: WaveDiagonal = {
+      type: opensTrend ? 'leading' : 'ending',
+      shape,
+      trendline: [endOf(legs[0]), endOf(legs[2])],
+      counterTrendline: [endOf(legs[1]), endOf(legs[3])]
+    };
+    for (let k = i; k < i + legs.length; k++) {
+      result[k] = { ...result[k], diagonal };
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Project where the leg in progress of a correction should end, from its pattern
+ * Zigzags and flats measure C against A, W-X-Y combinations measure Y against W, and
+ * each triangle leg is measured against the leg before it
+ *
+ * @param wave - Corrective wave with its pattern and subwaves attached
+ * @returns Targets for the leg in progress (empty if there's nothing to project)
+ */
+const calculateCorrectionPatternTargets = (wave: Wave): FibTarget[] => {
+  if (!wave.pattern || !wave.subwaves?.length) return [];
+
+  const legs = wave.subwaves;
+  const active = legs.findIndex(leg => !leg.isComplete || leg.endPrice === undefined);
+  const isTriangle = wave.pattern.endsWith('_triangle');
+
+  // Three-leg patterns and combinations can only be projected once their final leg starts
+  if (active <= 0 || (!isTriangle && active !== 2)) return [];
+
+  const activeLeg = legs[active];
+  const reference = isTriangle ? legs[active - 1] : legs[0];
+  if (reference.endPrice === undefined) return [];
+
+  // Triangle legs alternate, so the next leg runs against the one it's measured from
+  const referenceMove = (reference.endPrice - reference.startPrice) * (isTriangle ? -1 : 1);
+  const patternName = CORRECTION_PATTERN_NAMES[wave.pattern];
+
+  return CORRECTION_TARGET_RATIOS[wave.pattern].map(ratio => ({
+    level: ratio,
+    price: activeLeg.startPrice + referenceMove * ratio,
+    label: `${activeLeg.number} = ${+(ratio * 100).toFixed(1)}% of ${reference.number} (${patternName})`,
+    isExtension: ratio > 1,
+    isCritical: ratio === CORRECTION_TARGET_RATIOS[wave.pattern!][0],
+    isFlat: wave.pattern!.endsWith('_flat'),
+    isZigzag: wave.pattern === 'zigzag'
+  }));
+};
+
+/**
+ * Attach multi-degree subwave counts to every wave in an analysis result
+ * 
+ * @param result - Wave analysis result with top-level (Primary) waves
+ * @param data - Full-resolution price data the waves were detected on
+ * @param verbose - Whether to log debug info
+ * @returns Analysis result whose waves carry their degree and subwaves
+ */
+const attachSubwaves = (result: WaveAnalysisResult, data: StockHistoricalData[], verbose: boolean = false): WaveAnalysisResult => ({
+  ...result,
+  waves: result.waves.map(wave => labelSubwaves(wave, data, 0, verbose)),
+  currentWave: result.currentWave ? labelSubwaves(result.currentWave, data, 0, verbose) : result.currentWave
+});
+
+// Guideline ranges for the retracements of waves 2 and 4
+const WAVE2_RETRACEMENT_RANGE = [0.382, 0.786];
+const WAVE4_RETRACEMENT_RANGE = [0.236, 0.5];
+
+// Wave 3 is expected to reach at least this multiple of Wave 1
+const WAVE3_EXTENSION_GUIDELINE = 1.618;
+
+// Waves 2 and 4 alternate in depth when their retracements differ by at least this much
+const MIN_ALTERNATION_DEPTH = 0.15;
+
+// Common Fibonacci relationships between waves of the same sequence
+const WAVE3_FIB_RATIOS = [1, 1.618, 2.618];
+const WAVE5_EQUALITY_RATIOS = [0.618, 1];
+const WAVE_C_FIB_RATIOS = [0.618, 1, 1.618];
+
+// How far (relative to the level) a ratio may sit from a Fibonacci level and still count as on it
+const FIB_RATIO_TOLERANCE = 0.08;
+
+// How far Wave 5 may finish from the 2-4 channel line, relative to its projected length
+const CHANNEL_TOLERANCE = 0.25;
+
+// Guidelines a count must be checked against before it can earn full guideline credit
+const MIN_GUIDELINE_EVIDENCE = 6;
+
+// Confidence bands used for WaveAnalysis.confidenceLevel
+const CONFIDENCE_LEVELS = { high: 70, medium: 40 };
+
+/**
+ * Check the Elliott Wave rules and guidelines for every sequence in a count
+ * Broken rules fail; guidelines that aren't met only warn
+ * 
+ * @param waves - Waves of a single count, in chronological order
+ * @returns Checks for each wave (parallel to `waves`), with the ratios and prices that decided them
+ */
+export const evaluateCountRules = (waves: Wave[]): WaveRuleCheck[][] => {
+  const checks: WaveRuleCheck[][] = waves.map(() => []);
+  
+  // Split the count into sequences, each starting at a Wave 1
+  const sequences: Array<Record<string, number>> = [];
+  waves.forEach((wave, index) => {
+    if (wave.number === 1 || sequences.length === 0) sequences.push({});
+    sequences[sequences.length - 1][String(wave.number)] = index;
+  });
+  
+  const lengthOf = (wave: Wave) => Math.abs(wave.endPrice! - wave.startPrice);
+  const percent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+  // Closest of the given Fibonacci levels, and whether the ratio sits on it
+  const nearestFib = (ratio: number, levels: number[]) => {
+    const level = levels.reduce((best, l) => Math.abs(ratio - l) < Math.abs(ratio - best) ? l : best);
+    return { level, onLevel: Math.abs(ratio - level) / level <= FIB_RATIO_TOLERANCE };
+  };
+  // Price on the line through `through`, parallel to the line from `from` to `to`, at a given time
+  const parallelAt = (from: { t: number; p: number }, to: { t: number; p: number }, through: { t: number; p: number }, timestamp: number) => {
+    const slope = (to.p - from.p) / ((to.t - from.t) || 1);
+    return through.p + slope * (timestamp - through.t);
+  };
+  
+  sequences.forEach(sequence => {
+    // Only finished waves can be measured
+    const get = (label: string | number): Wave | undefined => {
+      const wave = waves[sequence[String(label)]];
+      return wave?.endPrice !== undefined ? wave : undefined;
+    };
+    const addCheck = (label: string | number, kind: 'rule' | 'guideline', rule: string, passed: boolean, ratio: number, detail: string) => {
+      const status = passed ? 'pass' : kind === 'rule' ? 'fail' : 'warn';
+      checks[sequence[String(label)]].push({ rule, kind, status, waveNumber: label, ratio, detail });
+    };
+    
+    const [wave1, wave2, wave3, wave4, wave5] = [1, 2, 3, 4, 5].map(get);
+    const [waveA, waveB, waveC] = ['A', 'B', 'C'].map(get);
+    
+    if (wave1) {
+      // Normalize so the impulse always moves upward
+      const direction = wave1.endPrice! >= wave1.startPrice ? 1 : -1;
+      const wave2Retracement = wave2 ? lengthOf(wave2) / lengthOf(wave1) : undefined;
+      const wave4Retracement = wave3 && wave4 ? lengthOf(wave4) / lengthOf(wave3) : undefined;
+      
+      if (wave2) {
+        addCheck(2, 'rule', 'Wave 2 never retraces beyond the start of Wave 1',
+          direction * (wave2.endPrice! - wave1.startPrice) > 0, wave2Retracement,
+          `Wave 2 ended at ${wave2.endPrice!.toFixed(2)}, Wave 1 started at ${wave1.startPrice.toFixed(2)} (${percent(wave2Retracement)} retracement)`);
+        addCheck(2, 'guideline', `Wave 2 retraces ${percent(WAVE2_RETRACEMENT_RANGE[0])}-${percent(WAVE2_RETRACEMENT_RANGE[1])} of Wave 1`,
+          wave2Retracement >= WAVE2_RETRACEMENT_RANGE[0] && wave2Retracement <= WAVE2_RETRACEMENT_RANGE[1], wave2Retracement,
+          `Wave 2 retraced ${percent(wave2Retracement)} of Wave 1`);
+      }
+      
+      if (wave3) {
+        const extension = lengthOf(wave3) / lengthOf(wave1);
+        addCheck(3, 'rule', 'Wave 3 extends beyond the end of Wave 1',
+          direction * (wave3.endPrice! - wave1.endPrice!) > 0, extension,
+          `Wave 3 ended at ${wave3.endPrice!.toFixed(2)}, Wave 1 ended at ${wave1.endPrice!.toFixed(2)}`);
+        addCheck(3, 'guideline', `Wave 3 reaches at least ${percent(WAVE3_EXTENSION_GUIDELINE)} of Wave 1`,
+          extension >= WAVE3_EXTENSION_GUIDELINE, extension,
+          `Wave 3 is ${percent(extension)} of Wave 1`);
+        const fib = nearestFib(extension, WAVE3_FIB_RATIOS);
+        addCheck(3, 'guideline', 'Wave 3 is a Fibonacci multiple of Wave 1',
+          fib.onLevel, extension,
+          `Wave 3 is ${percent(extension)} of Wave 1 (nearest level ${percent(fib.level)})`);
+      }
+      
+      if (wave2 && wave3) {
+        // 0-2 channel: a line from the start of Wave 1 to the end of Wave 2, copied through the end of Wave 1
+        const channel = parallelAt(
+          { t: wave1.startTimestamp, p: wave1.startPrice },
+          { t: wave2.endTimestamp!, p: wave2.endPrice! },
+          { t: wave1.endTimestamp!, p: wave1.endPrice! },
+          wave3.endTimestamp!
+        );
+        const reach = direction * (channel - wave3.startPrice);
+        if (reach > 0) {
+          const ratio = lengthOf(wave3) / reach;
+          addCheck(3, 'guideline', 'Wave 3 breaks out of the 0-2 channel',
+            ratio >= 1, ratio,
+            `Wave 3 ended at ${wave3.endPrice!.toFixed(2)}, the 0-2 channel line was at ${channel.toFixed(2)}`);
+        }
+      }
+      
+      if (wave4) {
+        // Diagonals are the one place the overlap is allowed
+        const overlapAllowed = wave4.diagonal ? ` (allowed in ${wave4.diagonal.type} diagonal)` : '';
+        addCheck(4, 'rule', 'Wave 4 does not overlap Wave 1 price territory',
+          direction * (wave4.endPrice! - wave1.endPrice!) > 0 || !!wave4.diagonal, wave4Retracement,
+          `Wave 4 ended at ${wave4.endPrice!.toFixed(2)}, Wave 1 ended at ${wave1.endPrice!.toFixed(2)}${overlapAllowed}`);
+      }
+      
+      if (wave4Retracement !== undefined) {
+        addCheck(4, 'guideline', `Wave 4 retraces ${percent(WAVE4_RETRACEMENT_RANGE[0])}-${percent(WAVE4_RETRACEMENT_RANGE[1])} of Wave 3`,
+          wave4Retracement >= WAVE4_RETRACEMENT_RANGE[0] && wave4Retracement <= WAVE4_RETRACEMENT_RANGE[1], wave4Retracement,
+          `Wave 4 retraced ${percent(wave4Retracement)} of Wave 3`);
+      }
+      
+      if (wave2Retracement !== undefined && wave4Retracement !== undefined) {
+        // Sharp (zigzag) against sideways (flat, triangle, combination) when both patterns are known,
+        // otherwise a deep retracement against a shallow one
+        const patternsKnown = !!wave2.pattern && !!wave4.pattern;
+        const alternates = patternsKnown
+          ? (wave2.pattern === 'zigzag') !== (wave4.pattern === 'zigzag')
+          : Math.abs(wave2Retracement - wave4Retracement) >= MIN_ALTERNATION_DEPTH;
+        addCheck(4, 'guideline', 'Waves 2 and 4 alternate', alternates, wave4Retracement / wave2Retracement,
+          patternsKnown
+            ? `Wave 2 is a ${CORRECTION_PATTERN_NAMES[wave2.pattern!]}, Wave 4 is a ${CORRECTION_PATTERN_NAMES[wave4.pattern!]}`
+            : `Wave 2 retraced ${percent(wave2Retracement)}, Wave 4 retraced ${percent(wave4Retracement)}`);
+      }
+      
+      if (wave3 && wave5) {
+        const wave1Length = lengthOf(wave1);
+        const wave3Length = lengthOf(wave3);
+        const wave5Length = lengthOf(wave5);
+        addCheck(3, 'rule', 'Wave 3 is not the shortest impulse wave',
+          wave3Length >= wave1Length || wave3Length >= wave5Length, wave3Length / Math.min(wave1Length, wave5Length),
+          `Lengths: Wave 1 ${wave1Length.toFixed(2)}, Wave 3 ${wave3Length.toFixed(2)}, Wave 5 ${wave5Length.toFixed(2)}`);
+        addCheck(5, 'guideline', 'Wave 5 moves beyond the end of Wave 3',
+          direction * (wave5.endPrice! - wave3.endPrice!) > 0, wave5Length / wave1Length,
+          `Wave 5 ended at ${wave5.endPrice!.toFixed(2)}, Wave 3 ended at ${wave3.endPrice!.toFixed(2)} (Wave 5 is ${percent(wave5Length / wave1Length)} of Wave 1)`);
+        
+        // Equality only applies when Wave 3 is the extended wave
+        if (wave3Length / wave1Length >= WAVE3_EXTENSION_GUIDELINE) {
+          const fib = nearestFib(wave5Length / wave1Length, WAVE5_EQUALITY_RATIOS);
+          addCheck(5, 'guideline', 'Wave 5 equals Wave 1 (or 61.8% of it) when Wave 3 extends',
+            fib.onLevel, wave5Length / wave1Length,
+            `Wave 5 is ${percent(wave5Length / wave1Length)} of Wave 1 (nearest level ${percent(fib.level)})`);
+        }
+      }
+      
+      if (wave2 && wave4 && wave5) {
+        // 2-4 channel: a line through the ends of Waves 2 and 4, copied through the end of Wave 3
+        const channel = parallelAt(
+          { t: wave2.endTimestamp!, p: wave2.endPrice! },
+          { t: wave4.endTimestamp!, p: wave4.endPrice! },
+          { t: wave3.endTimestamp!, p: wave3.endPrice! },
+          wave5.endTimestamp!
+        );
+        const projected = direction * (channel - wave5.startPrice);
+        if (projected > 0) {
+          const ratio = lengthOf(wave5) / projected;
+          addCheck(5, 'guideline', 'Wave 5 ends at the 2-4 channel line',
+            Math.abs(ratio - 1) <= CHANNEL_TOLERANCE, ratio,
+            `Wave 5 ended at ${wave5.endPrice!.toFixed(2)}, the 2-4 channel line was at ${channel.toFixed(2)}`);
+        }
+      }
+    }
+    
+    if (waveA && waveB && waveC) {
+      const direction = waveA.endPrice! >= waveA.startPrice ? 1 : -1;
+      // Running flats and triangles stop short of the end of Wave A by definition
+      const stopsShort = waveC.pattern === 'running_flat' || waveC.pattern?.endsWith('_triangle');
+      const ratio = lengthOf(waveC) / lengthOf(waveA);
+      addCheck('C', 'guideline', 'Wave C moves beyond the end of Wave A',
+        direction * (waveC.endPrice! - waveA.endPrice!) > 0 || stopsShort, ratio,
+        `Wave C is ${percent(ratio)} of Wave A${stopsShort ? ` (not expected in a ${CORRECTION_PATTERN_NAMES[waveC.pattern!]})` : ''}`);
+      const fib = nearestFib(ratio, WAVE_C_FIB_RATIOS);
+      addCheck('C', 'guideline', 'Wave C is a Fibonacci multiple of Wave A',
+        fib.onLevel, ratio,
+        `Wave C is ${percent(ratio)} of Wave A (nearest level ${percent(fib.level)})`);
+    }
+  });
+  
+  return checks;
+};
+
+/**
+ * Record each wave's checks on the wave, and the rule that ended each invalidated wave
+ * 
+ * @param result - Candidate analysis result
+ * @param waveRuleChecks - Checks for each of the result's waves
+ * @returns Result whose waves (current and invalidated ones included) carry their checks
+ */
+const attachRuleChecks = (result: WaveAnalysisResult, waveRuleChecks: WaveRuleCheck[][]): WaveAnalysisResult => {
+  const waves = result.waves.map((wave, index) => ({ ...wave, ruleChecks: waveRuleChecks[index] }));
+  const current = result.currentWave;
+  const currentMatch = current && waves.find(w => w.number === current.number && w.startTimestamp === current.startTimestamp);
+  
+  return {
+    ...result,
+    waves,
+    currentWave: currentMatch ? { ...current, ruleChecks: currentMatch.ruleChecks } : current,
+    invalidWaves: result.invalidWaves.map(wave => ({
+      ...wave,
+      ruleChecks: [{
+        rule: wave.invalidationRule || wave.invalidationReason || 'Wave invalidated',
+        kind: 'rule' as const,
+        status: 'fail' as const,
+        waveNumber: wave.number,
+        detail: wave.invalidationPrice !== undefined ? `Invalidated at ${wave.invalidationPrice.toFixed(2)}` : undefined
+      }]
+    }))
+  };
+};
+
+/**
+ * Share of a count's guidelines that are met, out of at least MIN_GUIDELINE_EVIDENCE
+ * so a count with two guidelines met out of two doesn't outrank one with eight out of ten
+ * 
+ * @param ruleChecks - Rule checks for the count's waves
+ * @returns Guideline score between 0 and 1
+ */
+const scoreGuidelines = (ruleChecks: WaveRuleCheck[]): number => {
+  const guidelines = ruleChecks.filter(check => check.kind === 'guideline');
+  const met = guidelines.filter(check => check.status === 'pass').length;
+  return met / Math.max(guidelines.length, MIN_GUIDELINE_EVIDENCE);
+};
+
+/**
+ * Confidence (0-100) that a count is the right one, from its rules and guidelines
+ * A broken rule costs far more than a missed guideline: guidelines only decide
+ * how good a count that follows the rules is
+ * 
+ * @param ruleChecks - Rule checks for the count's waves
+ * @returns Confidence between 0 and 100; 0 when nothing could be checked
+ */
+export const calculateCountConfidence = (ruleChecks: WaveRuleCheck[]): number => {
+  if (ruleChecks.length === 0) return 0;
+  
+  const rules = ruleChecks.filter(check => check.kind !== 'guideline');
+  const rulePass = rules.length > 0
+    ? rules.filter(check => check.status === 'pass').length / rules.length
+    : 0.5;
+  
+  return Math.round(100 * rulePass * rulePass * (0.3 + 0.7 * scoreGuidelines(ruleChecks)));
+};
+
+const confidenceLevelFor = (confidence: number): 'high' | 'medium' | 'low' =>
+  confidence >= CONFIDENCE_LEVELS.high ? 'high' : confidence >= CONFIDENCE_LEVELS.medium ? 'medium' : 'low';
+
+/**
+ * Score a wave count between 0 and 1
+ * Rule compliance carries most of the weight, followed by how much of the
+ * structure was identified, how well it meets the guidelines and how close
+ * the count reaches to the latest bar
+ * 
+ * @param result - Candidate analysis result
+ * @param ruleChecks - Rule checks for the candidate's waves
+ * @param data - Price data the candidate was detected on
+ * @returns Score between 0 and 1
+ */
+const scoreWaveCount = (result: WaveAnalysisResult, ruleChecks: WaveRuleCheck[], data: StockHistoricalData[]): number => {
+  if (result.waves.length === 0) return 0;
+  
+  // Guidelines don't invalidate a count, so they weigh far less than the rules
+  const rules = ruleChecks.filter(check => check.kind !== 'guideline');
+  const passRatio = rules.length > 0
+    ? rules.filter(check => check.status === 'pass').length / rules.length
+    : 0.5; // Too few waves to judge either way
+  
+  const completeness = Math.min(result.waves.length, 8) / 8;
+  
+  const lastWave = result.waves[result.waves.length - 1];
+  const lastDataTimestamp = data[data.length - 1].timestamp;
+  const span = (lastDataTimestamp - data[0].timestamp) || 1;
+  const recency = 1 - Math.min(1, (lastDataTimestamp - (lastWave.endTimestamp ?? lastDataTimestamp)) / span);
+  
+  return passRatio * 0.45 + scoreGuidelines(ruleChecks) * 0.15 + completeness * 0.25 + recency * 0.15;
+};
+
+/**
+ * Rank candidate analyses into scored wave counts and return the best as the primary result
+ * Acceptable candidates always rank above the rest, and a count found at several
+ * thresholds is only kept once
+ * 
+ * @param candidates - Candidate analyses found during the search
+ * @param data - Full-resolution price data (used for scoring and subwaves)
+ * @param verbose - Whether to log debug info
+ * @returns Primary analysis result with the ranked counts attached
+ */
+const buildRankedResult = (candidates: CountCandidate[], data: StockHistoricalData[], verbose: boolean = false): WaveAnalysisResult => {
+  // A direction that found no structure at all isn't worth offering as an alternate
+  const withWaves = candidates.filter(candidate => candidate.result.waves.length > 0);
+  
+  const seen = new Set<string>();
+  const scored = (withWaves.length > 0 ? withWaves : candidates.slice(0, 1))
+    .filter(candidate => {
+      const signature = candidate.result.waves.map(w => `${w.number}@${w.startTimestamp}`).join('|');
+      if (seen.has(signature)) return false;
+      seen.add(signature);
+      return true;
+    })
+    .map(candidate => {
+      // Count subwaves on the full-resolution data first: alternation needs the patterns of waves 2 and 4
+      const result = attachSubwaves(candidate.result, data, verbose);
+      const waveRuleChecks = evaluateCountRules(result.waves);
+      const ruleChecks = waveRuleChecks.flat();
+      return {
+        ...candidate,
+        result: attachRuleChecks(result, waveRuleChecks),
+        ruleChecks,
+        score: scoreWaveCount(result, ruleChecks, data)
+      };
+    })
+    .sort((a, b) => Number(b.acceptable) - Number(a.acceptable) || b.score - a.score);
+  
+  const totalScore = scored.reduce((sum, candidate) => sum + candidate.score, 0);
+  
+  const waveCounts: WaveCount[] = scored.map(candidate => {
+    const result = candidate.result;
+    // The pattern of a correction in progress is only known once its subwaves are counted
+    const patternTargets = result.currentWave ? calculateCorrectionPatternTargets(result.currentWave) : [];
+    return {
+      label: candidate.label,
+      waves: result.waves,
+      invalidWaves: result.invalidWaves,
+      currentWave: result.currentWave || null,
+      fibTargets: [...result.fibTargets, ...patternTargets],
+      trend: result.trend,
+      score: candidate.score,
+      probability: totalScore > 0 ? candidate.score / totalScore : 0,
+      confidence: calculateCountConfidence(candidate.ruleChecks),
+      ruleChecks: candidate.ruleChecks,
+      direction: result.direction
+    };
+  });
+  
+  if (verbose) {
+    waveCounts.forEach((count, rank) => {
+      console.log(`Count #${rank + 1} (${count.label}): ${count.waves.map(w => w.number).join('-')} score=${count.score.toFixed(2)} p=${(count.probability * 100).toFixed(0)}% confidence=${count.confidence}`);
+    });
+  }
+  
+  const primary = waveCounts[0];
+  return {
+    ...scored[0].result,
+    waves: primary.waves,
+    currentWave: primary.currentWave,
+    fibTargets: primary.fibTargets,
+    ruleChecks: primary.ruleChecks,
+    confidence: primary.confidence,
+    confidenceLevel: confidenceLevelFor(primary.confidence),
+    waveCounts
+  };
+};
+
 /**
  * Main function to analyze price data for Elliott Wave patterns
  * 
@@ -1732,6 +2878,8 @@ const cleanupIncompleteWaves = (result: WaveAnalysisResult): WaveAnalysisResult
  * @param isCancelled - Optional function to check if analysis should be cancelled
  * @param onProgress - Optional callback for progress updates
  * @param verbose - Whether to log verbose debug info
+ * @param pivotDetector - How pivots are found: ATR-adaptive swings (default) or fixed percentages
+ * @param options - Optional search overrides (thresholds, second pass)
  * @returns Elliott Wave analysis result
  */
 export const analyzeElliottWaves = async (
@@ -1739,7 +2887,9 @@ export const analyzeElliottWaves = async (
   priceData: StockHistoricalData[],
   isCancelled: () => boolean = () => false,
   onProgress?: (waves: Wave[]) => void,
-  verbose: boolean = false
+  verbose: boolean = false,
+  pivotDetector: PivotDetector = 'atr',
+  options: WaveAnalysisOptions = {}
 ): Promise<WaveAnalysisResult> => {
   // Add validation at the beginning
   const MIN_REQUIRED_POINTS = 50;
@@ -1760,12 +2910,12 @@ export const analyzeElliottWaves = async (
       return generateEmptyAnalysisResult();
     }
 
-    // Calculate price range
+    // Calculate price range (reduce rather than spread, which overflows the stack on long intraday series)
     try {
-      const priceRange = {
-        low: Math.min(...priceData.map(d => d.low)),
-        high: Math.max(...priceData.map(d => d.high))
-      };
+      const priceRange = priceData.reduce(
+        (range, d) => ({ low: Math.min(range.low, d.low), high: Math.max(range.high, d.high) }),
+        { low: Infinity, high: -Infinity }
+      );
       if (verbose) console.log(`Price range: $${priceRange.low.toFixed(2)} to $${priceRange.high.toFixed(2)}`);
     } catch (err) {
       console.error("Error calculating price range:", err);
@@ -1782,20 +2932,28 @@ export const analyzeElliottWaves = async (
     
     if (verbose) console.log(`Valid data points: ${validData.length} of ${priceData.length}`);
     
-    // Reduce data size for performance if needed
-    const processData = validData.length > 250 
-      ? validData.filter((_, i) => i % Math.ceil(validData.length / 250) === 0) 
-      : validData;
-      
-    if (verbose) console.log(`Using ${processData.length} data points for analysis after sampling`);
+    // An unadjusted split would read as a huge wave. The bars before it are rescaled so the series
+    // is continuous and no pivot can be placed on the jump.
+    const discontinuities = findSplitDiscontinuities(validData, options.corporateActions);
+    if (verbose && discontinuities.length > 0) {
+      console.log(`${symbol}: rescaling bars before ${discontinuities.length} split discontinuit${discontinuities.length === 1 ? 'y' : 'ies'}`);
+    }
+    
+    // Every bar is analyzed: sampling could drop the very high or low that ends a wave
+    const processData = removeDiscontinuities(validData, discontinuities);
+    const discontinuityInfo = discontinuities.length > 0 ? { discontinuities } : {};
     
     // Find pivot points using all threshold combinations
     const allPivots = [];
+    const candidates: CountCandidate[] = [];
     
     // Try each threshold combination
-    for (const { max, min } of thresholdCombinations) {
-      if (verbose) console.log(`\n--- Trying threshold combination: ${(max*100).toFixed(1)}% - ${(min*100).toFixed(1)}%`);
-      const pivots = findPivots(processData, max, min, verbose);
+    for (const { max, min } of options.thresholds || thresholdCombinations[pivotDetector]) {
+      const thresholdLabel = pivotDetector === 'atr'
+        ? `Pivots ${max.toFixed(1)}-${min.toFixed(1)}x ATR`
+        : `Pivots ${(max*100).toFixed(1)}%-${(min*100).toFixed(1)}%`;
+      if (verbose) console.log(`\n--- Trying threshold combination: ${thresholdLabel}`);
+      const pivots = findPivots(processData, max, min, verbose, pivotDetector);
       if (verbose) console.log(`Found ${pivots.length} pivot points`);
       allPivots.push(pivots);
       if (pivots.length < 3) {
@@ -1803,125 +2961,138 @@ export const analyzeElliottWaves = async (
         continue;
       }
       
-      // Complete the wave analysis with these pivots
-      let result = completeWaveAnalysis(pivots, processData, undefined, onProgress, verbose);
-      
-      // Ensure incomplete waves don't have endTimestamp or endPrice properties
-      result = cleanupIncompleteWaves(result);
-      
-      // Always attach currentWave and fibTargets for user focus
+      // Always attach currentWave and fibTargets for user focus (the heuristic reads rising patterns only)
       const { currentWave, fibTargets } = getCurrentWaveAndTargets(pivots, processData, verbose);
       
-      // CRITICAL FIX: If we have invalidated waves, try a second pass with different starting points
-      if (result.invalidWaves.length > 0) {
-        if (verbose) console.log(`Found ${result.invalidWaves.length} invalidated waves, trying secondary analysis`);
+      // Count impulses in both directions and let the ranking choose between them
+      for (const direction of ['bullish', 'bearish'] as const) {
+        // Complete the wave analysis with these pivots
+        let result = completeWaveAnalysis([...pivots], processData, undefined, onProgress, verbose, direction);
         
-        // Find the most recent invalid Wave 4
-        const invalidWave4 = result.invalidWaves.filter(w => w.number === 4).pop();
+        // Ensure incomplete waves don't have endTimestamp or endPrice properties
+        result = cleanupIncompleteWaves(result);
         
-        if (invalidWave4) {
-          if (verbose) console.log(`Found invalidated Wave 4, attempting to restart pattern search`);
+        // CRITICAL FIX: If we have invalidated waves, try a second pass with different starting points
+        if (result.invalidWaves.length > 0 && options.retryAfterInvalidation !== false) {
+          if (verbose) console.log(`Found ${result.invalidWaves.length} invalidated waves, trying secondary analysis`);
           
-          // Find a good starting point for a new pattern
-          // Typically this should be after Wave 2's end
-          const wave2 = result.waves.filter(w => w.number === 2).pop();
+          // Find the most recent invalid Wave 4
+          const invalidWave4 = result.invalidWaves.filter(w => w.number === 4).pop();
           
-          if (wave2 && wave2.endTimestamp) {
-            // Find the pivot that matches Wave 2's end
-            let restartIndex = -1;
-            for (let i = 0; i < pivots.length; i++) {
-              if (pivots[i].timestamp >= wave2.endTimestamp) {
-                restartIndex = i;
-                break;
-              }
-            }
+          if (invalidWave4) {
+            if (verbose) console.log(`Found invalidated Wave 4, attempting to restart pattern search`);
             
-            if (restartIndex >= 0 && restartIndex < pivots.length - 2) {
-              if (verbose) console.log(`Attempting second pass analysis starting from pivot ${restartIndex}`);
-              
-              // Create a new set of pivots starting from this point
-              const newPivots = pivots.slice(restartIndex);
-              
-              // Try multiple starting positions by shifting our starting point forward
-              // This increases the chance of finding a valid pattern after invalidation
-              let bestSecondPassResult: WaveAnalysisResult | null = null;
-              
-              // Try up to 5 different starting positions within our new pivots
-              for (let shift = 0; shift < Math.min(5, newPivots.length - 3); shift++) {
-                if (verbose) console.log(`Trying second pass with shift of ${shift} pivots`);
-                const shiftedPivots = newPivots.slice(shift);
-                const secondPassAttempt = completeWaveAnalysis(shiftedPivots, processData, undefined, onProgress, verbose);
-                
-                // If this attempt found more waves than our best so far, use it instead
-                if (!bestSecondPassResult || secondPassAttempt.waves.length > bestSecondPassResult.waves.length) {
-                  if (verbose) console.log(`Found better second pass result with ${secondPassAttempt.waves.length} waves`);
-                  bestSecondPassResult = secondPassAttempt;
-                }
-                
-                // If we found a good result (3+ waves), we can stop early
-                if (secondPassAttempt.waves.length >= 3) {
-                  if (verbose) console.log(`Found good second pass with ${secondPassAttempt.waves.length} waves, stopping search`);
+            // Find a good starting point for a new pattern
+            // Typically this should be after Wave 2's end
+            const wave2 = result.waves.filter(w => w.number === 2).pop();
+            
+            if (wave2 && wave2.endTimestamp) {
+              // Find the pivot that matches Wave 2's end
+              let restartIndex = -1;
+              for (let i = 0; i < pivots.length; i++) {
+                if (pivots[i].timestamp >= wave2.endTimestamp) {
+                  restartIndex = i;
                   break;
                 }
               }
               
-              const secondPassResult = bestSecondPassResult || completeWaveAnalysis(newPivots, processData, undefined, onProgress, verbose);
-              
-              // If second pass found valid waves, use it
-              if (secondPassResult.waves.length > 2) {
-                if (verbose) console.log(`Second pass found ${secondPassResult.waves.length} valid waves, using these results`);
+              if (restartIndex >= 0 && restartIndex < pivots.length - 2) {
+                if (verbose) console.log(`Attempting second pass analysis starting from pivot ${restartIndex}`);
                 
-                // Combine the valid waves from first and second pass
-                result.waves = [
-                  ...result.waves.filter(w => w.number < 3), // Keep waves 1-2 from first pass
-                  ...secondPassResult.waves.filter(w => w.number >= 1) // Add all waves from second pass
-                ];
+                // Create a new set of pivots starting from this point
+                const newPivots = pivots.slice(restartIndex);
                 
-                // Update currentWave if second pass found one
-                if (secondPassResult.currentWave && secondPassResult.currentWave.number !== 0) {
-                  result.currentWave = secondPassResult.currentWave;
+                // Try multiple starting positions by shifting our starting point forward
+                // This increases the chance of finding a valid pattern after invalidation
+                let bestSecondPassResult: WaveAnalysisResult | null = null;
+                
+                // Try up to 5 different starting positions within our new pivots
+                for (let shift = 0; shift < Math.min(5, newPivots.length - 3); shift++) {
+                  if (verbose) console.log(`Trying second pass with shift of ${shift} pivots`);
+                  const shiftedPivots = newPivots.slice(shift);
+                  const secondPassAttempt = completeWaveAnalysis(shiftedPivots, processData, undefined, onProgress, verbose, direction);
+                  
+                  // If this attempt found more waves than our best so far, use it instead
+                  if (!bestSecondPassResult || secondPassAttempt.waves.length > bestSecondPassResult.waves.length) {
+                    if (verbose) console.log(`Found better second pass result with ${secondPassAttempt.waves.length} waves`);
+                    bestSecondPassResult = secondPassAttempt;
+                  }
+                  
+                  // If we found a good result (3+ waves), we can stop early
+                  if (secondPassAttempt.waves.length >= 3) {
+                    if (verbose) console.log(`Found good second pass with ${secondPassAttempt.waves.length} waves, stopping search`);
+                    break;
+                  }
                 }
                 
-                // Add any new invalidated waves
-                result.invalidWaves = [...result.invalidWaves, ...secondPassResult.invalidWaves];
+                const secondPassResult = bestSecondPassResult || completeWaveAnalysis(newPivots, processData, undefined, onProgress, verbose, direction);
                 
-                // Use fib targets from second pass
-                result.fibTargets = secondPassResult.fibTargets;
+                // If second pass found valid waves, use it
+                if (secondPassResult.waves.length > 2) {
+                  if (verbose) console.log(`Second pass found ${secondPassResult.waves.length} valid waves, using these results`);
+                  
+                  // Combine the valid waves from first and second pass
+                  result.waves = [
+                    ...result.waves.filter(w => w.number < 3), // Keep waves 1-2 from first pass
+                    ...secondPassResult.waves.filter(w => w.number >= 1) // Add all waves from second pass
+                  ];
+                  
+                  // Update currentWave if second pass found one
+                  if (secondPassResult.currentWave && secondPassResult.currentWave.number !== 0) {
+                    result.currentWave = secondPassResult.currentWave;
+                  }
+                  
+                  // Add any new invalidated waves
+                  result.invalidWaves = [...result.invalidWaves, ...secondPassResult.invalidWaves];
+                  
+                  // Use fib targets from second pass
+                  result.fibTargets = secondPassResult.fibTargets;
+                }
               }
             }
           }
         }
-      }
-      
-      // If we found a good pattern (at least 3 waves) and currentWave is 3, 4, 5, B, or C, return it
-      if (
-        result.waves.length >= 3 &&
-        (currentWave &&
-         (currentWave.number === 3 || currentWave.number === 4 || currentWave.number === 5 || 
-          currentWave.number === 'B' || currentWave.number === 'C') ||
-         result.waves.length >= 4 // Also accept if we have at least 4 waves in total
-        )
-      ) {
-        if (verbose) console.log(`Found valid Elliott Wave pattern with ${result.waves.length} waves and currentWave ${currentWave?.number || 'none'}`);
         
-        // Create final result
-        let finalResult = {
-          ...result,
-          fibTargets: fibTargets.length > 0 ? fibTargets : result.fibTargets
-        };
+        // Bearish counts keep the current wave and targets of their own count
+        const countCurrentWave = direction === 'bullish' ? currentWave : result.currentWave;
+        const countFibTargets = direction === 'bullish' && fibTargets.length > 0 ? fibTargets : result.fibTargets;
         
-        // Clean up the current wave to ensure no endTimestamp/endPrice for incomplete waves
-        if (finalResult.currentWave && !finalResult.currentWave.isComplete) {
-          const { endTimestamp, endPrice, ...waveWithoutEndProperties } = finalResult.currentWave;
-          finalResult.currentWave = waveWithoutEndProperties;
+        // If we found a good pattern (at least 3 waves) and currentWave is 3, 4, 5, B, or C, return it
+        if (
+          result.waves.length >= 3 &&
+          (countCurrentWave &&
+           (countCurrentWave.number === 3 || countCurrentWave.number === 4 || countCurrentWave.number === 5 || 
+            countCurrentWave.number === 'B' || countCurrentWave.number === 'C') ||
+           result.waves.length >= 4 // Also accept if we have at least 4 waves in total
+          )
+        ) {
+          if (verbose) console.log(`Found valid Elliott Wave pattern with ${result.waves.length} waves and currentWave ${countCurrentWave?.number || 'none'}`);
+          
+          // Create final result
+          let finalResult = {
+            ...result,
+            fibTargets: countFibTargets
+          };
+          
+          // Clean up the current wave to ensure no endTimestamp/endPrice for incomplete waves
+          if (finalResult.currentWave && !finalResult.currentWave.isComplete) {
+            const { endTimestamp, endPrice, ...waveWithoutEndProperties } = finalResult.currentWave;
+            finalResult.currentWave = waveWithoutEndProperties;
+          }
+          
+          // Keep it as a candidate and carry on, so the other thresholds can provide alternates
+          candidates.push({ label: `${thresholdLabel} ${direction}`, result: finalResult, acceptable: true });
+        } else {
+          if (verbose) console.log('Current wave is 1 or 2, retrying with next threshold...');
+          candidates.push({ label: `${thresholdLabel} ${direction}`, result, acceptable: false });
         }
-        
-        return finalResult;
-      } else {
-        if (verbose) console.log('Current wave is 1 or 2, retrying with next threshold...');
       }
     }
     
+    if (candidates.some(candidate => candidate.acceptable)) {
+      return { ...buildRankedResult(candidates, processData, verbose), pivotDetector, ...discontinuityInfo };
+    }
+    
     if (verbose) console.log('No valid Elliott Wave patterns found with any threshold, using fallback analysis');
     
     // Find the best pivot set (the one with the most points)
@@ -1929,7 +3100,7 @@ export const analyzeElliottWaves = async (
       current.length > best.length ? current : best, allPivots[0] || []);
     
     // Use our fallback analysis instead of returning an empty result
-    let fallback = fallbackWaveAnalysis(bestPivots || findPivots(processData, 0.01, 0.005, verbose), processData, verbose);
+    let fallback = fallbackWaveAnalysis(bestPivots || findPivots(processData, FALLBACK_THRESHOLDS[pivotDetector].max, FALLBACK_THRESHOLDS[pivotDetector].min, verbose, pivotDetector), processData, verbose);
     
     // Always attach currentWave and fibTargets for user focus
     const { currentWave, fibTargets } = getCurrentWaveAndTargets(bestPivots, processData, verbose);
@@ -1946,7 +3117,16 @@ export const analyzeElliottWaves = async (
       finalResult.currentWave = waveWithoutEndProperties;
     }
     
-    return finalResult;
+    // The fallback is the primary count; partial counts from the thresholds remain as alternates
+    return {
+      ...buildRankedResult(
+        [{ label: 'Fallback', result: finalResult, acceptable: true }, ...candidates],
+        processData,
+        verbose
+      ),
+      pivotDetector,
+      ...discontinuityInfo
+    };
   } catch (error) {
     console.error('Error analyzing Elliott Waves:', error);
     return generateEmptyAnalysisResult();
@@ -0,0 +1,82 @@
+import { Wave, PivotDetector, StockHistoricalData } from '@/types/shared';
+import type { WaveAnalysisResult } from './elliottWaveAnalysis';
+
+interface PendingAnalysis {
+  resolve: (result: WaveAnalysisResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (waves: Wave[]) => void;
+}
+
+// One shared worker; requests are matched to their replies by id
+let analysisWorker: Worker | null = null;
+let nextRequestId = 0;
+const pendingAnalyses = new Map<number, PendingAnalysis>();
+
+const getAnalysisWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+
+  if (!analysisWorker) {
+    analysisWorker = new Worker(new URL('../workers/elliottWave.worker.ts', import.meta.url), { type: 'module' });
+
+    analysisWorker.addEventListener('message', (event) => {
+      const { type, data } = event.data;
+      const pending = pendingAnalyses.get(data.id);
+      if (!pending) return;
+
+      switch (type) {
+        case 'PROGRESS':
+          pending.onProgress?.(data.waves);
+          break;
+        case 'COMPLETE':
+          pendingAnalyses.delete(data.id);
+          pending.resolve(data.result);
+          break;
+        case 'ERROR':
+          pendingAnalyses.delete(data.id);
+          pending.reject(new Error(data.error || 'Elliott Wave analysis failed'));
+          break;
+      }
+    });
+
+    // A crashed worker fails everything in flight; the next request starts a fresh one
+    analysisWorker.addEventListener('error', (event) => {
+      console.error('[ElliottWaveWorker] Worker error:', event.message);
+      pendingAnalyses.forEach(pending => pending.reject(new Error(event.message || 'Elliott Wave worker crashed')));
+      pendingAnalyses.clear();
+      analysisWorker?.terminate();
+      analysisWorker = null;
+    });
+  }
+
+  return analysisWorker;
+};
+
+/**
+ * Run analyzeElliottWaves in a Web Worker so full-resolution history doesn't block the UI
+ * Falls back to analyzing on the calling thread where workers aren't available
+ *
+ * @param symbol - The stock symbol
+ * @param priceData - Historical price data (every bar is analyzed)
+ * @param onProgress - Optional callback for progress updates
+ * @param pivotDetector - Pivot detector to build the counts from
+ * @returns Elliott Wave analysis result
+ */
+export const analyzeElliottWavesInWorker = async (
+  symbol: string,
+  priceData: StockHistoricalData[],
+  onProgress?: (waves: Wave[]) => void,
+  pivotDetector?: PivotDetector
+): Promise<WaveAnalysisResult> => {
+  const worker = getAnalysisWorker();
+
+  if (!worker) {
+    const { analyzeElliottWaves } = await import('./elliottWaveAnalysis');
+    return analyzeElliottWaves(symbol, priceData, () => false, onProgress, false, pivotDetector);
+  }
+
+  const id = nextRequestId++;
+  return new Promise<WaveAnalysisResult>((resolve, reject) => {
+    pendingAnalyses.set(id, { resolve, reject, onProgress });
+    worker.postMessage({ action: 'ANALYZE', payload: { id, symbol, priceData, pivotDetector } });
+  });
+};
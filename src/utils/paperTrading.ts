@@ -0,0 +1,54 @@
+import type { PaperExitReason, PaperPortfolioSummary, PaperPosition } from '../types/shared';
+
+/**
+ * Paper portfolio arithmetic
+ * Shared by the portfolio page and the API worker, which both mark open positions
+ * and close them when the price reaches the stop or target.
+ */
+
+type PositionLevels = Pick<PaperPosition, 'direction' | 'stopPrice' | 'targetPrice'>;
+
+/**
+ * Whether a price closes a position; the stop wins if both somehow apply
+ */
+export function getPositionExit(position: PositionLevels, price: number): Exclude<PaperExitReason, 'manual'> | null {
+  const long = position.direction === 'long';
+  if (position.stopPrice && (long ? price <= position.stopPrice : price >= position.stopPrice)) return 'stop';
+  if (position.targetPrice && (long ? price >= position.targetPrice : price <= position.targetPrice)) return 'target';
+  return null;
+}
+
+export function getPositionPnl(position: Pick<PaperPosition, 'direction' | 'quantity' | 'entryPrice'>, price: number): number {
+  const perShare = position.direction === 'long' ? price - position.entryPrice : position.entryPrice - price;
+  return perShare * position.quantity;
+}
+
+/**
+ * Equity and exposure of a portfolio; open positions without a mark are valued at their entry
+ */
+export function summarizePortfolio(startingCash: number, positions: PaperPosition[]): PaperPortfolioSummary {
+  let realizedPnl = 0;
+  let unrealizedPnl = 0;
+  let longValue = 0;
+  let shortValue = 0;
+
+  for (const position of positions) {
+    if (position.status === 'closed') {
+      realizedPnl += getPositionPnl(position, position.exitPrice ?? position.entryPrice);
+      continue;
+    }
+    const price = position.lastPrice ?? position.entryPrice;
+    unrealizedPnl += getPositionPnl(position, price);
+    if (position.direction === 'long') longValue += position.quantity * price;
+    else shortValue += position.quantity * price;
+  }
+
+  return {
+    startingCash,
+    realizedPnl,
+    unrealizedPnl,
+    equity: startingCash + realizedPnl + unrealizedPnl,
+    grossExposure: longValue + shortValue,
+    netExposure: longValue - shortValue
+  };
+}
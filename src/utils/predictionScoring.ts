@@ -0,0 +1,181 @@
+import type { FibTarget, StockHistoricalData, Wave } from '../types/shared';
+
+/**
+ * Wave prediction snapshots and their scoring
+ * Shared by the app, which records a snapshot after each analysis run,
+ * and the API worker, which scores open snapshots against later bars.
+ */
+
+// Targets not reached within this many bars after the snapshot count as missed
+export const PREDICTION_HORIZON_BARS = 120;
+
+// Where each wave's count is invalidated, when it isn't the wave's own start:
+// wave 2 can't pass the start of wave 1, wave 4 can't enter wave 1's territory,
+// and in a zigzag wave B can't pass the start of wave A
+const INVALIDATION_LEVELS: Record<string, { wave: string; point: 'start' | 'end' }> = {
+  '2': { wave: '1', point: 'start' },
+  '4': { wave: '1', point: 'end' },
+  'B': { wave: 'A', point: 'start' }
+};
+
+export interface PredictionTarget {
+  level: number;
+  label: string;
+  targetPrice: number;
+  isExtension: boolean;
+}
+
+export interface PredictionSnapshot {
+  symbol: string;
+  timeframe: string;
+  asOf: number;               // Timestamp of the last bar the analysis saw
+  price: number;              // Close of that bar
+  trend?: string;
+  waveNumber: string;
+  waveStartPrice: number;
+  waveStartTimestamp: number;
+  confidence?: number;
+  stopLoss: number | null;
+  targets: PredictionTarget[];
+  fingerprint: string;
+}
+
+export type PredictionTargetStatus = 'pending' | 'hit' | 'stopped' | 'missed';
+
+export interface PredictionTargetScore {
+  status: PredictionTargetStatus;
+  hitAt: number | null;
+  barsToHit: number | null;
+}
+
+export interface PredictionScore {
+  closed: boolean;            // Nothing left to score: stop hit, every target resolved, or past the horizon
+  stopHitAt: number | null;
+  barsScored: number;
+  targets: PredictionTargetScore[];
+}
+
+/**
+ * The price that invalidates the current count, or the analysis's own stop loss if it has one
+ */
+export function getPredictionStop(analysis: {
+  waves?: Wave[];
+  currentWave?: Wave | null;
+  stopLoss?: number;
+}): number | null {
+  if (analysis.stopLoss) return analysis.stopLoss;
+
+  const currentWave = analysis.currentWave;
+  if (!currentWave) return null;
+
+  const rule = INVALIDATION_LEVELS[String(currentWave.number)];
+  if (!rule) return currentWave.startPrice;
+
+  const reference = (analysis.waves || [])
+    .filter(wave => String(wave.number) === rule.wave && wave.startTimestamp < currentWave.startTimestamp)
+    .pop();
+  const price = rule.point === 'start' ? reference?.startPrice : reference?.endPrice;
+  return price ?? currentWave.startPrice;
+}
+
+/**
+ * Snapshot of what an analysis predicts, or null if it has no current wave or targets
+ */
+export function buildPredictionSnapshot(
+  symbol: string,
+  timeframe: string,
+  analysis: {
+    waves?: Wave[];
+    currentWave?: Wave | null;
+    fibTargets?: FibTarget[];
+    trend?: string;
+    confidence?: number;
+    stopLoss?: number;
+  },
+  lastBar: StockHistoricalData
+): PredictionSnapshot | null {
+  const currentWave = analysis.currentWave;
+  if (!currentWave || !analysis.fibTargets?.length || !lastBar) return null;
+
+  const targets: PredictionTarget[] = analysis.fibTargets
+    .filter(target => target.price > 0)
+    .map(target => ({
+      level: target.level,
+      label: target.label || String(target.level),
+      targetPrice: target.price,
+      isExtension: !!target.isExtension
+    }));
+  if (targets.length === 0) return null;
+
+  const stopLoss = getPredictionStop(analysis);
+  const fingerprint = [
+    currentWave.number,
+    currentWave.startTimestamp,
+    stopLoss?.toFixed(4) ?? '-',
+    ...targets.map(target => `${target.level}@${target.targetPrice.toFixed(4)}`).sort()
+  ].join('|');
+
+  return {
+    symbol,
+    timeframe,
+    asOf: lastBar.timestamp,
+    price: lastBar.close,
+    trend: analysis.trend,
+    waveNumber: String(currentWave.number),
+    waveStartPrice: currentWave.startPrice,
+    waveStartTimestamp: currentWave.startTimestamp,
+    confidence: analysis.confidence,
+    stopLoss,
+    targets,
+    fingerprint
+  };
+}
+
+/**
+ * Score a snapshot against the bars that came after it
+ * Targets count as hit when a bar trades through them. When one bar reaches both a target
+ * and the stop, the stop is assumed to come first.
+ *
+ * @param bars - Bars sorted by timestamp; those up to asOf are ignored
+ */
+export function scorePrediction(
+  snapshot: { asOf: number; price: number; stopLoss: number | null; targets: { targetPrice: number }[] },
+  bars: StockHistoricalData[],
+  horizonBars: number = PREDICTION_HORIZON_BARS
+): PredictionScore {
+  const later = bars.filter(bar => bar.timestamp > snapshot.asOf).slice(0, horizonBars);
+  const targets: PredictionTargetScore[] = snapshot.targets.map(() => ({ status: 'pending', hitAt: null, barsToHit: null }));
+  const stopBelow = snapshot.stopLoss !== null && snapshot.stopLoss < snapshot.price;
+  let stopHitAt: number | null = null;
+
+  for (let i = 0; i < later.length && stopHitAt === null; i++) {
+    const bar = later[i];
+
+    if (snapshot.stopLoss !== null && (stopBelow ? bar.low <= snapshot.stopLoss : bar.high >= snapshot.stopLoss)) {
+      stopHitAt = bar.timestamp;
+      break;
+    }
+
+    snapshot.targets.forEach((target, index) => {
+      if (targets[index].status !== 'pending') return;
+      const reached = target.targetPrice >= snapshot.price ? bar.high >= target.targetPrice : bar.low <= target.targetPrice;
+      if (reached) {
+        targets[index] = { status: 'hit', hitAt: bar.timestamp, barsToHit: i + 1 };
+      }
+    });
+  }
+
+  const pastHorizon = later.length >= horizonBars;
+  targets.forEach((target, index) => {
+    if (target.status !== 'pending') return;
+    if (stopHitAt !== null) targets[index] = { ...target, status: 'stopped' };
+    else if (pastHorizon) targets[index] = { ...target, status: 'missed' };
+  });
+
+  return {
+    closed: stopHitAt !== null || pastHorizon || targets.every(target => target.status !== 'pending'),
+    stopHitAt,
+    barsScored: later.length,
+    targets
+  };
+}
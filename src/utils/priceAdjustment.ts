@@ -0,0 +1,167 @@
+import type { CorporateAction, PriceAdjustment, PriceDiscontinuity, StockHistoricalData } from '../types/shared';
+
+/**
+ * Corporate-action adjustment of bar series
+ * Bars come from the providers split-adjusted; these helpers turn them into dividend-adjusted
+ * or unadjusted series, and find splits a series wasn't adjusted for.
+ * Shared by the app, the wave engine and the API worker.
+ */
+
+// Split ratios recognised from the jump alone, when no split event is known (forward and reverse).
+// 2-for-1 and 1-for-2 are left out: a stock halving or doubling overnight is a real move often enough.
+const COMMON_SPLIT_RATIOS = [3, 4, 5, 8, 10, 15, 20, 1 / 3, 1 / 4, 1 / 5, 1 / 8, 1 / 10, 1 / 15, 1 / 20];
+
+// How far the jump between two bars may be from a known split's ratio (the stock also trades that day),
+// and from a common ratio when the split isn't known
+const KNOWN_SPLIT_TOLERANCE = 0.15;
+const DETECTED_SPLIT_TOLERANCE = 0.02;
+
+// Bars either side of a jump whose volumes are compared, and how far the volume change may be
+// from the split ratio (a factor) for a jump to count as an unknown split
+const VOLUME_WINDOW_BARS = 5;
+const VOLUME_RATIO_TOLERANCE = 2;
+
+// Scale every bar before `timestamp` by the given factors
+interface ScaleStep {
+  timestamp: number;
+  price: number;
+  volume: number;
+}
+
+/**
+ * Apply scale steps going back from the newest bar, so bars before several steps get all of them
+ * Steps after the newest bar don't apply yet and are ignored.
+ */
+function scaleBefore(bars: StockHistoricalData[], steps: ScaleStep[]): StockHistoricalData[] {
+  if (bars.length === 0) return bars;
+  const lastTimestamp = bars[bars.length - 1].timestamp;
+  const pending = steps
+    .filter(step => step.timestamp <= lastTimestamp && (step.price !== 1 || step.volume !== 1))
+    .sort((a, b) => b.timestamp - a.timestamp);
+  if (pending.length === 0) return bars;
+
+  const result = bars.slice();
+  let price = 1;
+  let volume = 1;
+  let next = 0;
+  for (let i = bars.length - 1; i >= 0; i--) {
+    while (next < pending.length && pending[next].timestamp > bars[i].timestamp) {
+      price *= pending[next].price;
+      volume *= pending[next].volume;
+      next++;
+    }
+    if (price !== 1 || volume !== 1) {
+      const bar = bars[i];
+      result[i] = {
+        ...bar,
+        open: bar.open * price,
+        high: bar.high * price,
+        low: bar.low * price,
+        close: bar.close * price,
+        volume: bar.volume * volume
+      };
+    }
+  }
+  return result;
+}
+
+// Close of the last bar before a timestamp
+const closeBefore = (bars: StockHistoricalData[], timestamp: number): number | null => {
+  for (let i = bars.length - 1; i >= 0; i--) {
+    if (bars[i].timestamp < timestamp) return bars[i].close;
+  }
+  return null;
+};
+
+const median = (values: number[]): number => {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+/**
+ * Whether volume changes at bar `index` by about the price ratio, as it does at a split
+ * (4x the shares trade after a 4-for-1). Series without volume never match.
+ */
+function volumeMatchesSplit(bars: StockHistoricalData[], index: number, ratio: number): boolean {
+  const before = median(bars.slice(Math.max(0, index - VOLUME_WINDOW_BARS), index).map(bar => bar.volume || 0));
+  const after = median(bars.slice(index, index + VOLUME_WINDOW_BARS).map(bar => bar.volume || 0));
+  if (!(before > 0 && after > 0)) return false;
+  const mismatch = (after / before) / ratio;
+  return mismatch >= 1 / VOLUME_RATIO_TOLERANCE && mismatch <= VOLUME_RATIO_TOLERANCE;
+}
+
+/**
+ * Adjust split-adjusted bars for corporate actions
+ * 'split' returns the bars as they are, 'all' also scales prices before each ex-dividend date by
+ * (1 - dividend / previous close), and 'none' undoes the splits (prices up, volume down by each ratio).
+ */
+export function adjustBars(
+  bars: StockHistoricalData[],
+  actions: CorporateAction[],
+  adjustment: PriceAdjustment
+): StockHistoricalData[] {
+  if (adjustment === 'split') return bars;
+
+  const steps: ScaleStep[] = [];
+  for (const action of actions) {
+    if (adjustment === 'none' && action.type === 'split' && action.ratio > 0) {
+      steps.push({ timestamp: action.timestamp, price: action.ratio, volume: 1 / action.ratio });
+    }
+    if (adjustment === 'all' && action.type === 'dividend' && action.amount > 0) {
+      const close = closeBefore(bars, action.timestamp);
+      if (close && close > action.amount) {
+        steps.push({ timestamp: action.timestamp, price: 1 - action.amount / close, volume: 1 });
+      }
+    }
+  }
+  return scaleBefore(bars, steps);
+}
+
+/**
+ * Find jumps between consecutive bars that come from a split the series isn't adjusted for
+ * A known split counts when the jump is close to its ratio. Without one, only a gap that leaves
+ * the bars' ranges apart, sits within 2% of a common split ratio (other than 2 or 1/2) and comes
+ * with a matching change in volume counts, so real crashes and squeezes aren't taken out.
+ */
+export function findSplitDiscontinuities(
+  bars: StockHistoricalData[],
+  actions: CorporateAction[] = []
+): PriceDiscontinuity[] {
+  const splits = actions.filter(action => action.type === 'split' && action.ratio > 0);
+  const discontinuities: PriceDiscontinuity[] = [];
+
+  for (let i = 1; i < bars.length; i++) {
+    const previous = bars[i - 1];
+    const bar = bars[i];
+    if (!(previous.close > 0 && bar.open > 0)) continue;
+
+    // About the split ratio when the series carries the split: 4 for a 4-for-1
+    const jump = previous.close / bar.open;
+    const split = splits.find(action => action.timestamp > previous.timestamp && action.timestamp <= bar.timestamp);
+
+    if (split) {
+      if (Math.abs(jump / split.ratio - 1) <= KNOWN_SPLIT_TOLERANCE) {
+        discontinuities.push({ timestamp: bar.timestamp, factor: 1 / split.ratio, source: 'split' });
+      }
+      continue;
+    }
+
+    const gapped = bar.high < previous.low || bar.low > previous.high;
+    const ratio = gapped && COMMON_SPLIT_RATIOS.find(candidate => Math.abs(jump / candidate - 1) <= DETECTED_SPLIT_TOLERANCE);
+    if (ratio && volumeMatchesSplit(bars, i, ratio)) {
+      discontinuities.push({ timestamp: bar.timestamp, factor: 1 / ratio, source: 'detected' });
+    }
+  }
+
+  return discontinuities;
+}
+
+/**
+ * Rescale the bars before each discontinuity so the series is continuous across it
+ */
+export function removeDiscontinuities(
+  bars: StockHistoricalData[],
+  discontinuities: PriceDiscontinuity[]
+): StockHistoricalData[] {
+  return scaleBefore(bars, discontinuities.map(({ timestamp, factor }) => ({ timestamp, price: factor, volume: 1 / factor })));
+}
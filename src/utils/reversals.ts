@@ -0,0 +1,82 @@
+import type { FibTarget, Wave } from '../types/shared';
+
+// Price within this fraction of a Fibonacci target counts as reaching it
+const FIB_TOUCH_TOLERANCE = 0.005;
+
+// Invalidations older than this are no longer a signal
+const RECENT_INVALIDATION_MS = 24 * 60 * 60 * 1000;
+
+export interface ReversalCandidate {
+  symbol: string;
+  waveNumber: number | string;
+  trend: string;
+  isBearish: boolean;
+  currentPrice: number;
+  targetPrice: number;
+  targetLevel: string;
+  exceededBy: string;
+  nextWave: string;
+}
+
+/**
+ * Potential reversals for one symbol: price sitting on a Fibonacci target,
+ * or the current wave invalidated within the last day.
+ * Shared by the dashboard's ReversalsList and the Telegram bot.
+ */
+export function findReversalCandidates(
+  symbol: string,
+  analysis: { currentWave?: Wave | null; fibTargets?: FibTarget[] } | null,
+  now: number = Date.now()
+): ReversalCandidate[] {
+  const candidates: ReversalCandidate[] = [];
+  if (!analysis?.currentWave || !analysis.fibTargets) return candidates;
+
+  const { currentWave, fibTargets } = analysis;
+
+  // Check for potential reversals at Fibonacci levels
+  fibTargets.forEach(target => {
+    const price = currentWave.endPrice || 0;
+    const targetPrice = target.price;
+    const tolerance = Math.abs(targetPrice * FIB_TOUCH_TOLERANCE);
+
+    if (Math.abs(price - targetPrice) <= tolerance) {
+      // Calculate how much the price has exceeded the target
+      const exceededBy = ((price - targetPrice) / targetPrice * 100).toFixed(2);
+      const isBearish = currentWave.number === 5 || ['B'].includes(String(currentWave.number));
+
+      candidates.push({
+        symbol,
+        waveNumber: currentWave.number,
+        trend: isBearish ? 'bearish' : 'bullish',
+        isBearish,
+        currentPrice: price,
+        targetPrice,
+        targetLevel: target.label,
+        exceededBy: `${exceededBy}%`,
+        nextWave: isBearish ? 'A' : String(Number(currentWave.number) + 1)
+      });
+    }
+  });
+
+  // Check for wave invalidations that could signal reversals
+  const currentWavePrice = currentWave.endPrice;
+  if (currentWavePrice && currentWave.isInvalidated) {
+    // Only show recent invalidations
+    if (now - (currentWave.invalidationTimestamp || 0) < RECENT_INVALIDATION_MS) {
+      const isBearish = [1, 3, 5].includes(Number(currentWave.number));
+      candidates.push({
+        symbol,
+        waveNumber: currentWave.number,
+        trend: isBearish ? 'bearish' : 'bullish',
+        isBearish,
+        currentPrice: currentWavePrice,
+        targetPrice: currentWave.invalidationPrice || currentWavePrice,
+        targetLevel: `Wave ${currentWave.number} Invalidation`,
+        exceededBy: 'Invalidated',
+        nextWave: isBearish ? 'A' : String(Number(currentWave.number) + 1)
+      });
+    }
+  }
+
+  return candidates;
+}
@@ -0,0 +1,152 @@
+import {
+  HISTORY_INTERVAL_MS,
+  type AssetClass,
+  type FibTarget,
+  type HistoryInterval,
+  type ScreenerFilters,
+  type ScreenerSort,
+  type StockData,
+  type WaveAnalysis
+} from '@/types/shared';
+import { ASSET_SESSIONS, getAssetClass } from '@/utils/assetClasses';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// One symbol's wave state and price metrics, as the screener filters and sorts them.
+// Price metrics are null when there's no quote for the symbol.
+export interface ScreenerRow {
+  symbol: string;
+  name?: string;
+  wave: string;
+  waveStartTimestamp: number;
+  waveAgeBars: number;
+  trend: 'bullish' | 'bearish' | 'neutral';
+  confidence: number | null;
+  price: number | null;
+  changePercent: number | null;
+  relativeVolume: number | null;
+  rangePosition: number | null;       // 0-100 within the 52-week range
+  nearestTarget: FibTarget | null;
+  fibDistancePct: number | null;
+}
+
+// Trading days after `from` up to and including `to`
+const countTradingDays = (from: number, to: number, tradingDays: number[]): number => {
+  const days = Math.max(0, Math.floor((to - from) / DAY_MS));
+  let count = Math.floor(days / 7) * tradingDays.length;
+  const startDay = new Date(from).getUTCDay();
+  for (let i = 1; i <= days % 7; i++) {
+    if (tradingDays.includes((startDay + i) % 7)) count++;
+  }
+  return count;
+};
+
+/**
+ * Roughly how many bars have formed since a timestamp
+ * Daily and intraday bars only form on the asset class's trading days (stocks and forex on weekdays,
+ * crypto every day; holidays aren't known here), intraday ones through its session hours.
+ * Weekly and monthly bars are counted by their nominal length.
+ */
+export function estimateBarsSince(
+  timestamp: number,
+  timeframe: string,
+  now: number = Date.now(),
+  assetClass: AssetClass = 'stocks'
+): number {
+  const intervalMs = HISTORY_INTERVAL_MS[timeframe as HistoryInterval] || DAY_MS;
+  if (intervalMs >= 7 * DAY_MS) {
+    return Math.max(0, Math.floor((now - timestamp) / intervalMs));
+  }
+  const session = ASSET_SESSIONS[assetClass];
+  const tradingDays = countTradingDays(timestamp, now, session.tradingDays);
+  return intervalMs >= DAY_MS ? tradingDays : Math.floor(tradingDays * session.sessionHours * HOUR_MS / intervalMs);
+}
+
+/**
+ * Build a screener row from a symbol's analysis and (optional) quote
+ * Returns null if the analysis has no waves.
+ */
+export function buildScreenerRow(
+  symbol: string,
+  timeframe: string,
+  analysis: WaveAnalysis,
+  quote?: StockData
+): ScreenerRow | null {
+  const wave = analysis.currentWave || analysis.waves?.[analysis.waves.length - 1];
+  if (!wave || wave.number === undefined || wave.number === null) return null;
+
+  // Older cached analyses stored seconds
+  const waveStartTimestamp = wave.startTimestamp < 4000000000 ? wave.startTimestamp * 1000 : wave.startTimestamp;
+
+  const price = quote?.price ?? quote?.regularMarketPrice ?? null;
+  const volume = quote?.volume ?? quote?.regularMarketVolume;
+  const changePercent = quote?.changePercent ?? quote?.regularMarketChangePercent ?? null;
+  const low = quote?.fiftyTwoWeekLow;
+  const high = quote?.fiftyTwoWeekHigh;
+
+  let nearestTarget: FibTarget | null = null;
+  let fibDistancePct: number | null = null;
+  if (price) {
+    for (const target of analysis.fibTargets || []) {
+      if (!(target.price > 0)) continue;
+      const distance = Math.abs(target.price - price) / price * 100;
+      if (fibDistancePct === null || distance < fibDistancePct) {
+        nearestTarget = target;
+        fibDistancePct = distance;
+      }
+    }
+  }
+
+  return {
+    symbol,
+    name: quote?.name || quote?.shortName,
+    wave: String(wave.number),
+    waveStartTimestamp,
+    waveAgeBars: estimateBarsSince(waveStartTimestamp, timeframe, Date.now(), getAssetClass(symbol)),
+    trend: analysis.trend || 'neutral',
+    confidence: analysis.confidence ?? analysis.waveCounts?.[0]?.confidence ?? null,
+    price,
+    changePercent,
+    relativeVolume: volume && quote?.averageVolume ? volume / quote.averageVolume : null,
+    rangePosition: price && low !== undefined && high > low
+      ? Math.min(100, Math.max(0, (price - low) / (high - low) * 100))
+      : null,
+    nearestTarget,
+    fibDistancePct
+  };
+}
+
+// A value outside [min, max]; missing values fail any bound that's set
+const outside = (value: number | null, min?: number, max?: number): boolean =>
+  (min !== undefined && (value === null || value < min)) ||
+  (max !== undefined && (value === null || value > max));
+
+export function matchesScreen(row: ScreenerRow, filters: ScreenerFilters): boolean {
+  if (filters.waves?.length && !filters.waves.includes(row.wave)) return false;
+  if (filters.trends?.length && !filters.trends.includes(row.trend)) return false;
+  return !(
+    outside(row.waveAgeBars, filters.minWaveAgeBars, filters.maxWaveAgeBars) ||
+    outside(row.fibDistancePct, undefined, filters.maxFibDistancePct) ||
+    outside(row.confidence, filters.minConfidence) ||
+    outside(row.changePercent, filters.minChangePercent, filters.maxChangePercent) ||
+    outside(row.relativeVolume, filters.minRelativeVolume) ||
+    outside(row.rangePosition, filters.minRangePosition, filters.maxRangePosition)
+  );
+}
+
+/**
+ * Filter and sort screener rows; rows missing the sort value go last either way
+ */
+export function runScreen(rows: ScreenerRow[], filters: ScreenerFilters, sort: ScreenerSort): ScreenerRow[] {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return rows
+    .filter(row => matchesScreen(row, filters))
+    .sort((a, b) => {
+      if (sort.key === 'symbol') return sign * a.symbol.localeCompare(b.symbol);
+      const left = a[sort.key];
+      const right = b[sort.key];
+      if (left === null || right === null) return (left === null ? 1 : 0) - (right === null ? 1 : 0);
+      return sign * (left - right) || a.symbol.localeCompare(b.symbol);
+    });
+}
@@ -0,0 +1,119 @@
+import { Wave, WaveRuleCheck, TimeframeAlignment } from '@/types/shared';
+import type { WaveAnalysisResult } from './elliottWaveAnalysis';
+
+// Timeframes compared by the multi-timeframe view, from the highest degree down
+export const ALIGNMENT_TIMEFRAMES: Array<{ timeframe: string; label: string }> = [
+  { timeframe: '1wk', label: 'Weekly' },
+  { timeframe: '1d', label: 'Daily' },
+  { timeframe: '1h', label: 'Hourly' }
+];
+
+export interface TimeframeCount {
+  label: string;                    // e.g. 'Weekly'
+  analysis: WaveAnalysisResult;
+}
+
+// Waves that subdivide into five: the motive waves, plus A and C of a zigzag
+const subdividesIntoFive = (waveNumber: string | number): boolean =>
+  typeof waveNumber === 'number' ? waveNumber % 2 === 1 : waveNumber === 'A' || waveNumber === 'C';
+
+// Whether a wave rises, given the direction of the impulse its count is built on
+const waveRises = (waveNumber: string | number, direction: 'bullish' | 'bearish' = 'bullish'): boolean => {
+  const movesWithImpulse = typeof waveNumber === 'number' ? waveNumber % 2 === 1 : waveNumber === 'B';
+  return movesWithImpulse === (direction === 'bullish');
+};
+
+// Every wave of a count, including the one in progress, oldest first
+const countWaves = (analysis: WaveAnalysisResult): Wave[] => {
+  const waves = [...(analysis.waves || [])];
+  const current = analysis.currentWave;
+  if (current && current.number !== 0 &&
+      !waves.some(w => w.number === current.number && w.startTimestamp === current.startTimestamp)) {
+    waves.push(current);
+  }
+  return waves.sort((a, b) => a.startTimestamp - b.startTimestamp);
+};
+
+/**
+ * Check that the count on a lower timeframe nests inside the wave in progress on a higher one
+ * Waves that subdivide into five (1, 3, 5, A, C) should hold a lower-degree impulse moving
+ * the same way, while waves 2, 4 and B should hold an A-B-C correction
+ *
+ * @param higher - Count on the higher timeframe
+ * @param lower - Count on the next timeframe down
+ * @returns Structure, direction and (when the lower history reaches back far enough) start checks
+ */
+const checkNesting = (higher: TimeframeCount, lower: TimeframeCount): WaveRuleCheck[] => {
+  const pair = `${higher.label} → ${lower.label}`;
+  const higherWaves = countWaves(higher.analysis);
+  const lowerWaves = countWaves(lower.analysis);
+  const outer = higherWaves[higherWaves.length - 1];
+  const active = lowerWaves[lowerWaves.length - 1];
+
+  if (!outer || !active) {
+    return [{
+      rule: `${pair}: counts available`,
+      status: 'fail',
+      detail: `${!outer ? higher.label : lower.label} count has no waves`
+    }];
+  }
+
+  const outerName = `${higher.label} wave ${outer.number}`;
+  const expectsFive = subdividesIntoFive(outer.number);
+  const outerRises = waveRises(outer.number, higher.analysis.direction);
+
+  const lowerIsImpulse = typeof active.number === 'number';
+  const lowerDirection = lower.analysis.direction ?? 'bullish';
+  // An impulse moves with the count's direction, a correction against it
+  const lowerRises = lowerIsImpulse === (lowerDirection === 'bullish');
+  const lowerName = lower.label.toLowerCase();
+
+  const checks: WaveRuleCheck[] = [
+    {
+      rule: `${pair}: structure`,
+      status: lowerIsImpulse === expectsFive ? 'pass' : 'fail',
+      waveNumber: outer.number,
+      detail: `${outerName} should hold ${expectsFive ? 'a five-wave impulse' : 'an A-B-C correction'}; ${lowerName} count is in wave ${active.number}`
+    },
+    {
+      rule: `${pair}: direction`,
+      status: lowerRises === outerRises ? 'pass' : 'fail',
+      waveNumber: outer.number,
+      detail: `${outerName} ${outerRises ? 'rises' : 'falls'}; ${lowerName} ${lowerIsImpulse ? 'impulse' : 'correction'} ${lowerRises ? 'rises' : 'falls'}`
+    }
+  ];
+
+  // The lower count should open its sequence where the higher wave began
+  if (lowerWaves[0].startTimestamp <= outer.startTimestamp) {
+    const opening = lowerWaves.reduce((nearest, wave) =>
+      Math.abs(wave.startTimestamp - outer.startTimestamp) < Math.abs(nearest.startTimestamp - outer.startTimestamp) ? wave : nearest
+    );
+    const expectedOpening = expectsFive ? 1 : 'A';
+
+    checks.push({
+      rule: `${pair}: start`,
+      status: opening.number === expectedOpening ? 'pass' : 'fail',
+      waveNumber: outer.number,
+      detail: `${lower.label} wave ${opening.number} starts nearest ${outerName} (expected wave ${expectedOpening})`
+    });
+  }
+
+  return checks;
+};
+
+/**
+ * Score how consistently wave counts nest across timeframes
+ * e.g. daily waves 1-5 should sit inside weekly wave 3, and rise with it
+ *
+ * @param counts - Counts ordered from the highest timeframe down
+ * @returns Alignment score (0-100) with the checks behind it
+ */
+export const calculateTimeframeAlignment = (counts: TimeframeCount[]): TimeframeAlignment => {
+  const checks = counts.slice(1).flatMap((lower, i) => checkNesting(counts[i], lower));
+  const passed = checks.filter(check => check.status === 'pass').length;
+
+  return {
+    score: checks.length > 0 ? Math.round((passed / checks.length) * 100) : 0,
+    checks
+  };
+};
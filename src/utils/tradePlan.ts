@@ -0,0 +1,80 @@
+import { getPredictionStop } from './predictionScoring';
+import { roundQuantity } from './assetClasses';
+import type { FibTarget, TradePlan, TradePlanTarget, Wave } from '../types/shared';
+
+// Most targets a plan scales out over
+const MAX_PLAN_TARGETS = 3;
+
+export interface TradePlanInput {
+  symbol: string;
+  timeframe: string;
+  analysis: {
+    waves?: Wave[];
+    currentWave?: Wave | null;
+    fibTargets?: FibTarget[];
+    stopLoss?: number;
+  };
+  entry: number;
+  accountSize: number;
+  riskPct: number;          // Of the account, lost if the stop is hit
+}
+
+/**
+ * Turn a wave count into a trade plan: stop at the count's invalidation level,
+ * targets at the nearest Fibonacci levels beyond the entry, and a share count
+ * that risks `riskPct` of the account (whole shares, or fractions of a coin for crypto)
+ *
+ * @returns null if the count has no stop, the stop is at the entry, or no target lies beyond the entry
+ */
+export function buildTradePlan(input: TradePlanInput): TradePlan | null {
+  const { entry, accountSize, riskPct } = input;
+  const stop = getPredictionStop(input.analysis);
+  if (!stop || !(entry > 0) || stop === entry) return null;
+
+  const direction = stop < entry ? 'long' : 'short';
+  const riskPerShare = Math.abs(entry - stop);
+
+  const targetLevels = (input.analysis.fibTargets || [])
+    .filter(target => direction === 'long' ? target.price > entry : target.price > 0 && target.price < entry)
+    .sort((a, b) => Math.abs(a.price - entry) - Math.abs(b.price - entry))
+    .slice(0, MAX_PLAN_TARGETS);
+  if (targetLevels.length === 0) return null;
+
+  // Never size past the account: a tight stop would otherwise call for leverage
+  const riskAmount = accountSize * riskPct / 100;
+  const shares = Math.max(0, Math.min(
+    roundQuantity(riskAmount / riskPerShare, input.symbol),
+    roundQuantity(accountSize / entry, input.symbol)
+  ));
+
+  // Scale out in equal parts, with the remainder on the last target
+  const perTarget = roundQuantity(shares / targetLevels.length, input.symbol);
+  const targets: TradePlanTarget[] = targetLevels.map((target, index) => {
+    const targetShares = index === targetLevels.length - 1 ? Number((shares - perTarget * index).toFixed(8)) : perTarget;
+    return {
+      label: target.label || String(target.level),
+      level: target.level,
+      price: target.price,
+      shares: targetShares,
+      rMultiple: Math.abs(target.price - entry) / riskPerShare
+    };
+  });
+
+  const rewardAmount = targets.reduce((sum, target) => sum + target.shares * Math.abs(target.price - entry), 0);
+
+  return {
+    symbol: input.symbol,
+    timeframe: input.timeframe,
+    direction,
+    waveNumber: input.analysis.currentWave ? String(input.analysis.currentWave.number) : undefined,
+    entry,
+    stop,
+    shares,
+    accountSize,
+    riskPct,
+    riskAmount: shares * riskPerShare,
+    positionValue: shares * entry,
+    blendedR: shares > 0 ? rewardAmount / (shares * riskPerShare) : 0,
+    targets
+  };
+}
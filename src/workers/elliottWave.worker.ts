@@ -0,0 +1,42 @@
+/**
+ * Elliott Wave Analysis Worker
+ *
+ * Runs analyzeElliottWaves off the main thread, so full-resolution history
+ * (multi-year daily or intraday bars) doesn't freeze the UI while it's counted.
+ *
+ * Messages in:  { action: 'ANALYZE', payload: { id, symbol, priceData, pivotDetector } }
+ * Messages out: { type: 'PROGRESS' | 'COMPLETE' | 'ERROR', data: { id, ... } }
+ */
+
+import { analyzeElliottWaves } from '@/utils/elliottWaveAnalysis';
+
+// Typed as a Worker so this compiles under both the DOM and WebWorker libs
+const ctx = self as unknown as Worker;
+
+ctx.addEventListener('message', async (event: MessageEvent) => {
+  const { action, payload } = event.data;
+
+  switch (action) {
+    case 'ANALYZE': {
+      const { id, symbol, priceData, pivotDetector } = payload;
+
+      try {
+        const result = await analyzeElliottWaves(
+          symbol,
+          priceData,
+          () => false,
+          (waves) => ctx.postMessage({ type: 'PROGRESS', data: { id, waves } }),
+          false,
+          pivotDetector
+        );
+        ctx.postMessage({ type: 'COMPLETE', data: { id, result } });
+      } catch (error) {
+        ctx.postMessage({ type: 'ERROR', data: { id, error: error?.message || String(error) } });
+      }
+      break;
+    }
+
+    default:
+      console.warn('[Elliott Wave Worker] Unknown action:', action);
+  }
+});